@@ -1,4 +1,5 @@
 import { test, expect } from '@playwright/test'
+import type { Page } from '@playwright/test'
 
 test.describe('Global Features', () => {
   test.beforeEach(async ({ page }) => {
@@ -280,6 +281,30 @@ test.describe('Global Features', () => {
 
     await page.keyboard.press('Escape')
   })
+
+  test('omnibar search tolerates typos and matches acronyms', async ({ page }) => {
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+
+    const labels = page.locator('.kbd-omnibar-result-label')
+    const input = page.locator('.kbd-omnibar-input')
+
+    // Transposed letters
+    await input.fill('calnedar')
+    await expect(labels.first()).toHaveText('Calendar')
+
+    // Missing letter
+    await input.fill('canvs')
+    await expect(labels.first()).toHaveText('Canvas')
+
+    // Acronym
+    await input.fill('dt')
+    await expect(labels.first()).toHaveText('Data Table')
+
+    await input.press('Enter')
+    await expect(page).toHaveURL('/table')
+  })
 })
 
 test.describe('Data Table Demo', () => {
@@ -897,6 +922,95 @@ test.describe('Data Table Demo', () => {
     // Should be at row 5 (2 + 3)
     await expect(rows.nth(5)).toHaveClass(/selected/)
   })
+
+  test('omnibar drill-down: Page size… lists its choices, picking one applies it', async ({ page }) => {
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+    await page.keyboard.type('page size')
+    await page.locator('.kbd-omnibar-result', { hasText: 'Page size…' }).click()
+
+    // A page of the action's choices, with a breadcrumb
+    await expect(page.locator('.kbd-omnibar-breadcrumb-item')).toHaveText(['Page size…'])
+    const choices = page.locator('.kbd-omnibar-choice')
+    await expect(choices).toHaveText(['10 rows', '20 rows', '50 rows', '100 rows'])
+
+    // The page has its own search
+    const input = page.locator('.kbd-omnibar-input')
+    await input.fill('50')
+    await expect(choices).toHaveText(['50 rows'])
+    await input.press('Enter')
+
+    await expect(page.locator('.kbd-omnibar')).not.toBeVisible()
+    await expect(page.locator('.data-table tbody tr')).toHaveCount(50)
+  })
+
+  test('omnibar drill-down: nested choices, Backspace goes back a page', async ({ page }) => {
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+    await page.keyboard.type('sort by')
+    await page.locator('.kbd-omnibar-result', { hasText: 'Sort by…' }).click()
+
+    const breadcrumb = page.locator('.kbd-omnibar-breadcrumb-item')
+    const choices = page.locator('.kbd-omnibar-choice')
+    await choices.filter({ hasText: 'Value' }).click()
+    await expect(breadcrumb).toHaveText(['Sort by…', 'Value'])
+    await expect(choices).toHaveText(['Ascending', 'Descending'])
+
+    // Backspace in the empty search returns to the parent page
+    await page.locator('.kbd-omnibar-input').press('Backspace')
+    await expect(breadcrumb).toHaveText(['Sort by…'])
+
+    await choices.filter({ hasText: 'Value' }).click()
+    await choices.filter({ hasText: 'Descending' }).click()
+    await expect(page.locator('.kbd-omnibar')).not.toBeVisible()
+    await expect(page.locator('.data-table thead th').nth(2)).toHaveText('Value ↓')
+  })
+
+  test('omnibar query prefixes: hints, "@" rows only, ">" actions only', async ({ page }) => {
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+
+    // Empty query hints at the prefixes (built-in, then the rows endpoint's)
+    await expect(page.locator('.kbd-omnibar-prefix kbd')).toHaveText(['>', '#', '@'])
+
+    const categories = page.locator('.kbd-omnibar-result-category')
+    const input = page.locator('.kbd-omnibar-input')
+
+    // "@" searches only table rows
+    await input.fill('@active')
+    await expect(page.locator('.kbd-omnibar-scope')).toContainText('Table Rows')
+    await expect(categories.filter({ hasText: 'Table Rows' }).first()).toBeVisible()
+    await expect(categories.filter({ hasText: 'Quick Filters' })).toHaveCount(0)
+    await expect(page.locator('.kbd-omnibar-result-label', { hasText: 'Set active' })).toHaveCount(0)
+
+    // Backspace in the empty input removes the scope
+    await input.fill('')
+    await input.press('Backspace')
+    await expect(page.locator('.kbd-omnibar-scope')).not.toBeVisible()
+
+    // ">" searches only actions
+    await input.fill('>active')
+    await expect(page.locator('.kbd-omnibar-scope')).toContainText('Actions')
+    await expect(page.locator('.kbd-omnibar-result-label', { hasText: 'Set active' })).toBeVisible()
+    await expect(categories.filter({ hasText: 'Quick Filters' })).toHaveCount(0)
+    await expect(categories.filter({ hasText: 'Table Rows' })).toHaveCount(0)
+  })
+
+  test('omnibar "#" prefix searches one group of actions', async ({ page }) => {
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+
+    // "sort" picks the "Table: Sort" group; "name" is searched within it
+    await page.keyboard.type('#sort name')
+    await expect(page.locator('.kbd-omnibar-scope')).toContainText('Table: Sort')
+    await expect(page.locator('.kbd-omnibar-result-label', { hasText: 'Name ↑' })).toBeVisible()
+    const categories = await page.locator('.kbd-omnibar-result-category').allTextContents()
+    expect(new Set(categories)).toEqual(new Set(['Table: Sort']))
+  })
 })
 
 test.describe('Float Placeholder', () => {
@@ -1531,7 +1645,11 @@ test.describe('Export/Import Bindings', () => {
       mimeType: 'application/json',
       buffer: Buffer.from(exportedContent),
     })
-    await page.waitForTimeout(200)
+
+    // Review the changes (X bound, N unbound), and apply them
+    await expect(page.locator('.kbd-import-review-item')).toHaveCount(2)
+    await page.locator('.kbd-import-review-actions button', { hasText: 'Apply 2 changes' }).click()
+    await expect(page.locator('.kbd-import-review')).toHaveCount(0)
 
     // Step 6: Verify imported binding works
     await page.keyboard.press('Escape') // Close modal
@@ -1542,6 +1660,49 @@ test.describe('Export/Import Bindings', () => {
     await expect(firstCell).toHaveText('Alpha-1')
   })
 
+  test('import review applies only the accepted changes', async ({ page }) => {
+    await page.addInitScript(() => {
+      localStorage.removeItem('use-kbd-demo')
+      localStorage.removeItem('use-kbd-demo-removed')
+    })
+    await page.goto('/table')
+
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+
+    // A shared keymap moving "sort by name" from N to X
+    await page.locator('input[type="file"]').setInputFiles({
+      name: 'shared-bindings.json',
+      mimeType: 'application/json',
+      buffer: Buffer.from(JSON.stringify({
+        version: '0.8.0',
+        exportedAt: new Date().toISOString(),
+        overrides: { x: 'sort:name:asc' },
+        removedDefaults: { 'sort:name:asc': ['n'] },
+      })),
+    })
+
+    // Each change is listed; reject unbinding N
+    await expect(page.locator('.kbd-import-review-added')).toContainText('X')
+    await expect(page.locator('.kbd-import-review-removed')).toContainText('N')
+    await page.locator('.kbd-import-review-removed input[type="checkbox"]').uncheck()
+    await page.locator('.kbd-import-review-actions button', { hasText: 'Apply 1 change' }).click()
+    await expect(page.locator('.kbd-import-review')).toHaveCount(0)
+    await page.keyboard.press('Escape')
+
+    // Both X and N sort by name
+    const firstCell = page.locator('.data-table tbody tr:first-child td:first-child')
+    await page.keyboard.press('Shift+n')
+    await expect(firstCell).toHaveText(/^Zeta-/)
+    await page.keyboard.press('x')
+    await expect(firstCell).toHaveText('Alpha-1')
+    await page.keyboard.press('Shift+n')
+    await expect(firstCell).toHaveText(/^Zeta-/)
+    await page.keyboard.press('n')
+    await expect(firstCell).toHaveText('Alpha-1')
+  })
+
   test('import shows error for invalid JSON', async ({ page }) => {
     await page.addInitScript(() => {
       localStorage.removeItem('use-kbd-demo')
@@ -1683,6 +1844,39 @@ test.describe('Calendar Demo', () => {
     const todayCell = page.locator('.calendar-day.today.selected')
     await expect(todayCell).toBeVisible()
   })
+
+  test('symbol bindings fire for the modifiers a QWERTZ layout types them with', async ({ page }) => {
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+
+    const title = page.locator('.calendar-title')
+    const initial = await title.textContent()
+
+    // QWERTZ (Windows): `[` is AltGr+8, reported as Ctrl+Alt
+    await page.evaluate(() => {
+      const init = { key: '[', code: 'Digit8', ctrlKey: true, altKey: true, bubbles: true, cancelable: true }
+      document.body.dispatchEvent(new KeyboardEvent('keydown', init))
+      document.body.dispatchEvent(new KeyboardEvent('keyup', init))
+    })
+    await page.waitForTimeout(100)
+    await expect(title).not.toHaveText(initial!)
+
+    // `]` is AltGr+9
+    await page.evaluate(() => {
+      const init = { key: ']', code: 'Digit9', ctrlKey: true, altKey: true, bubbles: true, cancelable: true }
+      document.body.dispatchEvent(new KeyboardEvent('keydown', init))
+      document.body.dispatchEvent(new KeyboardEvent('keyup', init))
+    })
+    await page.waitForTimeout(100)
+    await expect(title).toHaveText(initial!)
+
+    // `?` is Shift+ß
+    await page.evaluate(() => {
+      const init = { key: '?', code: 'Minus', shiftKey: true, bubbles: true, cancelable: true }
+      document.body.dispatchEvent(new KeyboardEvent('keydown', init))
+      document.body.dispatchEvent(new KeyboardEvent('keyup', init))
+    })
+    await expect(page.locator('.kbd-modal')).toBeVisible()
+  })
 })
 
 test.describe('Modes', () => {
@@ -2614,6 +2808,55 @@ test.describe('3D Viewer Demo', () => {
     await page.keyboard.press('Escape')
   })
 
+  test('can create, edit, and delete a user mode via modes section', async ({ page }) => {
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+
+    const modesSection = page.locator('.kbd-modes-section')
+    await expect(modesSection.locator('.kbd-modes-entry')).toHaveCount(2)
+
+    // Create a new (empty) mode
+    await modesSection.locator('.kbd-modes-new-btn').click()
+    await modesSection.locator('.kbd-modes-form-label').fill('Presentation')
+    await modesSection.locator('.kbd-modes-form-submit').click()
+    await page.waitForTimeout(300)
+
+    const userEntry = modesSection.locator('.kbd-modes-entry', { hasText: 'Presentation' })
+    await expect(userEntry).toBeVisible()
+    await expect(userEntry.locator('.kbd-modes-empty')).toBeVisible()
+
+    // Developer-defined modes can't be deleted
+    const orbitEntry = modesSection.locator('.kbd-modes-entry', { hasText: 'Orbit' })
+    await expect(orbitEntry.locator('.kbd-modes-delete')).toHaveCount(0)
+
+    // Add a global action to the new mode
+    await userEntry.locator('.kbd-modes-add-btn').click()
+    await userEntry.locator('.kbd-modes-search').fill('zoom in')
+    await page.waitForTimeout(200)
+    await userEntry.locator('.kbd-modes-search-item').first().click()
+    await page.waitForTimeout(300)
+    await expect(userEntry.locator('.kbd-modes-action-row')).not.toHaveCount(0)
+
+    // Rename it
+    await userEntry.locator('.kbd-modes-edit').click()
+    await modesSection.locator('.kbd-modes-form-label').fill('Demo')
+    await modesSection.locator('.kbd-modes-form-submit').click()
+    await page.waitForTimeout(300)
+    const renamedEntry = modesSection.locator('.kbd-modes-entry', { hasText: 'Demo' })
+    await expect(renamedEntry).toBeVisible()
+
+    // Delete it: its action becomes global again
+    await renamedEntry.locator('.kbd-modes-delete').click()
+    await page.waitForTimeout(300)
+    await expect(modesSection.locator('.kbd-modes-entry')).toHaveCount(2)
+    const viewGroup = page.locator('.kbd-group', { hasText: '3D: VIEW' })
+    await expect(viewGroup.locator('.kbd-action-pair-row', { hasText: 'Zoom in / out' })).toBeVisible()
+
+    await page.keyboard.press('Escape')
+  })
+
   test('action triplet: slice shows as single combined row', async ({ page }) => {
     await page.locator('body').click({ position: { x: 10, y: 10 } })
 
@@ -2792,3 +3035,631 @@ test.describe('Omnibar Infinite Scroll', () => {
     expect(filteredCount).toBeLessThan(expandedCount)
   })
 })
+
+/**
+ * Open a test-only fixture from the /features route, with its stored customizations cleared
+ * (or replaced by `stored`: storage key → value)
+ */
+async function openFixture(page: Page, fixture: string, stored: Record<string, unknown> = {}) {
+  await page.addInitScript(stored => {
+    for (const key of Object.keys(localStorage)) {
+      if (key.startsWith('use-kbd-features')) localStorage.removeItem(key)
+    }
+    for (const [key, value] of Object.entries(stored)) {
+      localStorage.setItem(key, JSON.stringify(value))
+    }
+  }, stored)
+  await page.goto(`/features?f=${fixture}`)
+  await page.waitForSelector('#demo', { timeout: 5000 })
+  await page.locator('body').click({ position: { x: 10, y: 10 } })
+}
+
+test.describe('Hotkey Scopes', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'scopes')
+  })
+
+  test('scoped bindings fire only while focus is inside their region', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+
+    await page.getByText('List pane').click()
+    await page.keyboard.press('d')
+    await expect(fired).toHaveText(['list:delete'])
+
+    // The innermost focused scope shadows enclosing ones
+    await page.getByText('Caption pane').click()
+    await page.keyboard.press('d')
+    await page.getByText('Preview pane').click()
+    await page.keyboard.press('d')
+    await expect(fired).toHaveText(['list:delete', 'caption:delete', 'preview:delete'])
+
+    // Outside every scope, the global binding fires
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+    await page.keyboard.press('d')
+    await expect(fired).toHaveText(['list:delete', 'caption:delete', 'preview:delete', 'duplicate'])
+  })
+
+  test('ShortcutsModal badges scoped actions, dimmed while focus is outside', async ({ page }) => {
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+
+    const row = page.locator('.kbd-modal .kbd-action', { hasText: 'Delete list' })
+    await expect(row.locator('.kbd-scope-badge')).toHaveText('List')
+    await expect(row).toHaveClass(/kbd-scope-inactive/)
+  })
+})
+
+test.describe('Action Triggers', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'triggers')
+  })
+
+  test('release and hold triggers fire on key-up and key-down', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+
+    await page.keyboard.down('r')
+    await expect(fired).toHaveCount(0)
+    await page.keyboard.up('r')
+    await expect(fired).toHaveText(['release'])
+
+    // 'hold' starts on key-down and ends (onEnd) on key-up
+    await page.keyboard.down('p')
+    await expect(fired).toHaveText(['release', 'peek:start'])
+    await page.keyboard.up('p')
+    await expect(fired).toHaveText(['release', 'peek:start', 'peek:end'])
+  })
+
+  test('holdFor fires only once the key is held long enough', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+
+    // Released before 500ms: nothing fires
+    await page.keyboard.down('l')
+    await page.waitForTimeout(100)
+    await page.keyboard.up('l')
+    await page.waitForTimeout(600)
+    await expect(fired).toHaveCount(0)
+
+    await page.keyboard.down('l')
+    await expect(fired).toHaveText(['lock'])
+    await page.keyboard.up('l')
+  })
+
+  test('ShortcutsModal badges non-default triggers', async ({ page }) => {
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+
+    const badge = (label: string) =>
+      page.locator('.kbd-modal .kbd-action', { hasText: label }).locator('.kbd-trigger-badge')
+    await expect(badge('Fire on release')).toHaveText('release')
+    await expect(badge('Peek')).toHaveText('hold')
+    await expect(badge('Lock')).toHaveText('hold')
+  })
+})
+
+test.describe('Render Styles', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'render-styles')
+  })
+
+  test('ShortcutsModal switcher changes how keys render everywhere', async ({ page }) => {
+    const kbd = page.locator('[data-testid="kbd-provider"] kbd')
+    const override = page.locator('[data-testid="kbd-override"] kbd')
+
+    // Default 'icons': modifier rendered as an icon
+    await expect(kbd.locator('.kbd-modifier-icon')).toHaveCount(1)
+    await expect(kbd).toHaveText('S')
+    await expect(override).toHaveText('C-s')
+
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+
+    const emacs = page.locator('.kbd-render-style-btn', { hasText: 'Emacs' })
+    await emacs.click()
+    await expect(emacs).toHaveAttribute('aria-checked', 'true')
+    await expect(kbd).toHaveText('C-s')
+
+    await page.locator('.kbd-render-style-btn', { hasText: 'Text' }).click()
+    await expect(kbd).toHaveText(/^(Ctrl|Control)\+S$/)
+    // A component's own renderStyle prop wins over the provider's
+    await expect(override).toHaveText('C-s')
+  })
+})
+
+test.describe('Keymap Profiles', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'profiles')
+  })
+
+  test('switching to a preset profile swaps in its bindings', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+
+    await page.keyboard.press('ArrowDown')
+    await page.keyboard.press('j')
+    await expect(fired).toHaveText(['down'])
+
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+    const select = page.locator('.kbd-profile-select')
+    await expect(select.locator('option')).toHaveText(['Default', 'Vim'])
+    await select.selectOption({ label: 'Vim' })
+    await page.locator('.kbd-modal-close').click()
+    await expect(page.locator('.kbd-modal')).not.toBeVisible()
+
+    // Vim replaces ArrowDown with j
+    await page.keyboard.press('ArrowDown')
+    await page.keyboard.press('j')
+    await expect(fired).toHaveText(['down', 'down'])
+  })
+
+  test('user profiles can be created and deleted from the picker', async ({ page }) => {
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+
+    const select = page.locator('.kbd-profile-select')
+    const selected = select.locator('option:checked')
+    await page.locator('.kbd-profile-btn', { hasText: 'New…' }).click()
+    await page.locator('.kbd-profile-form input').fill('Mine')
+    await page.locator('.kbd-profile-form button[type="submit"]').click()
+    await expect(selected).toHaveText('Mine')
+    await expect(select.locator('option')).toHaveText(['Default', 'Vim', 'Mine'])
+
+    // Only user profiles can be deleted; deleting switches back to Default
+    await page.locator('.kbd-profile-delete').click()
+    await expect(selected).toHaveText('Default')
+    await expect(select.locator('option')).toHaveText(['Default', 'Vim'])
+    await expect(page.locator('.kbd-profile-delete')).toHaveCount(0)
+  })
+})
+
+test.describe('Storage Adapters', () => {
+  /** Rebind "Save" from S to X in ShortcutsModal, then close it */
+  async function rebindSave(page: Page) {
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+    await page.locator('.kbd-modal .kbd-action', { hasText: 'Save' }).locator('.kbd-kbd.editable').click()
+    await expect(page.locator('.kbd-kbd.editing')).toBeVisible({ timeout: 2000 })
+    await page.keyboard.press('x')
+    await page.keyboard.press('Enter')
+    await expect(page.locator('.kbd-kbd.editing')).toHaveCount(0)
+    await page.keyboard.press('Escape')
+    await expect(page.locator('.kbd-modal')).toHaveCount(0)
+  }
+
+  test('localStorage (default) syncs customizations across tabs', async ({ page, context }) => {
+    await openFixture(page, 'storage')
+    const other = await context.newPage()
+    await openFixture(other, 'storage')
+
+    await rebindSave(page)
+
+    await other.keyboard.press('s')
+    await other.keyboard.press('x')
+    await expect(other.locator('[data-testid="fired"] li')).toHaveText(['save'])
+  })
+
+  test('sessionStorage adapter keeps customizations out of localStorage', async ({ page }) => {
+    await openFixture(page, 'session-storage')
+    await rebindSave(page)
+
+    await page.keyboard.press('x')
+    await expect(page.locator('[data-testid="fired"] li')).toHaveText(['save'])
+
+    const stored = await page.evaluate(() => ({
+      local: localStorage.getItem('use-kbd-features'),
+      session: JSON.parse(sessionStorage.getItem('use-kbd-features') ?? 'null'),
+    }))
+    expect(stored).toEqual({ local: null, session: { x: 'storage:save' } })
+  })
+})
+
+test.describe('Bindings Migrations', () => {
+  test.beforeEach(async ({ page }) => {
+    // Customizations saved by an older app version: a renamed action, a removed one, and one
+    // that isn't registered (which may belong to an unmounted component, so is kept)
+    await openFixture(page, 'migrations', {
+      'use-kbd-features': { p: 'migrate:open-legacy', e: 'migrate:export-csv', q: 'migrate:elsewhere' },
+    })
+  })
+
+  test('stored bindings follow renamed actions, drop removed ones and keep unregistered ones', async ({ page }) => {
+    await page.keyboard.press('p')
+    await page.keyboard.press('e')
+    await page.keyboard.press('o')
+    await expect(page.locator('[data-testid="fired"] li')).toHaveText(['open', 'open'])
+
+    const stored = await page.evaluate(() => JSON.parse(localStorage.getItem('use-kbd-features') ?? '{}'))
+    expect(stored).toEqual({ p: 'migrate:open', q: 'migrate:elsewhere' })
+  })
+})
+
+test.describe('Custom Elements', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/elements.html')
+    await page.waitForSelector('#demo', { timeout: 5000 })
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+  })
+
+  test('actions registered with kbd.action fire from their bindings', async ({ page }) => {
+    await page.keyboard.press('s')
+
+    // <kbd-sequence> lists completions while a sequence is pending
+    await page.keyboard.press('g')
+    const completions = page.locator('kbd-sequence .kbd-sequence-completion .kbd-sequence-actions')
+    await expect(completions).toHaveText(['Go to archive', 'Go to inbox'])
+    await page.keyboard.press('i')
+    await expect(page.locator('kbd-sequence .kbd-sequence')).toHaveCount(0)
+
+    await expect(page.locator('[data-testid="fired"] li')).toHaveText(['save', 'inbox'])
+  })
+
+  test('<kbd-shortcuts> lists actions by group', async ({ page }) => {
+    await page.keyboard.press('?')
+    const modal = page.locator('kbd-shortcuts .kbd-modal')
+    await expect(modal).toBeVisible()
+    await expect(modal.locator('.kbd-group-title')).toHaveText(['Document', 'Navigation', 'Meta'])
+    await expect(modal.locator('.kbd-group', { hasText: 'Navigation' }).locator('.kbd-action-label'))
+      .toHaveText(['Go to inbox', 'Go to archive'])
+
+    await page.keyboard.press('Escape')
+    await expect(modal).toHaveCount(0)
+  })
+
+  test('<kbd-omnibar> searches and runs actions', async ({ page }) => {
+    await page.keyboard.press('Meta+k')
+    const input = page.locator('kbd-omnibar .kbd-omnibar-input')
+    await expect(input).toBeFocused()
+
+    await input.fill('archive')
+    await expect(page.locator('kbd-omnibar .kbd-omnibar-result-label')).toHaveText(['Go to archive'])
+    await page.keyboard.press('Enter')
+
+    await expect(page.locator('kbd-omnibar .kbd-omnibar')).toHaveCount(0)
+    await expect(page.locator('[data-testid="fired"] li')).toHaveText(['archive'])
+  })
+})
+
+test.describe('When Clauses', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'when')
+  })
+
+  test('a key fires the action whose when clause holds', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+
+    // "editing" is false: s searches
+    await page.keyboard.press('s')
+    await expect(fired).toHaveText(['search'])
+
+    // "editing" is true: s saves instead
+    await page.getByRole('button', { name: 'Start editing' }).click()
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+    await page.keyboard.press('s')
+    await expect(fired).toHaveText(['search', 'save'])
+  })
+
+  test('ShortcutsModal dims inactive actions and shows why', async ({ page }) => {
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+
+    const save = page.locator('.kbd-modal .kbd-action', { hasText: 'Save draft' })
+    const search = page.locator('.kbd-modal .kbd-action', { hasText: 'Search' })
+    await expect(save).toHaveClass(/kbd-when-inactive/)
+    await expect(save.locator('.kbd-when-badge')).toHaveText('editing is false')
+    await expect(search).not.toHaveClass(/kbd-when-inactive/)
+  })
+})
+
+test.describe('Mode Stack', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'mode-stack')
+  })
+
+  test('push nests a mode; Escape pops back out one level at a time', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+    const indicator = page.locator('.kbd-mode-indicator')
+
+    // Enter Edit, then push Measure on top of it
+    await page.keyboard.press('e')
+    await page.keyboard.press('m')
+    await expect(indicator.locator('.kbd-mode-indicator-crumb')).toHaveText('Edit')
+    await expect(indicator.locator('.kbd-mode-indicator-label')).toHaveText('Measure')
+
+    // Innermost mode's binding wins
+    await page.keyboard.press('x')
+    await expect(fired).toHaveText(['measure'])
+
+    // Escape pops to Edit
+    await page.keyboard.press('Escape')
+    await expect(indicator.locator('.kbd-mode-indicator-crumb')).toHaveCount(0)
+    await expect(indicator.locator('.kbd-mode-indicator-label')).toHaveText('Edit')
+    await page.keyboard.press('x')
+    await expect(fired).toHaveText(['measure', 'edit'])
+
+    // Escape again exits to global bindings
+    await page.keyboard.press('Escape')
+    await expect(indicator).not.toBeVisible()
+    await page.keyboard.press('x')
+    await expect(fired).toHaveText(['measure', 'edit', 'global'])
+  })
+
+  test('clicking an outer mode in the breadcrumb returns to it', async ({ page }) => {
+    await page.keyboard.press('e')
+    await page.keyboard.press('m')
+
+    const indicator = page.locator('.kbd-mode-indicator')
+    await indicator.locator('.kbd-mode-indicator-crumb', { hasText: 'Edit' }).click()
+    await expect(indicator.locator('.kbd-mode-indicator-label')).toHaveText('Edit')
+    await expect(indicator.locator('.kbd-mode-indicator-crumb')).toHaveCount(0)
+  })
+})
+
+test.describe('Held and One-Shot Modes', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'transient-modes')
+  })
+
+  test('held mode is active only while its key is down', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+    const indicator = page.locator('.kbd-mode-indicator')
+
+    // h is only bound in Pan mode
+    await page.keyboard.press('h')
+    await expect(fired).toHaveCount(0)
+
+    await page.keyboard.down('Space')
+    await expect(indicator.locator('.kbd-mode-indicator-label')).toHaveText('Pan')
+    await page.keyboard.press('h')
+    await page.keyboard.press('h')
+    await expect(fired).toHaveText(['pan-left', 'pan-left'])
+
+    // Releasing the key exits
+    await page.keyboard.up('Space')
+    await expect(indicator).not.toBeVisible()
+    await page.keyboard.press('h')
+    await expect(fired).toHaveCount(2)
+  })
+
+  test('one-shot mode exits after one action', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+
+    await page.keyboard.press('g')
+    await expect(page.locator('.kbd-mode-indicator-label')).toHaveText('Go to')
+    await page.keyboard.press('i')
+    await expect(fired).toHaveText(['inbox'])
+    await expect(page.locator('.kbd-mode-indicator')).not.toBeVisible()
+
+    // Back to global bindings: i does nothing
+    await page.keyboard.press('i')
+    await expect(fired).toHaveCount(1)
+  })
+
+  test('auto-exit mode shows a countdown, restarted by each action', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+    const indicator = page.locator('.kbd-mode-indicator')
+
+    await page.keyboard.press('z')
+    await expect(indicator.locator('.kbd-mode-indicator-label')).toHaveText('Zoom')
+    await expect(indicator.locator('.kbd-mode-indicator-timeout')).toBeVisible()
+
+    // An action 700ms in keeps the mode alive past its 1s timeout
+    await page.waitForTimeout(700)
+    await page.keyboard.press('=')
+    await page.waitForTimeout(700)
+    await expect(indicator).toBeVisible()
+    await expect(fired).toHaveText(['zoom-in'])
+
+    // Idle for the full timeout: exits
+    await page.waitForTimeout(600)
+    await expect(indicator).not.toBeVisible()
+    await page.keyboard.press('=')
+    await expect(fired).toHaveCount(1)
+  })
+})
+
+test.describe('Macros', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'macros')
+  })
+
+  test('record actions, then replay them from the omnibar', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+
+    await page.getByRole('button', { name: 'Record macro' }).click()
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+    await page.keyboard.press('j')
+    await page.keyboard.press('x')
+    await expect(page.getByRole('button', { name: 'Stop recording (2 steps)' })).toBeVisible()
+    await page.getByRole('button', { name: /Stop recording/ }).click()
+    await expect(fired).toHaveText(['down', 'select'])
+
+    // The macro is registered as an action, searchable in the omnibar
+    await page.locator('body').click({ position: { x: 10, y: 10 } })
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+    await page.keyboard.type('select next')
+    await expect(page.locator('.kbd-omnibar-result-label', { hasText: 'Select next row' })).toBeVisible()
+    await page.keyboard.press('Enter')
+
+    // Replays both steps, in order
+    await expect(fired).toHaveText(['down', 'select', 'down', 'select'])
+  })
+})
+
+test.describe('Sequence Prefixes', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'prefixes')
+  })
+
+  test('SequenceModal shows a which-key grid under labeled prefixes', async ({ page }) => {
+    await page.keyboard.press('g')
+    const sequence = page.locator('.kbd-sequence')
+    await expect(sequence.locator('.kbd-sequence-prefix-label')).toHaveText('Go to…')
+    // Deeper bindings collapse into their prefix's label
+    const grid = sequence.locator('.kbd-sequence-grid .kbd-sequence-completion')
+    await expect(grid.locator('.kbd-sequence-actions')).toHaveText(['Archive', 'Inbox', 'Windows'])
+    await expect(grid.filter({ hasText: 'Windows' })).toHaveClass(/kbd-sequence-prefix/)
+
+    await page.keyboard.press('w')
+    await expect(sequence.locator('.kbd-sequence-prefix-label')).toHaveText('Windows')
+    await expect(grid.locator('.kbd-sequence-actions')).toHaveText(['Close window', 'Split window'])
+
+    await page.keyboard.press('s')
+    await expect(sequence).toHaveCount(0)
+    await expect(page.locator('[data-testid="fired"] li')).toHaveText(['split'])
+  })
+
+  test('ShortcutsModal heads prefixed bindings with their label', async ({ page }) => {
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+
+    const sections = page.locator('.kbd-modal .kbd-prefix-section')
+    await expect(sections.locator('.kbd-prefix-label')).toHaveText(['Go to…', 'Windows'])
+    await expect(sections.first().locator('.kbd-action-label')).toHaveText(['Inbox', 'Archive'])
+  })
+})
+
+test.describe('Leader Key', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'leader')
+  })
+
+  test('<leader> bindings fire with the default leader (space)', async ({ page }) => {
+    await page.keyboard.press('Space')
+    await page.keyboard.press('f')
+    await page.keyboard.press('f')
+    await expect(page.locator('[data-testid="fired"] li')).toHaveText(['find-file'])
+  })
+
+  test('changing the leader in ShortcutsModal rebinds leader sequences', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+
+    const leaderKey = page.locator('.kbd-leader-bar-key')
+    await expect(leaderKey).toHaveText('Space')
+    await leaderKey.click()
+    await expect(leaderKey).toHaveText('Press a key…')
+    await page.keyboard.press(',')
+    await expect(leaderKey).toHaveText(',')
+
+    await page.keyboard.press('Escape')
+    await expect(page.locator('.kbd-modal')).not.toBeVisible()
+
+    await page.keyboard.press(',')
+    await page.keyboard.press('f')
+    await page.keyboard.press('f')
+    await expect(fired).toHaveText(['find-file'])
+  })
+})
+
+test.describe('Chords', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'chords')
+  })
+
+  test('keys pressed together fire the chord, not their own bindings', async ({ page }) => {
+    const fired = page.locator('[data-testid="fired"] li')
+
+    // Either order works
+    await page.keyboard.down('k')
+    await page.keyboard.down('j')
+    await page.keyboard.up('k')
+    await page.keyboard.up('j')
+    await expect(fired).toHaveText(['normal-mode'])
+
+    // j alone still fires its own binding, once the chord window passes
+    await page.keyboard.press('j')
+    await expect(fired).toHaveText(['normal-mode', 'down'])
+  })
+
+  test('ShortcutsModal shows a chord as its keys side by side', async ({ page }) => {
+    await page.keyboard.press('?')
+    await page.waitForSelector('.kbd-modal', { timeout: 5000 })
+
+    const row = page.locator('.kbd-modal .kbd-action', { hasText: 'Back to normal mode' })
+    await expect(row.locator('.kbd-chord .kbd-chord-key')).toHaveText(['J', 'K'])
+  })
+})
+
+test.describe('Action Params', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'params')
+  })
+
+  test('trailing words in the omnibar query fill params', async ({ page }) => {
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+    await page.keyboard.type('set theme dark')
+
+    const result = page.locator('.kbd-omnibar-result', { hasText: 'Set theme' })
+    await expect(result.locator('.kbd-omnibar-param-arg')).toHaveText('dark')
+    await page.keyboard.press('Enter')
+
+    await expect(page.locator('[data-testid="fired"] li')).toHaveText(['theme:dark'])
+  })
+
+  test('omnibar prompts for a missing param, suggesting enum choices', async ({ page }) => {
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+    await page.keyboard.type('set theme')
+    await page.keyboard.press('Enter')
+
+    await expect(page.locator('.kbd-omnibar-param-label')).toContainText('Set theme')
+    const suggestions = page.locator('.kbd-omnibar-param-suggestion')
+    await expect(suggestions).toHaveText(['light', 'dark', 'sepia'])
+
+    // A unique prefix narrows the suggestions, and is accepted as the choice
+    await page.keyboard.type('se')
+    await expect(suggestions).toHaveText(['sepia'])
+    await page.keyboard.press('Enter')
+
+    await expect(page.locator('[data-testid="fired"] li')).toHaveText(['theme:sepia'])
+    await expect(page.locator('.kbd-omnibar')).not.toBeVisible()
+  })
+})
+
+test.describe('Frecency Ranking', () => {
+  test.beforeEach(async ({ page }) => {
+    await openFixture(page, 'frecency')
+  })
+
+  /** Run an action by searching for it in the omnibar */
+  async function runFromOmnibar(page: Page, query: string) {
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+    await page.keyboard.type(query)
+    await page.keyboard.press('Enter')
+    await expect(page.locator('.kbd-omnibar')).not.toBeVisible()
+  }
+
+  test('frequently used actions outrank more recently used ones', async ({ page }) => {
+    await runFromOmnibar(page, 'open recent')
+    await runFromOmnibar(page, 'open recent')
+    await runFromOmnibar(page, 'open recent')
+    await runFromOmnibar(page, 'open folder')
+    await expect(page.locator('[data-testid="fired"] li')).toHaveCount(4)
+
+    // Empty query: used actions first, by frecency (3 uses beat 1 more recent one)
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+    const labels = page.locator('.kbd-omnibar-result-label')
+    await expect(labels.nth(0)).toHaveText('Open recent')
+    await expect(labels.nth(1)).toHaveText('Open folder')
+
+    // Also boosts matches for a query
+    await page.keyboard.type('open')
+    await expect(labels).toHaveText(['Open recent', 'Open folder', 'Open file'])
+  })
+
+  test('"Clear recent actions" resets the ranking', async ({ page }) => {
+    await runFromOmnibar(page, 'open recent')
+    await runFromOmnibar(page, 'open recent')
+    await runFromOmnibar(page, 'clear recent')
+
+    await page.keyboard.press('Meta+k')
+    await page.waitForSelector('.kbd-omnibar', { timeout: 5000 })
+    await page.keyboard.type('open')
+    await expect(page.locator('.kbd-omnibar-result-label')).toHaveText(['Open file', 'Open folder', 'Open recent'])
+  })
+})
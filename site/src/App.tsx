@@ -15,6 +15,7 @@ import { ManyActionsDemo } from './routes/ManyActionsDemo'
 import { TableDemo } from './routes/TableDemo'
 import { CanvasDemo } from './routes/CanvasDemo'
 import { CalendarDemo } from './routes/CalendarDemo'
+import { FeaturesDemo } from './routes/FeaturesDemo'
 import { ThreeDDemo } from './routes/ThreeDDemo'
 
 function AppNav() {
@@ -127,14 +128,23 @@ function AppContent() {
 export default function App() {
   return (
     <ThemeProvider>
-      <HotkeysProvider
-        config={{
-          storageKey: 'use-kbd-demo',
-          sequenceTimeout: Infinity,
-        }}
-      >
-        <AppContent />
-      </HotkeysProvider>
+      <Routes>
+        {/* Test-only fixtures, each under its own HotkeysProvider */}
+        <Route path="/features" element={<FeaturesDemo />} />
+        <Route
+          path="*"
+          element={
+            <HotkeysProvider
+              config={{
+                storageKey: 'use-kbd-demo',
+                sequenceTimeout: Infinity,
+              }}
+            >
+              <AppContent />
+            </HotkeysProvider>
+          }
+        />
+      </Routes>
     </ThemeProvider>
   )
 }
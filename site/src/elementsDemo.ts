@@ -0,0 +1,36 @@
+/**
+ * Test-only page for the `<kbd-*>` custom elements (no React), for the e2e suite.
+ * Served by the dev server at /elements.html; not part of the site build.
+ */
+import { kbd } from 'use-kbd/elements'
+import 'use-kbd/styles.css'
+
+kbd.configure({ storageKey: 'use-kbd-elements' })
+
+const fired = document.querySelector('[data-testid="fired"]')!
+const fire = (name: string) => {
+  const li = document.createElement('li')
+  li.textContent = name
+  fired.append(li)
+}
+
+kbd.action('elements:save', {
+  label: 'Save',
+  group: 'Document',
+  defaultBindings: ['s'],
+  handler: () => fire('save'),
+})
+
+kbd.action('elements:goto-inbox', {
+  label: 'Go to inbox',
+  group: 'Navigation',
+  defaultBindings: ['g i'],
+  handler: () => fire('inbox'),
+})
+
+kbd.action('elements:goto-archive', {
+  label: 'Go to archive',
+  group: 'Navigation',
+  defaultBindings: ['g a'],
+  handler: () => fire('archive'),
+})
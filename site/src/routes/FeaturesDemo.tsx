@@ -0,0 +1,406 @@
+/**
+ * Test-only page with a small fixture per feature, for the e2e suite.
+ * Not linked from navigation — accessed directly via /features?f=<fixture>. Each fixture runs under
+ * its own HotkeysProvider, so fixtures needing provider config don't affect the demos.
+ */
+import { useCallback, useState } from 'react'
+import type { ComponentType } from 'react'
+import {
+  HotkeyScope,
+  HotkeysProvider,
+  Kbd,
+  ModeIndicator,
+  Omnibar,
+  SequenceModal,
+  ShortcutsModal,
+  sessionStorageAdapter,
+  useAction,
+  useActions,
+  useContextKey,
+  useHotkeysContext,
+  useMode,
+  usePrefix,
+} from 'use-kbd'
+import type { HotkeysConfig } from 'use-kbd'
+
+/** Names of the actions fired so far, in order */
+function useFired() {
+  const [fired, setFired] = useState<string[]>([])
+  const fire = useCallback((name: string) => setFired(f => [...f, name]), [])
+  return [fired, fire] as const
+}
+
+function Fired({ fired }: { fired: string[] }) {
+  return (
+    <ol data-testid="fired">
+      {fired.map((name, i) => <li key={i}>{name}</li>)}
+    </ol>
+  )
+}
+
+function ScopedDelete({ id, name, fire }: { id: string; name: string; fire: (name: string) => void }) {
+  useAction(id, {
+    label: `Delete ${name}`,
+    defaultBindings: ['d'],
+    handler: useCallback(() => fire(`${name}:delete`), [name, fire]),
+  })
+  return <p>{name[0].toUpperCase() + name.slice(1)} pane</p>
+}
+
+function ScopesFixture() {
+  const [fired, fire] = useFired()
+
+  useAction('scopes:duplicate', {
+    label: 'Duplicate',
+    defaultBindings: ['d'],
+    handler: useCallback(() => fire('duplicate'), [fire]),
+  })
+
+  return (
+    <>
+      <HotkeyScope id="list" label="List">
+        <ScopedDelete id="scopes:list-delete" name="list" fire={fire} />
+      </HotkeyScope>
+      <HotkeyScope id="preview" label="Preview">
+        <ScopedDelete id="scopes:preview-delete" name="preview" fire={fire} />
+        <HotkeyScope id="caption" label="Caption">
+          <ScopedDelete id="scopes:caption-delete" name="caption" fire={fire} />
+        </HotkeyScope>
+      </HotkeyScope>
+      <Fired fired={fired} />
+    </>
+  )
+}
+
+function TriggersFixture() {
+  const [fired, fire] = useFired()
+
+  useAction('triggers:release', {
+    label: 'Fire on release',
+    defaultBindings: ['r'],
+    trigger: 'release',
+    handler: useCallback(() => fire('release'), [fire]),
+  })
+
+  useAction('triggers:peek', {
+    label: 'Peek',
+    defaultBindings: ['p'],
+    trigger: 'hold',
+    handler: useCallback(() => fire('peek:start'), [fire]),
+    onEnd: useCallback(() => fire('peek:end'), [fire]),
+  })
+
+  useAction('triggers:lock', {
+    label: 'Lock',
+    defaultBindings: ['l'],
+    trigger: { holdFor: 500 },
+    handler: useCallback(() => fire('lock'), [fire]),
+  })
+
+  return <Fired fired={fired} />
+}
+
+function RenderStylesFixture() {
+  const [fired, fire] = useFired()
+
+  useAction('styles:save', {
+    label: 'Save',
+    defaultBindings: ['ctrl+s'],
+    handler: useCallback(() => fire('save'), [fire]),
+  })
+
+  return (
+    <>
+      <p data-testid="kbd-provider">Save: <Kbd action="styles:save" /></p>
+      <p data-testid="kbd-override">Save: <Kbd action="styles:save" renderStyle="emacs" /></p>
+      <Fired fired={fired} />
+    </>
+  )
+}
+
+function ProfilesFixture() {
+  const [fired, fire] = useFired()
+
+  useAction('profiles:down', {
+    label: 'Row down',
+    defaultBindings: ['arrowdown'],
+    profileBindings: { vim: ['j'] },
+    handler: useCallback(() => fire('down'), [fire]),
+  })
+
+  return <Fired fired={fired} />
+}
+
+function StorageFixture() {
+  const [fired, fire] = useFired()
+
+  useAction('storage:save', {
+    label: 'Save',
+    defaultBindings: ['s'],
+    handler: useCallback(() => fire('save'), [fire]),
+  })
+
+  return <Fired fired={fired} />
+}
+
+function MigrationsFixture() {
+  const [fired, fire] = useFired()
+
+  useAction('migrate:open', {
+    label: 'Open',
+    defaultBindings: ['o'],
+    handler: useCallback(() => fire('open'), [fire]),
+  })
+
+  return <Fired fired={fired} />
+}
+
+function WhenFixture() {
+  const [fired, fire] = useFired()
+  const [editing, setEditing] = useState(false)
+  useContextKey('editing', editing)
+
+  useAction('when:save', {
+    label: 'Save draft',
+    group: 'Editor',
+    defaultBindings: ['s'],
+    when: 'editing',
+    handler: useCallback(() => fire('save'), [fire]),
+  })
+
+  useAction('when:search', {
+    label: 'Search',
+    group: 'Editor',
+    defaultBindings: ['s'],
+    when: '!editing',
+    handler: useCallback(() => fire('search'), [fire]),
+  })
+
+  return (
+    <>
+      <button onClick={() => setEditing(e => !e)}>
+        {editing ? 'Stop editing' : 'Start editing'}
+      </button>
+      <Fired fired={fired} />
+    </>
+  )
+}
+
+function ModeStackFixture() {
+  const [fired, fire] = useFired()
+
+  useMode('stack:edit', { label: 'Edit', color: '#66bb6a', defaultBindings: ['e'] })
+  useMode('stack:measure', { label: 'Measure', color: '#ffa726', defaultBindings: ['m'], push: true })
+
+  useAction('stack:global-x', {
+    label: 'Global x',
+    defaultBindings: ['x'],
+    handler: useCallback(() => fire('global'), [fire]),
+  })
+
+  useAction('stack:edit-x', {
+    label: 'Edit x',
+    mode: 'stack:edit',
+    defaultBindings: ['x'],
+    handler: useCallback(() => fire('edit'), [fire]),
+  })
+
+  useAction('stack:measure-x', {
+    label: 'Measure x',
+    mode: 'stack:measure',
+    defaultBindings: ['x'],
+    handler: useCallback(() => fire('measure'), [fire]),
+  })
+
+  return <Fired fired={fired} />
+}
+
+function TransientModesFixture() {
+  const [fired, fire] = useFired()
+
+  // Active only while space is held
+  useMode('transient:pan', { label: 'Pan', defaultBindings: ['space'], hold: true })
+  // Exits after one action
+  useMode('transient:goto', { label: 'Go to', defaultBindings: ['g'], oneShot: true })
+  // Exits after 1s without an action
+  useMode('transient:zoom', { label: 'Zoom', defaultBindings: ['z'], autoExitMs: 1000 })
+
+  useAction('transient:pan-left', {
+    label: 'Pan left',
+    mode: 'transient:pan',
+    defaultBindings: ['h'],
+    handler: useCallback(() => fire('pan-left'), [fire]),
+  })
+
+  useAction('transient:goto-inbox', {
+    label: 'Go to inbox',
+    mode: 'transient:goto',
+    defaultBindings: ['i'],
+    handler: useCallback(() => fire('inbox'), [fire]),
+  })
+
+  useAction('transient:zoom-in', {
+    label: 'Zoom in',
+    mode: 'transient:zoom',
+    defaultBindings: ['='],
+    handler: useCallback(() => fire('zoom-in'), [fire]),
+  })
+
+  return <Fired fired={fired} />
+}
+
+function MacrosFixture() {
+  const [fired, fire] = useFired()
+  const { registry } = useHotkeysContext()
+
+  useAction('macro:down', {
+    label: 'Row down',
+    defaultBindings: ['j'],
+    handler: useCallback(() => fire('down'), [fire]),
+  })
+
+  useAction('macro:select', {
+    label: 'Select row',
+    defaultBindings: ['x'],
+    handler: useCallback(() => fire('select'), [fire]),
+  })
+
+  const steps = registry.macroRecording
+  return (
+    <>
+      {steps ? (
+        <button onClick={() => registry.stopMacroRecording('select-next', 'Select next row')}>
+          Stop recording ({steps.length} steps)
+        </button>
+      ) : (
+        <button onClick={() => registry.startMacroRecording()}>Record macro</button>
+      )}
+      <Fired fired={fired} />
+    </>
+  )
+}
+
+function PrefixesFixture() {
+  const [fired, fire] = useFired()
+
+  usePrefix('g', { label: 'Go to…' })
+  usePrefix('g w', { label: 'Windows' })
+
+  useActions({
+    'prefix:inbox': { label: 'Inbox', group: 'Navigation', defaultBindings: ['g i'], handler: () => fire('inbox') },
+    'prefix:archive': { label: 'Archive', group: 'Navigation', defaultBindings: ['g a'], handler: () => fire('archive') },
+    'prefix:split': { label: 'Split window', group: 'Navigation', defaultBindings: ['g w s'], handler: () => fire('split') },
+    'prefix:close': { label: 'Close window', group: 'Navigation', defaultBindings: ['g w c'], handler: () => fire('close') },
+  })
+
+  return <Fired fired={fired} />
+}
+
+function LeaderFixture() {
+  const [fired, fire] = useFired()
+
+  useAction('leader:find-file', {
+    label: 'Find file',
+    group: 'Files',
+    defaultBindings: ['<leader> f f'],
+    handler: useCallback(() => fire('find-file'), [fire]),
+  })
+
+  return <Fired fired={fired} />
+}
+
+function ChordsFixture() {
+  const [fired, fire] = useFired()
+
+  useAction('chord:down', {
+    label: 'Down',
+    group: 'Editor',
+    defaultBindings: ['j'],
+    handler: useCallback(() => fire('down'), [fire]),
+  })
+
+  useAction('chord:normal-mode', {
+    label: 'Back to normal mode',
+    group: 'Editor',
+    defaultBindings: ['j&k'],
+    handler: useCallback(() => fire('normal-mode'), [fire]),
+  })
+
+  return <Fired fired={fired} />
+}
+
+function ParamsFixture() {
+  const [fired, fire] = useFired()
+
+  useAction('params:theme', {
+    label: 'Set theme',
+    group: 'View',
+    params: [{ name: 'theme', type: 'enum', choices: ['light', 'dark', 'sepia'] }],
+    handler: useCallback((_, __, args) => fire(`theme:${args?.theme}`), [fire]),
+  })
+
+  return <Fired fired={fired} />
+}
+
+function FrecencyFixture() {
+  const [fired, fire] = useFired()
+
+  useActions({
+    'frecency:open-file': { label: 'Open file', group: 'Files', handler: () => fire('open-file') },
+    'frecency:open-folder': { label: 'Open folder', group: 'Files', handler: () => fire('open-folder') },
+    'frecency:open-recent': { label: 'Open recent', group: 'Files', handler: () => fire('open-recent') },
+  })
+
+  return <Fired fired={fired} />
+}
+
+interface Fixture {
+  title: string
+  component: ComponentType
+  config?: HotkeysConfig
+}
+
+const FIXTURES: Record<string, Fixture> = {
+  scopes: { title: 'Scopes', component: ScopesFixture },
+  triggers: { title: 'Triggers', component: TriggersFixture },
+  'render-styles': { title: 'Render styles', component: RenderStylesFixture },
+  profiles: { title: 'Profiles', component: ProfilesFixture, config: { profiles: { vim: { label: 'Vim' } } } },
+  storage: { title: 'Storage', component: StorageFixture },
+  'session-storage': { title: 'Session storage', component: StorageFixture, config: { storage: sessionStorageAdapter } },
+  migrations: {
+    title: 'Migrations',
+    component: MigrationsFixture,
+    config: { migrations: { renamed: { 'migrate:open-legacy': 'migrate:open' }, removed: ['migrate:export-csv'] } },
+  },
+  when: { title: 'Context keys', component: WhenFixture },
+  'mode-stack': { title: 'Nested modes', component: ModeStackFixture },
+  'transient-modes': { title: 'Held and one-shot modes', component: TransientModesFixture },
+  macros: { title: 'Macros', component: MacrosFixture },
+  prefixes: { title: 'Sequence prefixes', component: PrefixesFixture, config: { sequenceTimeout: Infinity } },
+  leader: { title: 'Leader key', component: LeaderFixture },
+  chords: { title: 'Chords', component: ChordsFixture },
+  params: { title: 'Action params', component: ParamsFixture },
+  frecency: { title: 'Frecency', component: FrecencyFixture },
+}
+
+export function FeaturesDemo() {
+  const name = new URLSearchParams(window.location.search).get('f') ?? ''
+  const fixture = FIXTURES[name]
+  if (!fixture) {
+    return <div id="demo"><h1>Unknown fixture: {name}</h1></div>
+  }
+  const { title, component: Fixture, config } = fixture
+
+  return (
+    <HotkeysProvider config={{ storageKey: 'use-kbd-features', ...config }}>
+      <div id="demo" className="features-demo">
+        <h1>{title}</h1>
+        <Fixture />
+        <ShortcutsModal editable />
+        <Omnibar />
+        <SequenceModal />
+        <ModeIndicator position="bottom-left" />
+      </div>
+    </HotkeysProvider>
+  )
+}
@@ -220,6 +220,7 @@ function DataTable() {
     },
     group: 'Table Rows',
     priority: 50, // Lower than local actions
+    prefix: '@', // "@alpha" searches only rows
     minQueryLength: 0, // Show rows immediately in omnibar
     pageSize: 10,
     pagination: 'scroll',
@@ -625,6 +626,18 @@ function DataTable() {
     }, []),
   })
 
+  // Omnibar picker: drills down into the page sizes
+  useAction('pagesize:pick', {
+    label: 'Page size…',
+    group: 'Table: Page Size',
+    hideFromModal: true,
+    children: PAGE_SIZES.map(size => ({ value: String(size), label: `${size} rows` })),
+    handler: useCallback((_, __, args) => {
+      setPageSize(Number(args?.choice))
+      setCurrentPage(1)
+    }, []),
+  })
+
   // Status actions - set status on selected rows
   const setSelectedStatus = useCallback((status: DataRow['status']) => {
     saveHistory()
@@ -722,6 +735,26 @@ function DataTable() {
     handler: sortClear,
   })
 
+  // Omnibar picker: column, then direction (choice values are `column:direction`)
+  useAction('sort:pick', {
+    label: 'Sort by…',
+    group: 'Table: Sort',
+    hideFromModal: true,
+    children: (['name', 'status', 'value'] as const).map(column => ({
+      value: column,
+      label: column[0].toUpperCase() + column.slice(1),
+      children: [
+        { value: `${column}:asc`, label: 'Ascending', keywords: ['asc'] },
+        { value: `${column}:desc`, label: 'Descending', keywords: ['desc'] },
+      ],
+    })),
+    handler: useCallback((_, __, args) => {
+      const [column, direction] = String(args?.choice).split(':')
+      setSortColumn(column as SortColumn)
+      setSortDirection(direction as SortDirection)
+    }, []),
+  })
+
 
   // Scale values by a float multiplier (key then float: requires Enter to submit)
   useAction('edit:scale', {
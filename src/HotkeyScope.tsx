@@ -0,0 +1,66 @@
+import { createContext, useContext, useEffect, useRef, type HTMLAttributes, type ReactNode } from 'react'
+import { SCOPE_ATTRIBUTE, ScopesRegistryContext } from './ScopesRegistry'
+
+/**
+ * ID of the nearest enclosing `<HotkeyScope>`, or null outside any scope.
+ * `useAction` reads this to default an action's `scope`.
+ */
+export const HotkeyScopeContext = createContext<string | null>(null)
+
+export interface HotkeyScopeProps extends Omit<HTMLAttributes<HTMLDivElement>, 'id'> {
+  /** Scope ID (referenced by `ActionConfig.scope`) */
+  id: string
+  /** Display name shown in ShortcutsModal / Omnibar (defaults to `id`) */
+  label?: string
+  children?: ReactNode
+}
+
+/**
+ * Region of the page whose actions only fire while focus is inside it.
+ *
+ * Actions registered by descendants (via `useAction`) are scoped to this region
+ * unless they pass an explicit `scope`. When scopes nest, bindings in the inner
+ * scope shadow the same keys in outer scopes and globals.
+ *
+ * The wrapper div is focusable (`tabIndex={-1}`), so clicking inside it moves
+ * focus into the scope even when the click target itself isn't focusable.
+ *
+ * @example
+ * ```tsx
+ * <HotkeyScope id="grid" label="Data grid">
+ *   <Grid />  // useAction('grid:delete-row', { defaultBindings: ['d'], ... })
+ * </HotkeyScope>
+ * ```
+ */
+export function HotkeyScope({ id, label, className, children, ...props }: HotkeyScopeProps) {
+  const registry = useContext(ScopesRegistryContext)
+  if (!registry) {
+    throw new Error('HotkeyScope must be used within a HotkeysProvider')
+  }
+
+  const registryRef = useRef(registry)
+  registryRef.current = registry
+
+  const elementRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    registryRef.current.register(id, { label }, elementRef.current)
+    return () => {
+      registryRef.current.unregister(id)
+    }
+  }, [id, label])
+
+  return (
+    <HotkeyScopeContext.Provider value={id}>
+      <div
+        ref={elementRef}
+        {...{ [SCOPE_ATTRIBUTE]: id }}
+        tabIndex={-1}
+        className={className ? `kbd-scope ${className}` : 'kbd-scope'}
+        {...props}
+      >
+        {children}
+      </div>
+    </HotkeyScopeContext.Provider>
+  )
+}
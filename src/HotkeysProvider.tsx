@@ -1,15 +1,23 @@
 import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from 'react'
 import { ActionsRegistryContext, useActionsRegistry } from './ActionsRegistry'
 import { dbg } from './debug'
+import { createKbdEngine } from './engine'
 import { ModesRegistryContext, useModesRegistry } from './ModesRegistry'
 import { OmnibarEndpointsRegistryContext, useOmnibarEndpointsRegistry } from './OmnibarEndpointsRegistry'
-import { ACTION_MODE_PREFIX, DEFAULT_BUILTIN_GROUP, DEFAULT_SEQUENCE_TIMEOUT } from './constants'
+import { ScopesRegistryContext, useScopesRegistry } from './ScopesRegistry'
+import { localStorageAdapter, sessionStorageAdapter } from './storage'
+import { ACTION_CLEAR_HISTORY, ACTION_MACRO_PREFIX, ACTION_MODE_PREFIX, DEFAULT_BUILTIN_GROUP, DEFAULT_CHORD_TIMEOUT, DEFAULT_HISTORY_SIZE, DEFAULT_LEADER_KEY, DEFAULT_SEQUENCE_TIMEOUT } from './constants'
+import { loadKeyboardLayout } from './keyboardLayout'
 import { useHotkeys } from './useHotkeys'
-import { findConflicts, getSequenceCompletions, searchActions } from './utils'
+import { usePersistedState } from './usePersistedState'
+import { findConflicts, getSequenceCompletions, recordUsage, searchActions, smartMatch } from './utils'
 import type { ActionsRegistryValue } from './ActionsRegistry'
 import type { ModesRegistryValue } from './ModesRegistry'
 import type { OmnibarEndpointsRegistryValue } from './OmnibarEndpointsRegistry'
-import type { HotkeySequence, RegisteredMode } from './types'
+import type { ScopesRegistryValue } from './ScopesRegistry'
+import type { StorageAdapter } from './storage'
+import type { SearchMatcher } from './utils'
+import type { ActionArgs, ActionUsage, BindingsMigrations, HotkeySequence, KeymapPreset, RegisteredMode, RegisteredScope, RenderStyle } from './types'
 
 /**
  * Configuration for the HotkeysProvider.
@@ -18,12 +26,36 @@ export interface HotkeysConfig {
   /** Storage key for persisting user binding overrides */
   storageKey?: string
 
+  /** Persistence backend for bindings, profiles, mode customizations, recents and render style
+   * (default: localStorage, synced across tabs). May be async; see `StorageAdapter`. */
+  storage?: StorageAdapter
+
   /** Timeout in ms before a sequence auto-submits (default: Infinity, no timeout) */
   sequenceTimeout?: number
 
+  /** Window in ms for pressing the keys of a chord (`j&k`) together (default: 50) */
+  chordTimeout?: number
+
+  /** Vim-style counts: a number typed before any binding (e.g. `5j`, `3 d d`) is passed to its
+   * handler as the last capture (after the binding's own), or runs it N times if the action is `repeatable` (default: false).
+   * Bindings that match the digits themselves (`1`, `\d+ j`) take precedence. */
+  countPrefix?: boolean
+
+  /** Key that `<leader>` in bindings (e.g. `<leader> f f`) stands for (default: `space`).
+   * Users can choose their own from ShortcutsModal, rebinding every leader sequence at once. */
+  leader?: string
+
   /** Group name for built-in actions: shortcuts modal, omnibar, key lookup (default: "Meta") */
   builtinGroup?: string
 
+  /** How many actions (and remote omnibar entries) to remember usage of, for ranking omnibar results
+   * (default: 50; 0 disables). The least frecent are forgotten first. */
+  historySize?: number
+
+  /** How query words match actions and omnibar entries (default: `smartMatch`, tolerating accents,
+   * acronyms and transposed letters; `fuzzyMatch` is stricter). See `SearchMatcher`. */
+  matcher?: SearchMatcher
+
   /** When true, keys with conflicts are disabled (default: true) */
   disableConflicts?: boolean
 
@@ -32,6 +64,18 @@ export interface HotkeysConfig {
 
   /** Whether to show hotkey UI on touch-only devices (default: false) */
   enableOnTouch?: boolean
+
+  /** How key combinations are displayed: 'icons' (default), 'emacs' (`C-x`), or 'text' (`Ctrl+X`).
+   * Users can switch style from ShortcutsModal; components accept a `renderStyle` override. */
+  renderStyle?: RenderStyle
+
+  /** Preset keymap profiles (e.g. `{ vim: { label: 'Vim' }, emacs: { label: 'Emacs' } }`), by ID.
+   * Users can switch between these, the default profile, and their own profiles in ShortcutsModal. */
+  profiles?: Record<string, KeymapPreset>
+
+  /** Migrations for stored and imported customizations, when actions are renamed or removed
+   * between app versions. See `BindingsMigrations`. */
+  migrations?: BindingsMigrations
 }
 
 /**
@@ -78,10 +122,16 @@ export interface HotkeysContextValue {
   closeLookup: () => void
   /** Toggle the lookup modal */
   toggleLookup: () => void
-  /** Execute an action by ID */
-  executeAction: (id: string, captures?: number[]) => void
-  /** Recently executed action IDs (most recent first) */
+  /** Execute an action by ID (with any captured digit values and `params` values) */
+  executeAction: (id: string, captures?: number[], args?: ActionArgs) => void
+  /** Recently executed action IDs, and remote entry IDs (`endpointId:entryId`), most recent first */
   recentActionIds: string[]
+  /** Usage of executed actions and remote entries, by ID (ranks omnibar results) */
+  actionUsage: Record<string, ActionUsage>
+  /** Record a use of an action or remote entry (`executeAction` does this for actions) */
+  recordActionUsage: (id: string) => void
+  /** Forget all usage history */
+  clearHistory: () => void
   /** Sequence state: pending key combinations */
   pendingKeys: HotkeySequence
   /** Sequence state: whether waiting for more keys */
@@ -90,37 +140,94 @@ export interface HotkeysContextValue {
   sequenceTimeoutStartedAt: number | null
   /** Sequence state: timeout duration in ms */
   sequenceTimeout: number
+  /** Sequence state: count typed before the current binding (with `countPrefix`; null if none) */
+  sequenceCount: number | null
   /** Map of key -> actions[] for keys with multiple actions bound */
   conflicts: Map<string, string[]>
   /** Whether there are any conflicts */
   hasConflicts: boolean
-  /** Search actions by query */
+  /** Search actions by query (frequently and recently used first) */
   searchActions: (query: string) => ReturnType<typeof searchActions>
+  /** How query words match actions and omnibar entries (`config.matcher`) */
+  matcher: SearchMatcher
   /** Get sequence completions for pending keys */
   getCompletions: (pendingKeys: HotkeySequence) => ReturnType<typeof getSequenceCompletions>
   /** Cancel the current sequence */
   cancelSequence: () => void
-  /** Currently active mode ID (null if none) */
+  /** Active modes, outermost first (nested modes are pushed on top) */
+  modeStack: string[]
+  /** Innermost active mode ID (null if none) */
   activeMode: string | null
+  /** When each active mode with `autoExitMs` last (re)started its idle countdown, by mode ID */
+  modeTimeouts: Record<string, number>
   /** All registered modes */
   modes: Map<string, RegisteredMode>
   /** The modes registry */
   modesRegistry: ModesRegistryValue
   /** Activate a mode by ID */
   activateMode: (id: string) => void
-  /** Deactivate the current mode */
-  deactivateMode: () => void
+  /** Push a mode onto the mode stack, nested inside the active mode(s) */
+  pushMode: (id: string) => void
+  /** Pop the innermost active mode */
+  popMode: () => void
+  /** Deactivate a mode and any nested inside it; with no ID, deactivate all modes */
+  deactivateMode: (id?: string) => void
+  /** `<HotkeyScope>` IDs containing the focused element, innermost first */
+  activeScopes: string[]
+  /** All registered scopes */
+  scopes: Map<string, RegisteredScope>
+  /** The scopes registry */
+  scopesRegistry: ScopesRegistryValue
+  /** Whether an action's bindings can currently fire (false if its scope doesn't contain focus) */
+  isActionInScope: (id: string) => boolean
+  /** Current render style for key combinations (user's choice, else `config.renderStyle`) */
+  renderStyle: RenderStyle
+  /** Set the render style (persisted) */
+  setRenderStyle: (style: RenderStyle) => void
+  /** Current keyboard layout (physical code → key label), when the browser exposes it.
+   * Used to label physical-key (`code:`) bindings; null until loaded or if unsupported. */
+  keyboardLayout: Map<string, string> | null
 }
 
 const HotkeysContext = createContext<HotkeysContextValue | null>(null)
 
+// Parsers for persisted UI state
+const parseModalOpen = (value: unknown) => value === true
+const parseUsage = (value: unknown): Record<string, ActionUsage> => {
+  // Recents were stored as a list of IDs (most recent first); keep their order as single uses
+  if (Array.isArray(value)) {
+    const now = Date.now()
+    const ids = value.filter((id): id is string => typeof id === 'string')
+    return Object.fromEntries(ids.map((id, i) => [id, { count: 1, lastUsed: now - i }]))
+  }
+  if (!value || typeof value !== 'object') return {}
+  const usage: Record<string, ActionUsage> = {}
+  for (const [id, entry] of Object.entries(value)) {
+    if (typeof entry?.count === 'number' && typeof entry?.lastUsed === 'number') {
+      usage[id] = { count: entry.count, lastUsed: entry.lastUsed }
+    }
+  }
+  return usage
+}
+const parseRenderStyle = (value: unknown): RenderStyle | null =>
+  value === 'icons' || value === 'emacs' || value === 'text' ? value : null
+
 const DEFAULT_CONFIG: Required<HotkeysConfig> = {
   storageKey: 'use-kbd',
+  storage: localStorageAdapter,
   builtinGroup: DEFAULT_BUILTIN_GROUP,
+  historySize: DEFAULT_HISTORY_SIZE,
+  matcher: smartMatch,
   sequenceTimeout: DEFAULT_SEQUENCE_TIMEOUT,
+  chordTimeout: DEFAULT_CHORD_TIMEOUT,
+  countPrefix: false,
+  leader: DEFAULT_LEADER_KEY,
   disableConflicts: false,  // Keep conflicting bindings active; SeqM handles disambiguation
   minViewportWidth: false,  // Don't disable based on viewport; use enableOnTouch instead
   enableOnTouch: false,
+  renderStyle: 'icons',
+  profiles: {},
+  migrations: {},
 }
 
 export interface HotkeysProviderProps {
@@ -169,36 +276,99 @@ export function HotkeysProvider({
     ...configProp,
   }), [configProp])
 
+  // Compare presets by value, so an inline `profiles` config doesn't recompute the keymap on every render
+  const presetsKey = JSON.stringify(config.profiles)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const presets = useMemo(() => config.profiles, [presetsKey])
+
+  // The framework-agnostic engine behind the actions and modes registries
+  const [engine] = useState(() => createKbdEngine({
+    storageKey: config.storageKey,
+    storage: config.storage,
+    presets,
+    migrations: config.migrations,
+    disableConflicts: config.disableConflicts,
+    sequenceTimeout: config.sequenceTimeout,
+    chordTimeout: config.chordTimeout,
+    countPrefix: config.countPrefix,
+    leader: config.leader,
+  }))
+  useEffect(() => {
+    engine.setOptions({
+      presets,
+      migrations: config.migrations,
+      disableConflicts: config.disableConflicts,
+      sequenceTimeout: config.sequenceTimeout,
+      chordTimeout: config.chordTimeout,
+      countPrefix: config.countPrefix,
+      leader: config.leader,
+    })
+  }, [engine, presets, config.migrations, config.disableConflicts, config.sequenceTimeout, config.chordTimeout, config.countPrefix, config.leader])
+
   // Create the actions registry
-  const registry = useActionsRegistry({ storageKey: config.storageKey })
+  const registry = useActionsRegistry({ engine })
 
   // Create the modes registry
-  const modesRegistry = useModesRegistry()
+  const modesRegistry = useModesRegistry(engine)
 
   // Create the omnibar endpoints registry
   const endpointsRegistry = useOmnibarEndpointsRegistry()
 
-  // Register user-created modes dynamically
+  // Create the scopes registry
+  const scopesRegistry = useScopesRegistry()
+
+  // Register user-created modes (and their `__mode:` activation actions) dynamically
   const userModes = registry.modeCustomizations.userModes
+  const { register: registerAction, unregister: unregisterAction } = registry
+  // Depend on the (stable) callbacks, not `modesRegistry` itself: it changes on every
+  // mode switch, and re-running this effect would unregister (and exit) the active mode
+  const { register: registerMode, unregister: unregisterMode, toggleMode } = modesRegistry
   useEffect(() => {
     const ids: string[] = []
     for (const [id, config] of Object.entries(userModes)) {
-      modesRegistry.register(id, {
+      const defaultBindings = config.bindings ?? []
+      registerMode(id, {
         label: config.label,
         color: config.color,
-        defaultBindings: config.bindings ?? [],
+        defaultBindings,
         toggle: true,
         escapeExits: true,
         passthrough: true,
       })
+      registerAction(`${ACTION_MODE_PREFIX}${id}`, {
+        label: `${config.label} mode`,
+        group: 'Modes',
+        defaultBindings,
+        handler: () => toggleMode(id),
+        hideFromModal: true,
+      })
       ids.push(id)
     }
     return () => {
       for (const id of ids) {
-        modesRegistry.unregister(id)
+        unregisterMode(id)
+        unregisterAction(`${ACTION_MODE_PREFIX}${id}`)
       }
     }
-  }, [userModes, modesRegistry])
+  }, [userModes, registerMode, unregisterMode, toggleMode, registerAction, unregisterAction])
+
+  // Register user-recorded macros as `__macro:` actions (bindable, and searchable in the omnibar)
+  const { macros, playMacro } = registry
+  useEffect(() => {
+    const ids = Object.keys(macros)
+    for (const [id, macro] of Object.entries(macros)) {
+      registerAction(`${ACTION_MACRO_PREFIX}${id}`, {
+        label: macro.label,
+        description: `Macro: ${macro.steps.length} step${macro.steps.length === 1 ? '' : 's'}`,
+        group: 'Macros',
+        keywords: ['macro'],
+        handler: () => playMacro(id),
+      })
+    }
+    return () => {
+      for (const id of ids) unregisterAction(`${ACTION_MACRO_PREFIX}${id}`)
+    }
+  }, [macros, playMacro, registerAction, unregisterAction])
 
   // Check if hotkeys should be enabled
   const [isEnabled, setIsEnabled] = useState(true)
@@ -230,18 +400,11 @@ export function HotkeysProvider({
     return () => window.removeEventListener('resize', checkEnabled)
   }, [config.minViewportWidth, config.enableOnTouch])
 
-  // Modal state - persisted to sessionStorage
-  const modalStorageKey = `${config.storageKey}-modal-open`
-  const [isModalOpen, setIsModalOpen] = useState(() => {
-    if (typeof window === 'undefined') return false
-    return sessionStorage.getItem(modalStorageKey) === 'true'
-  })
-  useEffect(() => {
-    sessionStorage.setItem(modalStorageKey, String(isModalOpen))
-  }, [modalStorageKey, isModalOpen])
-  const openModal = useCallback(() => setIsModalOpen(true), [])
-  const closeModal = useCallback(() => setIsModalOpen(false), [])
-  const toggleModal = useCallback(() => setIsModalOpen(prev => !prev), [])
+  // Modal state - persisted to sessionStorage (per-tab UI state, so not `config.storage`)
+  const [isModalOpen, setIsModalOpen] = usePersistedState(sessionStorageAdapter, `${config.storageKey}-modal-open`, parseModalOpen)
+  const openModal = useCallback(() => setIsModalOpen(true), [setIsModalOpen])
+  const closeModal = useCallback(() => setIsModalOpen(false), [setIsModalOpen])
+  const toggleModal = useCallback(() => setIsModalOpen(prev => !prev), [setIsModalOpen])
 
   // Omnibar state
   const [isOmnibarOpen, setIsOmnibarOpen] = useState(false)
@@ -331,115 +494,88 @@ export function HotkeysProvider({
       window.removeEventListener('popstate', handlePopstate)
       // Note: Don't call history.back() here - it's handled when activeModal becomes null
     }
-  }, [activeModal, isModalOpen, isOmnibarOpen, isLookupOpen])
+  }, [activeModal, isModalOpen, isOmnibarOpen, isLookupOpen, setIsModalOpen])
 
   // Editing binding state (set by ShortcutsModal when recording a new binding)
   const [isEditingBinding, setIsEditingBinding] = useState(false)
 
-  // Recent actions (persisted to localStorage)
-  const recentsStorageKey = `${config.storageKey}-recents`
-  const MAX_RECENTS = 5
-  const [recentActionIds, setRecentActionIds] = useState<string[]>(() => {
-    if (typeof window === 'undefined') return []
-    try {
-      const stored = localStorage.getItem(recentsStorageKey)
-      return stored ? JSON.parse(stored) : []
-    } catch {
-      return []
-    }
-  })
+  // Usage history of actions and remote entries, for frecency ranking (persisted)
+  const [actionUsage, setActionUsage] = usePersistedState(config.storage, `${config.storageKey}-recents`, parseUsage)
+  const { historySize } = config
+  const recordActionUsage = useCallback((id: string) => {
+    setActionUsage(prev => recordUsage(prev, id, historySize))
+  }, [setActionUsage, historySize])
+  const clearHistory = useCallback(() => setActionUsage({}), [setActionUsage])
+  const recentActionIds = useMemo(
+    () => Object.keys(actionUsage).sort((a, b) => actionUsage[b].lastUsed - actionUsage[a].lastUsed),
+    [actionUsage],
+  )
 
-  // Track action execution for recents
-  const trackRecentAction = useCallback((actionId: string) => {
-    setRecentActionIds(prev => {
-      // Remove if already in list, add to front
-      const filtered = prev.filter(id => id !== actionId)
-      const updated = [actionId, ...filtered].slice(0, MAX_RECENTS)
-      // Persist
-      try {
-        localStorage.setItem(recentsStorageKey, JSON.stringify(updated))
-      } catch {
-        // Ignore storage errors
-      }
-      return updated
-    })
-  }, [recentsStorageKey])
+  // Render style chosen by the user (persisted), else the configured default
+  const [userRenderStyle, setRenderStyle] = usePersistedState<RenderStyle | null>(
+    config.storage,
+    `${config.storageKey}-render-style`,
+    parseRenderStyle,
+  )
+  const renderStyle = userRenderStyle ?? config.renderStyle
 
   // Use registry keymap directly
   const keymap = registry.keymap
 
-  // Compute conflicts (mode-aware: cross-scope overlaps are intentional shadowing)
-  const conflicts = useMemo(() => findConflicts(keymap, registry.getEffectiveMode), [keymap, registry.getEffectiveMode])
-  const hasConflicts = conflicts.size > 0
-
-  // Mode-aware effective keymap
-  const { activeMode } = modesRegistry
-  const effectiveKeymap = useMemo(() => {
-    const activeModeConfig = activeMode ? modesRegistry.modes.get(activeMode)?.config : null
-
-    // Start with conflict filtering if needed
-    let baseKeymap = keymap
-    if (config.disableConflicts && conflicts.size > 0) {
-      baseKeymap = {}
-      for (const [key, action] of Object.entries(keymap)) {
-        if (!conflicts.has(key)) {
-          baseKeymap[key] = action
-        }
-      }
-    }
-
-    // If no modes are registered at all, skip mode filtering
-    if (modesRegistry.modes.size === 0) return baseKeymap
-
-    const result: typeof keymap = {}
-    for (const [key, actionOrActions] of Object.entries(baseKeymap)) {
-      const actions = Array.isArray(actionOrActions) ? actionOrActions : [actionOrActions]
-      const filtered = actions.filter(id => {
-        const actionMode = registry.getEffectiveMode(id)
-        if (!actionMode) return true                          // global: always include
-        if (actionMode === activeMode) return true            // active mode: include
-        if (id.startsWith(ACTION_MODE_PREFIX)) return true    // mode activators: always
-        return false                                          // inactive mode: exclude
-      })
-      if (filtered.length === 0) continue
-
-      // If mode action shadows global on same key, keep only mode action
-      if (activeMode && activeModeConfig?.passthrough !== false) {
-        const modeActions = filtered.filter(id => registry.getEffectiveMode(id) === activeMode)
-        if (modeActions.length > 0) {
-          result[key] = modeActions.length === 1 ? modeActions[0] : modeActions
-          continue
-        }
-      }
-      result[key] = filtered.length === 1 ? filtered[0] : filtered
-    }
-
-    // Inject escape → mode exit when a mode is active and escapeExits !== false
-    if (activeMode && activeModeConfig?.escapeExits !== false) {
-      result['escape'] = '__mode:exit'
-    }
+  // Keyboard layout, for labeling physical-key bindings (and matching them against character bindings)
+  const [keyboardLayout, setKeyboardLayout] = useState<Map<string, string> | null>(null)
+  useEffect(() => {
+    let cancelled = false
+    loadKeyboardLayout().then(layout => {
+      if (!cancelled && layout) setKeyboardLayout(layout)
+    })
+    return () => { cancelled = true }
+  }, [])
 
-    dbg.modes('effective keymap: %d bindings (active mode: %s)', Object.keys(result).length, activeMode ?? 'none')
-    return result
-  }, [keymap, activeMode, modesRegistry.modes, registry.actions, conflicts, config.disableConflicts])
+  // Focus scope of an action (from `<HotkeyScope>` or `ActionConfig.scope`)
+  const getActionScope = useCallback(
+    (id: string) => registry.actions.get(id)?.config.scope,
+    [registry.actions],
+  )
+  const getActionWhen = useCallback(
+    (id: string) => registry.actions.get(id)?.config.when,
+    [registry.actions],
+  )
 
-  // Build handlers map from registered actions + mode exit handler
-  const handlers = useMemo(() => {
-    const map: Record<string, (e: KeyboardEvent, captures?: number[]) => void> = {}
+  // Compute conflicts (mode/scope-aware: cross-scope overlaps are intentional shadowing,
+  // and actions whose `when` clauses can't both hold never compete)
+  const conflicts = useMemo(
+    () => findConflicts(keymap, registry.getEffectiveMode, getActionScope, getActionWhen, registry.leader),
+    // Physical/character conflicts depend on the layout
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [keymap, registry.getEffectiveMode, getActionScope, getActionWhen, registry.leader, keyboardLayout],
+  )
+  const hasConflicts = conflicts.size > 0
 
-    for (const [id, action] of registry.actions) {
-      map[id] = action.config.handler
+  // Track which scopes contain focus. Frozen while an overlay (shortcuts modal, omnibar,
+  // lookup) holds focus, so scoped actions stay reachable once it closes.
+  const { activeScopes, refreshActiveScopes } = scopesRegistry
+  useEffect(() => {
+    if (typeof document === 'undefined' || activeModal) return
+    refreshActiveScopes()
+    // focusout fires before focus lands elsewhere; recompute once it settles
+    const handleFocusOut = () => setTimeout(refreshActiveScopes, 0)
+    document.addEventListener('focusin', refreshActiveScopes)
+    document.addEventListener('focusout', handleFocusOut)
+    return () => {
+      document.removeEventListener('focusin', refreshActiveScopes)
+      document.removeEventListener('focusout', handleFocusOut)
     }
+  }, [activeModal, refreshActiveScopes])
 
-    // Add mode exit handler
-    if (activeMode) {
-      map['__mode:exit'] = () => {
-        modesRegistry.deactivateMode()
-      }
-    }
+  const isActionInScope = useCallback((id: string) => {
+    const scope = getActionScope(id)
+    return !scope || activeScopes.includes(scope)
+  }, [getActionScope, activeScopes])
 
-    return map
-  }, [registry.actions, activeMode, modesRegistry])
+  // Mode- and scope-aware effective keymap, and handlers (memoized by the engine)
+  const effectiveKeymap = engine.getEffectiveKeymap(activeScopes)
+  const { handlers, triggers, endHandlers, repeatable } = engine.getHandlers()
 
   // Register hotkeys (enabled unless editing a binding, omnibar, or lookup is open)
   const hotkeysEnabled = isEnabled && !isEditingBinding && !isOmnibarOpen && !isLookupOpen
@@ -450,9 +586,16 @@ export function HotkeysProvider({
     cancelSequence,
     timeoutStartedAt: sequenceTimeoutStartedAt,
     sequenceTimeout,
+    count: sequenceCount,
   } = useHotkeys(effectiveKeymap, handlers, {
     enabled: hotkeysEnabled,
     sequenceTimeout: config.sequenceTimeout,
+    chordTimeout: config.chordTimeout,
+    triggers,
+    endHandlers,
+    countPrefix: config.countPrefix,
+    repeatable,
+    leader: registry.leader,
   })
 
   // Close modal when a sequence starts (so SequenceModal can show)
@@ -462,27 +605,28 @@ export function HotkeysProvider({
     }
   }, [isAwaitingSequence, isModalOpen, closeModal])
 
-  // Search helper
+  // Search helper (ranking used actions higher)
   const searchActionsHelper = useCallback(
-    (query: string) => searchActions(query, registry.actionRegistry, keymap),
-    [registry.actionRegistry, keymap]
+    (query: string) => searchActions(query, registry.actionRegistry, keymap, actionUsage, config.matcher),
+    [registry.actionRegistry, keymap, actionUsage, config.matcher]
   )
 
   // Completions helper
   const getCompletions = useCallback(
-    (pending: HotkeySequence) => getSequenceCompletions(pending, keymap, registry.actionRegistry),
-    [keymap, registry.actionRegistry]
+    (pending: HotkeySequence) => getSequenceCompletions(pending, keymap, registry.actionRegistry, registry.leader),
+    [keymap, registry.actionRegistry, registry.leader]
   )
 
-  // Wrap execute to track recents + auto-activate mode for mode-scoped actions
-  const executeAction = useCallback((id: string, captures?: number[]) => {
+  // Wrap execute to track usage + auto-activate mode for mode-scoped actions
+  const executeAction = useCallback((id: string, captures?: number[], args?: ActionArgs) => {
     const actionMode = registry.getEffectiveMode(id)
-    if (actionMode && modesRegistry.activeMode !== actionMode) {
+    if (actionMode && !modesRegistry.modeStack.includes(actionMode)) {
       modesRegistry.activateMode(actionMode)
     }
-    registry.execute(id, captures)
-    trackRecentAction(id)
-  }, [registry, trackRecentAction, modesRegistry])
+    registry.execute(id, captures, args)
+    // Clearing the history shouldn't leave itself in it
+    if (id !== ACTION_CLEAR_HISTORY) recordActionUsage(id)
+  }, [registry, recordActionUsage, modesRegistry])
 
   const value = useMemo<HotkeysContextValue>(() => ({
     storageKey: config.storageKey,
@@ -507,20 +651,36 @@ export function HotkeysProvider({
     setIsEditingBinding,
     executeAction,
     recentActionIds,
+    actionUsage,
+    recordActionUsage,
+    clearHistory,
     pendingKeys,
     isAwaitingSequence,
     cancelSequence,
     sequenceTimeoutStartedAt,
     sequenceTimeout,
+    sequenceCount,
     conflicts,
     hasConflicts,
     searchActions: searchActionsHelper,
+    matcher: config.matcher,
     getCompletions,
+    modeStack: modesRegistry.modeStack,
     activeMode: modesRegistry.activeMode,
+    modeTimeouts: modesRegistry.modeTimeouts,
     modes: modesRegistry.modes,
     modesRegistry,
     activateMode: modesRegistry.activateMode,
+    pushMode: modesRegistry.pushMode,
+    popMode: modesRegistry.popMode,
     deactivateMode: modesRegistry.deactivateMode,
+    activeScopes,
+    scopes: scopesRegistry.scopes,
+    scopesRegistry,
+    isActionInScope,
+    renderStyle,
+    setRenderStyle,
+    keyboardLayout,
   }), [
     config.storageKey,
     config.builtinGroup,
@@ -543,25 +703,38 @@ export function HotkeysProvider({
     isEditingBinding,
     executeAction,
     recentActionIds,
+    actionUsage,
+    recordActionUsage,
+    clearHistory,
     pendingKeys,
     isAwaitingSequence,
     cancelSequence,
     sequenceTimeoutStartedAt,
     sequenceTimeout,
+    sequenceCount,
     conflicts,
     hasConflicts,
     searchActionsHelper,
+    config.matcher,
     getCompletions,
     modesRegistry,
+    activeScopes,
+    scopesRegistry,
+    isActionInScope,
+    renderStyle,
+    setRenderStyle,
+    keyboardLayout,
   ])
 
   return (
     <ActionsRegistryContext.Provider value={registry}>
       <ModesRegistryContext.Provider value={modesRegistry}>
         <OmnibarEndpointsRegistryContext.Provider value={endpointsRegistry}>
-          <HotkeysContext.Provider value={value}>
-            {children}
-          </HotkeysContext.Provider>
+          <ScopesRegistryContext.Provider value={scopesRegistry}>
+            <HotkeysContext.Provider value={value}>
+              {children}
+            </HotkeysContext.Provider>
+          </ScopesRegistryContext.Provider>
         </OmnibarEndpointsRegistryContext.Provider>
       </ModesRegistryContext.Provider>
     </ActionsRegistryContext.Provider>
@@ -586,3 +759,12 @@ export function useHotkeysContext(): HotkeysContextValue {
 export function useMaybeHotkeysContext(): HotkeysContextValue | null {
   return useContext(HotkeysContext)
 }
+
+/**
+ * Resolve the render style for a component: its own `renderStyle` prop if given,
+ * else the provider's (user-selected or configured) style, else 'icons'.
+ */
+export function useRenderStyle(override?: RenderStyle): RenderStyle {
+  const ctx = useContext(HotkeysContext)
+  return override ?? ctx?.renderStyle ?? 'icons'
+}
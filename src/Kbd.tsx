@@ -1,9 +1,9 @@
 import { Fragment, useEffect, useRef } from 'react'
 import { ACTION_LOOKUP, ACTION_MODAL, ACTION_OMNIBAR } from './constants'
-import { useMaybeHotkeysContext } from './HotkeysProvider'
+import { useMaybeHotkeysContext, useRenderStyle } from './HotkeysProvider'
 import { renderModifierIcons, renderKeyContent } from './KeyElements'
-import { parseKeySeq } from './utils'
-import type { KeyCombination, SeqElem } from './types'
+import { formatCombination, parseKeySeq } from './utils'
+import type { KeyCombination, RenderStyle, SeqElem } from './types'
 
 export interface KbdProps {
   /** Action ID to display binding(s) for */
@@ -18,16 +18,18 @@ export interface KbdProps {
   className?: string
   /** Make the kbd clickable to trigger the action */
   clickable?: boolean
+  /** Display style (default: the HotkeysProvider's `renderStyle`) */
+  renderStyle?: RenderStyle
 }
 
 /**
  * Render a single key combination with SVG icons for modifiers and special keys
  */
-function KeyCombo({ combo }: { combo: KeyCombination }) {
+function KeyCombo({ combo, style }: { combo: KeyCombination; style: RenderStyle }) {
   return (
     <>
-      {renderModifierIcons(combo.modifiers)}
-      {renderKeyContent(combo.key)}
+      {renderModifierIcons(combo.modifiers, undefined, style)}
+      {renderKeyContent(combo.key, undefined, style)}
     </>
   )
 }
@@ -35,7 +37,7 @@ function KeyCombo({ combo }: { combo: KeyCombination }) {
 /**
  * Render a single sequence element (key, digit placeholder, or digits placeholder)
  */
-function SeqElemDisplay({ elem }: { elem: SeqElem }) {
+function SeqElemDisplay({ elem, style }: { elem: SeqElem; style: RenderStyle }) {
   if (elem.type === 'digit') {
     return <span className="kbd-placeholder" title="Any single digit (0-9)">#</span>
   }
@@ -45,22 +47,26 @@ function SeqElemDisplay({ elem }: { elem: SeqElem }) {
   if (elem.type === 'float') {
     return <span className="kbd-placeholder" title="A number (integer or decimal)">#.#</span>
   }
+  if (elem.leader) {
+    const leader = formatCombination({ key: elem.key, modifiers: elem.modifiers }, style).display
+    return <span className="kbd-leader" title={`Leader key (${leader})`}>Leader</span>
+  }
   // Regular key
-  return <KeyCombo combo={{ key: elem.key, modifiers: elem.modifiers }} />
+  return <KeyCombo combo={{ key: elem.key, modifiers: elem.modifiers }} style={style} />
 }
 
 /**
- * Render a binding string (possibly a sequence) with icons
+ * Render a binding string (possibly a sequence) with icons, `<leader>` standing for `leader`
  */
-function BindingDisplay({ binding }: { binding: string }) {
-  const sequence = parseKeySeq(binding)
+function BindingDisplay({ binding, leader, style }: { binding: string; leader: string; style: RenderStyle }) {
+  const sequence = parseKeySeq(binding, leader)
 
   return (
     <>
       {sequence.map((elem, i) => (
         <Fragment key={i}>
           {i > 0 && <span className="kbd-sequence-sep"> </span>}
-          <SeqElemDisplay elem={elem} />
+          <SeqElemDisplay elem={elem} style={style} />
         </Fragment>
       ))}
     </>
@@ -71,7 +77,8 @@ function BindingDisplay({ binding }: { binding: string }) {
  * Display the current binding(s) for an action (clickable by default).
  *
  * Automatically updates when users customize their bindings.
- * Uses SVG icons for modifiers (⌘, ⌥, ⇧, ⌃) and special keys (arrows, enter, etc.)
+ * Uses SVG icons for modifiers (⌘, ⌥, ⇧, ⌃) and special keys (arrows, enter, etc.),
+ * or text in the 'emacs'/'text' render styles.
  *
  * @example
  * ```tsx
@@ -86,6 +93,9 @@ function BindingDisplay({ binding }: { binding: string }) {
  *
  * // With fallback when no binding exists
  * <Kbd action="customAction" fallback="(unbound)" />
+ *
+ * // Spelled out, regardless of the provider's style
+ * <Kbd action="help" renderStyle="text" />
  * ```
  */
 export function Kbd({
@@ -95,8 +105,10 @@ export function Kbd({
   fallback = null,
   className,
   clickable = true,
+  renderStyle,
 }: KbdProps) {
   const ctx = useMaybeHotkeysContext()
+  const style = useRenderStyle(renderStyle)
   const warnedRef = useRef(false)
 
   const bindings = ctx
@@ -131,7 +143,7 @@ export function Kbd({
   const content = bindings.map((binding, i) => (
     <Fragment key={binding}>
       {i > 0 && separator}
-      <BindingDisplay binding={binding} />
+      <BindingDisplay binding={binding} leader={ctx.registry.leader} style={style} />
     </Fragment>
   ))
 
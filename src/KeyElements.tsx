@@ -1,14 +1,23 @@
 import type { ReactElement } from 'react'
+import { PHYSICAL_KEY_PREFIX } from './constants'
+import { physicalKeyLabel } from './keyboardLayout'
 import { getKeyIcon } from './KeyIcons'
 import { ModifierIcon } from './ModifierIcons'
-import type { KeySeq, Modifiers, SeqElem } from './types'
-import { formatKeyForDisplay } from './utils'
+import type { KeySeq, ModifierName, Modifiers, RenderStyle, SeqElem } from './types'
+import { chordKeys, formatCombination, formatKeyForDisplay, formatModifier, isChordKey, isModifierName, isPhysicalKey, modifierSeparator } from './utils'
 
 /**
  * Render modifier icons (meta, ctrl, alt, shift) for a key combination.
  * Used consistently across all key rendering components.
+ * In the 'emacs'/'text' render styles, modifiers render as text prefixes (`C-`, `Ctrl+`).
  */
-export function renderModifierIcons(modifiers: Modifiers, className = 'kbd-modifier-icon'): ReactElement[] {
+export function renderModifierIcons(modifiers: Modifiers, className = 'kbd-modifier-icon', style: RenderStyle = 'icons'): ReactElement[] {
+  if (style !== 'icons') {
+    const order: ModifierName[] = ['ctrl', 'meta', 'alt', 'shift']
+    return order.filter(m => modifiers[m]).map(m => (
+      <span key={m} className="kbd-modifier-text">{formatModifier(m, style)}{modifierSeparator(style)}</span>
+    ))
+  }
   const icons: ReactElement[] = []
   if (modifiers.meta) {
     icons.push(<ModifierIcon key="meta" modifier="meta" className={className} />)
@@ -28,18 +37,32 @@ export function renderModifierIcons(modifiers: Modifiers, className = 'kbd-modif
 /**
  * Render a single key with its icon or display text.
  * Returns the icon component if available, otherwise formatted text.
+ * Physical keys (`code:...`) render as the key they carry on the current layout,
+ * and chords (`j&k`) as their keys side by side.
  */
-export function renderKeyContent(key: string, iconClassName = 'kbd-key-icon'): ReactElement {
-  const Icon = getKeyIcon(key)
+export function renderKeyContent(key: string, iconClassName = 'kbd-key-icon', style: RenderStyle = 'icons'): ReactElement {
+  if (isChordKey(key)) {
+    return (
+      <span className="kbd-chord" title={`Pressed together: ${formatKeyForDisplay(key, 'text')}`}>
+        {chordKeys(key).map(k => (
+          <span key={k} className="kbd-chord-key">{renderKeyContent(k, iconClassName, style)}</span>
+        ))}
+      </span>
+    )
+  }
+  // Modifier-only binding (e.g. `alt` for a hold): the modifier icon already shows it
+  if (isModifierName(key)) return <></>
+  if (style !== 'icons') return <>{formatKeyForDisplay(key, style)}</>
+  const Icon = getKeyIcon(isPhysicalKey(key) ? physicalKeyLabel(key.slice(PHYSICAL_KEY_PREFIX.length)) : key)
   const displayKey = formatKeyForDisplay(key)
   return Icon ? <Icon className={iconClassName} /> : <>{displayKey}</>
 }
 
 /**
  * Render a complete SeqElem (key with modifiers, or digit placeholder).
- * Handles all element types: 'key', 'digit', 'digits'.
+ * Handles all element types: 'key', 'digit', 'digits'. A `<leader>` key renders as "Leader".
  */
-export function renderSeqElem(elem: SeqElem, index: number, kbdClassName = 'kbd-kbd'): ReactElement {
+export function renderSeqElem(elem: SeqElem, index: number, kbdClassName = 'kbd-kbd', style: RenderStyle = 'icons'): ReactElement {
   if (elem.type === 'digit') {
     return <kbd key={index} className={kbdClassName}>⟨#⟩</kbd>
   }
@@ -49,11 +72,15 @@ export function renderSeqElem(elem: SeqElem, index: number, kbdClassName = 'kbd-
   if (elem.type === 'float') {
     return <kbd key={index} className={kbdClassName}>⟨#.#⟩</kbd>
   }
+  if (elem.leader) {
+    const leader = formatCombination({ key: elem.key, modifiers: elem.modifiers }, style).display
+    return <kbd key={index} className={`${kbdClassName} kbd-leader`} title={`Leader key (${leader})`}>Leader</kbd>
+  }
   // It's a key with modifiers
   return (
     <kbd key={index} className={kbdClassName}>
-      {renderModifierIcons(elem.modifiers)}
-      {renderKeyContent(elem.key)}
+      {renderModifierIcons(elem.modifiers, undefined, style)}
+      {renderKeyContent(elem.key, undefined, style)}
     </kbd>
   )
 }
@@ -62,6 +89,6 @@ export function renderSeqElem(elem: SeqElem, index: number, kbdClassName = 'kbd-
  * Render a complete KeySeq (array of sequence elements).
  * Used for displaying key sequences in SequenceModal, LookupModal, etc.
  */
-export function renderKeySeq(keySeq: KeySeq, kbdClassName = 'kbd-kbd'): ReactElement[] {
-  return keySeq.map((elem, i) => renderSeqElem(elem, i, kbdClassName))
+export function renderKeySeq(keySeq: KeySeq, kbdClassName = 'kbd-kbd', style: RenderStyle = 'icons'): ReactElement[] {
+  return keySeq.map((elem, i) => renderSeqElem(elem, i, kbdClassName, style))
 }
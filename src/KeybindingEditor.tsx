@@ -1,7 +1,8 @@
 import { ReactNode, useCallback, useMemo, useState } from 'react'
+import { useRenderStyle } from './HotkeysProvider'
 import { useRecordHotkey } from './useRecordHotkey'
 import { findConflicts, formatCombination, parseHotkeyString } from './utils'
-import type { HotkeySequence, KeyCombination, KeyCombinationDisplay } from './types'
+import type { HotkeySequence, KeyCombination, KeyCombinationDisplay, RenderStyle } from './types'
 import type { HotkeyMap } from './useHotkeys'
 
 export interface KeybindingEditorProps {
@@ -19,6 +20,8 @@ export interface KeybindingEditorProps {
   className?: string
   /** Custom render function */
   children?: (props: KeybindingEditorRenderProps) => ReactNode
+  /** Display style for bindings (default: the HotkeysProvider's `renderStyle`, if any) */
+  renderStyle?: RenderStyle
 }
 
 export interface KeybindingEditorRenderProps {
@@ -79,7 +82,9 @@ export function KeybindingEditor({
   onReset,
   className,
   children,
+  renderStyle,
 }: KeybindingEditorProps) {
+  const style = useRenderStyle(renderStyle)
   const [editingAction, setEditingAction] = useState<string | null>(null)
 
   const actionMap = useMemo(() => buildActionMap(keymap), [keymap])
@@ -127,12 +132,12 @@ export function KeybindingEditor({
     }
 
     // Format pending keys (already pressed and released)
-    let display = pendingKeys.length > 0 ? formatCombination(pendingKeys).display : ''
+    let display = pendingKeys.length > 0 ? formatCombination(pendingKeys, style).display : ''
 
     // Add currently held keys
     if (activeKeys && activeKeys.key) {
       if (display) display += ' → '
-      display += formatCombination([activeKeys]).display
+      display += formatCombination([activeKeys], style).display
     }
 
     // Ellipsis indicates we're waiting for timeout or more keys
@@ -147,7 +152,7 @@ export function KeybindingEditor({
       const key = actionMap.get(action) ?? defaultActionMap.get(action) ?? ''
       const defaultKey = defaultActionMap.get(action) ?? ''
       const combo = parseHotkeyString(key)
-      const display = formatCombination(combo)
+      const display = formatCombination(combo, style)
       const conflictActions = conflicts.get(key)
 
       return {
@@ -159,7 +164,7 @@ export function KeybindingEditor({
         hasConflict: conflictActions !== undefined && conflictActions.length > 1,
       }
     }).sort((a, b) => a.action.localeCompare(b.action))
-  }, [actionMap, defaultActionMap, descriptions, conflicts])
+  }, [actionMap, defaultActionMap, descriptions, conflicts, style])
 
   // Custom render
   if (children) {
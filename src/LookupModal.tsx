@@ -1,11 +1,11 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { ACTION_LOOKUP } from './constants'
-import { useHotkeysContext } from './HotkeysProvider'
+import { useHotkeysContext, useRenderStyle } from './HotkeysProvider'
 import { renderKeySeq, renderSeqElem } from './KeyElements'
 import { useAction } from './useAction'
 import { useParamEntry } from './useParamEntry'
-import type { HotkeySequence, KeyCombination, KeySeq } from './types'
-import { formatCombination, formatKeySeq, hasDigitPlaceholders, parseHotkeyString, parseKeySeq, normalizeKey, isModifierKey } from './utils'
+import type { HotkeySequence, KeyCombination, KeySeq, RegisteredPrefix, RenderStyle } from './types'
+import { comboMatchesKey, formatCombination, formatKeySeq, getBindingPrefixes, hasDigitPlaceholders, parseHotkeyString, parseKeySeq, normalizeKey, isModifierKey } from './utils'
 
 interface LookupResult {
   binding: string
@@ -16,6 +16,16 @@ interface LookupResult {
   labels: string[]
 }
 
+/** A row of the results tree: a binding, or the header of a labeled prefix nesting the rows below it */
+type LookupRow =
+  | { type: 'result'; result: LookupResult; index: number; depth: number }
+  | { type: 'prefix'; id: string; prefix: RegisteredPrefix; depth: number }
+
+interface LookupNode {
+  results: LookupResult[]
+  children: Map<string, LookupNode>
+}
+
 export interface LookupModalProps {
   /**
    * Default keybinding to open lookup modal (default: 'meta+shift+k').
@@ -23,6 +33,8 @@ export interface LookupModalProps {
    * Set to empty string to disable.
    */
   defaultBinding?: string
+  /** Display style for bindings (default: the HotkeysProvider's `renderStyle`) */
+  renderStyle?: RenderStyle
 }
 
 /**
@@ -36,8 +48,10 @@ export interface LookupModalProps {
  * - Press Enter to execute selected action
  * - Press Escape to close or clear filter
  * - Press Backspace to remove last key from filter
+ *
+ * Bindings under labeled prefixes (see `usePrefix`) are nested beneath the prefix's label.
  */
-export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProps = {}) {
+export function LookupModal({ defaultBinding = 'meta+shift+k', renderStyle }: LookupModalProps = {}) {
   const {
     builtinGroup,
     isLookupOpen,
@@ -47,6 +61,7 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
     registry,
     executeAction,
   } = useHotkeysContext()
+  const style = useRenderStyle(renderStyle)
 
   // Register the lookup modal trigger action
   useAction(ACTION_LOOKUP, {
@@ -99,10 +114,10 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
       // Skip if no enabled actions remain
       if (actions.length === 0) continue
 
-      const sequence = parseHotkeyString(binding)
-      const keySeq = parseKeySeq(binding)
+      const sequence = parseHotkeyString(binding, registry.leader)
+      const keySeq = parseKeySeq(binding, registry.leader)
       // Use formatKeySeq to properly display digit placeholders and arrow keys
-      const display = formatKeySeq(keySeq).display
+      const display = formatKeySeq(keySeq, style).display
 
       // Get labels for actions
       const labels = actions.map(actionId => {
@@ -117,7 +132,7 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
     results.sort((a, b) => a.binding.localeCompare(b.binding))
 
     return results
-  }, [registry.keymap, registry.actions])
+  }, [registry.keymap, registry.actions, registry.leader, style])
 
   // Filter bindings based on pending keys
   const filteredBindings = useMemo((): LookupResult[] => {
@@ -159,7 +174,7 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
           keySeqIdx++
         } else {
           // Regular key - check exact match with modifiers
-          if (pending.key !== elem.key) return false
+          if (!comboMatchesKey(pending, elem.key)) return false
           if (pending.modifiers.ctrl !== elem.modifiers.ctrl) return false
           if (pending.modifiers.alt !== elem.modifiers.alt) return false
           if (pending.modifiers.shift !== elem.modifiers.shift) return false
@@ -172,6 +187,38 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
     })
   }, [allBindings, pendingKeys])
 
+  // Nest bindings under the labeled prefixes they start with. Results are re-ordered to match
+  // (a node's own bindings, then its prefixes'), so arrow keys follow the tree.
+  const { rows, results } = useMemo(() => {
+    const root: LookupNode = { results: [], children: new Map() }
+    for (const result of filteredBindings) {
+      let node = root
+      for (const id of getBindingPrefixes(result.binding, registry.prefixes)) {
+        let child = node.children.get(id)
+        if (!child) {
+          child = { results: [], children: new Map() }
+          node.children.set(id, child)
+        }
+        node = child
+      }
+      node.results.push(result)
+    }
+    const rows: LookupRow[] = []
+    const results: LookupResult[] = []
+    const flatten = (node: LookupNode, depth: number) => {
+      for (const result of node.results) {
+        rows.push({ type: 'result', result, index: results.length, depth })
+        results.push(result)
+      }
+      for (const [id, child] of node.children) {
+        rows.push({ type: 'prefix', id, prefix: registry.prefixes.get(id)!, depth })
+        flatten(child, depth + 1)
+      }
+    }
+    flatten(root, 0)
+    return { rows, results }
+  }, [filteredBindings, registry.prefixes])
+
   // Group by next key (for showing available continuations)
   const groupedByNextKey = useMemo(() => {
     const groups = new Map<string, LookupResult[]>()
@@ -180,7 +227,7 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
       // If this binding is longer than pending, group by next key
       if (result.sequence.length > pendingKeys.length) {
         const nextCombo = result.sequence[pendingKeys.length]
-        const nextKey = formatCombination([nextCombo]).display
+        const nextKey = formatCombination([nextCombo], style).display
 
         const existing = groups.get(nextKey) || []
         existing.push(result)
@@ -194,15 +241,15 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
     }
 
     return groups
-  }, [filteredBindings, pendingKeys])
+  }, [filteredBindings, pendingKeys, style])
 
   // Render pending keys with nice icons (same style as results)
   const renderedPendingKeys = useMemo(() => {
     if (pendingKeys.length === 0) return null
     return pendingKeys.map((combo, i) =>
-      renderSeqElem({ type: 'key', key: combo.key, modifiers: combo.modifiers }, i)
+      renderSeqElem({ type: 'key', key: combo.key, modifiers: combo.modifiers }, i, undefined, style)
     )
-  }, [pendingKeys])
+  }, [pendingKeys, style])
 
   // Extract leading digits from pending keys (e.g., user typed "3" to filter)
   const extractDigitsFromPending = useCallback((): number | null => {
@@ -309,7 +356,7 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
 
       if (e.key === 'ArrowDown' && !e.ctrlKey && !e.altKey && !e.metaKey && !e.shiftKey) {
         e.preventDefault()
-        setSelectedIndex(prev => Math.min(prev + 1, filteredBindings.length - 1))
+        setSelectedIndex(prev => Math.min(prev + 1, results.length - 1))
         return
       }
 
@@ -321,7 +368,7 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
 
       if (e.key === 'Enter') {
         e.preventDefault()
-        const selected = filteredBindings[selectedIndex]
+        const selected = results[selectedIndex]
         if (selected) {
           attemptExecute(selected)
         }
@@ -339,6 +386,7 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
         e.preventDefault()
         const newCombo: KeyCombination = {
           key: normalizeKey(e.key),
+          code: e.code || undefined,
           modifiers: {
             ctrl: e.ctrlKey,
             alt: e.altKey,
@@ -352,7 +400,7 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [isLookupOpen, pendingKeys, filteredBindings, selectedIndex, closeLookup, attemptExecute])
+  }, [isLookupOpen, pendingKeys, results, selectedIndex, closeLookup, attemptExecute])
 
   // Handle backdrop click
   const handleBackdropClick = useCallback(() => {
@@ -410,16 +458,27 @@ export function LookupModal({ defaultBinding = 'meta+shift+k' }: LookupModalProp
             {filteredBindings.length === 0 ? (
               <div className="kbd-lookup-empty">No matching shortcuts</div>
             ) : (
-              filteredBindings.map((result, index) => (
+              rows.map(row => row.type === 'prefix' ? (
+                <div
+                  key={`prefix:${row.id}`}
+                  className="kbd-lookup-prefix"
+                  style={{ '--kbd-depth': row.depth } as React.CSSProperties}
+                  title={row.prefix.config.description}
+                >
+                  <span className="kbd-lookup-binding">{renderKeySeq(parseKeySeq(row.prefix.keys), undefined, style)}</span>
+                  <span className="kbd-lookup-prefix-label">{row.prefix.config.label}</span>
+                </div>
+              ) : (
                 <div
-                  key={result.binding}
-                  className={`kbd-lookup-result ${index === selectedIndex ? 'selected' : ''}`}
-                  onClick={() => attemptExecute(result)}
-                  onMouseEnter={() => setSelectedIndex(index)}
+                  key={row.result.binding}
+                  className={`kbd-lookup-result ${row.index === selectedIndex ? 'selected' : ''}`}
+                  style={{ '--kbd-depth': row.depth } as React.CSSProperties}
+                  onClick={() => attemptExecute(row.result)}
+                  onMouseEnter={() => setSelectedIndex(row.index)}
                 >
-                  <span className="kbd-lookup-binding">{renderKeySeq(result.keySeq)}</span>
+                  <span className="kbd-lookup-binding">{renderKeySeq(row.result.keySeq, undefined, style)}</span>
                   <span className="kbd-lookup-labels">
-                    {result.labels.join(', ')}
+                    {row.result.labels.join(', ')}
                   </span>
                 </div>
               ))
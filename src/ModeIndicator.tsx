@@ -1,4 +1,4 @@
-import { useMemo } from 'react'
+import { Fragment, useMemo } from 'react'
 import { useMaybeHotkeysContext } from './HotkeysProvider'
 
 export type ModeIndicatorPosition = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left'
@@ -11,9 +11,11 @@ export interface ModeIndicatorProps {
 }
 
 /**
- * Optional UI component that shows the currently active mode as a fixed pill.
+ * Optional UI component that shows the active modes as a fixed pill.
  *
- * Displays the mode label with its accent color and a dismiss button.
+ * Displays a breadcrumb of the mode stack (outermost first), each label in its mode's
+ * accent color; clicking an outer mode returns to it. The dismiss button exits the
+ * innermost mode, and modes with `autoExitMs` show a countdown bar (restarting with each action).
  * Automatically hides when no mode is active.
  *
  * @example
@@ -30,30 +32,54 @@ export function ModeIndicator({
 }: ModeIndicatorProps) {
   const ctx = useMaybeHotkeysContext()
 
-  const activeMode = ctx?.activeMode
-  const modeInfo = useMemo(() => {
-    if (!activeMode || !ctx?.modes) return null
-    return ctx.modes.get(activeMode) ?? null
-  }, [activeMode, ctx?.modes])
+  const modeStack = ctx?.modeStack
+  const stackModes = useMemo(() => {
+    if (!modeStack || !ctx?.modes) return []
+    return modeStack.flatMap(id => {
+      const mode = ctx.modes.get(id)
+      return mode ? [{ id, config: mode.config }] : []
+    })
+  }, [modeStack, ctx?.modes])
 
-  if (!modeInfo || !activeMode) return null
+  if (stackModes.length === 0) return null
+  const current = stackModes[stackModes.length - 1]
+  // Countdown of the innermost mode that auto-exits when idle
+  const timed = stackModes.slice().reverse().find(({ id, config }) => config.autoExitMs && ctx?.modeTimeouts[id])
 
   const positionClass = `kbd-mode-${position}`
   const classes = ['kbd-mode-indicator', positionClass, className].filter(Boolean).join(' ')
+  const colorStyle = (color?: string) => color ? { '--kbd-mode-color': color } as React.CSSProperties : undefined
 
   return (
-    <div
-      className={classes}
-      style={modeInfo.config.color ? { '--kbd-mode-color': modeInfo.config.color } as React.CSSProperties : undefined}
-    >
-      <span className="kbd-mode-indicator-label">{modeInfo.config.label}</span>
+    <div className={classes} style={colorStyle(current.config.color)}>
+      {stackModes.slice(0, -1).map(({ id, config }, i) => (
+        <Fragment key={id}>
+          <button
+            className="kbd-mode-indicator-crumb"
+            style={colorStyle(config.color)}
+            onClick={() => ctx?.deactivateMode(stackModes[i + 1].id)}
+            title={`Return to ${config.label} mode`}
+          >
+            {config.label}
+          </button>
+          <span className="kbd-mode-indicator-separator" aria-hidden="true">›</span>
+        </Fragment>
+      ))}
+      <span className="kbd-mode-indicator-label">{current.config.label}</span>
       <button
         className="kbd-mode-indicator-dismiss"
-        onClick={() => ctx?.deactivateMode()}
-        aria-label={`Exit ${modeInfo.config.label} mode`}
+        onClick={() => ctx?.popMode()}
+        aria-label={`Exit ${current.config.label} mode`}
       >
         ×
       </button>
+      {timed && (
+        <div
+          className="kbd-sequence-timeout kbd-mode-indicator-timeout"
+          key={ctx?.modeTimeouts[timed.id]}
+          style={{ animationDuration: `${timed.config.autoExitMs}ms` }}
+        />
+      )}
     </div>
   )
 }
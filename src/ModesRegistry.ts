@@ -1,5 +1,6 @@
-import { createContext, useCallback, useMemo, useRef, useState } from 'react'
-import { dbg } from './debug'
+import { createContext, useMemo, useState, useSyncExternalStore } from 'react'
+import { createKbdEngine } from './engine'
+import type { KbdEngine } from './engine'
 import type { ModeConfig, RegisteredMode } from './types'
 
 export interface ModesRegistryValue {
@@ -9,12 +10,20 @@ export interface ModesRegistryValue {
   unregister: (id: string) => void
   /** Currently registered modes */
   modes: Map<string, RegisteredMode>
-  /** Currently active mode ID (null if none) */
+  /** Active modes, outermost first */
+  modeStack: string[]
+  /** Innermost active mode ID (null if none) */
   activeMode: string | null
-  /** Activate a mode by ID */
+  /** When each active mode with `autoExitMs` last (re)started its idle countdown, by mode ID */
+  modeTimeouts: Record<string, number>
+  /** Activate a mode by ID (pushing it if its config sets `push`, else replacing the active modes) */
   activateMode: (id: string) => void
-  /** Deactivate the current mode */
-  deactivateMode: () => void
+  /** Push a mode onto the mode stack (if already on it, pop the modes above it) */
+  pushMode: (id: string) => void
+  /** Pop the innermost active mode */
+  popMode: () => void
+  /** Deactivate a mode and any nested inside it; with no ID, deactivate all modes */
+  deactivateMode: (id?: string) => void
   /** Toggle a mode: deactivate if active, activate otherwise */
   toggleMode: (id: string) => void
 }
@@ -22,92 +31,47 @@ export interface ModesRegistryValue {
 export const ModesRegistryContext = createContext<ModesRegistryValue | null>(null)
 
 /**
- * Hook to create a modes registry.
+ * Hook to create a modes registry: a React adapter over a `KbdEngine`'s modes.
  * Used internally by HotkeysProvider.
+ * @param engine - Engine to adapt (default: one created by the hook)
  */
-export function useModesRegistry(): ModesRegistryValue {
-  const modesRef = useRef<Map<string, RegisteredMode>>(new Map())
-  const [modesVersion, setModesVersion] = useState(0)
-  const [activeMode, setActiveMode] = useState<string | null>(null)
-
-  // Keep a ref to activeMode for use in callbacks without stale closures
-  const activeModeRef = useRef<string | null>(null)
-  activeModeRef.current = activeMode
-
-  const register = useCallback((id: string, config: ModeConfig) => {
-    dbg.modes('register mode: %s (%s)', id, config.label)
-    modesRef.current.set(id, {
-      config,
-      registeredAt: Date.now(),
-    })
-    setModesVersion(v => v + 1)
-  }, [])
-
-  const unregister = useCallback((id: string) => {
-    dbg.modes('unregister mode: %s', id)
-    modesRef.current.delete(id)
-    // If the unregistered mode was active, deactivate it
-    if (activeModeRef.current === id) {
-      setActiveMode(null)
-    }
-    setModesVersion(v => v + 1)
-  }, [])
-
-  const activateMode = useCallback((id: string) => {
-    const mode = modesRef.current.get(id)
-    if (!mode) return
-    dbg.modes('activate mode: %s', id)
-
-    // Deactivate previous mode if different
-    const prev = activeModeRef.current
-    if (prev && prev !== id) {
-      const prevMode = modesRef.current.get(prev)
-      prevMode?.config.onDeactivate?.()
-    }
-
-    activeModeRef.current = id
-    setActiveMode(id)
-    mode.config.onActivate?.()
-  }, [])
-
-  const deactivateMode = useCallback(() => {
-    const current = activeModeRef.current
-    if (!current) return
-    dbg.modes('deactivate mode: %s', current)
-
-    const mode = modesRef.current.get(current)
-    activeModeRef.current = null
-    setActiveMode(null)
-    mode?.config.onDeactivate?.()
-  }, [])
-
-  const toggleMode = useCallback((id: string) => {
-    if (activeModeRef.current === id) {
-      deactivateMode()
-    } else {
-      activateMode(id)
-    }
-  }, [activateMode, deactivateMode])
-
-  const modes = useMemo(() => {
-    return new Map(modesRef.current)
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [modesVersion])
+export function useModesRegistry(engine?: KbdEngine): ModesRegistryValue {
+  const [ownEngine] = useState(() => engine ? null : createKbdEngine())
+  const {
+    registerMode,
+    unregisterMode,
+    activateMode,
+    pushMode,
+    popMode,
+    deactivateMode,
+    toggleMode,
+    subscribe,
+    getState,
+  } = engine ?? ownEngine!
+  const { modes, modeStack, activeMode, modeTimeouts } = useSyncExternalStore(subscribe, getState, getState)
 
   return useMemo(() => ({
-    register,
-    unregister,
+    register: registerMode,
+    unregister: unregisterMode,
     modes,
+    modeStack,
     activeMode,
+    modeTimeouts,
     activateMode,
+    pushMode,
+    popMode,
     deactivateMode,
     toggleMode,
   }), [
-    register,
-    unregister,
+    registerMode,
+    unregisterMode,
     modes,
+    modeStack,
     activeMode,
+    modeTimeouts,
     activateMode,
+    pushMode,
+    popMode,
     deactivateMode,
     toggleMode,
   ])
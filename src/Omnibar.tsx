@@ -1,13 +1,13 @@
 import { Fragment, KeyboardEvent, MouseEvent, ReactNode, RefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { ACTION_MODE_PREFIX, ACTION_OMNIBAR, DEFAULT_BUILTIN_GROUP } from './constants'
-import { useMaybeHotkeysContext } from './HotkeysProvider'
-import { ModifierIcon } from './ModifierIcons'
+import { ACTION_CLEAR_HISTORY, ACTION_MODE_PREFIX, ACTION_OMNIBAR, DEFAULT_BUILTIN_GROUP, OMNIBAR_GROUP_PREFIX } from './constants'
+import { useMaybeHotkeysContext, useRenderStyle } from './HotkeysProvider'
+import { renderModifierIcons } from './KeyElements'
 import { useAction } from './useAction'
-import { useOmnibar, RemoteOmnibarResult, EndpointPaginationInfo } from './useOmnibar'
+import { useOmnibar, RemoteOmnibarResult, EndpointPaginationInfo, OmnibarChoiceResult, OmnibarPage, OmnibarPrefixHint, OmnibarScope } from './useOmnibar'
 import { useParamEntry } from './useParamEntry'
-import { parseKeySeq, formatKeyForDisplay } from './utils'
-import type { SeqElem, OmnibarEntry } from './types'
-import type { ActionRegistry, ActionSearchResult, HotkeySequence, SequenceCompletion } from './types'
+import { formatCombination, formatParamValue, parseKeySeq, formatKeyForDisplay } from './utils'
+import type { SeqElem, OmnibarEntry, RenderStyle } from './types'
+import type { ActionArgs, ActionArgValue, ActionChoice, ActionParam, ActionRegistry, ActionSearchResult, HotkeySequence, SequenceCompletion } from './types'
 import type { HandlerMap, HotkeyMap } from './useHotkeys'
 
 export interface OmnibarProps {
@@ -64,11 +64,17 @@ export interface OmnibarProps {
   backdropClassName?: string
   /** CSS class for the omnibar container */
   omnibarClassName?: string
+  /** Display style for bindings (default: the HotkeysProvider's `renderStyle`) */
+  renderStyle?: RenderStyle
 }
 
 export interface OmnibarRenderProps {
   query: string
   setQuery: (query: string) => void
+  /** Sources the query is restricted to by its prefix (for a chip; null if unprefixed) */
+  scope: OmnibarScope | null
+  /** Query prefixes available (for hints when the query is empty) */
+  prefixes: OmnibarPrefixHint[]
   /** Local action search results */
   results: ActionSearchResult[]
   /** Remote endpoint results */
@@ -93,16 +99,34 @@ export interface OmnibarRenderProps {
   inputRef: RefObject<HTMLInputElement | null>
   /** Action ID pending parameter entry */
   pendingParamAction: string | null
-  /** Submit parameter value */
+  /** The pending action's param being prompted for (null while awaiting a digit-placeholder value) */
+  pendingParam: ActionParam | null
+  /** The pending action's params entered so far */
+  pendingArgs: ActionArgs
+  /** Submit digit-placeholder value */
   submitParam: (value: number) => void
+  /** Submit the value of `pendingParam` */
+  submitArg: (value: ActionArgValue | undefined) => void
   /** Cancel parameter entry */
   cancelParam: () => void
+  /** Drill-down pages open, outermost first (for a breadcrumb; empty on the main page) */
+  stack: OmnibarPage[]
+  /** Choices on the current drill-down page (indexed by `selectedIndex`) */
+  choiceResults: OmnibarChoiceResult[]
+  /** Whether the current page's choices are loading */
+  isLoadingChoices: boolean
+  /** Error loading the current page's choices, if any */
+  choicesError: Error | null
+  /** Pick a choice: open its nested page, or run the page's action with it */
+  selectChoice: (choice: ActionChoice) => void
+  /** Go back up a page, or to `depth` pages deep (0: the main page) */
+  popPage: (depth?: number) => void
 }
 
 /**
  * Render a single sequence element
  */
-function SeqElemBadge({ elem }: { elem: SeqElem }) {
+function SeqElemBadge({ elem, style }: { elem: SeqElem; style: RenderStyle }) {
   if (elem.type === 'digit') {
     return <span className="kbd-placeholder" title="Any single digit (0-9)">#</span>
   }
@@ -112,30 +136,31 @@ function SeqElemBadge({ elem }: { elem: SeqElem }) {
   if (elem.type === 'float') {
     return <span className="kbd-placeholder" title="A number (integer or decimal)">#.#</span>
   }
+  if (elem.leader) {
+    const leader = formatCombination({ key: elem.key, modifiers: elem.modifiers }, style).display
+    return <span className="kbd-leader" title={`Leader key (${leader})`}>Leader</span>
+  }
   // Regular key with modifiers
   return (
     <>
-      {elem.modifiers.meta && <ModifierIcon modifier="meta" className="kbd-modifier-icon" />}
-      {elem.modifiers.ctrl && <ModifierIcon modifier="ctrl" className="kbd-modifier-icon" />}
-      {elem.modifiers.alt && <ModifierIcon modifier="alt" className="kbd-modifier-icon" />}
-      {elem.modifiers.shift && <ModifierIcon modifier="shift" className="kbd-modifier-icon" />}
-      <span>{formatKeyForDisplay(elem.key)}</span>
+      {renderModifierIcons(elem.modifiers, 'kbd-modifier-icon', style)}
+      <span>{formatKeyForDisplay(elem.key, style)}</span>
     </>
   )
 }
 
 /**
- * Render a key binding with modifier icons and digit placeholders
+ * Render a key binding with modifier icons and digit placeholders (`<leader>` standing for `leader`)
  */
-function BindingBadge({ binding }: { binding: string }) {
-  const keySeq = parseKeySeq(binding)
+function BindingBadge({ binding, leader, style }: { binding: string; leader?: string; style: RenderStyle }) {
+  const keySeq = parseKeySeq(binding, leader)
 
   return (
     <kbd className="kbd-kbd">
       {keySeq.map((elem, i) => (
         <Fragment key={i}>
           {i > 0 && <span className="kbd-sequence-sep"> </span>}
-          <SeqElemBadge elem={elem} />
+          <SeqElemBadge elem={elem} style={style} />
         </Fragment>
       ))}
     </kbd>
@@ -191,11 +216,13 @@ export function Omnibar({
   children,
   backdropClassName = 'kbd-omnibar-backdrop',
   omnibarClassName = 'kbd-omnibar',
+  renderStyle,
 }: OmnibarProps) {
   const inputRef = useRef<HTMLInputElement | null>(null)
 
   // Try to get context (returns null if not within HotkeysProvider)
   const ctx = useMaybeHotkeysContext()
+  const style = useRenderStyle(renderStyle)
 
   // Use context values with prop overrides
   const actions = actionsProp ?? ctx?.registry.actionRegistry ?? {}
@@ -210,12 +237,23 @@ export function Omnibar({
     handler: useCallback(() => ctx?.toggleOmnibar(), [ctx?.toggleOmnibar]),
   })
 
+  // Let users forget which actions they've used (resetting the ranking of results)
+  const clearHistory = ctx?.clearHistory
+  useAction(ACTION_CLEAR_HISTORY, {
+    label: 'Clear recent actions',
+    description: 'Forget usage history that ranks omnibar results',
+    group: ctx?.builtinGroup ?? DEFAULT_BUILTIN_GROUP,
+    keywords: ['history', 'frecency', 'reset'],
+    hideFromModal: true,
+    handler: useCallback(() => clearHistory?.(), [clearHistory]),
+  })
+
   // Create execute handler that falls back to context
-  const handleExecute = useCallback((actionId: string, captures?: number[]) => {
+  const handleExecute = useCallback((actionId: string, captures?: number[], args?: ActionArgs) => {
     if (onExecuteProp) {
       onExecuteProp(actionId)
     } else if (ctx?.executeAction) {
-      ctx.executeAction(actionId, captures)
+      ctx.executeAction(actionId, captures, args)
     }
   }, [onExecuteProp, ctx])
 
@@ -237,21 +275,24 @@ export function Omnibar({
     }
   }, [onOpenProp, ctx])
 
-  // Create remote execute handler
-  const handleExecuteRemote = useCallback((entry: OmnibarEntry) => {
+  // Create remote execute handler (recording the entry's use, for ranking)
+  const handleExecuteRemote = useCallback((entry: OmnibarEntry, id: string) => {
+    ctx?.recordActionUsage(id)
     if (onExecuteRemoteProp) {
       onExecuteRemoteProp(entry)
     } else if ('href' in entry && entry.href) {
       // Default behavior: navigate to href using window.location
       window.location.href = entry.href
     }
-  }, [onExecuteRemoteProp])
+  }, [onExecuteRemoteProp, ctx])
 
   const {
     isOpen: internalIsOpen,
     close,
     query,
     setQuery,
+    scope,
+    prefixes,
     results,
     remoteResults,
     isLoadingRemote,
@@ -266,12 +307,22 @@ export function Omnibar({
     pendingKeys,
     isAwaitingSequence,
     pendingParamAction,
+    pendingParam,
+    pendingArgs,
     submitParam,
+    submitArg,
     cancelParam,
+    stack,
+    choiceResults,
+    isLoadingChoices,
+    choicesError,
+    selectChoice,
+    popPage,
   } = useOmnibar({
     actions,
     handlers: handlersProp,
     keymap,
+    leader: ctx?.registry.leader,
     openKey: '', // Trigger is handled via useAction, not useOmnibar
     enabled: false,
     onOpen: handleOpen,
@@ -280,7 +331,8 @@ export function Omnibar({
     onExecuteRemote: handleExecuteRemote,
     maxResults,
     endpointsRegistry: ctx?.endpointsRegistry,
-    recentActionIds: ctx?.recentActionIds,
+    actionUsage: ctx?.actionUsage,
+    matcher: ctx?.matcher,
   })
 
   // Use prop, then context, then internal state
@@ -325,21 +377,28 @@ export function Omnibar({
 
   // Note: Browser back button handling is centralized in HotkeysProvider
 
-  // Focus input when opened
+  // Focus input when opened; leave any drill-down pages when closed (e.g. from the context)
   useEffect(() => {
     if (isOpen) {
       // Slight delay to ensure DOM is ready
       requestAnimationFrame(() => {
         inputRef.current?.focus()
       })
+    } else {
+      popPage(0)
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen])
 
-  // Parameter entry for actions with digit placeholders
+  // Parameter entry for actions with digit placeholders, and params
   const handleParamSubmit = useCallback((actionId: string, captures: number[]) => {
     submitParam(captures[0])
   }, [submitParam])
 
+  const handleArgSubmit = useCallback((actionId: string, value: ActionArgValue | undefined) => {
+    submitArg(value)
+  }, [submitArg])
+
   const handleParamCancel = useCallback(() => {
     cancelParam()
     requestAnimationFrame(() => inputRef.current?.focus())
@@ -347,17 +406,19 @@ export function Omnibar({
 
   const paramEntry = useParamEntry({
     onSubmit: handleParamSubmit,
+    onSubmitArg: handleArgSubmit,
     onCancel: handleParamCancel,
   })
 
-  // Start param entry when useOmnibar sets pendingParamAction
+  // Start param entry when useOmnibar sets pendingParamAction (and again for each of its params)
   useEffect(() => {
     if (pendingParamAction) {
-      const label = results.find(r => r.id === pendingParamAction)?.action.label ?? pendingParamAction
-      paramEntry.startParamEntry({ id: pendingParamAction, label })
+      const actionLabel = actions[pendingParamAction]?.label ?? pendingParamAction
+      const label = pendingParam ? `${actionLabel}: ${pendingParam.label ?? pendingParam.name}` : actionLabel
+      paramEntry.startParamEntry({ id: pendingParamAction, label, param: pendingParam ?? undefined })
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [pendingParamAction])
+  }, [pendingParamAction, pendingParam])
 
   // IntersectionObserver for scroll-based pagination
   useEffect(() => {
@@ -439,6 +500,13 @@ export function Omnibar({
     return () => document.removeEventListener('keydown', handleGlobalKeyDown, true)
   }, [isOpen, close])
 
+  // With a prefixed query, the input holds the rest; a chip shows the prefix
+  const inputValue = scope ? query.slice(scope.prefix.length) : query
+  const inputPlaceholder = stack.length > 0 ? 'Filter choices...'
+    : scope?.prefix === OMNIBAR_GROUP_PREFIX && !scope.group ? 'Type a group, then a command...'
+      : scope ? `Search ${scope.label}...`
+        : placeholder
+
   // Handle input keydown
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
@@ -459,9 +527,19 @@ export function Omnibar({
           e.preventDefault()
           execute()
           break
+        case 'Backspace':
+          // Backspace in an empty search goes back up a drill-down page, or removes the prefix chip
+          if (query === '' && stack.length > 0) {
+            e.preventDefault()
+            popPage()
+          } else if (scope && inputValue === '') {
+            e.preventDefault()
+            setQuery('')
+          }
+          break
       }
     },
-    [close, selectNext, selectPrev, execute],
+    [close, selectNext, selectPrev, execute, query, stack.length, popPage, scope, inputValue, setQuery],
   )
 
   // Close on backdrop click
@@ -483,6 +561,8 @@ export function Omnibar({
         {children({
           query,
           setQuery,
+          scope,
+          prefixes,
           results,
           remoteResults,
           isLoadingRemote,
@@ -499,8 +579,17 @@ export function Omnibar({
           isAwaitingSequence,
           inputRef,
           pendingParamAction,
+          pendingParam,
+          pendingArgs,
           submitParam,
+          submitArg,
           cancelParam,
+          stack,
+          choiceResults,
+          isLoadingChoices,
+          choicesError,
+          selectChoice,
+          popPage,
         })}
       </>
     )
@@ -517,37 +606,69 @@ export function Omnibar({
               <span className="kbd-omnibar-param-label">
                 {paramEntry.pendingAction?.label ?? results.find(r => r.id === pendingParamAction)?.action.label ?? pendingParamAction}
               </span>
+              {Object.entries(pendingArgs).map(([name, value]) => value !== undefined && (
+                <span key={name} className="kbd-omnibar-param-arg" title={name}>{formatParamValue(value)}</span>
+              ))}
               <input
                 ref={paramEntry.paramInputRef}
                 type="text"
-                inputMode="decimal"
-                pattern="[0-9.]*"
-                className="kbd-omnibar-param-input"
+                inputMode={!pendingParam || pendingParam.type === 'number' ? 'decimal' : 'text'}
+                pattern={pendingParam ? undefined : '[0-9.]*'}
+                className={`kbd-omnibar-param-input${paramEntry.isParamValid ? '' : ' invalid'}`}
+                aria-invalid={!paramEntry.isParamValid}
                 value={paramEntry.paramValue}
                 onChange={(e) => paramEntry.setParamValue(e.target.value)}
                 onKeyDown={paramEntry.handleParamKeyDown}
-                placeholder="Enter value..."
+                placeholder={pendingParam?.placeholder ?? (pendingParam?.optional ? 'Optional...' : 'Enter value...')}
                 autoComplete="off"
                 autoCorrect="off"
                 autoCapitalize="off"
                 spellCheck={false}
               />
-              <span className="kbd-omnibar-param-hint">↵ to confirm · Esc to cancel</span>
+              <span className="kbd-omnibar-param-hint">
+                {paramEntry.suggestions.length > 0 ? '↵ to confirm · Tab to complete · Esc to cancel' : '↵ to confirm · Esc to cancel'}
+              </span>
             </div>
           ) : (
-            <input
-              ref={inputRef}
-              type="text"
-              className="kbd-omnibar-input"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder={placeholder}
-              autoComplete="off"
-              autoCorrect="off"
-              autoCapitalize="off"
-              spellCheck={false}
-            />
+            <>
+              {stack.length > 0 && (
+                // Breadcrumb of drill-down pages (click to go back up)
+                <nav className="kbd-omnibar-breadcrumb" aria-label="Command palette pages">
+                  {stack.map((page, depth) => (
+                    <Fragment key={depth}>
+                      {depth > 0 && <span className="kbd-omnibar-breadcrumb-sep">›</span>}
+                      <button
+                        type="button"
+                        className="kbd-omnibar-breadcrumb-item"
+                        onClick={() => popPage(depth)}
+                      >
+                        {page.label}
+                      </button>
+                    </Fragment>
+                  ))}
+                </nav>
+              )}
+              {scope && (
+                // Sources a prefixed query is restricted to (Backspace in an empty input removes it)
+                <span className="kbd-omnibar-scope">
+                  <kbd className="kbd-kbd">{scope.prefix}</kbd>
+                  {scope.label}
+                </span>
+              )}
+              <input
+                ref={inputRef}
+                type="text"
+                className="kbd-omnibar-input"
+                value={inputValue}
+                onChange={(e) => setQuery(scope ? scope.prefix + e.target.value : e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder={inputPlaceholder}
+                autoComplete="off"
+                autoCorrect="off"
+                autoCapitalize="off"
+                spellCheck={false}
+              />
+            </>
           )}
           <button
             type="button"
@@ -559,8 +680,73 @@ export function Omnibar({
           </button>
         </div>
 
+        {/* Suggested values for the param being entered */}
+        {pendingParam && paramEntry.suggestions.length > 0 && (
+          <div className="kbd-omnibar-param-suggestions" role="listbox">
+            {paramEntry.suggestions.map((suggestion, i) => (
+              <button
+                key={suggestion}
+                type="button"
+                role="option"
+                aria-selected={i === paramEntry.suggestionIndex}
+                className={`kbd-omnibar-param-suggestion${i === paramEntry.suggestionIndex ? ' selected' : ''}`}
+                onClick={() => paramEntry.selectSuggestion(suggestion)}
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Prefixes restricting search, hinted at before typing */}
+        {!pendingParamAction && stack.length === 0 && query === '' && prefixes.length > 0 && (
+          <div className="kbd-omnibar-prefixes">
+            {prefixes.map(({ prefix, label }) => (
+              <button
+                key={prefix}
+                type="button"
+                className="kbd-omnibar-prefix"
+                onClick={() => {
+                  setQuery(prefix)
+                  inputRef.current?.focus()
+                }}
+              >
+                <kbd className="kbd-kbd">{prefix}</kbd>
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="kbd-omnibar-results" ref={resultsContainerRef}>
-          {totalResults === 0 && !isLoadingRemote ? (
+          {stack.length > 0 ? (
+            // Drill-down page: the current action's (or choice's) choices
+            choicesError ? (
+              <div className="kbd-omnibar-error" title={choicesError.message}>
+                Failed to load choices
+              </div>
+            ) : choiceResults.length === 0 ? (
+              <div className={isLoadingChoices ? 'kbd-omnibar-loading' : 'kbd-omnibar-no-results'}>
+                {isLoadingChoices ? 'Loading...' : 'No matching choices'}
+              </div>
+            ) : choiceResults.map(({ choice }, i) => (
+              <div
+                key={choice.value}
+                className={`kbd-omnibar-result kbd-omnibar-choice ${i === selectedIndex ? 'selected' : ''}`}
+                onClick={() => selectChoice(choice)}
+              >
+                <span className="kbd-omnibar-result-label">
+                  {choice.label ?? choice.value}
+                </span>
+                {choice.description && (
+                  <span className="kbd-omnibar-result-description">
+                    {choice.description}
+                  </span>
+                )}
+                {choice.children && <span className="kbd-omnibar-choice-more" aria-hidden>›</span>}
+              </div>
+            ))
+          ) : totalResults === 0 && !isLoadingRemote ? (
             <div className="kbd-omnibar-no-results">
               {query ? 'No matching commands' : 'Start typing to search commands...'}
             </div>
@@ -570,19 +756,25 @@ export function Omnibar({
               {visibleResults.map((result, i) => {
                 const modeId = result.mode
                 const modeInfo = modeId && ctx?.modes ? ctx.modes.get(modeId) : undefined
-                const isModeInactive = modeId && ctx?.activeMode !== modeId
+                const isModeInactive = modeId && !ctx?.modeStack.includes(modeId)
+                const scopeId = result.action.scope
+                const isScopeInactive = scopeId !== undefined && !ctx?.isActionInScope(result.id)
+                const whenReason = ctx?.registry.getWhenReason(result.id) ?? null
                 // Skip mode activation actions (they're internal)
                 if (result.id.startsWith(ACTION_MODE_PREFIX)) return null
 
                 return (
                   <div
                     key={result.id}
-                    className={`kbd-omnibar-result ${i === selectedIndex ? 'selected' : ''}${isModeInactive ? ' kbd-mode-inactive' : ''}`}
+                    className={`kbd-omnibar-result ${i === selectedIndex ? 'selected' : ''}${isModeInactive ? ' kbd-mode-inactive' : ''}${isScopeInactive ? ' kbd-scope-inactive' : ''}${whenReason ? ' kbd-when-inactive' : ''}`}
                     onClick={() => execute(result.id)}
                   >
                     <span className="kbd-omnibar-result-label">
                       {result.action.label}
                     </span>
+                    {result.args && Object.entries(result.args).map(([name, value]) => value !== undefined && (
+                      <span key={name} className="kbd-omnibar-param-arg" title={name}>{formatParamValue(value)}</span>
+                    ))}
                     {modeInfo && (
                       <span
                         className="kbd-mode-badge"
@@ -591,6 +783,19 @@ export function Omnibar({
                         {modeInfo.config.label}
                       </span>
                     )}
+                    {scopeId && (
+                      <span
+                        className="kbd-scope-badge"
+                        title={isScopeInactive ? 'Bindings only fire while focus is inside this region' : undefined}
+                      >
+                        {ctx?.scopes.get(scopeId)?.config.label ?? scopeId}
+                      </span>
+                    )}
+                    {whenReason && (
+                      <span className="kbd-when-badge" title={`Inactive: ${result.action.when}`}>
+                        {whenReason}
+                      </span>
+                    )}
                     {!modeInfo && result.action.group && (
                       <span className="kbd-omnibar-result-category">
                         {result.action.group}
@@ -599,7 +804,7 @@ export function Omnibar({
                     {result.bindings.length > 0 && (
                       <div className="kbd-omnibar-result-bindings">
                         {result.bindings.slice(0, 2).map((binding) => (
-                          <BindingBadge key={binding} binding={binding} />
+                          <BindingBadge key={binding} binding={binding} leader={ctx?.registry.leader} style={style} />
                         ))}
                       </div>
                     )}
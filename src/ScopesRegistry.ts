@@ -0,0 +1,92 @@
+import { createContext, useCallback, useMemo, useRef, useState } from 'react'
+import { dbg } from './debug'
+import type { RegisteredScope, ScopeConfig } from './types'
+
+/** Attribute marking a `<HotkeyScope>` root element */
+export const SCOPE_ATTRIBUTE = 'data-kbd-scope'
+
+export interface ScopesRegistryValue {
+  /** Register a scope. Called by HotkeyScope on mount. */
+  register: (id: string, config: ScopeConfig, element: HTMLElement | null) => void
+  /** Unregister a scope. Called by HotkeyScope on unmount. */
+  unregister: (id: string) => void
+  /** Currently registered scopes */
+  scopes: Map<string, RegisteredScope>
+  /** Scopes containing the focused element, innermost first */
+  activeScopes: string[]
+  /** Recompute `activeScopes` from `document.activeElement` */
+  refreshActiveScopes: () => void
+}
+
+export const ScopesRegistryContext = createContext<ScopesRegistryValue | null>(null)
+
+/**
+ * Get the registered scope IDs containing an element, innermost first
+ */
+function getScopeChain(element: Element | null, scopes: Map<string, RegisteredScope>): string[] {
+  const chain: string[] = []
+  let el = element?.closest(`[${SCOPE_ATTRIBUTE}]`) ?? null
+  while (el) {
+    const id = el.getAttribute(SCOPE_ATTRIBUTE)
+    if (id && scopes.has(id)) chain.push(id)
+    el = el.parentElement?.closest(`[${SCOPE_ATTRIBUTE}]`) ?? null
+  }
+  return chain
+}
+
+/**
+ * Hook to create a scopes registry.
+ * Used internally by HotkeysProvider.
+ */
+export function useScopesRegistry(): ScopesRegistryValue {
+  const scopesRef = useRef<Map<string, RegisteredScope>>(new Map())
+  const [scopesVersion, setScopesVersion] = useState(0)
+  const [activeScopes, setActiveScopes] = useState<string[]>([])
+
+  const refreshActiveScopes = useCallback(() => {
+    if (typeof document === 'undefined') return
+    const chain = getScopeChain(document.activeElement, scopesRef.current)
+    setActiveScopes(prev => {
+      if (prev.length === chain.length && prev.every((id, i) => id === chain[i])) return prev
+      dbg.scopes('active scopes: %o', chain)
+      return chain
+    })
+  }, [])
+
+  const register = useCallback((id: string, config: ScopeConfig, element: HTMLElement | null) => {
+    dbg.scopes('register scope: %s', id)
+    scopesRef.current.set(id, {
+      config,
+      element,
+      registeredAt: Date.now(),
+    })
+    setScopesVersion(v => v + 1)
+    refreshActiveScopes()
+  }, [refreshActiveScopes])
+
+  const unregister = useCallback((id: string) => {
+    dbg.scopes('unregister scope: %s', id)
+    scopesRef.current.delete(id)
+    setActiveScopes(prev => prev.includes(id) ? prev.filter(s => s !== id) : prev)
+    setScopesVersion(v => v + 1)
+  }, [])
+
+  const scopes = useMemo(() => {
+    return new Map(scopesRef.current)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scopesVersion])
+
+  return useMemo(() => ({
+    register,
+    unregister,
+    scopes,
+    activeScopes,
+    refreshActiveScopes,
+  }), [
+    register,
+    unregister,
+    scopes,
+    activeScopes,
+    refreshActiveScopes,
+  ])
+}
@@ -1,14 +1,22 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
-import { useHotkeysContext } from './HotkeysProvider'
+import { useHotkeysContext, useRenderStyle } from './HotkeysProvider'
 import { renderKeySeq, renderModifierIcons, renderKeyContent } from './KeyElements'
-import type { KeyCombination, SequenceCompletion } from './types'
+import { runWithCount } from './matcher'
+import { findPrefix, formatKeyForDisplay, groupCompletionsByPrefix } from './utils'
+import type { KeyCombination, PrefixMenuItem, RenderStyle, SequenceCompletion } from './types'
+
+export interface SequenceModalProps {
+  /** Display style for keys (default: the HotkeysProvider's `renderStyle`) */
+  renderStyle?: RenderStyle
+}
 
 /**
  * Modal that appears during multi-key sequence input (e.g., `g t` for "go to table").
  *
  * When a user presses a key that starts a sequence, this modal appears showing:
- * - The keys pressed so far
- * - Available completions (what keys can come next)
+ * - The keys pressed so far (after any count prefix, shown as "×5")
+ * - Available completions (what keys can come next). With labeled prefixes (see `usePrefix`), these form a
+ *   which-key style grid of next keys, where bindings needing more keys collapse into their prefix
  * - A timeout indicator (only shown when exactly one completion exists)
  *
  * Features:
@@ -28,13 +36,15 @@ import type { KeyCombination, SequenceCompletion } from './types'
  * </HotkeysProvider>
  * ```
  */
-export function SequenceModal() {
+export function SequenceModal({ renderStyle }: SequenceModalProps = {}) {
+  const style = useRenderStyle(renderStyle)
   const {
     pendingKeys,
     isAwaitingSequence,
     cancelSequence,
     sequenceTimeoutStartedAt: timeoutStartedAt,
     sequenceTimeout,
+    sequenceCount,
     getCompletions,
     registry,
     executeAction,
@@ -50,7 +60,16 @@ export function SequenceModal() {
     return getCompletions(pendingKeys)
   }, [getCompletions, pendingKeys])
 
-  // Flatten completions for navigation (each action gets its own row)
+  // With labeled prefixes, a which-key style grid of next keys
+  const { prefixes } = registry
+  const isGrid = prefixes.size > 0
+  const menu = useMemo(
+    (): PrefixMenuItem[] => isGrid ? groupCompletionsByPrefix(completions, prefixes) : [],
+    [isGrid, completions, prefixes],
+  )
+  const prefixLabel = findPrefix(pendingKeys, prefixes, registry.leader)?.config.label
+
+  // Flatten completions for navigation (each action gets its own row; in the grid, prefixes aren't selectable)
   // Group complete matches first, then continuations
   const flatCompletions = useMemo(() => {
     const items: Array<{
@@ -60,22 +79,23 @@ export function SequenceModal() {
       isComplete: boolean
     }> = []
 
-    for (const c of completions) {
-      for (const action of c.actions) {
-        // For complete matches, show "↵" as the key
-        // For continuations, show the next keys needed
-        const displayKey = c.isComplete ? '↵' : c.nextKeys
-        items.push({
-          completion: c,
-          action,
-          displayKey,
-          isComplete: c.isComplete,
-        })
-      }
+    const actionItems = isGrid
+      ? menu.flatMap(item => item.type === 'action' ? [item] : [])
+      : completions.flatMap(completion => completion.actions.map(action => ({ completion, action })))
+    for (const { completion: c, action } of actionItems) {
+      // For complete matches, show "↵" as the key
+      // For continuations, show the next keys needed
+      const displayKey = c.isComplete ? '↵' : c.nextKeys
+      items.push({
+        completion: c,
+        action,
+        displayKey,
+        isComplete: c.isComplete,
+      })
     }
 
     return items
-  }, [completions])
+  }, [isGrid, menu, completions])
 
   const itemCount = flatCompletions.length
 
@@ -92,11 +112,16 @@ export function SequenceModal() {
   const executeSelected = useCallback(() => {
     if (selectedIndex >= 0 && selectedIndex < flatCompletions.length) {
       const item = flatCompletions[selectedIndex]
-      // Execute the action with any captured digit values
-      executeAction(item.action, item.completion.captures)
+      // Execute the action with any captured digit values (and count prefix, as the matcher would)
+      runWithCount(
+        captures => executeAction(item.action, captures),
+        sequenceCount,
+        registry.actions.get(item.action)?.config.repeatable,
+        item.completion.captures,
+      )
       cancelSequence()
     }
-  }, [selectedIndex, flatCompletions, executeAction, cancelSequence])
+  }, [selectedIndex, flatCompletions, sequenceCount, registry.actions, executeAction, cancelSequence])
 
   // Keyboard navigation - intercept arrow keys to prevent page actions
   useEffect(() => {
@@ -138,11 +163,11 @@ export function SequenceModal() {
     const { key, modifiers } = combo
     return (
       <kbd key={index} className="kbd-kbd">
-        {renderModifierIcons(modifiers)}
-        {renderKeyContent(key)}
+        {renderModifierIcons(modifiers, undefined, style)}
+        {renderKeyContent(key, undefined, style)}
       </kbd>
     )
-  }, [])
+  }, [style])
 
   // Get human-readable label for an action from registry, with captured digits interpolated
   const getActionLabel = (actionId: string, captures?: number[]) => {
@@ -161,8 +186,27 @@ export function SequenceModal() {
     return label
   }
 
-  // Don't render if not awaiting sequence or no pending keys
-  if (!isAwaitingSequence || pendingKeys.length === 0) {
+  const renderCompletion = (item: typeof flatCompletions[number], index: number) => (
+    <div
+      key={`${item.completion.fullSequence}-${item.action}`}
+      className={`kbd-sequence-completion ${index === selectedIndex ? 'selected' : ''} ${item.isComplete ? 'complete' : ''}`}
+    >
+      {item.isComplete ? (
+        <kbd className="kbd-kbd">{formatKeyForDisplay('enter', style)}</kbd>
+      ) : item.completion.nextKeySeq ? (
+        renderKeySeq(item.completion.nextKeySeq, undefined, style)
+      ) : (
+        <kbd className="kbd-kbd">{item.displayKey}</kbd>
+      )}
+      <span className="kbd-sequence-arrow">→</span>
+      <span className="kbd-sequence-actions">
+        {getActionLabel(item.action, item.completion.captures)}
+      </span>
+    </div>
+  )
+
+  // Don't render if not awaiting sequence or no pending keys (or count)
+  if (!isAwaitingSequence || (pendingKeys.length === 0 && sequenceCount === null)) {
     return null
   }
 
@@ -171,10 +215,14 @@ export function SequenceModal() {
       <div className="kbd-sequence" onClick={e => e.stopPropagation()}>
         {/* Current sequence at top */}
         <div className="kbd-sequence-current">
+          {sequenceCount !== null && (
+            <span className="kbd-sequence-count">×{sequenceCount}</span>
+          )}
           <div className="kbd-sequence-keys">
             {pendingKeys.map((combo, i) => renderKey(combo, i))}
           </div>
           <span className="kbd-sequence-ellipsis">…</span>
+          {prefixLabel && <span className="kbd-sequence-prefix-label">{prefixLabel}</span>}
         </div>
 
         {/* Timeout progress bar - only shown when exactly one completion and no interaction */}
@@ -187,31 +235,36 @@ export function SequenceModal() {
         )}
 
         {/* Completions list */}
-        {flatCompletions.length > 0 && (
+        {flatCompletions.length > 0 && !isGrid && (
           <div className="kbd-sequence-completions">
-            {flatCompletions.map((item, index) => (
-              <div
-                key={`${item.completion.fullSequence}-${item.action}`}
-                className={`kbd-sequence-completion ${index === selectedIndex ? 'selected' : ''} ${item.isComplete ? 'complete' : ''}`}
-              >
-                {item.isComplete ? (
-                  <kbd className="kbd-kbd">↵</kbd>
-                ) : item.completion.nextKeySeq ? (
-                  renderKeySeq(item.completion.nextKeySeq)
-                ) : (
-                  <kbd className="kbd-kbd">{item.displayKey}</kbd>
-                )}
-                <span className="kbd-sequence-arrow">→</span>
-                <span className="kbd-sequence-actions">
-                  {getActionLabel(item.action, item.completion.captures)}
-                </span>
-              </div>
-            ))}
+            {flatCompletions.map((item, index) => renderCompletion(item, index))}
+          </div>
+        )}
+
+        {/* Which-key grid: actions, and prefixes collapsing the bindings under them */}
+        {isGrid && menu.length > 0 && (
+          <div className="kbd-sequence-completions kbd-sequence-grid">
+            {menu.map(item => {
+              if (item.type === 'action') {
+                const index = flatCompletions.findIndex(c => c.completion === item.completion && c.action === item.action)
+                return renderCompletion(flatCompletions[index], index)
+              }
+              const count = item.completions.reduce((n, c) => n + c.actions.length, 0)
+              return (
+                <div key={item.prefix} className="kbd-sequence-completion kbd-sequence-prefix">
+                  {renderKeySeq(item.nextKeySeq, undefined, style)}
+                  <span className="kbd-sequence-arrow">→</span>
+                  <span className="kbd-sequence-actions">
+                    {item.label ?? `+${count} more`}
+                  </span>
+                </div>
+              )
+            })}
           </div>
         )}
 
-        {/* No completions message */}
-        {flatCompletions.length === 0 && (
+        {/* No completions message (none are listed while only a count is typed) */}
+        {flatCompletions.length === 0 && menu.length === 0 && pendingKeys.length > 0 && (
           <div className="kbd-sequence-empty">
             No matching shortcuts
           </div>
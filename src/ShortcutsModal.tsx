@@ -1,16 +1,16 @@
 import { ComponentType, createContext, Fragment, MouseEvent, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
 import { ACTION_MODAL, ACTION_MODE_PREFIX, DEFAULT_BUILTIN_GROUP, DEFAULT_SEQUENCE_TIMEOUT } from './constants'
 import { dbg } from './debug'
-import { useMaybeHotkeysContext } from './HotkeysProvider'
+import { useMaybeHotkeysContext, useRenderStyle } from './HotkeysProvider'
 import { renderModifierIcons, renderKeyContent } from './KeyElements'
 import { Left, Right, Up, Down, ArrowsMove, ArrowsDpad, ArrowsDouble } from './KeyIcons'
 import type { KeyIconProps } from './KeyIcons'
 import { useAction } from './useAction'
 import { useHotkeys } from './useHotkeys'
 import { useRecordHotkey } from './useRecordHotkey'
-import { findConflicts, formatCombination, getActionBindings, parseHotkeyString, parseKeySeq } from './utils'
+import { bindingHasLeader, findConflicts, formatBinding, formatCombination, formatKeyForDisplay, getActionBindings, getBindingPrefixes, parseHotkeyString, parseKeySeq } from './utils'
 import type { ActionsRegistryValue } from './ActionsRegistry'
-import type { ActionRegistry, Direction, HotkeySequence, KeyCombination, KeyCombinationDisplay, Modifiers, RegisteredMode, SeqElem } from './types'
+import type { ActionRegistry, ActionTrigger, BindingsExport, Direction, RenderStyle, HotkeySequence, ImportDiff, KeyCombination, KeyCombinationDisplay, KeymapProfile, Modifiers, RegisteredMode, SeqElem } from './types'
 import type { HotkeyMap } from './useHotkeys'
 
 /**
@@ -67,6 +67,16 @@ const ResetIcon = () => (
  */
 const TooltipContext = createContext<TooltipComponent>(DefaultTooltip)
 
+/** Render style for keys within the modal (resolved from the `renderStyle` prop / provider) */
+const RenderStyleContext = createContext<RenderStyle>('icons')
+
+/** Options for the header's render-style switcher */
+const RENDER_STYLES: { style: RenderStyle; label: string }[] = [
+  { style: 'icons', label: 'Icons' },
+  { style: 'emacs', label: 'Emacs' },
+  { style: 'text', label: 'Text' },
+]
+
 /** A regular action shortcut entry */
 export interface ActionShortcut {
   type: 'action'
@@ -250,6 +260,11 @@ export interface ShortcutsModalProps {
     importInputRef: React.RefObject<HTMLInputElement>
     handleFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void
   }) => ReactNode
+  /**
+   * Display style for keys (default: the HotkeysProvider's `renderStyle`).
+   * When set, the modal's render-style switcher is hidden.
+   */
+  renderStyle?: RenderStyle
 }
 
 export interface ShortcutsModalRenderProps {
@@ -279,6 +294,16 @@ function parseActionId(actionId: string): { group: string; name: string } {
   return { group: 'General', name: actionId }
 }
 
+/**
+ * Badge text/tooltip for an action's non-default trigger (null for 'press').
+ */
+function triggerBadge(trigger: ActionTrigger | undefined): { label: string; title: string } | null {
+  if (!trigger || trigger === 'press') return null
+  if (trigger === 'release') return { label: 'release', title: 'Fires when the key is released' }
+  if (trigger === 'hold') return { label: 'hold', title: 'Active while the key is held' }
+  return { label: 'hold', title: `Fires after holding the key for ${trigger.holdFor}ms` }
+}
+
 /**
  * Organize keymap into groups for display.
  * Also includes actions with no bindings (from registry) so they can be assigned.
@@ -292,7 +317,7 @@ function organizeShortcuts(
   actionRegistry?: ActionRegistry,
   showUnbound = true,
   modesMap?: Map<string, RegisteredMode>,
-  activeMode?: string | null,
+  modeStack?: string[],
   getEffectiveMode?: (actionId: string) => string | undefined,
   registeredActions?: Map<string, { registeredAt: number }>,
 ): ShortcutGroup[] {
@@ -337,7 +362,7 @@ function organizeShortcuts(
     return {
       id: actionMode,
       color: mode.config.color,
-      active: activeMode === actionMode,
+      active: !!modeStack?.includes(actionMode),
       activationBindings,
     }
   }
@@ -664,10 +689,11 @@ function KeyDisplay({
   combo: KeyCombination
   className?: string
 }) {
+  const style = useContext(RenderStyleContext)
   return (
     <span className={className}>
-      {renderModifierIcons(combo.modifiers)}
-      {renderKeyContent(combo.key)}
+      {renderModifierIcons(combo.modifiers, undefined, style)}
+      {renderKeyContent(combo.key, undefined, style)}
     </span>
   )
 }
@@ -677,6 +703,8 @@ function KeyDisplay({
  */
 function SeqElemDisplay({ elem, className }: { elem: SeqElem; className?: string }) {
   const Tooltip = useContext(TooltipContext)
+  const style = useContext(RenderStyleContext)
+  const leader = useMaybeHotkeysContext()?.registry.leader
 
   if (elem.type === 'digit') {
     return (
@@ -699,6 +727,13 @@ function SeqElemDisplay({ elem, className }: { elem: SeqElem; className?: string
       </Tooltip>
     )
   }
+  if (elem.leader) {
+    return (
+      <Tooltip title={`Leader key (${formatBinding(leader ?? elem.key, style)})`}>
+        <span className={`kbd-leader ${className || ''}`}>Leader</span>
+      </Tooltip>
+    )
+  }
   // Regular key - use KeyDisplay
   return <KeyDisplay combo={{ key: elem.key, modifiers: elem.modifiers }} className={className} />
 }
@@ -866,6 +901,7 @@ function ArrowGroupRow({
   conflicts: Map<string, string[]>
   ArrowIconComponent: ComponentType<KeyIconProps> | null
 }) {
+  const style = useContext(RenderStyleContext)
   const isEditing = arrowGroupEditState?.groupId === entry.groupId
   const modifiers = parseModifierPrefix(entry.modifierPrefix)
   const hasModifiers = modifiers.ctrl || modifiers.alt || modifiers.shift || modifiers.meta
@@ -885,6 +921,13 @@ function ArrowGroupRow({
 
   // Render arrows: compact icon or 4 individual icons
   const renderArrows = () => {
+    if (style !== 'icons') {
+      return (
+        <span className="kbd-arrow-group-arrows">
+          {DIRECTION_ORDER.map(dir => formatKeyForDisplay(arrowKeys[dir], style)).join(style === 'text' ? '/' : '')}
+        </span>
+      )
+    }
     if (ArrowIconComponent) {
       return <ArrowIconComponent className="kbd-key-icon kbd-arrow-group-compact" />
     }
@@ -918,7 +961,7 @@ function ArrowGroupRow({
             <>
               {arrowGroupActiveKeys && (arrowGroupActiveKeys.modifiers.ctrl || arrowGroupActiveKeys.modifiers.alt || arrowGroupActiveKeys.modifiers.shift || arrowGroupActiveKeys.modifiers.meta) ? (
                 <>
-                  {renderModifierIcons(arrowGroupActiveKeys.modifiers)}
+                  {renderModifierIcons(arrowGroupActiveKeys.modifiers, undefined, style)}
                 </>
               ) : null}
               {renderArrows()}
@@ -928,7 +971,7 @@ function ArrowGroupRow({
             <>
               {hasModifiers && (
                 <>
-                  {renderModifierIcons(modifiers)}
+                  {renderModifierIcons(modifiers, undefined, style)}
                 </>
               )}
               {renderArrows()}
@@ -1009,6 +1052,448 @@ function ActionTripletRow({
   )
 }
 
+/** Whether a profile has any customizations (binding overrides, removed defaults, mode edits) */
+function isProfileCustomized({ overrides, removedDefaults, modeCustomizations }: KeymapProfile): boolean {
+  return Object.keys(overrides).length > 0 ||
+    Object.keys(removedDefaults).length > 0 ||
+    (!!modeCustomizations && (
+      Object.keys(modeCustomizations.additions).length > 0 ||
+      Object.keys(modeCustomizations.removals).length > 0 ||
+      Object.keys(modeCustomizations.userModes).length > 0
+    ))
+}
+
+/** Default accent color offered when creating a new user mode */
+const DEFAULT_USER_MODE_COLOR = '#ff9800'
+
+/**
+ * Generate a unique ID for a user-created mode or profile from its label (e.g. "Slice Nav" → "user:slice-nav")
+ */
+function userCreatedId(label: string, fallback: string, taken: (id: string) => boolean): string {
+  const slug = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback
+  const base = `user:${slug}`
+  let id = base
+  for (let n = 2; taken(id); n++) {
+    id = `${base}-${n}`
+  }
+  return id
+}
+
+interface ModeFormValue {
+  label: string
+  color: string
+  binding: string | null
+}
+
+interface ModeFormProps {
+  initial: ModeFormValue
+  submitLabel: string
+  onSubmit: (value: ModeFormValue) => void
+  onCancel: () => void
+  /** Suppress global hotkeys while recording the activation binding */
+  setIsEditingBinding?: (value: boolean) => void
+}
+
+/**
+ * Inline form for creating or editing a user mode: label, color, optional activation binding
+ */
+function ModeForm({ initial, submitLabel, onSubmit, onCancel, setIsEditingBinding }: ModeFormProps) {
+  const style = useContext(RenderStyleContext)
+  const [label, setLabel] = useState(initial.label)
+  const [color, setColor] = useState(initial.color)
+  const [binding, setBinding] = useState<string | null>(initial.binding)
+  const labelInputRef = useRef<HTMLInputElement>(null)
+
+  const { isRecording, startRecording, cancel, pendingKeys } = useRecordHotkey({
+    onCapture: useCallback((_sequence: HotkeySequence, display: KeyCombinationDisplay) => {
+      setBinding(display.id)
+      setIsEditingBinding?.(false)
+    }, [setIsEditingBinding]),
+    onCancel: useCallback(() => {
+      setIsEditingBinding?.(false)
+    }, [setIsEditingBinding]),
+  })
+
+  useEffect(() => {
+    labelInputRef.current?.focus()
+  }, [])
+
+  // Escape while recording cancels the recording (not the form, or the modal)
+  useEffect(() => {
+    if (!isRecording) return
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        e.stopPropagation()
+        cancel()
+      }
+    }
+    window.addEventListener('keydown', handleEscape, true)
+    return () => window.removeEventListener('keydown', handleEscape, true)
+  }, [isRecording, cancel])
+
+  // Release the global-hotkeys suppression if unmounted mid-recording
+  useEffect(() => () => setIsEditingBinding?.(false), [setIsEditingBinding])
+
+  const submit = () => {
+    if (!label.trim()) return
+    if (isRecording) cancel()
+    onSubmit({ label: label.trim(), color, binding })
+  }
+
+  return (
+    <form
+      className="kbd-modes-form"
+      onSubmit={e => {
+        e.preventDefault()
+        submit()
+      }}
+    >
+      <input
+        ref={labelInputRef}
+        type="text"
+        className="kbd-modes-form-label"
+        placeholder="Mode name"
+        aria-label="Mode name"
+        value={label}
+        onChange={e => setLabel(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Escape') {
+            e.preventDefault()
+            e.stopPropagation()
+            onCancel()
+          }
+        }}
+      />
+      <input
+        type="color"
+        className="kbd-modes-form-color"
+        aria-label="Mode color"
+        value={color}
+        onChange={e => setColor(e.target.value)}
+      />
+      <button
+        type="button"
+        className={`kbd-kbd kbd-modes-form-binding${isRecording ? ' editing' : ''}`}
+        title="Activation binding (optional)"
+        onClick={() => {
+          if (isRecording) return
+          setIsEditingBinding?.(true)
+          startRecording()
+        }}
+      >
+        {isRecording
+          ? (pendingKeys.length > 0 ? `${formatCombination(pendingKeys, style).display}…` : 'Press keys…')
+          : binding
+            ? parseKeySeq(binding).map((elem, i) => (
+              <Fragment key={i}>
+                {i > 0 && <span className="kbd-sequence-sep"> </span>}
+                <SeqElemDisplay elem={elem} />
+              </Fragment>
+            ))
+            : 'Set binding…'}
+      </button>
+      {binding && !isRecording && (
+        <button
+          type="button"
+          className="kbd-modes-form-clear"
+          onClick={() => setBinding(null)}
+          aria-label="Clear binding"
+          title="Clear binding"
+        >
+          &times;
+        </button>
+      )}
+      <button type="submit" className="kbd-modes-form-submit" disabled={!label.trim()}>
+        {submitLabel}
+      </button>
+      <button type="button" className="kbd-modes-form-cancel" onClick={onCancel}>
+        Cancel
+      </button>
+    </form>
+  )
+}
+
+interface ProfileBarProps {
+  registry: ActionsRegistryValue
+  editable: boolean
+}
+
+/**
+ * Keymap profile picker: switch profiles and, if editable, create, duplicate, rename or delete them
+ */
+function ProfileBar({ registry, editable }: ProfileBarProps) {
+  const { profiles, activeProfile, switchProfile, createProfile, duplicateProfile, renameProfile, deleteProfile, isBuiltinProfile } = registry
+  // Which label form is open, if any
+  const [form, setForm] = useState<'new' | 'duplicate' | 'rename' | null>(null)
+  const [label, setLabel] = useState('')
+  const labelInputRef = useRef<HTMLInputElement>(null)
+  const current = profiles[activeProfile]
+  const builtin = isBuiltinProfile(activeProfile)
+
+  useEffect(() => {
+    if (form) labelInputRef.current?.focus()
+  }, [form])
+
+  const openForm = (kind: 'new' | 'duplicate' | 'rename', initialLabel: string) => {
+    setLabel(initialLabel)
+    setForm(kind)
+  }
+
+  const submit = () => {
+    const trimmed = label.trim()
+    if (!trimmed) return
+    if (form === 'rename') {
+      renameProfile(activeProfile, trimmed)
+    } else {
+      const id = userCreatedId(trimmed, 'profile', candidate => candidate in profiles)
+      if (form === 'duplicate') {
+        duplicateProfile(activeProfile, id, trimmed)
+      } else {
+        createProfile(id, trimmed)
+      }
+      switchProfile(id)
+    }
+    setForm(null)
+  }
+
+  return (
+    <div className="kbd-profile-bar">
+      <label className="kbd-profile-label">
+        <span>Profile</span>
+        <select
+          className="kbd-profile-select"
+          value={activeProfile}
+          onChange={e => switchProfile(e.target.value)}
+        >
+          {Object.entries(profiles).map(([id, profile]) => (
+            <option key={id} value={id}>{profile.label}</option>
+          ))}
+        </select>
+      </label>
+      {editable && (form ? (
+        <form
+          className="kbd-profile-form"
+          onSubmit={e => {
+            e.preventDefault()
+            submit()
+          }}
+        >
+          <input
+            ref={labelInputRef}
+            type="text"
+            className="kbd-modes-form-label"
+            placeholder="Profile name"
+            aria-label="Profile name"
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Escape') {
+                e.preventDefault()
+                e.stopPropagation()
+                setForm(null)
+              }
+            }}
+          />
+          <button type="submit" className="kbd-modes-form-submit" disabled={!label.trim()}>
+            {form === 'rename' ? 'Save' : 'Create'}
+          </button>
+          <button type="button" className="kbd-modes-form-cancel" onClick={() => setForm(null)}>
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <span className="kbd-profile-actions">
+          <button className="kbd-profile-btn" onClick={() => openForm('new', '')} title="New profile, starting from default bindings">
+            New…
+          </button>
+          <button className="kbd-profile-btn" onClick={() => openForm('duplicate', `${current.label} (copy)`)} title="Copy this profile">
+            Duplicate…
+          </button>
+          {!builtin && (
+            <>
+              <button className="kbd-profile-btn" onClick={() => openForm('rename', current.label)}>
+                Rename…
+              </button>
+              <button
+                className="kbd-profile-btn kbd-profile-delete"
+                onClick={() => deleteProfile(activeProfile)}
+                aria-label={`Delete ${current.label}`}
+                title="Delete profile (switches to Default)"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+interface LeaderBarProps {
+  registry: ActionsRegistryValue
+  /** Suppress global hotkeys while recording the leader key */
+  setIsEditingBinding?: (value: boolean) => void
+}
+
+/**
+ * Leader key picker: `<leader>` in bindings stands for the chosen key, so changing it rebinds every leader sequence
+ */
+function LeaderBar({ registry, setIsEditingBinding }: LeaderBarProps) {
+  const style = useContext(RenderStyleContext)
+  const { leader, setLeader, profiles, activeProfile } = registry
+  const isCustom = profiles[activeProfile].leader !== undefined
+
+  // The first key pressed (with any modifiers) becomes the leader
+  const { isRecording, startRecording, cancel } = useRecordHotkey({
+    sequenceTimeout: 0,
+    onCapture: useCallback((_sequence: HotkeySequence, display: KeyCombinationDisplay) => {
+      setLeader(display.id)
+      setIsEditingBinding?.(false)
+    }, [setLeader, setIsEditingBinding]),
+    onCancel: useCallback(() => {
+      setIsEditingBinding?.(false)
+    }, [setIsEditingBinding]),
+  })
+
+  // Escape while recording cancels the recording (not the modal)
+  useEffect(() => {
+    if (!isRecording) return
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        e.stopPropagation()
+        cancel()
+      }
+    }
+    window.addEventListener('keydown', handleEscape, true)
+    return () => window.removeEventListener('keydown', handleEscape, true)
+  }, [isRecording, cancel])
+
+  // Release the global-hotkeys suppression if unmounted mid-recording
+  useEffect(() => () => setIsEditingBinding?.(false), [setIsEditingBinding])
+
+  return (
+    <div className="kbd-leader-bar">
+      <span className="kbd-leader-bar-label">Leader key</span>
+      <button
+        type="button"
+        className={`kbd-kbd kbd-leader-bar-key${isRecording ? ' editing' : ''}`}
+        title="Change the leader key (rebinds every Leader shortcut)"
+        onClick={() => {
+          if (isRecording) return
+          setIsEditingBinding?.(true)
+          startRecording()
+        }}
+      >
+        {isRecording ? 'Press a key…' : formatBinding(leader, style)}
+      </button>
+      {isCustom && !isRecording && (
+        <button className="kbd-profile-btn" onClick={() => setLeader(undefined)} title="Restore the default leader key">
+          Reset
+        </button>
+      )}
+    </div>
+  )
+}
+
+interface ImportReviewProps {
+  diff: ImportDiff
+  /** Action ID → display label */
+  getLabel: (actionId: string) => string
+  /** Apply the changes at the accepted keys, merging into the current bindings */
+  onApply: (acceptedKeys: Set<string>) => void
+  /** Replace the current bindings with the imported ones wholesale */
+  onReplace: () => void
+  onCancel: () => void
+}
+
+/**
+ * Review of an import's binding changes: each can be accepted or rejected before applying
+ */
+function ImportReview({ diff, getLabel, onApply, onReplace, onCancel }: ImportReviewProps) {
+  const changes = useMemo(
+    () => [...diff.added, ...diff.removed, ...diff.changed].sort((a, b) => a.key.localeCompare(b.key)),
+    [diff],
+  )
+  // Keys whose changes are unchecked (all are accepted by default)
+  const [rejected, setRejected] = useState<Set<string>>(() => new Set())
+  const acceptedCount = changes.length - rejected.size
+
+  const toggle = (key: string) => {
+    setRejected(prev => {
+      const next = new Set(prev)
+      if (!next.delete(key)) next.add(key)
+      return next
+    })
+  }
+
+  const describe = (actions: string[]) => actions.length > 0 ? actions.map(getLabel).join(', ') : 'unbound'
+
+  return (
+    <div className="kbd-import-review">
+      <h3 className="kbd-group-title">Review import</h3>
+      {changes.length === 0 ? (
+        <p className="kbd-import-review-empty">The imported bindings match the current ones.</p>
+      ) : (
+        <ul className="kbd-import-review-list">
+          {changes.map(change => {
+            const conflicting = diff.conflicts.get(change.key)
+            return (
+              <li key={change.key} className={`kbd-import-review-item kbd-import-review-${change.type}`}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={!rejected.has(change.key)}
+                    onChange={() => toggle(change.key)}
+                  />
+                  <kbd className="kbd-kbd">
+                    {parseKeySeq(change.key).map((elem, i) => (
+                      <Fragment key={i}>
+                        {i > 0 && <span className="kbd-sequence-sep"> </span>}
+                        <SeqElemDisplay elem={elem} />
+                      </Fragment>
+                    ))}
+                  </kbd>
+                  <span className="kbd-import-review-from">{describe(change.from)}</span>
+                  <span className="kbd-import-review-arrow">→</span>
+                  <span className="kbd-import-review-to">{describe(change.to)}</span>
+                  {conflicting && (
+                    <span className="kbd-import-review-conflict" title={`Conflict: ${conflicting.map(getLabel).join(', ')}`}>
+                      Conflict
+                    </span>
+                  )}
+                </label>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      {diff.unknownActions.length > 0 && (
+        <p className="kbd-import-review-unknown">
+          Bindings for unregistered actions will be kept as-is: {diff.unknownActions.join(', ')}
+        </p>
+      )}
+      <div className="kbd-import-review-actions">
+        <button
+          className="kbd-footer-btn"
+          onClick={() => onApply(new Set(changes.filter(c => !rejected.has(c.key)).map(c => c.key)))}
+          disabled={acceptedCount === 0 && diff.unknownActions.length === 0}
+        >
+          Apply {acceptedCount} {acceptedCount === 1 ? 'change' : 'changes'}
+        </button>
+        <button className="kbd-footer-btn" onClick={onReplace} title="Discard current customizations and use the imported ones">
+          Replace all
+        </button>
+        <button className="kbd-footer-btn" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
+
 /**
  * Modal for displaying all keyboard shortcuts, organized by group.
  *
@@ -1019,7 +1504,7 @@ function ActionTripletRow({
  * - **Editable bindings**: Click any shortcut to rebind it (when `editable` is true)
  * - **Conflict detection**: Warns when a binding conflicts with existing shortcuts
  * - **Custom group renderers**: Use `groupRenderers` for custom layouts (e.g., two-column for fwd/back pairs)
- * - **Persistence**: Integrates with HotkeysProvider's localStorage persistence
+ * - **Persistence**: Integrates with HotkeysProvider's persistence (localStorage by default)
  *
  * Unlike Omnibar (search-first) or LookupModal (type keys to filter), ShortcutsModal
  * shows everything at once in a browsable, organized view.
@@ -1051,15 +1536,21 @@ interface ModesSectionProps {
   editable: boolean
   registry: ActionsRegistryValue
   actionRegistry: ActionRegistry
+  /** All registered modes (developer-defined and user-created), for ID uniqueness */
+  modes: Map<string, RegisteredMode>
   renderShortcutEntry: (entry: ShortcutEntry) => ReactNode
+  setIsEditingBinding?: (value: boolean) => void
 }
 
-function ModesSection({ modeGroups, editable, registry, actionRegistry, renderShortcutEntry }: ModesSectionProps) {
+function ModesSection({ modeGroups, editable, registry, actionRegistry, modes, renderShortcutEntry, setIsEditingBinding }: ModesSectionProps) {
   const [addingToMode, setAddingToMode] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedIndex, setSelectedIndex] = useState(-1)
+  // `true` while the "New mode…" form is open; a mode ID while editing that user mode
+  const [modeForm, setModeForm] = useState<true | string | null>(null)
   const searchInputRef = useRef<HTMLInputElement>(null)
-  const { getEffectiveMode, addActionToMode, removeActionFromMode } = registry
+  const { getEffectiveMode, addActionToMode, removeActionFromMode, modeCustomizations, createUserMode, updateUserMode, deleteUserMode } = registry
+  const { userModes } = modeCustomizations
 
   // Focus search input when opening add-action panel
   useEffect(() => {
@@ -1099,14 +1590,59 @@ function ModesSection({ modeGroups, editable, registry, actionRegistry, renderSh
     setSelectedIndex(-1)
   }, [addActionToMode])
 
+  const createMode = useCallback(({ label, color, binding }: ModeFormValue) => {
+    const id = userCreatedId(label, 'mode', candidate => modes.has(candidate) || candidate in userModes)
+    createUserMode(id, { label, color, bindings: binding ? [binding] : [], actions: [] })
+    setModeForm(null)
+  }, [modes, userModes, createUserMode])
+
+  const updateMode = useCallback((id: string, { label, color, binding }: ModeFormValue) => {
+    updateUserMode(id, { label, color, bindings: binding ? [binding] : [] })
+    setModeForm(null)
+  }, [updateUserMode])
+
   return (
     <div className="kbd-modes-section">
-      <h3 className="kbd-modes-title">Modes</h3>
+      <div className="kbd-modes-title-row">
+        <h3 className="kbd-modes-title">Modes</h3>
+        {editable && modeForm !== true && (
+          <button className="kbd-modes-new-btn" onClick={() => setModeForm(true)}>
+            + New mode…
+          </button>
+        )}
+      </div>
+      {modeForm === true && (
+        <ModeForm
+          initial={{ label: '', color: DEFAULT_USER_MODE_COLOR, binding: null }}
+          submitLabel="Create"
+          onSubmit={createMode}
+          onCancel={() => setModeForm(null)}
+          setIsEditingBinding={setIsEditingBinding}
+        />
+      )}
       {modeGroups.map(group => {
         const mode = group.mode!
+        const userMode = userModes[mode.id]
+        if (editable && userMode && modeForm === mode.id) {
+          return (
+            <div
+              key={mode.id}
+              className="kbd-modes-entry"
+              style={mode.color ? { '--kbd-mode-color': mode.color } as React.CSSProperties : undefined}
+            >
+              <ModeForm
+                initial={{ label: userMode.label, color: userMode.color ?? DEFAULT_USER_MODE_COLOR, binding: userMode.bindings?.[0] ?? null }}
+                submitLabel="Save"
+                onSubmit={value => updateMode(mode.id, value)}
+                onCancel={() => setModeForm(null)}
+                setIsEditingBinding={setIsEditingBinding}
+              />
+            </div>
+          )
+        }
         return (
           <div
-            key={group.name}
+            key={mode.id}
             className="kbd-modes-entry"
             style={mode.color ? { '--kbd-mode-color': mode.color } as React.CSSProperties : undefined}
           >
@@ -1127,6 +1663,25 @@ function ModesSection({ modeGroups, editable, registry, actionRegistry, renderSh
               {mode.color && (
                 <span className="kbd-modes-color" style={{ backgroundColor: mode.color }} />
               )}
+              {editable && userMode && (
+                <span className="kbd-modes-actions">
+                  <button
+                    className="kbd-modes-edit"
+                    onClick={() => setModeForm(mode.id)}
+                    aria-label={`Edit ${group.name}`}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    className="kbd-modes-delete"
+                    onClick={() => deleteUserMode(mode.id)}
+                    aria-label={`Delete ${group.name}`}
+                    title="Delete mode (its actions become global)"
+                  >
+                    Delete
+                  </button>
+                </span>
+              )}
             </div>
             <div className="kbd-modes-shortcuts">
               {group.shortcuts.map((entry) => {
@@ -1243,9 +1798,11 @@ export function ShortcutsModal({
   TooltipComponent: TooltipComponentProp = DefaultTooltip,
   arrowIcon: arrowIconProp,
   footerContent,
+  renderStyle: renderStyleProp,
 }: ShortcutsModalProps) {
   // Try to get context (returns null if not within HotkeysProvider)
   const ctx = useMaybeHotkeysContext()
+  const renderStyle = useRenderStyle(renderStyleProp)
 
   // Resolve arrowIcon prop to a component
   const ArrowIconComponent = useMemo((): ComponentType<KeyIconProps> | null => {
@@ -1331,21 +1888,22 @@ export function ShortcutsModal({
   const modalRef = useRef<HTMLDivElement>(null)
   const importInputRef = useRef<HTMLInputElement>(null)
   const [importError, setImportError] = useState<string | null>(null)
+  // Imported data awaiting review (context-backed import only)
+  const [importReview, setImportReview] = useState<{ data: BindingsExport; diff: ImportDiff } | null>(null)
 
-  // Check if there are any customizations to export
-  const modeCusts = ctx?.registry.modeCustomizations
-  const hasCustomizations = ctx ? (
-    Object.keys(ctx.registry.overrides).length > 0 ||
-    Object.keys(ctx.registry.removedDefaults).length > 0 ||
-    (modeCusts && (
-      Object.keys(modeCusts.additions).length > 0 ||
-      Object.keys(modeCusts.removals).length > 0 ||
-      Object.keys(modeCusts.userModes).length > 0
-    ))
-  ) : false
+  // Check if there are any customizations to reset (active profile)
+  const hasCustomizations = ctx ? isProfileCustomized(ctx.registry.profiles[ctx.registry.activeProfile]) : false
+
+  // Profiles worth exporting: user-created ones, and built-in ones with customizations
+  const exportedProfileIds = ctx
+    ? Object.entries(ctx.registry.profiles)
+      .filter(([id, profile]) => !ctx.registry.isBuiltinProfile(id) || isProfileCustomized(profile))
+      .map(([id]) => id)
+    : []
+  const canExport = onExport ? hasCustomizations : exportedProfileIds.length > 0
 
   const handleExport = onExport ?? (ctx ? () => {
-    const data = ctx.registry.exportBindings()
+    const data = ctx.registry.exportBindings(exportedProfileIds)
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
@@ -1363,7 +1921,8 @@ export function ShortcutsModal({
     try {
       const text = await file.text()
       const data = JSON.parse(text)
-      ctx.registry.importBindings(data)
+      const diff = ctx.registry.importBindings(data, { strategy: 'preview' })
+      setImportReview({ data, diff })
       setImportError(null)
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to import bindings'
@@ -1413,8 +1972,21 @@ export function ShortcutsModal({
   setIsEditingBindingRef.current = ctx?.setIsEditingBinding
 
   // Compute conflicts (mode-aware when context is available)
-  const conflicts = useMemo(() => findConflicts(keymap, ctx?.registry.getEffectiveMode), [keymap, ctx?.registry.getEffectiveMode])
+  const getActionScope = useCallback(
+    (id: string) => ctx?.registry.actionRegistry?.[id]?.scope,
+    [ctx?.registry.actionRegistry],
+  )
+  const getActionWhen = useCallback(
+    (id: string) => ctx?.registry.actionRegistry?.[id]?.when,
+    [ctx?.registry.actionRegistry],
+  )
+  const leader = ctx?.registry.leader
+  const conflicts = useMemo(
+    () => findConflicts(keymap, ctx?.registry.getEffectiveMode, getActionScope, getActionWhen, leader),
+    [keymap, ctx?.registry.getEffectiveMode, getActionScope, getActionWhen, leader],
+  )
   const actionBindings = useMemo(() => getActionBindings(keymap), [keymap])
+  const hasLeaderBindings = Object.keys(keymap).some(bindingHasLeader)
 
   const close = useCallback(() => {
     setInternalIsOpen(false)
@@ -1708,7 +2280,7 @@ export function ShortcutsModal({
       // Skip the key we're currently editing (it will be replaced)
       if (editingKey && key.toLowerCase() === editingKey.toLowerCase()) continue
 
-      const keySequence = parseHotkeyString(key)
+      const keySequence = parseHotkeyString(key, leader)
 
       // Exact match conflict
       if (sequencesEqual(pendingKeys, keySequence)) {
@@ -1729,7 +2301,7 @@ export function ShortcutsModal({
     }
 
     return { hasConflict: conflictingKeys.size > 0, conflictingKeys }
-  }, [isRecording, pendingKeys, keymap, editingKey, sequencesEqual, isSequencePrefix])
+  }, [isRecording, pendingKeys, keymap, leader, editingKey, sequencesEqual, isSequencePrefix])
 
   // Update hasPendingConflictState when pendingConflictInfo changes
   useEffect(() => {
@@ -1981,8 +2553,8 @@ export function ShortcutsModal({
   // Default showUnbound to true in editable mode, false otherwise
   const effectiveShowUnbound = showUnbound ?? editable
   const shortcutGroups = useMemo(
-    () => organizeShortcuts(keymap, labels, descriptions, groupNames, groupOrder, ctx?.registry.actionRegistry, effectiveShowUnbound, ctx?.modes, ctx?.activeMode, ctx?.registry.getEffectiveMode, ctx?.registry.actions),
-    [keymap, labels, descriptions, groupNames, groupOrder, ctx?.registry.actionRegistry, effectiveShowUnbound, ctx?.modes, ctx?.activeMode, ctx?.registry.getEffectiveMode, ctx?.registry.actions],
+    () => organizeShortcuts(keymap, labels, descriptions, groupNames, groupOrder, ctx?.registry.actionRegistry, effectiveShowUnbound, ctx?.modes, ctx?.modeStack, ctx?.registry.getEffectiveMode, ctx?.registry.actions),
+    [keymap, labels, descriptions, groupNames, groupOrder, ctx?.registry.actionRegistry, effectiveShowUnbound, ctx?.modes, ctx?.modeStack, ctx?.registry.getEffectiveMode, ctx?.registry.actions],
   )
 
   // Arrow group modifier-only recording: listen for keydown/keyup when editing
@@ -2151,8 +2723,15 @@ export function ShortcutsModal({
       )
     }
     const { actionId, label, description, bindings } = entry
+    const scopeId = getActionScope(actionId)
+    const scopeInactive = scopeId !== undefined && !ctx?.isActionInScope(actionId)
+    const whenReason = ctx?.registry.getWhenReason(actionId) ?? null
+    const trigger = triggerBadge(ctx?.registry.actionRegistry?.[actionId]?.trigger)
     return (
-      <div key={actionId} className="kbd-action">
+      <div
+        key={actionId}
+        className={`kbd-action${scopeInactive ? ' kbd-scope-inactive' : ''}${whenReason ? ' kbd-when-inactive' : ''}`}
+      >
         {description ? (
           <TooltipComponentProp title={description}>
             <span className="kbd-action-label">
@@ -2164,6 +2743,24 @@ export function ShortcutsModal({
             {label}
           </span>
         )}
+        {scopeId && (
+          <span
+            className="kbd-scope-badge"
+            title={scopeInactive ? 'Bindings only fire while focus is inside this region' : undefined}
+          >
+            {ctx?.scopes.get(scopeId)?.config.label ?? scopeId}
+          </span>
+        )}
+        {whenReason && (
+          <span className="kbd-when-badge" title={`Inactive: ${ctx?.registry.actionRegistry?.[actionId]?.when}`}>
+            {whenReason}
+          </span>
+        )}
+        {trigger && (
+          <span className="kbd-trigger-badge" title={trigger.title}>
+            {trigger.label}
+          </span>
+        )}
         {renderCell(actionId, bindings)}
       </div>
     )
@@ -2178,176 +2775,270 @@ export function ShortcutsModal({
     }
 
     // Default single-column rendering
-    return group.shortcuts.map(renderShortcutEntry)
+    const prefixes = ctx?.registry.prefixes
+    if (!prefixes?.size) return group.shortcuts.map(renderShortcutEntry)
+
+    // Actions whose bindings all start with a labeled prefix (see `usePrefix`) are listed under it,
+    // by the longest such prefix, after the group's other entries
+    const prefixOf = (entry: ShortcutEntry): string | undefined => {
+      if (entry.type !== 'action' || entry.bindings.length === 0) return undefined
+      const [first, ...rest] = entry.bindings.map(binding => getBindingPrefixes(binding, prefixes))
+      return first.filter(id => rest.every(ids => ids.includes(id))).pop()
+    }
+    const sections = new Map<string, ShortcutEntry[]>()
+    const unprefixed: ShortcutEntry[] = []
+    for (const entry of group.shortcuts) {
+      const id = prefixOf(entry)
+      if (id === undefined) {
+        unprefixed.push(entry)
+      } else {
+        sections.set(id, [...sections.get(id) ?? [], entry])
+      }
+    }
+    return (
+      <>
+        {unprefixed.map(renderShortcutEntry)}
+        {Array.from(sections, ([id, entries]) => {
+          const prefix = prefixes.get(id)!
+          return (
+            <div key={`prefix:${id}`} className="kbd-prefix-section">
+              <div className="kbd-prefix-header" title={prefix.config.description}>
+                <kbd className="kbd-kbd">{formatBinding(prefix.keys, renderStyle)}</kbd>
+                <span className="kbd-prefix-label">{prefix.config.label}</span>
+              </div>
+              {entries.map(renderShortcutEntry)}
+            </div>
+          )
+        })}
+      </>
+    )
   }
 
   // Default render
   return (
     <TooltipContext.Provider value={TooltipComponentProp}>
-      <div className={backdropClassName} onClick={handleBackdropClick}>
-        <div ref={modalRef} className={modalClassName} role="dialog" aria-modal="true" aria-label="Keyboard shortcuts" tabIndex={-1} onClick={handleModalClick}>
-          <div className="kbd-modal-header">
-            <h2 className="kbd-modal-title">{title}</h2>
-            <button className="kbd-modal-close" onClick={close} aria-label="Close">
-              ×
-            </button>
-          </div>
+      <RenderStyleContext.Provider value={renderStyle}>
+        <div className={backdropClassName} onClick={handleBackdropClick}>
+          <div ref={modalRef} className={modalClassName} role="dialog" aria-modal="true" aria-label="Keyboard shortcuts" tabIndex={-1} onClick={handleModalClick}>
+            <div className="kbd-modal-header">
+              <h2 className="kbd-modal-title">{title}</h2>
+              {ctx && !renderStyleProp && (
+                <div className="kbd-render-style-switcher" role="radiogroup" aria-label="Key display style">
+                  {RENDER_STYLES.map(({ style, label }) => (
+                    <button
+                      key={style}
+                      className={`kbd-render-style-btn${style === renderStyle ? ' active' : ''}`}
+                      role="radio"
+                      aria-checked={style === renderStyle}
+                      title={`e.g. ${formatBinding('ctrl+x alt+f', style)}`}
+                      onClick={() => ctx.setRenderStyle(style)}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <button className="kbd-modal-close" onClick={close} aria-label="Close">
+                ×
+              </button>
+            </div>
 
-          {hint && <p className="kbd-hint">{hint}</p>}
+            {ctx && (editable || Object.keys(ctx.registry.profiles).length > 1) && (
+              <ProfileBar registry={ctx.registry} editable={editable} />
+            )}
 
-          {importError && (
-            <div className="kbd-import-error">
-              <span>{importError}</span>
-              <button onClick={() => setImportError(null)} aria-label="Dismiss error">×</button>
-            </div>
-          )}
+            {ctx && editable && hasLeaderBindings && (
+              <LeaderBar registry={ctx.registry} setIsEditingBinding={ctx.setIsEditingBinding} />
+            )}
 
-          {shortcutGroups.filter(g => !g.mode).map((group) => (
-            <div
-              key={group.name}
-              className="kbd-group"
-            >
-              <h3 className="kbd-group-title">
-                {group.name}
-              </h3>
-              {renderGroup(group)}
-            </div>
-          ))}
+            {hint && <p className="kbd-hint">{hint}</p>}
 
-          {/* Modes section: editable mode groups with add/remove */}
-          {ctx && ctx.modes.size > 0 && (() => {
-            const modeGroups = shortcutGroups.filter(g => g.mode)
-            if (modeGroups.length === 0) return null
-            return (
-              <ModesSection
-                modeGroups={modeGroups}
-                editable={editable}
-                registry={ctx.registry}
-                actionRegistry={ctx.registry.actionRegistry}
-                renderShortcutEntry={renderShortcutEntry}
+            {importError && (
+              <div className="kbd-import-error">
+                <span>{importError}</span>
+                <button onClick={() => setImportError(null)} aria-label="Dismiss error">×</button>
+              </div>
+            )}
+
+            {ctx && importReview && (
+              <ImportReview
+                diff={importReview.diff}
+                getLabel={actionId => ctx.registry.actions.get(actionId)?.config.label ?? actionId}
+                onApply={acceptedKeys => {
+                  ctx.registry.importBindings(importReview.data, { strategy: 'merge', accept: change => acceptedKeys.has(change.key) })
+                  setImportReview(null)
+                }}
+                onReplace={() => {
+                  ctx.registry.importBindings(importReview.data)
+                  setImportReview(null)
+                }}
+                onCancel={() => setImportReview(null)}
               />
-            )
-          })()}
-
-          {/* Footer with Export/Import/Reset */}
-          {editable && (handleExport || handleImport || handleReset) && (
-            footerContent !== null && (
-              footerContent ? (
-                footerContent({
-                  exportBindings: hasCustomizations ? handleExport : undefined,
-                  importBindings: handleImport ? () => importInputRef.current?.click() : undefined,
-                  resetBindings: hasCustomizations ? reset : undefined,
-                  importInputRef,
-                  handleFileChange,
-                })
-              ) : (
-                <div className="kbd-modal-footer">
-                  {handleExport && (
-                    <TooltipComponentProp title={hasCustomizations ? "Export bindings" : "No customizations to export"}>
-                      <button
-                        className="kbd-footer-btn"
-                        onClick={handleExport}
-                        disabled={!hasCustomizations}
-                      >
-                        <DownloadIcon />
-                        <span>Export</span>
-                      </button>
-                    </TooltipComponentProp>
-                  )}
-                  {handleImport && (
-                    <TooltipComponentProp title="Import bindings">
-                      <button className="kbd-footer-btn" onClick={() => importInputRef.current?.click()}>
-                        <UploadIcon />
-                        <span>Import</span>
-                      </button>
-                    </TooltipComponentProp>
-                  )}
-                  {handleReset && (
-                    <TooltipComponentProp title={hasCustomizations ? "Reset to defaults" : "No customizations to reset"}>
-                      <button
-                        className="kbd-footer-btn"
-                        onClick={reset}
-                        disabled={!hasCustomizations}
-                      >
-                        <ResetIcon />
-                        <span>Reset</span>
-                      </button>
-                    </TooltipComponentProp>
-                  )}
-                </div>
-              )
-            )
-          )}
+            )}
 
-          {/* Hidden file input for import */}
-          {handleImport && (
-            <input
-              type="file"
-              accept=".json,application/json"
-              ref={importInputRef}
-              onChange={handleFileChange}
-              style={{ display: 'none' }}
-            />
-          )}
+            {!importReview && shortcutGroups.filter(g => !g.mode).map((group) => (
+              <div
+                key={group.name}
+                className="kbd-group"
+              >
+                <h3 className="kbd-group-title">
+                  {group.name}
+                </h3>
+                {renderGroup(group)}
+              </div>
+            ))}
 
-          {/* Pending conflict warning */}
-          {pendingConflict && (
-            <div className="kbd-conflict-warning" style={{
-              padding: '12px',
-              marginTop: '16px',
-              backgroundColor: 'var(--kbd-warning-bg)',
-              borderRadius: 'var(--kbd-radius-sm)',
-              border: '1px solid var(--kbd-warning)',
-            }}>
-              <p style={{ margin: '0 0 8px', color: 'var(--kbd-warning)' }}>
-              This key is already bound to: {pendingConflict.conflictsWith.join(', ')}
-              </p>
-              <div style={{ display: 'flex', gap: '8px' }}>
-                <button
-                  onClick={() => {
-                  // Accept and override
-                    if (addingActionRef.current) {
-                      handleBindingAdd?.(pendingConflict.action, pendingConflict.key)
-                    } else if (editingKeyRef.current) {
-                      handleBindingChange?.(pendingConflict.action, editingKeyRef.current, pendingConflict.key)
-                    }
-                    editingActionRef.current = null
-                    editingKeyRef.current = null
-                    addingActionRef.current = null
-                    setEditingAction(null)
-                    setEditingKey(null)
-                    setAddingAction(null)
-                    setPendingConflict(null)
-                  }}
-                  style={{
-                    padding: '4px 12px',
-                    backgroundColor: 'var(--kbd-accent)',
-                    color: 'white',
-                    border: 'none',
-                    borderRadius: 'var(--kbd-radius-sm)',
-                    cursor: 'pointer',
-                  }}
-                >
-                Override
-                </button>
-                <button
-                  onClick={cancelEditing}
-                  style={{
-                    padding: '4px 12px',
-                    backgroundColor: 'var(--kbd-bg-secondary)',
-                    border: '1px solid var(--kbd-border)',
-                    borderRadius: 'var(--kbd-radius-sm)',
-                    cursor: 'pointer',
-                  }}
-                >
-                Cancel
-                </button>
+            {/* Modes section: editable mode groups with add/remove */}
+            {ctx && !importReview && (ctx.modes.size > 0 || editable) && (() => {
+              const modeGroups = shortcutGroups.filter(g => g.mode)
+              // User-created modes have no developer-assigned actions, so may not appear in any group yet
+              for (const [id, userMode] of Object.entries(ctx.registry.modeCustomizations.userModes)) {
+                if (!ctx.modes.has(id) || modeGroups.some(g => g.mode!.id === id)) continue
+                modeGroups.push({
+                  name: userMode.label,
+                  shortcuts: [],
+                  mode: {
+                    id,
+                    color: userMode.color,
+                    active: ctx.modeStack.includes(id),
+                    activationBindings: ctx.registry.getBindingsForAction(`${ACTION_MODE_PREFIX}${id}`),
+                  },
+                })
+              }
+              if (modeGroups.length === 0 && !editable) return null
+              return (
+                <ModesSection
+                  modeGroups={modeGroups}
+                  editable={editable}
+                  registry={ctx.registry}
+                  actionRegistry={ctx.registry.actionRegistry}
+                  modes={ctx.modes}
+                  renderShortcutEntry={renderShortcutEntry}
+                  setIsEditingBinding={ctx.setIsEditingBinding}
+                />
+              )
+            })()}
+
+            {/* Footer with Export/Import/Reset */}
+            {editable && (handleExport || handleImport || handleReset) && (
+              footerContent !== null && (
+                footerContent ? (
+                  footerContent({
+                    exportBindings: canExport ? handleExport : undefined,
+                    importBindings: handleImport ? () => importInputRef.current?.click() : undefined,
+                    resetBindings: hasCustomizations ? reset : undefined,
+                    importInputRef,
+                    handleFileChange,
+                  })
+                ) : (
+                  <div className="kbd-modal-footer">
+                    {handleExport && (
+                      <TooltipComponentProp title={canExport ? "Export bindings" : "No customizations to export"}>
+                        <button
+                          className="kbd-footer-btn"
+                          onClick={handleExport}
+                          disabled={!canExport}
+                        >
+                          <DownloadIcon />
+                          <span>Export</span>
+                        </button>
+                      </TooltipComponentProp>
+                    )}
+                    {handleImport && (
+                      <TooltipComponentProp title="Import bindings">
+                        <button className="kbd-footer-btn" onClick={() => importInputRef.current?.click()}>
+                          <UploadIcon />
+                          <span>Import</span>
+                        </button>
+                      </TooltipComponentProp>
+                    )}
+                    {handleReset && (
+                      <TooltipComponentProp title={hasCustomizations ? "Reset to defaults" : "No customizations to reset"}>
+                        <button
+                          className="kbd-footer-btn"
+                          onClick={reset}
+                          disabled={!hasCustomizations}
+                        >
+                          <ResetIcon />
+                          <span>Reset</span>
+                        </button>
+                      </TooltipComponentProp>
+                    )}
+                  </div>
+                )
+              )
+            )}
+
+            {/* Hidden file input for import */}
+            {handleImport && (
+              <input
+                type="file"
+                accept=".json,application/json"
+                ref={importInputRef}
+                onChange={handleFileChange}
+                style={{ display: 'none' }}
+              />
+            )}
+
+            {/* Pending conflict warning */}
+            {pendingConflict && (
+              <div className="kbd-conflict-warning" style={{
+                padding: '12px',
+                marginTop: '16px',
+                backgroundColor: 'var(--kbd-warning-bg)',
+                borderRadius: 'var(--kbd-radius-sm)',
+                border: '1px solid var(--kbd-warning)',
+              }}>
+                <p style={{ margin: '0 0 8px', color: 'var(--kbd-warning)' }}>
+                This key is already bound to: {pendingConflict.conflictsWith.join(', ')}
+                </p>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <button
+                    onClick={() => {
+                    // Accept and override
+                      if (addingActionRef.current) {
+                        handleBindingAdd?.(pendingConflict.action, pendingConflict.key)
+                      } else if (editingKeyRef.current) {
+                        handleBindingChange?.(pendingConflict.action, editingKeyRef.current, pendingConflict.key)
+                      }
+                      editingActionRef.current = null
+                      editingKeyRef.current = null
+                      addingActionRef.current = null
+                      setEditingAction(null)
+                      setEditingKey(null)
+                      setAddingAction(null)
+                      setPendingConflict(null)
+                    }}
+                    style={{
+                      padding: '4px 12px',
+                      backgroundColor: 'var(--kbd-accent)',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: 'var(--kbd-radius-sm)',
+                      cursor: 'pointer',
+                    }}
+                  >
+                  Override
+                  </button>
+                  <button
+                    onClick={cancelEditing}
+                    style={{
+                      padding: '4px 12px',
+                      backgroundColor: 'var(--kbd-bg-secondary)',
+                      border: '1px solid var(--kbd-border)',
+                      borderRadius: 'var(--kbd-radius-sm)',
+                      cursor: 'pointer',
+                    }}
+                  >
+                  Cancel
+                  </button>
+                </div>
               </div>
-            </div>
-          )}
+            )}
 
+          </div>
         </div>
-      </div>
+      </RenderStyleContext.Provider>
     </TooltipContext.Provider>
   )
 }
@@ -4,6 +4,17 @@
  */
 export const DEFAULT_SEQUENCE_TIMEOUT = Infinity
 
+/**
+ * Default window (ms) for pressing the keys of a chord (`j&k`) together.
+ * The first key is held back this long, so a plain `j` binding still fires when no chord follows.
+ */
+export const DEFAULT_CHORD_TIMEOUT = 50
+
+/**
+ * Most times a count prefix repeats a `repeatable` action, so a mistyped count (`99999 j`) can't freeze the page
+ */
+export const MAX_REPEAT_COUNT = 100
+
 /**
  * Reserved action IDs for built-in UI components.
  * These are registered automatically by their respective components.
@@ -23,3 +34,51 @@ export const DEFAULT_BUILTIN_GROUP = 'Meta'
  * Mode activation actions are registered with ID `__mode:{modeId}`.
  */
 export const ACTION_MODE_PREFIX = '__mode:'
+
+/**
+ * Prefix for user macro actions.
+ * Each recorded macro is registered as an action with ID `__macro:{macroId}`.
+ */
+export const ACTION_MACRO_PREFIX = '__macro:'
+
+/**
+ * Prefix for physical-key bindings (matched against `KeyboardEvent.code`, not `.key`).
+ * `code:KeyZ` always means the key in the bottom-left letter position, regardless of layout.
+ * `phys:` is accepted as an alias when parsing.
+ */
+export const PHYSICAL_KEY_PREFIX = 'code:'
+
+/**
+ * Token standing for the leader key in bindings (e.g. `<leader> f f`).
+ * Resolved to the user's chosen leader key when matching, so changing it rebinds every leader sequence.
+ */
+export const LEADER_TOKEN = '<leader>'
+
+/**
+ * Default leader key. Override via `leader` in HotkeysConfig; users can change it from ShortcutsModal.
+ */
+export const DEFAULT_LEADER_KEY = 'space'
+
+/**
+ * Built-in omnibar query prefixes: `>` searches only actions (no endpoints), `#` only actions in one group
+ * (`#sort name`: "name" in the group best matching "sort"). Endpoints can declare their own `prefix`.
+ */
+export const OMNIBAR_ACTIONS_PREFIX = '>'
+export const OMNIBAR_GROUP_PREFIX = '#'
+
+/**
+ * Default number of actions (and remote omnibar entries) whose usage is remembered for ranking.
+ * Override via `historySize` in HotkeysConfig; the least frecent are forgotten first.
+ */
+export const DEFAULT_HISTORY_SIZE = 50
+
+/**
+ * Reserved action ID for clearing the omnibar's usage history (registered by `<Omnibar>`).
+ */
+export const ACTION_CLEAR_HISTORY = '__hotkeys:clear-history'
+
+/**
+ * ID of the built-in keymap profile (actions' `defaultBindings` plus user overrides).
+ * Always present; app presets and user-created profiles sit alongside it.
+ */
+export const DEFAULT_PROFILE_ID = 'default'
@@ -0,0 +1,41 @@
+// Framework-agnostic entry point (`use-kbd/core`): the keymap engine and matcher, without React
+
+export type { KbdEngine, KbdEngineOptions, KbdEngineState, RegisteredAction } from './engine'
+export { createKbdEngine } from './engine'
+export type { HandlerMap, HotkeyHandler, HotkeyMap, HotkeyMatcher, HotkeyMatcherOptions, HotkeyMatcherState } from './matcher'
+export { attachHotkeys, createHotkeyMatcher } from './matcher'
+export { findOrphanedActions, migrateBindings, migrationVersion } from './migrations'
+export type { StorageAdapter } from './storage'
+export { createWebStorageAdapter, localStorageAdapter, sessionStorageAdapter } from './storage'
+export type { ActionConfig, ActionHandler } from './useAction'
+export type {
+  ActionArgs,
+  ActionArgValue,
+  ActionChoice,
+  ActionChoicesProvider,
+  ActionParam,
+  ActionParamType,
+  ActionRegistry,
+  ActionTrigger,
+  ActionUsage,
+  BindingsExport,
+  BindingsMigrations,
+  HotkeySequence,
+  ImportBindingsOptions,
+  ImportDiff,
+  KeyCombination,
+  KeymapPreset,
+  KeymapProfile,
+  MacroStep,
+  ModeConfig,
+  ModeCustomizations,
+  PrefixConfig,
+  RegisteredMode,
+  RegisteredPrefix,
+  UserMacro,
+  UserModeConfig,
+} from './types'
+export type { FuzzyMatchResult, SearchMatcher } from './utils'
+export { bindingId, findConflicts, formatBinding, formatParamValue, frecencyScore, fuzzyMatch, parseHotkeyString, parseParamValue, recordUsage, searchActions, smartMatch } from './utils'
+export type { WhenContext } from './when'
+export { evaluateWhen, validateWhen, whenClausesExclusive, whenReason } from './when'
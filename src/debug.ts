@@ -16,4 +16,5 @@ export const dbg = {
   recording: makeDebug('use-kbd:recording'),
   registry:  makeDebug('use-kbd:registry'),
   modes:     makeDebug('use-kbd:modes'),
+  scopes:    makeDebug('use-kbd:scopes'),
 }
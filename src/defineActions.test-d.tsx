@@ -0,0 +1,48 @@
+/**
+ * Type-level tests for `defineActions`, checked by `tsc`: each `@ts-expect-error` line must fail
+ * to compile (a misspelled ID that type-checks is reported as an unused directive).
+ */
+import { defineActions } from './defineActions'
+
+type ActionId = 'doc:save' | 'view:toggle-sidebar'
+type GroupId = 'Document' | 'View'
+
+const { useAction, useActions, useHotkeysContext, useMaybeHotkeysContext, Kbd, Key, Kbds } = defineActions<ActionId, GroupId>()
+
+export function TypedActionsFixture() {
+  useAction('doc:save', { label: 'Save', group: 'Document', handler: () => {} })
+  // @ts-expect-error misspelled action ID
+  useAction('doc:sav', { label: 'Save', handler: () => {} })
+  // @ts-expect-error misspelled group
+  useAction('view:toggle-sidebar', { label: 'Toggle sidebar', group: 'Veiw', handler: () => {} })
+
+  useActions({
+    'view:toggle-sidebar': { label: 'Toggle sidebar', group: 'View', handler: () => {} },
+    // @ts-expect-error misspelled action ID
+    'view:toggle-sidebr': { label: 'Toggle sidebar', handler: () => {} },
+  })
+
+  const { executeAction, isActionInScope, registry } = useHotkeysContext()
+  executeAction('view:toggle-sidebar')
+  // @ts-expect-error misspelled action ID
+  executeAction('view:toggle-sidebr')
+  // @ts-expect-error misspelled action ID
+  isActionInScope('doc:sav')
+  registry.setBinding('doc:save', 'meta+s')
+  // @ts-expect-error misspelled action ID
+  registry.getBindingsForAction('doc:sav')
+  // @ts-expect-error misspelled action ID
+  useMaybeHotkeysContext()?.registry.execute('doc:sav')
+
+  return (
+    <>
+      <Kbd action="doc:save" />
+      {/* @ts-expect-error misspelled action ID */}
+      <Kbd action="doc:sav" />
+      {/* @ts-expect-error misspelled action ID */}
+      <Key action="view:toggle-sidebr" />
+      {/* @ts-expect-error misspelled action ID */}
+      <Kbds action="doc:sav" />
+    </>
+  )
+}
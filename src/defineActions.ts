@@ -0,0 +1,98 @@
+import { useHotkeysContext, useMaybeHotkeysContext } from './HotkeysProvider'
+import { Kbd, Kbds, Key } from './Kbd'
+import { useAction, useActions } from './useAction'
+import type { ActionsRegistryValue } from './ActionsRegistry'
+import type { HotkeysContextValue } from './HotkeysProvider'
+import type { KbdProps } from './Kbd'
+import type { ActionArgs } from './types'
+import type { ActionConfig } from './useAction'
+
+/**
+ * ActionConfig with a typed `group`
+ */
+export type TypedActionConfig<GroupId extends string = string> = Omit<ActionConfig, 'group'> & {
+  /** Group name for organizing in modal */
+  group?: GroupId
+}
+
+/**
+ * Actions registry whose action-ID parameters are restricted to `ActionId`
+ */
+export type TypedActionsRegistryValue<ActionId extends string> = Omit<
+  ActionsRegistryValue,
+  'execute' | 'isActionEnabled' | 'getBindingsForAction' | 'getFirstBindingForAction' | 'setBinding' | 'removeBinding'
+> & {
+  execute: (id: ActionId, captures?: number[], args?: ActionArgs) => void
+  isActionEnabled: (id: ActionId) => boolean
+  getBindingsForAction: (id: ActionId) => string[]
+  getFirstBindingForAction: (id: ActionId) => string | undefined
+  setBinding: (actionId: ActionId, key: string) => void
+  removeBinding: (actionId: ActionId, key: string) => void
+}
+
+/**
+ * Hotkeys context whose action-ID parameters are restricted to `ActionId`
+ */
+export type TypedHotkeysContextValue<ActionId extends string> = Omit<
+  HotkeysContextValue,
+  'registry' | 'executeAction' | 'isActionInScope'
+> & {
+  registry: TypedActionsRegistryValue<ActionId>
+  executeAction: (id: ActionId, captures?: number[], args?: ActionArgs) => void
+  isActionInScope: (id: ActionId) => boolean
+}
+
+/**
+ * KbdProps with a typed `action`
+ */
+export type TypedKbdProps<ActionId extends string> = Omit<KbdProps, 'action'> & {
+  /** Action ID to display binding(s) for */
+  action: ActionId
+}
+
+export interface DefinedActions<ActionId extends string, GroupId extends string> {
+  /** `useAction`, accepting only known action IDs and groups */
+  useAction: (id: ActionId, config: TypedActionConfig<GroupId>) => void
+  /** `useActions`, accepting only known action IDs and groups */
+  useActions: (actions: { [Id in ActionId]?: TypedActionConfig<GroupId> }) => void
+  /** `useHotkeysContext`, with typed `executeAction`, `registry.getBindingsForAction`, etc. */
+  useHotkeysContext: () => TypedHotkeysContextValue<ActionId>
+  /** `useMaybeHotkeysContext`, with typed `executeAction`, `registry.getBindingsForAction`, etc. */
+  useMaybeHotkeysContext: () => TypedHotkeysContextValue<ActionId> | null
+  /** `<Kbd>`, accepting only known action IDs */
+  Kbd: (props: TypedKbdProps<ActionId>) => ReturnType<typeof Kbd>
+  /** `<Key>`, accepting only known action IDs */
+  Key: (props: Omit<TypedKbdProps<ActionId>, 'clickable'>) => ReturnType<typeof Key>
+  /** `<Kbds>`, accepting only known action IDs */
+  Kbds: (props: Omit<TypedKbdProps<ActionId>, 'all'>) => ReturnType<typeof Kbds>
+}
+
+/**
+ * Get typed variants of the action hooks and components, so misspelled action IDs
+ * and group names are compile errors instead of silent no-ops.
+ *
+ * Purely a typing aid: the returned hooks and components are the regular ones.
+ *
+ * @example
+ * ```tsx
+ * type ActionId = 'doc:save' | 'view:toggle-sidebar'
+ * type GroupId = 'Document' | 'View'
+ *
+ * export const { useAction, useHotkeysContext, Kbd } = defineActions<ActionId, GroupId>()
+ *
+ * useAction('doc:save', { label: 'Save', group: 'Document', handler: save })
+ * useHotkeysContext().executeAction('doc:sav')  // Type error
+ * <Kbd action="view:toggle-sidebar" />
+ * ```
+ */
+export function defineActions<ActionId extends string, GroupId extends string = string>(): DefinedActions<ActionId, GroupId> {
+  return {
+    useAction,
+    useActions: useActions as DefinedActions<ActionId, GroupId>['useActions'],
+    useHotkeysContext: useHotkeysContext as () => TypedHotkeysContextValue<ActionId>,
+    useMaybeHotkeysContext: useMaybeHotkeysContext as () => TypedHotkeysContextValue<ActionId> | null,
+    Kbd,
+    Key,
+    Kbds,
+  }
+}
@@ -0,0 +1,537 @@
+import { ACTION_MODAL, ACTION_MODE_PREFIX, ACTION_OMNIBAR, DEFAULT_BUILTIN_GROUP, DEFAULT_SEQUENCE_TIMEOUT } from './constants'
+import { createKbdEngine } from './engine'
+import { runWithCount } from './matcher'
+import { formatBinding, formatCombination, formatKeyForDisplay, getSequenceCompletions, searchActions } from './utils'
+import type { KbdEngine, KbdEngineOptions } from './engine'
+import type { ActionArgs, ActionSearchResult, RenderStyle, SequenceCompletion } from './types'
+import type { ActionConfig } from './useAction'
+
+/**
+ * Options for the shared engine behind `kbd.action` and the `<kbd-*>` elements.
+ */
+export interface KbdElementsOptions extends KbdEngineOptions {
+  /** Group name for built-in actions: shortcuts, command palette (default: "Meta") */
+  builtinGroup?: string
+  /** How key combinations are displayed (default: 'icons'); elements accept a `render-style` attribute override */
+  renderStyle?: RenderStyle
+}
+
+// Same default as HotkeysProvider, so React and non-React pages share customizations
+const DEFAULT_STORAGE_KEY = 'use-kbd'
+
+let options: KbdElementsOptions = {}
+let engine: KbdEngine | null = null
+
+/**
+ * The shared engine: created (and attached to `window`) on first use
+ */
+function getEngine(): KbdEngine {
+  if (!engine) {
+    engine = createKbdEngine({ storageKey: DEFAULT_STORAGE_KEY, ...options })
+    engine.connect()
+    engine.attach()
+  }
+  return engine
+}
+
+/**
+ * Execute an action, activating its mode first (as `HotkeysContextValue.executeAction` does)
+ */
+function executeAction(engine: KbdEngine, id: string, captures?: number[], args?: ActionArgs) {
+  const actionMode = engine.getEffectiveMode(id)
+  if (actionMode && !engine.getState().modeStack.includes(actionMode)) {
+    engine.activateMode(actionMode)
+  }
+  engine.execute(id, captures, args)
+}
+
+/**
+ * Create an element with classes, text and attributes
+ */
+function h<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  props: { className?: string; text?: string; attrs?: Record<string, string> } = {},
+  children: Node[] = [],
+): HTMLElementTagNameMap[K] {
+  const el = document.createElement(tag)
+  if (props.className) el.className = props.className
+  if (props.text !== undefined) el.textContent = props.text
+  for (const [name, value] of Object.entries(props.attrs ?? {})) el.setAttribute(name, value)
+  el.append(...children)
+  return el
+}
+
+const kbdKey = (text: string) => h('kbd', { className: 'kbd-kbd', text })
+
+const parseRenderStyle = (value: string | null): RenderStyle | null =>
+  value === 'icons' || value === 'emacs' || value === 'text' ? value : null
+
+/**
+ * Replace `N` placeholders in a label with captured values
+ */
+function interpolateCaptures(label: string, captures?: number[]): string {
+  if (!captures || captures.length === 0) return label
+  let captureIdx = 0
+  return label.replace(/\bN\b/g, () => captureIdx < captures.length ? String(captures[captureIdx++]) : 'N')
+}
+
+/**
+ * Define `<kbd-omnibar>`, `<kbd-shortcuts>` and `<kbd-sequence>` (once; no-op outside the browser)
+ */
+function defineKbdElements() {
+  if (typeof customElements === 'undefined' || customElements.get('kbd-omnibar')) return
+
+  abstract class KbdElement extends HTMLElement {
+    protected engine!: KbdEngine
+    private cleanups: Array<() => void> = []
+
+    connectedCallback() {
+      // Wait a microtask, so a `kbd.configure()` in the importing module runs first
+      queueMicrotask(() => {
+        if (!this.isConnected || this.cleanups.length > 0) return
+        this.engine = getEngine()
+        this.cleanups = this.setup()
+        this.update()
+      })
+    }
+
+    disconnectedCallback() {
+      for (const cleanup of this.cleanups) cleanup()
+      this.cleanups = []
+      this.replaceChildren()
+    }
+
+    /** Display style: `render-style` attribute, else the configured style */
+    protected get renderStyle(): RenderStyle {
+      return parseRenderStyle(this.getAttribute('render-style')) ?? options.renderStyle ?? 'icons'
+    }
+
+    /** Register actions and listeners; returns their cleanups */
+    protected abstract setup(): Array<() => void>
+    /** Re-render from current state */
+    protected abstract update(): void
+  }
+
+  /**
+   * Command palette: `<kbd-omnibar binding="meta+k" placeholder="…" max-results="25">`
+   */
+  class KbdOmnibarElement extends KbdElement {
+    private isOpen = false
+    private query = ''
+    private selectedIndex = 0
+    private results: ActionSearchResult[] = []
+    private resultsEl: HTMLDivElement | null = null
+
+    protected setup() {
+      const binding = this.getAttribute('binding') ?? 'meta+k'
+      this.engine.register(ACTION_OMNIBAR, {
+        label: 'Command palette',
+        group: options.builtinGroup ?? DEFAULT_BUILTIN_GROUP,
+        sortOrder: 1,
+        defaultBindings: binding ? [binding] : [],
+        handler: () => this.toggle(),
+      })
+      // Close on Escape even if the input loses focus
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (this.isOpen && e.key === 'Escape') {
+          e.preventDefault()
+          e.stopPropagation()
+          this.close()
+        }
+      }
+      document.addEventListener('keydown', handleKeyDown, true)
+      return [
+        this.engine.subscribe(() => this.isOpen && this.renderResults()),
+        () => this.engine.unregister(ACTION_OMNIBAR),
+        () => document.removeEventListener('keydown', handleKeyDown, true),
+      ]
+    }
+
+    open() {
+      this.isOpen = true
+      this.query = ''
+      this.selectedIndex = 0
+      this.update()
+    }
+
+    close() {
+      this.isOpen = false
+      this.update()
+    }
+
+    toggle() {
+      if (this.isOpen) this.close()
+      else this.open()
+    }
+
+    private execute(result: ActionSearchResult | undefined) {
+      if (!result) return
+      this.close()
+      executeAction(this.engine, result.id, result.captures, result.args)
+    }
+
+    protected update() {
+      if (!this.isOpen) {
+        this.resultsEl = null
+        this.replaceChildren()
+        return
+      }
+      const input = h('input', {
+        className: 'kbd-omnibar-input',
+        attrs: {
+          type: 'text',
+          placeholder: this.getAttribute('placeholder') ?? 'Type a command...',
+          autocomplete: 'off',
+          autocorrect: 'off',
+          autocapitalize: 'off',
+          spellcheck: 'false',
+        },
+      })
+      input.addEventListener('input', () => {
+        this.query = input.value
+        this.selectedIndex = 0
+        this.renderResults()
+      })
+      input.addEventListener('keydown', e => {
+        switch (e.key) {
+          case 'ArrowDown':
+            e.preventDefault()
+            this.selectedIndex = Math.min(this.selectedIndex + 1, this.results.length - 1)
+            this.renderResults()
+            break
+          case 'ArrowUp':
+            e.preventDefault()
+            this.selectedIndex = Math.max(this.selectedIndex - 1, 0)
+            this.renderResults()
+            break
+          case 'Enter':
+            e.preventDefault()
+            this.execute(this.results[this.selectedIndex])
+            break
+        }
+      })
+      const closeButton = h('button', { className: 'kbd-omnibar-close', text: '×', attrs: { type: 'button', 'aria-label': 'Close' } })
+      closeButton.addEventListener('click', () => this.close())
+      this.resultsEl = h('div', { className: 'kbd-omnibar-results' })
+      const backdrop = h('div', { className: 'kbd-omnibar-backdrop' }, [
+        h('div', { className: 'kbd-omnibar', attrs: { role: 'dialog', 'aria-modal': 'true', 'aria-label': 'Command palette' } }, [
+          h('div', { className: 'kbd-omnibar-header' }, [input, closeButton]),
+          this.resultsEl,
+        ]),
+      ])
+      backdrop.addEventListener('click', e => {
+        if (e.target === backdrop) this.close()
+      })
+      this.replaceChildren(backdrop)
+      this.renderResults()
+      input.focus()
+    }
+
+    private renderResults() {
+      if (!this.resultsEl) return
+      const { actionRegistry, keymap, modes, modeStack } = this.engine.getState()
+      const maxResults = Number(this.getAttribute('max-results') ?? 25)
+      this.results = searchActions(this.query, actionRegistry, keymap)
+        .filter(result => !result.id.startsWith(ACTION_MODE_PREFIX))
+        .slice(0, maxResults)
+      if (this.results.length === 0) {
+        this.resultsEl.replaceChildren(h('div', {
+          className: 'kbd-omnibar-no-results',
+          text: this.query ? 'No matching commands' : 'Start typing to search commands...',
+        }))
+        return
+      }
+      const style = this.renderStyle
+      this.resultsEl.replaceChildren(...this.results.map((result, i) => {
+        const modeInfo = result.mode ? modes.get(result.mode) : undefined
+        const classes = ['kbd-omnibar-result']
+        if (i === this.selectedIndex) classes.push('selected')
+        if (result.mode && !modeStack.includes(result.mode)) classes.push('kbd-mode-inactive')
+        const whenReason = this.engine.getWhenReason(result.id)
+        if (whenReason) classes.push('kbd-when-inactive')
+        const row = h('div', { className: classes.join(' ') }, [
+          h('span', { className: 'kbd-omnibar-result-label', text: interpolateCaptures(result.action.label, result.captures) }),
+        ])
+        if (whenReason) {
+          row.append(h('span', { className: 'kbd-when-badge', text: whenReason, attrs: { title: `Inactive: ${result.action.when}` } }))
+        }
+        if (modeInfo) {
+          const badge = h('span', { className: 'kbd-mode-badge', text: modeInfo.config.label })
+          if (modeInfo.config.color) badge.style.setProperty('--kbd-mode-color', modeInfo.config.color)
+          row.append(badge)
+        } else if (result.action.group) {
+          row.append(h('span', { className: 'kbd-omnibar-result-category', text: result.action.group }))
+        }
+        if (result.bindings.length > 0) {
+          row.append(h('div', { className: 'kbd-omnibar-result-bindings' },
+            result.bindings.slice(0, 2).map(binding => kbdKey(formatBinding(binding, style))),
+          ))
+        }
+        row.addEventListener('click', () => this.execute(result))
+        return row
+      }))
+      this.resultsEl.querySelector('.selected')?.scrollIntoView?.({ block: 'nearest' })
+    }
+  }
+
+  /**
+   * Read-only cheat sheet of the current keymap: `<kbd-shortcuts binding="?" heading="…">`
+   */
+  class KbdShortcutsElement extends KbdElement {
+    private isOpen = false
+
+    protected setup() {
+      const binding = this.getAttribute('binding') ?? '?'
+      this.engine.register(ACTION_MODAL, {
+        label: 'Show shortcuts',
+        group: options.builtinGroup ?? DEFAULT_BUILTIN_GROUP,
+        sortOrder: 0,
+        protected: true,
+        defaultBindings: binding ? [binding] : [],
+        handler: () => this.toggle(),
+      })
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (this.isOpen && e.key === 'Escape') {
+          e.preventDefault()
+          e.stopPropagation()
+          this.close()
+        }
+      }
+      document.addEventListener('keydown', handleKeyDown, true)
+      return [
+        this.engine.subscribe(() => this.isOpen && this.update()),
+        () => this.engine.unregister(ACTION_MODAL),
+        () => document.removeEventListener('keydown', handleKeyDown, true),
+      ]
+    }
+
+    open() {
+      this.isOpen = true
+      this.update()
+    }
+
+    close() {
+      this.isOpen = false
+      this.update()
+    }
+
+    toggle() {
+      if (this.isOpen) this.close()
+      else this.open()
+    }
+
+    protected update() {
+      if (!this.isOpen) {
+        this.replaceChildren()
+        return
+      }
+      const { actions, modes } = this.engine.getState()
+      const style = this.renderStyle
+
+      // Group bound, visible actions: by mode label, else group, else ID prefix (as ShortcutsModal does)
+      const groups = new Map<string, Array<{ label: string; description?: string; whenReason: string | null; bindings: string[]; sortOrder: number; registeredAt: number }>>()
+      for (const [id, { config, registeredAt }] of actions) {
+        if (config.hideFromModal || id.startsWith(ACTION_MODE_PREFIX)) continue
+        const bindings = this.engine.getBindingsForAction(id)
+        if (bindings.length === 0) continue
+        const actionMode = this.engine.getEffectiveMode(id)
+        const colonIndex = id.indexOf(':')
+        const name = (actionMode && modes.get(actionMode)?.config.label) ??
+          config.group ??
+          (colonIndex > 0 ? id.slice(0, colonIndex) : 'General')
+        if (!groups.has(name)) groups.set(name, [])
+        groups.get(name)!.push({
+          label: config.label,
+          description: config.description,
+          whenReason: this.engine.getWhenReason(id),
+          bindings,
+          sortOrder: config.sortOrder ?? 0,
+          registeredAt,
+        })
+      }
+
+      const closeButton = h('button', { className: 'kbd-modal-close', text: '×', attrs: { 'aria-label': 'Close' } })
+      closeButton.addEventListener('click', () => this.close())
+      const modal = h('div', { className: 'kbd-modal', attrs: { role: 'dialog', 'aria-modal': 'true', 'aria-label': 'Keyboard shortcuts', tabindex: '-1' } }, [
+        h('div', { className: 'kbd-modal-header' }, [
+          h('h2', { className: 'kbd-modal-title', text: this.getAttribute('heading') ?? 'Keyboard Shortcuts' }),
+          closeButton,
+        ]),
+        ...Array.from(groups).map(([name, entries]) => h('div', { className: 'kbd-group' }, [
+          h('h3', { className: 'kbd-group-title', text: name }),
+          ...entries
+            .sort((a, b) => a.sortOrder - b.sortOrder || a.registeredAt - b.registeredAt)
+            .map(({ label, description, whenReason, bindings }) => h('div', { className: whenReason ? 'kbd-action kbd-when-inactive' : 'kbd-action' }, [
+              h('span', { className: 'kbd-action-label', text: label, attrs: description ? { title: description } : {} }),
+              ...whenReason ? [h('span', { className: 'kbd-when-badge', text: whenReason })] : [],
+              h('span', { className: 'kbd-action-bindings' }, bindings.map(binding => kbdKey(formatBinding(binding, style)))),
+            ])),
+        ])),
+      ])
+      const backdrop = h('div', { className: 'kbd-backdrop' }, [modal])
+      backdrop.addEventListener('click', e => {
+        if (e.target === backdrop) this.close()
+      })
+      this.replaceChildren(backdrop)
+      modal.focus()
+    }
+  }
+
+  /**
+   * Overlay shown while a multi-key sequence is in progress: `<kbd-sequence>`
+   */
+  class KbdSequenceElement extends KbdElement {
+    private selectedIndex = 0
+    private hasInteracted = false
+    private lastPendingKeys: unknown = null
+    private items: Array<{ completion: SequenceCompletion; action: string }> = []
+
+    protected setup() {
+      const { matcher } = this.engine
+      // Arrow keys and Enter navigate completions; capture phase, so they don't reach the matcher
+      const handleKeyDown = (e: KeyboardEvent) => {
+        const { isAwaitingSequence, pendingKeys } = matcher.getState()
+        if (!isAwaitingSequence || pendingKeys.length === 0) return
+        if (e.shiftKey || e.ctrlKey || e.altKey || e.metaKey) return
+        switch (e.key) {
+          case 'ArrowDown':
+          case 'ArrowUp':
+            e.preventDefault()
+            e.stopPropagation()
+            this.selectedIndex = e.key === 'ArrowDown'
+              ? Math.min(this.selectedIndex + 1, this.items.length - 1)
+              : Math.max(this.selectedIndex - 1, 0)
+            this.hasInteracted = true
+            this.update()
+            break
+          case 'Enter': {
+            e.preventDefault()
+            e.stopPropagation()
+            const item = this.items[this.selectedIndex]
+            if (item) {
+              // Apply any count prefix, as the matcher would
+              runWithCount(
+                captures => executeAction(this.engine, item.action, captures),
+                matcher.getState().count,
+                this.engine.getState().actions.get(item.action)?.config.repeatable,
+                item.completion.captures,
+              )
+              matcher.cancelSequence()
+            }
+            break
+          }
+        }
+      }
+      document.addEventListener('keydown', handleKeyDown, true)
+      return [
+        matcher.subscribe(() => this.update()),
+        () => document.removeEventListener('keydown', handleKeyDown, true),
+      ]
+    }
+
+    protected update() {
+      const { matcher } = this.engine
+      const { pendingKeys, isAwaitingSequence, timeoutStartedAt, count } = matcher.getState()
+      if (!isAwaitingSequence || (pendingKeys.length === 0 && count === null)) {
+        this.replaceChildren()
+        return
+      }
+      // Reset selection when pending keys change
+      if (pendingKeys !== this.lastPendingKeys) {
+        this.lastPendingKeys = pendingKeys
+        this.selectedIndex = 0
+        this.hasInteracted = false
+      }
+      const { keymap, actionRegistry, actions, leader } = this.engine.getState()
+      const completions = getSequenceCompletions(pendingKeys, keymap, actionRegistry, leader)
+      // Each action gets its own row
+      this.items = completions.flatMap(completion => completion.actions.map(action => ({ completion, action })))
+      const style = this.renderStyle
+
+      const children: Node[] = [
+        h('div', { className: 'kbd-sequence-current' }, [
+          ...count !== null ? [h('span', { className: 'kbd-sequence-count', text: `×${count}` })] : [],
+          h('div', { className: 'kbd-sequence-keys' }, pendingKeys.map(combo => kbdKey(formatCombination(combo, style).display))),
+          h('span', { className: 'kbd-sequence-ellipsis', text: '…' }),
+        ]),
+      ]
+      // Timeout progress bar: only when exactly one completion and no interaction
+      if (timeoutStartedAt !== null && completions.length === 1 && !this.hasInteracted) {
+        const bar = h('div', { className: 'kbd-sequence-timeout' })
+        bar.style.animationDuration = `${options.sequenceTimeout ?? DEFAULT_SEQUENCE_TIMEOUT}ms`
+        children.push(bar)
+      }
+      if (this.items.length > 0) {
+        children.push(h('div', { className: 'kbd-sequence-completions' }, this.items.map(({ completion, action }, index) => {
+          const classes = ['kbd-sequence-completion']
+          if (index === this.selectedIndex) classes.push('selected')
+          if (completion.isComplete) classes.push('complete')
+          const label = actions.get(action)?.config.label ?? action
+          return h('div', { className: classes.join(' ') }, [
+            kbdKey(completion.isComplete ? formatKeyForDisplay('enter', style) : completion.nextKeys),
+            h('span', { className: 'kbd-sequence-arrow', text: '→' }),
+            h('span', { className: 'kbd-sequence-actions', text: interpolateCaptures(label, completion.captures) }),
+          ])
+        })))
+      } else if (pendingKeys.length > 0) {
+        children.push(h('div', { className: 'kbd-sequence-empty', text: 'No matching shortcuts' }))
+      }
+
+      const sequence = h('div', { className: 'kbd-sequence' }, children)
+      const backdrop = h('div', { className: 'kbd-sequence-backdrop' }, [sequence])
+      backdrop.addEventListener('click', e => {
+        if (e.target === backdrop) matcher.cancelSequence()
+      })
+      this.replaceChildren(backdrop)
+    }
+  }
+
+  customElements.define('kbd-omnibar', KbdOmnibarElement)
+  customElements.define('kbd-shortcuts', KbdShortcutsElement)
+  customElements.define('kbd-sequence', KbdSequenceElement)
+}
+
+/**
+ * Non-React integration: register actions, and render the command palette, shortcuts
+ * cheat sheet and sequence overlay as custom elements. Customizations are stored in the
+ * same format (and, by default, under the same `storageKey`) as `HotkeysProvider`'s.
+ *
+ * @example
+ * ```html
+ * <kbd-omnibar></kbd-omnibar>
+ * <kbd-shortcuts></kbd-shortcuts>
+ * <kbd-sequence></kbd-sequence>
+ * <script type="module">
+ *   import { kbd } from 'use-kbd/elements'
+ *   kbd.configure({ storageKey: 'my-app' })
+ *   kbd.action('doc:save', { label: 'Save', defaultBindings: ['meta+s'], handler: save })
+ * </script>
+ * ```
+ */
+export const kbd = {
+  /**
+   * Configure the shared engine. Call before `kbd.action` and before the importing module
+   * finishes evaluating (elements set themselves up a microtask after connecting).
+   */
+  configure(config: KbdElementsOptions): KbdEngine {
+    if (engine) {
+      throw new Error('kbd.configure must be called before kbd.action or any <kbd-*> element is used')
+    }
+    options = config
+    return getEngine()
+  },
+  /**
+   * Register an action. Returns a function that unregisters it.
+   */
+  action(id: string, config: ActionConfig): () => void {
+    const engine = getEngine()
+    engine.register(id, config)
+    return () => engine.unregister(id)
+  },
+  /** The shared engine (created with default options if `configure` wasn't called) */
+  get engine(): KbdEngine {
+    return getEngine()
+  },
+}
+
+defineKbdElements()
@@ -0,0 +1,444 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ACTION_MODE_PREFIX } from './constants'
+import { createKbdEngine } from './engine'
+import type { KbdEngine } from './engine'
+import type { StorageAdapter } from './storage'
+import type { BindingsExport } from './types'
+
+/**
+ * A minimal stand-in for a DOM KeyboardEvent (the matcher only reads these fields)
+ */
+function keyEvent(key: string): KeyboardEvent {
+  return {
+    key,
+    code: '',
+    ctrlKey: false,
+    altKey: false,
+    shiftKey: false,
+    metaKey: false,
+    repeat: false,
+    target: null,
+    preventDefault: () => {},
+    stopPropagation: () => {},
+  } as unknown as KeyboardEvent
+}
+
+/**
+ * Press (and release) each space-separated key on an attached engine
+ */
+function type(engine: KbdEngine, keys: string) {
+  for (const key of keys.split(' ')) {
+    const e = keyEvent(key)
+    engine.matcher.handleKeyDown(e)
+    engine.matcher.handleKeyUp(e)
+  }
+}
+
+describe('createKbdEngine', () => {
+  let detach: (() => void) | undefined
+
+  beforeEach(() => {
+    // `attach` listens for blur on the window
+    vi.stubGlobal('window', new EventTarget())
+  })
+
+  afterEach(() => {
+    detach?.()
+    detach = undefined
+    vi.unstubAllGlobals()
+  })
+
+  /**
+   * Create an engine whose matcher follows its effective keymap
+   */
+  function attached(...args: Parameters<typeof createKbdEngine>): KbdEngine {
+    const engine = createKbdEngine(...args)
+    detach = engine.attach(new EventTarget() as unknown as HTMLElement)
+    return engine
+  }
+
+  describe('keymap resolution', () => {
+    it('binds default bindings to their actions', () => {
+      const engine = createKbdEngine()
+      engine.register('doc:save', { label: 'Save', defaultBindings: ['meta+s'], handler: () => {} })
+      engine.register('doc:open', { label: 'Open', defaultBindings: ['meta+o', 'o'], handler: () => {} })
+      expect(engine.getState().keymap).toEqual({ 'meta+s': 'doc:save', 'meta+o': 'doc:open', o: 'doc:open' })
+      expect(engine.getBindingsForAction('doc:open')).toEqual(['meta+o', 'o'])
+    })
+
+    it('applies user overrides and removed defaults', () => {
+      const engine = createKbdEngine()
+      engine.register('doc:save', { label: 'Save', defaultBindings: ['meta+s'], handler: () => {} })
+      engine.setBinding('doc:save', 'ctrl+s')
+      engine.removeBinding('doc:save', 'meta+s')
+      expect(engine.getState().keymap).toEqual({ 'ctrl+s': 'doc:save' })
+      engine.resetOverrides()
+      expect(engine.getState().keymap).toEqual({ 'meta+s': 'doc:save' })
+    })
+
+    it('lists every action bound to a shared key', () => {
+      const engine = createKbdEngine()
+      engine.register('a', { label: 'A', defaultBindings: ['x'], handler: () => {} })
+      engine.register('b', { label: 'B', defaultBindings: ['x'], handler: () => {} })
+      expect(engine.getState().keymap).toEqual({ x: ['a', 'b'] })
+      expect(engine.getEffectiveKeymap()).toEqual({ x: ['a', 'b'] })
+    })
+
+    it('drops conflicting keys with `disableConflicts`', () => {
+      const engine = createKbdEngine({ disableConflicts: true })
+      engine.register('a', { label: 'A', defaultBindings: ['x', 'y'], handler: () => {} })
+      engine.register('b', { label: 'B', defaultBindings: ['x'], handler: () => {} })
+      expect(engine.getEffectiveKeymap()).toEqual({ y: 'a' })
+    })
+
+    it('uses the bindings of the active profile', () => {
+      const engine = createKbdEngine({ presets: { vim: { label: 'Vim', bindings: { down: ['j'] } } } })
+      engine.register('down', { label: 'Down', defaultBindings: ['arrowdown'], handler: () => {} })
+      expect(engine.getState().keymap).toEqual({ arrowdown: 'down' })
+      engine.switchProfile('vim')
+      expect(engine.getState().keymap).toEqual({ j: 'down' })
+    })
+
+    it('runs the handler of a bound key', () => {
+      const engine = attached()
+      const save = vi.fn()
+      engine.register('doc:save', { label: 'Save', defaultBindings: ['s'], handler: save })
+      type(engine, 's')
+      expect(save).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('importBindings', () => {
+    const exported = (data: Partial<BindingsExport>): BindingsExport =>
+      ({ version: '1', exportedAt: '', overrides: {}, removedDefaults: {}, ...data })
+
+    it('diffs a profile replacement against the profile it switches to', () => {
+      const engine = createKbdEngine()
+      engine.register('down', { label: 'Down', defaultBindings: ['j'], handler: () => {} })
+      engine.register('up', { label: 'Up', defaultBindings: ['k'], handler: () => {} })
+      const data = exported({
+        // Top-level customizations are the exporting app's active profile, which isn't imported
+        overrides: { x: 'down' },
+        profiles: { 'user:mine': { label: 'Mine', overrides: { n: 'down' }, removedDefaults: { down: ['j'] } } },
+        activeProfile: 'user:mine',
+      })
+      const diff = engine.importBindings(data)
+      expect(engine.getState().activeProfile).toBe('user:mine')
+      expect(engine.getState().keymap).toEqual({ n: 'down', k: 'up' })
+      expect(diff.added.map(change => change.key)).toEqual(['n'])
+      expect(diff.removed.map(change => change.key)).toEqual(['j'])
+      expect(diff.changed).toEqual([])
+    })
+
+    it('diffs nothing when replaced profiles leave the active one alone', () => {
+      const engine = createKbdEngine()
+      engine.register('down', { label: 'Down', defaultBindings: ['j'], handler: () => {} })
+      const diff = engine.importBindings(exported({
+        overrides: { x: 'down' },
+        profiles: { 'user:other': { label: 'Other', overrides: { n: 'down' }, removedDefaults: {} } },
+      }))
+      expect(engine.getState().activeProfile).toBe('default')
+      expect(engine.getState().keymap).toEqual({ j: 'down' })
+      expect(diff).toMatchObject({ added: [], removed: [], changed: [] })
+    })
+
+    it('applies accepted changes in a single update', () => {
+      const engine = createKbdEngine()
+      engine.register('down', { label: 'Down', defaultBindings: ['j'], handler: () => {} })
+      engine.register('up', { label: 'Up', defaultBindings: ['k'], handler: () => {} })
+      const listener = vi.fn()
+      engine.subscribe(listener)
+      engine.importBindings(
+        exported({ overrides: { n: 'down', p: 'up' }, leader: ',' }),
+        { strategy: 'merge', accept: change => change.key === 'n' },
+      )
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(engine.getState().keymap).toEqual({ j: 'down', k: 'up', n: 'down' })
+      expect(engine.getState().leader).toBe(',')
+    })
+  })
+
+  describe('storage', () => {
+    /**
+     * In-memory storage whose `change` simulates a write from another tab
+     */
+    function memoryStorage(): StorageAdapter & { values: Map<string, unknown>; change: (key: string, value: unknown) => void } {
+      const values = new Map<string, unknown>()
+      const listeners = new Map<string, Set<(value: unknown) => void>>()
+      return {
+        values,
+        load: key => values.get(key),
+        save: (key, value) => {
+          if (value === undefined) values.delete(key)
+          else values.set(key, value)
+        },
+        subscribe: (key, listener) => {
+          if (!listeners.has(key)) listeners.set(key, new Set())
+          listeners.get(key)!.add(listener)
+          return () => listeners.get(key)?.delete(listener)
+        },
+        change: (key, value) => {
+          values.set(key, value)
+          for (const listener of listeners.get(key) ?? []) listener(value)
+        },
+      }
+    }
+
+    it('migrates customizations stored by another tab', () => {
+      const storage = memoryStorage()
+      const engine = createKbdEngine({ storageKey: 'app', storage, migrations: { renamed: { 'nav:down': 'list:down' } } })
+      engine.register('list:down', { label: 'Down', defaultBindings: ['j'], handler: () => {} })
+      const disconnect = engine.connect()
+      storage.change('app', { n: 'nav:down' })
+      expect(engine.getState().keymap).toEqual({ j: 'list:down', n: 'list:down' })
+      expect(storage.values.get('app')).toEqual({ n: 'list:down' })
+      disconnect()
+    })
+
+    it('keeps changes made while an async load is pending', async () => {
+      const storage = memoryStorage()
+      storage.values.set('app', { n: 'down' })
+      storage.values.set('app-profiles', { 'user:mine': { label: 'Mine', overrides: { m: 'down' }, removedDefaults: {} } })
+      storage.values.set('app-profile', 'user:mine')
+      const engine = createKbdEngine({ storageKey: 'app', storage: { ...storage, load: async key => storage.load(key) } })
+      engine.register('down', { label: 'Down', defaultBindings: ['j'], handler: () => {} })
+      const disconnect = engine.connect()
+      engine.setBinding('down', 'x')
+      await vi.waitFor(() => expect(engine.getState().activeProfile).toBe('user:mine'))
+      // The default profile was changed locally, so keeps that change; other stored profiles load
+      expect(engine.getState().keymap).toEqual({ j: 'down', m: 'down' })
+      engine.switchProfile('default')
+      expect(engine.getState().keymap).toEqual({ j: 'down', x: 'down' })
+      expect(storage.values.get('app')).toEqual({ x: 'down' })
+      expect(storage.values.get('app-profiles')).toHaveProperty('user:mine')
+      disconnect()
+    })
+
+    it('logs a failed async load', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const engine = createKbdEngine({
+        storageKey: 'app',
+        storage: { load: async () => undefined, save: () => {} },
+        migrations: { transforms: { 1: () => { throw new Error('bad migration') } } },
+      })
+      const disconnect = engine.connect()
+      await vi.waitFor(() => expect(error).toHaveBeenCalledTimes(1))
+      expect(engine.getState().keymap).toEqual({})
+      disconnect()
+      error.mockRestore()
+    })
+  })
+
+  describe('`when` clauses', () => {
+    it('leaves actions out of the effective keymap while their clause is false', () => {
+      const engine = createKbdEngine()
+      engine.register('editor:bold', { label: 'Bold', defaultBindings: ['b'], when: 'editorFocused && !readOnly', handler: () => {} })
+      expect(engine.getEffectiveKeymap()).toEqual({})
+      expect(engine.getWhenReason('editor:bold')).not.toBeNull()
+      engine.setContextKey('editorFocused', true)
+      expect(engine.getEffectiveKeymap()).toEqual({ b: 'editor:bold' })
+      expect(engine.getWhenReason('editor:bold')).toBeNull()
+      engine.setContextKey('readOnly', true)
+      expect(engine.getEffectiveKeymap()).toEqual({})
+      engine.deleteContextKey('readOnly')
+      expect(engine.getEffectiveKeymap()).toEqual({ b: 'editor:bold' })
+    })
+
+    it('compares context keys to literals', () => {
+      const engine = createKbdEngine()
+      engine.register('table:sort', { label: 'Sort', defaultBindings: ['s'], when: "view == 'table'", handler: () => {} })
+      engine.setContextKey('view', 'grid')
+      expect(engine.getEffectiveKeymap()).toEqual({})
+      engine.setContextKey('view', 'table')
+      expect(engine.getEffectiveKeymap()).toEqual({ s: 'table:sort' })
+    })
+
+    it('matches only the actions whose clause holds', () => {
+      const engine = attached()
+      const bold = vi.fn()
+      const search = vi.fn()
+      engine.register('editor:bold', { label: 'Bold', defaultBindings: ['b'], when: 'editorFocused', handler: bold })
+      engine.register('search', { label: 'Search', defaultBindings: ['b'], when: '!editorFocused', handler: search })
+      type(engine, 'b')
+      expect(search).toHaveBeenCalledTimes(1)
+      engine.setContextKey('editorFocused', true)
+      type(engine, 'b')
+      expect(bold).toHaveBeenCalledTimes(1)
+      expect(search).toHaveBeenCalledTimes(1)
+    })
+
+    it('throws on invalid clauses', () => {
+      const engine = createKbdEngine()
+      expect(() => engine.register('a', { label: 'A', when: 'a &&', handler: () => {} })).toThrow()
+    })
+  })
+
+  describe('sequences and captures', () => {
+    it('runs sequence bindings, passing captured digits', () => {
+      const engine = attached()
+      const inbox = vi.fn()
+      const tab = vi.fn()
+      engine.register('nav:inbox', { label: 'Inbox', defaultBindings: ['g i'], handler: inbox })
+      engine.register('nav:tab', { label: 'Tab', defaultBindings: ['g \\d'], handler: tab })
+      type(engine, 'g i')
+      expect(inbox).toHaveBeenCalledTimes(1)
+      type(engine, 'g 4')
+      expect(tab).toHaveBeenCalledWith(expect.anything(), [4])
+    })
+
+    it('passes captures through `execute`', () => {
+      const engine = createKbdEngine()
+      const resize = vi.fn()
+      engine.register('resize', { label: 'Resize', defaultBindings: ['r \\d+'], handler: resize })
+      engine.execute('resize', [120])
+      expect(resize.mock.calls[0][1]).toEqual([120])
+    })
+  })
+
+  describe('chords', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('runs a chord, or the held-back key alone once `chordTimeout` passes', () => {
+      const engine = attached({ chordTimeout: 80 })
+      const exit = vi.fn()
+      const down = vi.fn()
+      engine.register('exit', { label: 'Exit', defaultBindings: ['j&k'], handler: exit })
+      engine.register('down', { label: 'Down', defaultBindings: ['j'], handler: down })
+      engine.matcher.handleKeyDown(keyEvent('j'))
+      engine.matcher.handleKeyDown(keyEvent('k'))
+      expect(exit).toHaveBeenCalledTimes(1)
+      expect(down).not.toHaveBeenCalled()
+
+      engine.matcher.handleKeyDown(keyEvent('j'))
+      vi.advanceTimersByTime(79)
+      expect(down).not.toHaveBeenCalled()
+      vi.advanceTimersByTime(1)
+      expect(down).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('modes', () => {
+    it('binds mode actions only while the mode is active', () => {
+      const engine = createKbdEngine()
+      engine.registerMode('viewport', { label: 'Viewport', defaultBindings: ['v'] })
+      engine.register('pan:left', { label: 'Pan left', defaultBindings: ['h'], mode: 'viewport', handler: () => {} })
+      expect(engine.getEffectiveKeymap()).not.toHaveProperty('h')
+      engine.activateMode('viewport')
+      expect(engine.getState().activeMode).toBe('viewport')
+      expect(engine.getEffectiveKeymap()).toHaveProperty('h', 'pan:left')
+      engine.deactivateMode()
+      expect(engine.getState().activeMode).toBeNull()
+      expect(engine.getEffectiveKeymap()).not.toHaveProperty('h')
+    })
+
+    it('pushes and pops nested modes', () => {
+      const onActivate = vi.fn()
+      const onDeactivate = vi.fn()
+      const engine = createKbdEngine()
+      engine.registerMode('outer', { label: 'Outer' })
+      engine.registerMode('inner', { label: 'Inner', onActivate, onDeactivate })
+      engine.register('outer:a', { label: 'A', defaultBindings: ['a'], mode: 'outer', handler: () => {} })
+      engine.register('inner:b', { label: 'B', defaultBindings: ['b'], mode: 'inner', handler: () => {} })
+
+      engine.activateMode('outer')
+      engine.pushMode('inner')
+      expect(engine.getState().modeStack).toEqual(['outer', 'inner'])
+      expect(engine.getState().activeMode).toBe('inner')
+      expect(onActivate).toHaveBeenCalledTimes(1)
+      // Enclosing modes' keys pass through by default
+      expect(engine.getEffectiveKeymap()).toMatchObject({ a: 'outer:a', b: 'inner:b' })
+
+      engine.popMode()
+      expect(engine.getState().modeStack).toEqual(['outer'])
+      expect(onDeactivate).toHaveBeenCalledTimes(1)
+      expect(engine.getEffectiveKeymap()).not.toHaveProperty('b')
+
+      engine.popMode()
+      expect(engine.getState().modeStack).toEqual([])
+    })
+
+    it('activates `push` modes on top of the active one, and replaces it otherwise', () => {
+      const engine = createKbdEngine()
+      engine.registerMode('a', { label: 'A' })
+      engine.registerMode('b', { label: 'B', push: true })
+      engine.registerMode('c', { label: 'C' })
+      engine.activateMode('a')
+      engine.activateMode('b')
+      expect(engine.getState().modeStack).toEqual(['a', 'b'])
+      engine.activateMode('c')
+      expect(engine.getState().modeStack).toEqual(['c'])
+    })
+
+    it('pops back to a mode already on the stack', () => {
+      const engine = createKbdEngine()
+      for (const id of ['a', 'b', 'c']) engine.registerMode(id, { label: id })
+      engine.pushMode('a')
+      engine.pushMode('b')
+      engine.pushMode('c')
+      engine.pushMode('a')
+      expect(engine.getState().modeStack).toEqual(['a'])
+    })
+
+    it('hides enclosing modes\' keys for modes without passthrough', () => {
+      const engine = createKbdEngine()
+      engine.registerMode('outer', { label: 'Outer' })
+      engine.registerMode('inner', { label: 'Inner', passthrough: false })
+      engine.register('outer:a', { label: 'A', defaultBindings: ['a'], mode: 'outer', handler: () => {} })
+      engine.pushMode('outer')
+      engine.pushMode('inner')
+      expect(engine.getEffectiveKeymap()).not.toHaveProperty('a')
+    })
+
+    it('pops the innermost mode on Escape', () => {
+      const engine = attached()
+      engine.registerMode('outer', { label: 'Outer' })
+      engine.registerMode('inner', { label: 'Inner' })
+      engine.pushMode('outer')
+      engine.pushMode('inner')
+      type(engine, 'Escape')
+      expect(engine.getState().modeStack).toEqual(['outer'])
+      type(engine, 'Escape')
+      expect(engine.getState().modeStack).toEqual([])
+    })
+
+    it('leaves Escape to an action bound to it', () => {
+      const engine = attached()
+      const close = vi.fn()
+      engine.registerMode('edit', { label: 'Edit' })
+      engine.register('panel:close', { label: 'Close panel', defaultBindings: ['escape'], handler: close })
+      engine.activateMode('edit')
+      expect(engine.getEffectiveKeymap()).toHaveProperty('escape', 'panel:close')
+      type(engine, 'Escape')
+      expect(close).toHaveBeenCalledTimes(1)
+      expect(engine.getState().activeMode).toBe('edit')
+    })
+
+    it('activates a mode with ID `exit` from within another mode', () => {
+      const engine = attached()
+      engine.registerMode('edit', { label: 'Edit' })
+      engine.registerMode('exit', { label: 'Exit' })
+      // As `useMode` registers it
+      engine.register(`${ACTION_MODE_PREFIX}exit`, { label: 'Exit mode', defaultBindings: ['x'], handler: () => engine.activateMode('exit') })
+      engine.activateMode('edit')
+      type(engine, 'x')
+      expect(engine.getState().modeStack).toEqual(['exit'])
+    })
+
+    it('exits one-shot modes after one action', () => {
+      const engine = attached()
+      const left = vi.fn()
+      engine.registerMode('window', { label: 'Window', oneShot: true })
+      engine.register('window:left', { label: 'Left', defaultBindings: ['h'], mode: 'window', handler: left })
+      engine.activateMode('window')
+      type(engine, 'h')
+      expect(left).toHaveBeenCalledTimes(1)
+      expect(engine.getState().activeMode).toBeNull()
+    })
+  })
+})
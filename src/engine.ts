@@ -0,0 +1,1861 @@
+import { ACTION_LOOKUP, ACTION_MACRO_PREFIX, ACTION_MODAL, ACTION_MODE_PREFIX, ACTION_OMNIBAR, DEFAULT_LEADER_KEY, DEFAULT_PROFILE_ID, LEADER_TOKEN } from './constants'
+import { dbg } from './debug'
+import { attachHotkeys, createHotkeyMatcher } from './matcher'
+import { findOrphanedActions, migrateBindings, migrationVersion } from './migrations'
+import { isPromise, loadValues, localStorageAdapter, saveValue } from './storage'
+import { bindingId, findConflicts, formatParamValue, parseHotkeyString, parseParamValue } from './utils'
+import { evaluateWhen, validateWhen, whenReason } from './when'
+import type { HandlerMap, HotkeyMap, HotkeyMatcher } from './matcher'
+import type { StorageAdapter } from './storage'
+import type { ActionArgs, ActionRegistry, ActionTrigger, BindingsExport, BindingsMigrations, ImportBindingsOptions, ImportDiff, KeymapPreset, KeymapProfile, MacroStep, ModeConfig, ModeCustomizations, PrefixConfig, RegisteredMode, RegisteredPrefix, UserMacro, UserModeConfig } from './types'
+import { EMPTY_MODE_CUSTOMIZATIONS } from './types'
+import type { ActionConfig, ActionHandler } from './useAction'
+import type { WhenContext } from './when'
+
+/** Current version for export format */
+const EXPORT_VERSION = '0.13.0'
+
+/** Label of the built-in default profile */
+const DEFAULT_PROFILE_LABEL = 'Default'
+
+const NO_PRESETS: Record<string, KeymapPreset> = {}
+
+const NO_MIGRATIONS: BindingsMigrations = {}
+
+function isEmptyModeCustomizations(mc: ModeCustomizations | undefined): boolean {
+  return !mc || (
+    Object.keys(mc.additions).length === 0 &&
+    Object.keys(mc.removals).length === 0 &&
+    Object.keys(mc.userModes).length === 0
+  )
+}
+
+const EMPTY_PROFILES: Record<string, KeymapProfile> = {
+  [DEFAULT_PROFILE_ID]: { label: DEFAULT_PROFILE_LABEL, overrides: {}, removedDefaults: {} },
+}
+
+/**
+ * Storage keys for profiles.
+ * The default profile uses the original (pre-profiles) keys, so existing customizations carry over:
+ * `storageKey` (overrides), `${storageKey}-removed` and `${storageKey}-modes` (macros and the leader key, added later,
+ * under `${storageKey}-macros` and `${storageKey}-leader`).
+ * Other profiles are stored together under `${storageKey}-profiles`.
+ */
+function profileStorageKeys(storageKey: string) {
+  return {
+    overrides: storageKey,
+    removedDefaults: `${storageKey}-removed`,
+    modeCustomizations: `${storageKey}-modes`,
+    macros: `${storageKey}-macros`,
+    leader: `${storageKey}-leader`,
+    profiles: `${storageKey}-profiles`,
+  }
+}
+
+/**
+ * Apply a stored value (`undefined` if absent) for one of the `profileStorageKeys`
+ */
+function applyStoredProfileValue(
+  profiles: Record<string, KeymapProfile>,
+  storageKey: string,
+  key: string,
+  value: unknown,
+): Record<string, KeymapProfile> {
+  const keys = profileStorageKeys(storageKey)
+  const defaultProfile = profiles[DEFAULT_PROFILE_ID]
+  // Stored values are trusted to have the shape we saved, but may be absent
+  const stored = typeof value === 'object' && value !== null && !Array.isArray(value) ? value : undefined
+  switch (key) {
+    case keys.profiles:
+      return { ...stored as Record<string, KeymapProfile> | undefined, [DEFAULT_PROFILE_ID]: defaultProfile }
+    case keys.overrides:
+      return { ...profiles, [DEFAULT_PROFILE_ID]: { ...defaultProfile, overrides: (stored ?? {}) as KeymapProfile['overrides'] } }
+    case keys.removedDefaults:
+      return { ...profiles, [DEFAULT_PROFILE_ID]: { ...defaultProfile, removedDefaults: (stored ?? {}) as KeymapProfile['removedDefaults'] } }
+    case keys.modeCustomizations:
+      return { ...profiles, [DEFAULT_PROFILE_ID]: { ...defaultProfile, modeCustomizations: stored as ModeCustomizations | undefined } }
+    case keys.macros:
+      return { ...profiles, [DEFAULT_PROFILE_ID]: { ...defaultProfile, macros: stored as Record<string, UserMacro> | undefined } }
+    case keys.leader:
+      return { ...profiles, [DEFAULT_PROFILE_ID]: { ...defaultProfile, leader: typeof value === 'string' ? value : undefined } }
+  }
+  return profiles
+}
+
+/** Storage key for the data version of stored profiles (see `BindingsMigrations`) */
+const dataVersionKey = (storageKey: string) => `${storageKey}-version`
+
+/**
+ * Load stored profiles, migrating them if needed: synchronously if the storage adapter is, else as a promise
+ */
+function loadProfiles(
+  storage: StorageAdapter,
+  storageKey: string,
+  migrations: BindingsMigrations,
+): Record<string, KeymapProfile> | Promise<Record<string, KeymapProfile>> {
+  const keys = Object.values(profileStorageKeys(storageKey))
+  const build = (values: unknown[]) => {
+    const profiles = keys.reduce(
+      (profiles, key, i) => applyStoredProfileValue(profiles, storageKey, key, values[i]),
+      EMPTY_PROFILES,
+    )
+    const storedVersion = values[keys.length]
+    return migrateStoredProfiles(storage, storageKey, profiles, migrations, typeof storedVersion === 'number' ? storedVersion : 0)
+  }
+  const values = loadValues(storage, [...keys, dataVersionKey(storageKey)])
+  return isPromise(values) ? values.then(build) : build(values)
+}
+
+/**
+ * Migrate stored profiles saved at `fromVersion`, persisting the result (and the new data version)
+ * so they only migrate once
+ */
+function migrateStoredProfiles(
+  storage: StorageAdapter,
+  storageKey: string,
+  profiles: Record<string, KeymapProfile>,
+  migrations: BindingsMigrations,
+  fromVersion: number,
+): Record<string, KeymapProfile> {
+  const migrated = Object.fromEntries(
+    Object.entries(profiles).map(([id, profile]) => [id, migrateBindings(profile, migrations, fromVersion)]),
+  )
+  saveProfiles(storage, storageKey, profiles, migrated)
+  const version = migrationVersion(migrations)
+  if (version > fromVersion) {
+    dbg.registry('migrated stored bindings from v%d to v%d', fromVersion, version)
+    saveValue(storage, dataVersionKey(storageKey), version)
+  }
+  return migrated
+}
+
+/**
+ * Store the parts of `next` that changed since `prev`, removing keys that would be empty
+ */
+function saveProfiles(
+  storage: StorageAdapter,
+  storageKey: string,
+  prev: Record<string, KeymapProfile>,
+  next: Record<string, KeymapProfile>,
+) {
+  const keys = profileStorageKeys(storageKey)
+  const { [DEFAULT_PROFILE_ID]: prevDefault, ...prevOthers } = prev
+  const { [DEFAULT_PROFILE_ID]: nextDefault, ...nextOthers } = next
+  if (nextDefault.overrides !== prevDefault?.overrides) {
+    const { overrides } = nextDefault
+    saveValue(storage, keys.overrides, Object.keys(overrides).length > 0 ? overrides : undefined)
+  }
+  if (nextDefault.removedDefaults !== prevDefault?.removedDefaults) {
+    const { removedDefaults } = nextDefault
+    saveValue(storage, keys.removedDefaults, Object.keys(removedDefaults).length > 0 ? removedDefaults : undefined)
+  }
+  if (nextDefault.modeCustomizations !== prevDefault?.modeCustomizations) {
+    const { modeCustomizations } = nextDefault
+    saveValue(storage, keys.modeCustomizations, isEmptyModeCustomizations(modeCustomizations) ? undefined : modeCustomizations)
+  }
+  if (nextDefault.macros !== prevDefault?.macros) {
+    const { macros = {} } = nextDefault
+    saveValue(storage, keys.macros, Object.keys(macros).length > 0 ? macros : undefined)
+  }
+  if (nextDefault.leader !== prevDefault?.leader) {
+    saveValue(storage, keys.leader, nextDefault.leader)
+  }
+  const othersChanged = Object.keys(prevOthers).length !== Object.keys(nextOthers).length ||
+    Object.entries(nextOthers).some(([id, profile]) => prevOthers[id] !== profile)
+  if (othersChanged) {
+    saveValue(storage, keys.profiles, Object.keys(nextOthers).length > 0 ? nextOthers : undefined)
+  }
+}
+
+const parseProfileId = (value: unknown) => typeof value === 'string' ? value : DEFAULT_PROFILE_ID
+
+type Customizations = Pick<KeymapProfile, 'overrides' | 'removedDefaults'>
+
+/** Everything a profile customizes, besides its label and preset */
+type ProfileCustomizations = Customizations & Pick<KeymapProfile, 'modeCustomizations' | 'macros' | 'leader'>
+
+const toArray = (actionOrActions: string | string[]): string[] =>
+  Array.isArray(actionOrActions) ? actionOrActions : [actionOrActions]
+
+/**
+ * Drop actions with no removed defaults
+ */
+function dropEmptyRemovals(removedDefaults: Record<string, string[]>): Record<string, string[]> {
+  return Object.fromEntries(Object.entries(removedDefaults).filter(([, keys]) => keys.length > 0))
+}
+
+/**
+ * Build a keymap from actions' base bindings plus user customizations
+ */
+function buildKeymap(
+  actionIds: Iterable<string>,
+  getBaseBindings: (actionId: string) => string[],
+  { overrides, removedDefaults }: Customizations,
+): HotkeyMap {
+  const map: HotkeyMap = {}
+
+  // Helper to add an action to a key (merging with existing)
+  const addToKey = (key: string, actionId: string) => {
+    const existing = map[key]
+    if (existing) {
+      // Multiple actions on same key - creates a conflict
+      const existingArray = toArray(existing)
+      if (!existingArray.includes(actionId)) {
+        map[key] = [...existingArray, actionId]
+      }
+    } else {
+      map[key] = actionId
+    }
+  }
+
+  // First, add all default bindings from registered actions
+  // (but skip if explicitly removed for this action)
+  for (const id of actionIds) {
+    for (const binding of getBaseBindings(id)) {
+      // Check if this default was explicitly removed for this action
+      const removedForAction = removedDefaults[id] ?? []
+      if (removedForAction.includes(binding)) continue
+
+      addToKey(binding, id)
+    }
+  }
+
+  // Then apply user overrides (merge with defaults to create conflicts)
+  for (const [key, actionOrActions] of Object.entries(overrides)) {
+    if (actionOrActions === '') {
+      // Legacy empty marker - skip
+    } else {
+      // Add the override binding (may merge with existing default)
+      for (const actionId of toArray(actionOrActions)) {
+        addToKey(key, actionId)
+      }
+    }
+  }
+
+  return map
+}
+
+/**
+ * Merge imported customizations into ours: bindings, removed defaults and mode assignments are unioned;
+ * on a user-mode or macro ID collision, ours is kept, as is our leader key (if chosen)
+ */
+function mergeCustomizations(ours: KeymapProfile, theirs: ProfileCustomizations): KeymapProfile {
+  const union = (a: string[] = [], b: string[] = []) => [...a, ...b.filter(x => !a.includes(x))]
+  const overrides = { ...ours.overrides }
+  for (const [key, actionOrActions] of Object.entries(theirs.overrides)) {
+    const actions = union(overrides[key] ? toArray(overrides[key]) : [], toArray(actionOrActions))
+    overrides[key] = actions.length === 1 ? actions[0] : actions
+  }
+  const removedDefaults = { ...ours.removedDefaults }
+  for (const [actionId, keys] of Object.entries(theirs.removedDefaults)) {
+    removedDefaults[actionId] = union(removedDefaults[actionId], keys)
+  }
+  const mergeIds = (a: Record<string, string[]>, b: Record<string, string[]>) => {
+    const merged = { ...a }
+    for (const [id, ids] of Object.entries(b)) merged[id] = union(merged[id], ids)
+    return merged
+  }
+  const oursModes = ours.modeCustomizations ?? EMPTY_MODE_CUSTOMIZATIONS
+  const theirsModes = theirs.modeCustomizations ?? EMPTY_MODE_CUSTOMIZATIONS
+  return {
+    ...ours,
+    overrides,
+    removedDefaults,
+    modeCustomizations: {
+      additions: mergeIds(oursModes.additions, theirsModes.additions),
+      removals: mergeIds(oursModes.removals, theirsModes.removals),
+      userModes: { ...theirsModes.userModes, ...oursModes.userModes },
+    },
+    macros: { ...theirs.macros, ...ours.macros },
+    leader: ours.leader ?? theirs.leader,
+  }
+}
+
+/**
+ * Compare two keymaps key by key
+ */
+function diffKeymaps(before: HotkeyMap, after: HotkeyMap): Pick<ImportDiff, 'added' | 'removed' | 'changed'> {
+  const diff: Pick<ImportDiff, 'added' | 'removed' | 'changed'> = { added: [], removed: [], changed: [] }
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort()
+  for (const key of keys) {
+    const from = before[key] ? toArray(before[key]) : []
+    const to = after[key] ? toArray(after[key]) : []
+    if (from.length === to.length && from.every(a => to.includes(a))) continue
+    if (from.length === 0) {
+      diff.added.push({ key, type: 'added', from, to })
+    } else if (to.length === 0) {
+      diff.removed.push({ key, type: 'removed', from, to })
+    } else {
+      diff.changed.push({ key, type: 'changed', from, to })
+    }
+  }
+  return diff
+}
+
+/**
+ * Bind or unbind one key→action pair in customizations (same rules as `setBinding`/`removeBinding`,
+ * except that a key's other override actions are kept)
+ */
+function toggleBinding(
+  { overrides, removedDefaults }: Customizations,
+  key: string,
+  actionId: string,
+  bound: boolean,
+  isDefault: boolean,
+): Customizations {
+  const overrideActions = overrides[key] ? toArray(overrides[key]) : []
+  const removedKeys = removedDefaults[actionId] ?? []
+  const withOverride = (actions: string[]) => {
+    const { [key]: _, ...rest } = overrides
+    return actions.length === 0 ? rest : { ...rest, [key]: actions.length === 1 ? actions[0] : actions }
+  }
+  if (bound) {
+    return isDefault
+      ? { overrides, removedDefaults: { ...removedDefaults, [actionId]: removedKeys.filter(k => k !== key) } }
+      : { overrides: withOverride([...overrideActions.filter(a => a !== actionId), actionId]), removedDefaults }
+  }
+  return {
+    overrides: withOverride(overrideActions.filter(a => a !== actionId)),
+    removedDefaults: isDefault && !removedKeys.includes(key)
+      ? { ...removedDefaults, [actionId]: [...removedKeys, key] }
+      : removedDefaults,
+  }
+}
+
+/**
+ * Validate imported customizations, throwing a descriptive error if malformed
+ * @param where - Suffix locating the data in error messages (e.g. ` in profile "vim"`)
+ */
+function validateCustomizations(data: Pick<KeymapProfile, 'overrides' | 'removedDefaults' | 'macros' | 'leader'>, where = '') {
+  if (typeof data.overrides !== 'object' || data.overrides === null) {
+    throw new Error(`Invalid import data: missing or invalid overrides${where}`)
+  }
+  if (typeof data.removedDefaults !== 'object' || data.removedDefaults === null) {
+    throw new Error(`Invalid import data: missing or invalid removedDefaults${where}`)
+  }
+
+  // Validate overrides values
+  for (const [key, value] of Object.entries(data.overrides)) {
+    if (typeof value !== 'string' && !Array.isArray(value)) {
+      throw new Error(`Invalid override for key "${key}"${where}: expected string or array`)
+    }
+    if (Array.isArray(value) && !value.every(v => typeof v === 'string')) {
+      throw new Error(`Invalid override for key "${key}"${where}: array must contain only strings`)
+    }
+  }
+
+  // Validate removedDefaults values
+  for (const [action, keys] of Object.entries(data.removedDefaults)) {
+    if (!Array.isArray(keys) || !keys.every(k => typeof k === 'string')) {
+      throw new Error(`Invalid removedDefaults for action "${action}"${where}: expected array of strings`)
+    }
+  }
+
+  // Validate macros
+  if (data.macros !== undefined) {
+    if (typeof data.macros !== 'object' || data.macros === null) {
+      throw new Error(`Invalid import data: invalid macros${where}`)
+    }
+    for (const [id, macro] of Object.entries(data.macros)) {
+      const validSteps = Array.isArray(macro?.steps) && macro.steps.every(step =>
+        typeof step?.actionId === 'string' && typeof step.delay === 'number' &&
+        (step.captures === undefined || (Array.isArray(step.captures) && step.captures.every(c => typeof c === 'number'))) &&
+        (step.args === undefined || (typeof step.args === 'object' && step.args !== null && Object.values(step.args).every(v => typeof v === 'string'))),
+      )
+      if (typeof macro?.label !== 'string' || !validSteps) {
+        throw new Error(`Invalid macro "${id}"${where}: expected a label and steps`)
+      }
+    }
+  }
+
+  // Validate leader key
+  if (data.leader !== undefined && (typeof data.leader !== 'string' || !isValidLeader(data.leader))) {
+    throw new Error(`Invalid import data: invalid leader${where}`)
+  }
+}
+
+/**
+ * Whether a key can be the leader: a single key or combination, other than `<leader>` itself
+ */
+function isValidLeader(key: string): boolean {
+  return parseHotkeyString(key).length === 1 && key.trim().toLowerCase() !== LEADER_TOKEN
+}
+
+export interface RegisteredAction {
+  config: ActionConfig
+  registeredAt: number
+}
+
+/** Pseudo-action that exits the active mode (bound to Escape while a mode is active, if nothing else is).
+ * Outside the `ACTION_MODE_PREFIX` namespace, so it can't collide with a mode's activation action. */
+const MODE_EXIT_ACTION = '__hotkeys:mode-exit'
+
+const NO_SCOPES: string[] = []
+
+const EMPTY_CONTEXT: WhenContext = {}
+
+const NO_MACROS: Record<string, UserMacro> = {}
+
+/** Built-in UI actions, which macros don't record */
+const UNRECORDED_ACTIONS = [ACTION_MODAL, ACTION_OMNIBAR, ACTION_LOOKUP]
+
+/** Storage key for the selected profile ID */
+const selectedProfileKey = (storageKey: string) => `${storageKey}-profile`
+
+interface StoredState {
+  profiles: Record<string, KeymapProfile>
+  selectedProfile: string
+}
+
+/**
+ * Load stored profiles and the selected profile ID: synchronously if the storage adapter is, else as a promise
+ */
+function loadStoredState(storage: StorageAdapter, storageKey: string, migrations: BindingsMigrations): StoredState | Promise<StoredState> {
+  const profiles = loadProfiles(storage, storageKey, migrations)
+  const selected = loadValues(storage, [selectedProfileKey(storageKey)])
+  if (isPromise(profiles) || isPromise(selected)) {
+    return Promise.all([profiles, selected]).then(([profiles, [selected]]) => ({
+      profiles,
+      selectedProfile: parseProfileId(selected),
+    }))
+  }
+  return { profiles, selectedProfile: parseProfileId(selected[0]) }
+}
+
+/**
+ * Memoize a function on its last arguments (compared by identity)
+ */
+function memoizeLast<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+  let lastArgs: A | undefined
+  let last: R
+  return (...args: A) => {
+    if (!lastArgs || args.length !== lastArgs.length || args.some((arg, i) => !Object.is(arg, lastArgs![i]))) {
+      last = fn(...args)
+      lastArgs = args
+    }
+    return last
+  }
+}
+
+/**
+ * An action's mode, considering user customizations
+ */
+function effectiveModeOf(
+  actionId: string,
+  modeCustomizations: ModeCustomizations,
+  actions: Map<string, RegisteredAction>,
+): string | undefined {
+  // 1. Check removals: if removed from its default mode, it's global
+  for (const actionIds of Object.values(modeCustomizations.removals)) {
+    if (actionIds.includes(actionId)) return undefined
+  }
+  // 2. Check additions: user moved into a mode
+  for (const [modeId, actionIds] of Object.entries(modeCustomizations.additions)) {
+    if (actionIds.includes(actionId)) return modeId
+  }
+  // 3. Check user-created modes
+  for (const [modeId, config] of Object.entries(modeCustomizations.userModes)) {
+    if (config.actions.includes(actionId)) return modeId
+  }
+  // 4. Fall back to developer-defined mode
+  return actions.get(actionId)?.config.mode
+}
+
+/**
+ * Snapshot of a KbdEngine's state. Replaced (never mutated) on each change.
+ */
+export interface KbdEngineState {
+  /** Currently registered actions */
+  actions: Map<string, RegisteredAction>
+  /** Computed keymap from registered actions + user overrides */
+  keymap: HotkeyMap
+  /** Action registry for omnibar search */
+  actionRegistry: ActionRegistry
+  /** User's binding overrides (active profile) */
+  overrides: Record<string, string | string[]>
+  /** Default bindings that have been removed (per action, active profile) */
+  removedDefaults: Record<string, string[]>
+  /** Action IDs the active profile has customizations for, but which aren't registered right now:
+   * renamed or removed without a migration, or only registered while an unmounted component (e.g. on
+   * another route) is mounted. Not proof an action is gone. */
+  orphanedActions: string[]
+  /** All keymap profiles by ID: the default profile, app presets and user-created profiles */
+  profiles: Record<string, KeymapProfile>
+  /** ID of the active profile */
+  activeProfile: string
+  /** Mode customizations (user edits to mode membership, active profile) */
+  modeCustomizations: ModeCustomizations
+  /** Currently registered modes */
+  modes: Map<string, RegisteredMode>
+  /** Active modes, outermost first (a mode pushed while another is active nests inside it) */
+  modeStack: string[]
+  /** Innermost active mode ID (top of `modeStack`; null if none) */
+  activeMode: string | null
+  /** When each active mode with `autoExitMs` last (re)started its idle countdown, by mode ID */
+  modeTimeouts: Record<string, number>
+  /** Context key values, tested by actions' `when` clauses */
+  context: WhenContext
+  /** User-recorded macros (active profile), by ID */
+  macros: Record<string, UserMacro>
+  /** Steps recorded so far while recording a macro (null when not recording) */
+  macroRecording: MacroStep[] | null
+  /** Labeled key-sequence prefixes, by ID (see `bindingId`) */
+  prefixes: Map<string, RegisteredPrefix>
+  /** Key that `<leader>` in bindings stands for: the active profile's choice, else the `leader` option */
+  leader: string
+}
+
+export interface KbdEngineOptions {
+  /** Storage key for persisting user customizations (default: none, not persisted) */
+  storageKey?: string
+  /** Persistence backend (default: localStorage, synced across tabs) */
+  storage?: StorageAdapter
+  /** Preset keymap profiles shipped by the app, by ID */
+  presets?: Record<string, KeymapPreset>
+  /** Migrations for stored and imported customizations (renamed/removed actions, versioned transforms) */
+  migrations?: BindingsMigrations
+  /** Drop keys bound to conflicting actions from the effective keymap (default: false) */
+  disableConflicts?: boolean
+  /** Timeout in ms before a sequence is cancelled, when `attach`ed (default: Infinity, no timeout) */
+  sequenceTimeout?: number
+  /** Window in ms for pressing the keys of a chord (`j&k`) together, when `attach`ed (default: 50) */
+  chordTimeout?: number
+  /** Vim-style count prefixes (`5j`), when `attach`ed (default: false). See `HotkeyMatcherOptions.countPrefix`. */
+  countPrefix?: boolean
+  /** Key that `<leader>` in bindings stands for, unless the user chooses another (default: `space`) */
+  leader?: string
+}
+
+/**
+ * Framework-agnostic keymap engine: actions, user customizations and profiles, modes,
+ * and key matching. `HotkeysProvider` and the registry hooks are adapters over one.
+ */
+export interface KbdEngine {
+  /** Current state snapshot */
+  getState: () => KbdEngineState
+  /** Listen for state changes. Returns an unsubscribe function. */
+  subscribe: (listener: () => void) => () => void
+  /** Start following storage: apply async-loaded customizations, and changes made elsewhere (e.g. in another tab).
+   * Returns a function that stops following. */
+  connect: () => () => void
+  /** Update options that may change over the engine's lifetime (storage and `storageKey` are fixed) */
+  setOptions: (options: Pick<KbdEngineOptions, 'presets' | 'migrations' | 'disableConflicts' | 'sequenceTimeout' | 'chordTimeout' | 'countPrefix' | 'leader'>) => void
+
+  /** Register an action (replacing any with the same ID) */
+  register: (id: string, config: ActionConfig) => void
+  /** Unregister an action */
+  unregister: (id: string) => void
+  /** Execute an action by ID, optionally with captured digit values and `params` values.
+   * Returns the handler's result (a promise, for async handlers). */
+  execute: (id: string, captures?: number[], args?: ActionArgs) => void | Promise<void>
+  /** Check if an action is enabled (defaults to true if not set or not found) */
+  isActionEnabled: (id: string) => boolean
+  /** Get all bindings for an action (defaults + overrides) */
+  getBindingsForAction: (id: string) => string[]
+  /** Get the first binding for an action (convenience for display) */
+  getFirstBindingForAction: (id: string) => string | undefined
+  /** Get the effective mode for an action (considering customizations) */
+  getEffectiveMode: (actionId: string) => string | undefined
+  /** Why an action's `when` clause is false (e.g. "editorFocused is false"), or null if it has none or it holds */
+  getWhenReason: (actionId: string) => string | null
+
+  /** Label a key-sequence prefix (e.g. 'g' → 'Go to…'), for which-key style menus. Replaces any label for the same keys. */
+  registerPrefix: (keys: string, config: PrefixConfig) => void
+  /** Remove a prefix's label */
+  unregisterPrefix: (keys: string) => void
+
+  /** Set a context key's value (see `ActionConfig.when`) */
+  setContextKey: (key: string, value: unknown) => void
+  /** Unset a context key */
+  deleteContextKey: (key: string) => void
+
+  /** Set a user override for a binding */
+  setBinding: (actionId: string, key: string) => void
+  /** Remove a binding for a specific action */
+  removeBinding: (actionId: string, key: string) => void
+  /** Choose the key `<leader>` in bindings stands for (active profile, persisted), rebinding every leader sequence.
+   * `undefined` restores the `leader` option. Throws if `key` isn't a single key or combination. */
+  setLeader: (key: string | undefined) => void
+  /** Reset all overrides (active profile) */
+  resetOverrides: () => void
+  /** Export the active profile's customizations as JSON, plus the given profiles (if any) */
+  exportBindings: (profileIds?: string[]) => BindingsExport
+  /** Import binding customizations from JSON, returning the keymap changes (from the active profile to the one active after the import).
+   * `'replace'` (default) replaces the active profile's customizations, or, if `data.profiles` is present,
+   * the profiles with those IDs; `'merge'` merges into the active profile (and adds missing profiles);
+   * `'preview'` only computes the diff a merge would produce. */
+  importBindings: (data: BindingsExport, options?: ImportBindingsOptions) => ImportDiff
+  /** Drop the active profile's customizations for `orphanedActions`. Only call this while every action
+   * the app defines is registered, or it also drops customizations of unmounted actions. */
+  removeOrphanedBindings: () => void
+
+  /** Switch to another profile (persisted; unknown IDs fall back to the default profile) */
+  switchProfile: (id: string) => void
+  /** Create an empty profile, optionally based on a preset (no-op if the ID exists) */
+  createProfile: (id: string, label: string, preset?: string) => void
+  /** Create a profile with a copy of another profile's customizations (no-op if the ID exists) */
+  duplicateProfile: (sourceId: string, id: string, label: string) => void
+  /** Rename a user-created profile */
+  renameProfile: (id: string, label: string) => void
+  /** Delete a user-created profile (switches to the default profile if it was active) */
+  deleteProfile: (id: string) => void
+  /** Whether a profile is built in (the default profile or an app preset): can't be renamed or deleted */
+  isBuiltinProfile: (id: string) => boolean
+
+  /** Set mode customizations (persisted) */
+  setModeCustomizations: (update: ModeCustomizations | ((prev: ModeCustomizations) => ModeCustomizations)) => void
+  /** Add an action to a mode */
+  addActionToMode: (actionId: string, modeId: string) => void
+  /** Remove an action from its mode */
+  removeActionFromMode: (actionId: string, modeId: string) => void
+  /** Create a user mode (no-op if a user mode with this ID already exists) */
+  createUserMode: (id: string, config: UserModeConfig) => void
+  /** Update a user mode's config (label, color, bindings, actions) */
+  updateUserMode: (id: string, config: Partial<UserModeConfig>) => void
+  /** Delete a user mode; its actions become global */
+  deleteUserMode: (id: string) => void
+
+  /** Start recording executed actions (with their captures and timing) into a macro, discarding any recording in progress */
+  startMacroRecording: () => void
+  /** Stop recording, saving the recorded steps (if any) as a macro in the active profile (replacing any with this ID) */
+  stopMacroRecording: (id: string, label: string) => void
+  /** Stop recording without saving */
+  cancelMacroRecording: () => void
+  /** Delete a macro from the active profile */
+  deleteMacro: (id: string) => void
+  /** Replay a macro with its recorded timing, waiting on async handlers. Stops at the first step whose action
+   * is unregistered, disabled or has a false `when` clause. */
+  playMacro: (id: string) => Promise<void>
+
+  /** Register a mode (replacing any with the same ID) */
+  registerMode: (id: string, config: ModeConfig) => void
+  /** Unregister a mode (removing it from the mode stack) */
+  unregisterMode: (id: string) => void
+  /** Activate a mode: push it onto the mode stack if its config sets `push`, else make it the only active mode */
+  activateMode: (id: string) => void
+  /** Push a mode onto the mode stack, nesting it inside the active mode(s). If it's already on
+   * the stack, the modes above it are popped instead. */
+  pushMode: (id: string) => void
+  /** Pop the innermost active mode */
+  popMode: () => void
+  /** Deactivate a mode and any nested inside it; with no ID, deactivate all modes */
+  deactivateMode: (id?: string) => void
+  /** Toggle a mode: deactivate if active (anywhere on the stack), activate otherwise */
+  toggleMode: (id: string) => void
+
+  /** Keymap to match key presses against: only global and active-mode actions, and, given the
+   * `<HotkeyScope>`s containing focus (innermost first), only actions in the innermost of those scopes */
+  getEffectiveKeymap: (activeScopes?: string[]) => HotkeyMap
+  /** Handlers, triggers, hold-end handlers and repeatable flags of registered actions (plus mode exit), for matching */
+  getHandlers: () => {
+    handlers: HandlerMap
+    triggers: Record<string, ActionTrigger>
+    endHandlers: Record<string, ActionHandler>
+    repeatable: Record<string, boolean>
+  }
+  /** The engine's own matcher (used by `attach`); its state holds the pending sequence */
+  matcher: HotkeyMatcher
+  /** Listen for key events on `target` (default: window) and run matching actions. Returns a detach function. */
+  attach: (target?: HTMLElement | Window) => () => void
+}
+
+/**
+ * Create a keymap engine. Needs no UI framework, so it can drive vanilla-TS or other
+ * framework integrations (or be tested in Node).
+ *
+ * @example
+ * ```ts
+ * const engine = createKbdEngine({ storageKey: 'my-app' })
+ * engine.register('doc:save', { label: 'Save', defaultBindings: ['meta+s'], handler: save })
+ * const disconnect = engine.connect()
+ * const detach = engine.attach()
+ * engine.subscribe(() => renderShortcuts(engine.getState().keymap))
+ * ```
+ */
+export function createKbdEngine(options: KbdEngineOptions = {}): KbdEngine {
+  const { storageKey, storage = localStorageAdapter } = options
+  let presets = options.presets ?? NO_PRESETS
+  let migrations = options.migrations ?? NO_MIGRATIONS
+  let disableConflicts = options.disableConflicts ?? false
+  let sequenceTimeout = options.sequenceTimeout
+  let chordTimeout = options.chordTimeout
+  let countPrefix = options.countPrefix ?? false
+  let defaultLeader = options.leader ?? DEFAULT_LEADER_KEY
+
+  // Registered actions and modes (mutable), with snapshots for state
+  const actionsMap = new Map<string, RegisteredAction>()
+  let actions = new Map(actionsMap)
+  const modesMap = new Map<string, RegisteredMode>()
+  let modes = new Map(modesMap)
+  let modeStack: string[] = []
+  const prefixesMap = new Map<string, RegisteredPrefix>()
+  let prefixes = new Map(prefixesMap)
+
+  // Idle timers of active modes with `autoExitMs`, and when each (re)started
+  const modeTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  let modeTimeouts: Record<string, number> = {}
+
+  // Context key values for `when` clauses
+  let context = EMPTY_CONTEXT
+
+  // Steps of the macro being recorded (null if not recording), and when the last one ran
+  let macroRecording: MacroStep[] | null = null
+  let lastRecordedAt = 0
+
+  // User customizations per profile (persisted), and the selected profile
+  let storedProfiles = EMPTY_PROFILES
+  let selectedProfile = DEFAULT_PROFILE_ID
+  // Set when the storage adapter is async; applied by `connect`
+  let pendingLoad: Promise<StoredState> | null = null
+  // Local changes made while `pendingLoad` is pending (profiles changed, and whether one was selected),
+  // which win over the loaded state
+  const locallyUpdatedProfiles = new Set<string>()
+  let locallySelectedProfile = false
+  if (storageKey) {
+    const loaded = loadStoredState(storage, storageKey, migrations)
+    if (isPromise(loaded)) {
+      pendingLoad = loaded
+    } else {
+      storedProfiles = loaded.profiles
+      selectedProfile = loaded.selectedProfile
+    }
+  }
+
+  // All profiles: built-in ones (default + presets, possibly never customized) and user-created ones
+  const buildProfiles = memoizeLast((presets: Record<string, KeymapPreset>, storedProfiles: Record<string, KeymapProfile>) => {
+    const all: Record<string, KeymapProfile> = {
+      [DEFAULT_PROFILE_ID]: { label: DEFAULT_PROFILE_LABEL, overrides: {}, removedDefaults: {} },
+    }
+    for (const [id, preset] of Object.entries(presets)) {
+      all[id] = { label: preset.label, preset: id, overrides: {}, removedDefaults: {} }
+    }
+    for (const [id, profile] of Object.entries(storedProfiles)) {
+      const builtin = all[id]
+      all[id] = builtin ? { ...profile, label: builtin.label, preset: builtin.preset } : profile
+    }
+    return all
+  })
+
+  // An action's base bindings in a profile: its preset's bindings, else `defaultBindings`
+  const getPresetBindings = (preset: string | undefined, actionId: string): string[] => {
+    const config = actionsMap.get(actionId)?.config
+    if (preset) {
+      const bindings = config?.profileBindings?.[preset] ?? presets[preset]?.bindings?.[actionId]
+      if (bindings) return bindings
+    }
+    return config?.defaultBindings ?? []
+  }
+
+  // Compute keymap from registered actions + overrides
+  const computeKeymap = memoizeLast((
+    actions: Map<string, RegisteredAction>,
+    preset: string | undefined,
+    overrides: Record<string, string | string[]>,
+    removedDefaults: Record<string, string[]>,
+    // Base bindings depend on presets too
+    _presets: Record<string, KeymapPreset>,
+  ) => {
+    const map = buildKeymap(actions.keys(), id => getPresetBindings(preset, id), { overrides, removedDefaults })
+    dbg.registry('keymap recomputed: %d bindings, %d actions', Object.keys(map).length, actions.size)
+    return map
+  })
+
+  // Build action registry for omnibar
+  const computeActionRegistry = memoizeLast((actions: Map<string, RegisteredAction>) => {
+    const registry: ActionRegistry = {}
+    for (const [id, { config }] of actions) {
+      registry[id] = {
+        label: config.label,
+        description: config.description,
+        group: config.group,
+        mode: config.mode,
+        scope: config.scope,
+        trigger: config.trigger,
+        repeatable: config.repeatable,
+        keywords: config.keywords,
+        params: config.params,
+        children: config.children,
+        choices: config.choices,
+        hideFromModal: config.hideFromModal,
+        enabled: config.enabled,
+        when: config.when,
+        protected: config.protected,
+        arrowGroup: config.arrowGroup,
+        actionPair: config.actionPair,
+        actionTriplet: config.actionTriplet,
+        sortOrder: config.sortOrder,
+      }
+    }
+    return registry
+  })
+
+  const computeOrphanedActions = memoizeLast((actions: Map<string, RegisteredAction>, profile: KeymapProfile) =>
+    findOrphanedActions(profile, id => actions.has(id)),
+  )
+
+  const computeState = (): KbdEngineState => {
+    const profiles = buildProfiles(presets, storedProfiles)
+    // Fall back to the default profile if the selected one no longer exists (e.g. a preset was removed)
+    const activeProfile = selectedProfile in profiles ? selectedProfile : DEFAULT_PROFILE_ID
+    const profile = profiles[activeProfile]
+    return {
+      actions,
+      keymap: computeKeymap(actions, profile.preset, profile.overrides, profile.removedDefaults, presets),
+      actionRegistry: computeActionRegistry(actions),
+      overrides: profile.overrides,
+      removedDefaults: profile.removedDefaults,
+      orphanedActions: computeOrphanedActions(actions, profile),
+      profiles,
+      activeProfile,
+      modeCustomizations: profile.modeCustomizations ?? EMPTY_MODE_CUSTOMIZATIONS,
+      modes,
+      modeStack,
+      activeMode: modeStack[modeStack.length - 1] ?? null,
+      modeTimeouts,
+      context,
+      macros: profile.macros ?? NO_MACROS,
+      macroRecording,
+      prefixes,
+      leader: profile.leader ?? defaultLeader,
+    }
+  }
+
+  let state = computeState()
+  const listeners = new Set<() => void>()
+
+  // Recompute state, notifying listeners if anything changed
+  const update = () => {
+    const next = computeState()
+    const keys = Object.keys(next) as Array<keyof KbdEngineState>
+    if (keys.every(key => Object.is(next[key], state[key]))) return
+    state = next
+    for (const listener of Array.from(listeners)) listener()
+  }
+
+  // Update stored profiles (persisted)
+  const updateStoredProfiles = (updater: (prev: Record<string, KeymapProfile>) => Record<string, KeymapProfile>) => {
+    const next = updater(storedProfiles)
+    if (next === storedProfiles) return
+    if (pendingLoad) {
+      for (const id of new Set([...Object.keys(storedProfiles), ...Object.keys(next)])) {
+        if (next[id] !== storedProfiles[id]) locallyUpdatedProfiles.add(id)
+      }
+    }
+    if (storageKey) saveProfiles(storage, storageKey, storedProfiles, next)
+    storedProfiles = next
+    update()
+  }
+
+  // Update the active profile's customizations (persisted)
+  const updateActiveProfile = (updater: (prev: KeymapProfile) => KeymapProfile) => {
+    const { activeProfile, profiles } = state
+    updateStoredProfiles(prev => ({
+      ...prev,
+      [activeProfile]: updater(prev[activeProfile] ?? profiles[activeProfile]),
+    }))
+  }
+
+  const setModeCustomizations = (update: ModeCustomizations | ((prev: ModeCustomizations) => ModeCustomizations)) => {
+    updateActiveProfile(profile => {
+      const prev = profile.modeCustomizations ?? EMPTY_MODE_CUSTOMIZATIONS
+      return { ...profile, modeCustomizations: typeof update === 'function' ? update(prev) : update }
+    })
+  }
+
+  const getEffectiveMode = (actionId: string): string | undefined =>
+    effectiveModeOf(actionId, state.modeCustomizations, actionsMap)
+
+  // Actions moved between modes together: an action's whole arrow group, pair or triplet
+  const getLinkedActions = (actionId: string): string[] => {
+    const config = actionsMap.get(actionId)?.config
+    const groupId = config?.arrowGroup?.groupId
+    const pairId = config?.actionPair?.pairId
+    const tripletId = config?.actionTriplet?.tripletId
+    const linked = (matches: (c: ActionConfig) => boolean) =>
+      Array.from(actionsMap.entries()).filter(([, a]) => matches(a.config)).map(([id]) => id)
+    return groupId ? linked(c => c.arrowGroup?.groupId === groupId)
+      : pairId ? linked(c => c.actionPair?.pairId === pairId)
+        : tripletId ? linked(c => c.actionTriplet?.tripletId === tripletId)
+          : [actionId]
+  }
+
+  // Add an action to a mode (handles arrow groups and action pairs atomically)
+  const addActionToMode = (actionId: string, modeId: string) => {
+    const actionIds = getLinkedActions(actionId)
+    setModeCustomizations(prev => {
+      const next = { ...prev, additions: { ...prev.additions }, removals: { ...prev.removals }, userModes: { ...prev.userModes } }
+
+      for (const id of actionIds) {
+        const defaultMode = actionsMap.get(id)?.config.mode
+
+        // Remove from any other mode's additions
+        for (const [mid, ids] of Object.entries(next.additions)) {
+          if (mid !== modeId && ids.includes(id)) {
+            next.additions[mid] = ids.filter(a => a !== id)
+            if (next.additions[mid].length === 0) delete next.additions[mid]
+          }
+        }
+        // Remove from any user mode's actions
+        for (const [mid, config] of Object.entries(next.userModes)) {
+          if (mid !== modeId && config.actions.includes(id)) {
+            next.userModes[mid] = { ...config, actions: config.actions.filter(a => a !== id) }
+          }
+        }
+
+        if (modeId === defaultMode) {
+          // Moving back to default mode — remove from removals
+          const removals = next.removals[modeId]
+          if (removals?.includes(id)) {
+            next.removals[modeId] = removals.filter(a => a !== id)
+            if (next.removals[modeId].length === 0) delete next.removals[modeId]
+          }
+        } else if (next.userModes[modeId]) {
+          // Adding to a user-created mode
+          if (!next.userModes[modeId].actions.includes(id)) {
+            next.userModes[modeId] = { ...next.userModes[modeId], actions: [...next.userModes[modeId].actions, id] }
+          }
+          // If removing from its default mode, record that
+          if (defaultMode) {
+            next.removals[defaultMode] = [...(next.removals[defaultMode] ?? []), id]
+          }
+        } else {
+          // Adding to a developer-defined mode (not the default)
+          if (!next.additions[modeId]?.includes(id)) {
+            next.additions[modeId] = [...(next.additions[modeId] ?? []), id]
+          }
+          // If removing from its default mode, record that
+          if (defaultMode && defaultMode !== modeId) {
+            next.removals[defaultMode] = [...(next.removals[defaultMode] ?? []), id]
+          }
+        }
+      }
+      return next
+    })
+  }
+
+  // Remove an action from its mode (handles arrow groups and action pairs atomically)
+  const removeActionFromMode = (actionId: string, modeId: string) => {
+    const actionIds = getLinkedActions(actionId)
+    setModeCustomizations(prev => {
+      const next = { ...prev, additions: { ...prev.additions }, removals: { ...prev.removals }, userModes: { ...prev.userModes } }
+
+      for (const id of actionIds) {
+        const defaultMode = actionsMap.get(id)?.config.mode
+
+        if (defaultMode === modeId) {
+          // Removing from default mode → record in removals
+          if (!next.removals[modeId]?.includes(id)) {
+            next.removals[modeId] = [...(next.removals[modeId] ?? []), id]
+          }
+        } else if (next.additions[modeId]?.includes(id)) {
+          // Removing from a user-added assignment
+          next.additions[modeId] = next.additions[modeId].filter(a => a !== id)
+          if (next.additions[modeId].length === 0) delete next.additions[modeId]
+        } else if (next.userModes[modeId]?.actions.includes(id)) {
+          // Removing from a user-created mode
+          next.userModes[modeId] = { ...next.userModes[modeId], actions: next.userModes[modeId].actions.filter(a => a !== id) }
+        }
+      }
+      return next
+    })
+  }
+
+  // Create a user mode
+  const createUserMode = (id: string, config: UserModeConfig) => {
+    dbg.registry('createUserMode: %s (%s)', id, config.label)
+    setModeCustomizations(prev => {
+      if (prev.userModes[id]) return prev
+      return { ...prev, userModes: { ...prev.userModes, [id]: { ...config, actions: [...config.actions] } } }
+    })
+  }
+
+  // Update a user mode's config
+  const updateUserMode = (id: string, config: Partial<UserModeConfig>) => {
+    setModeCustomizations(prev => {
+      const existing = prev.userModes[id]
+      if (!existing) return prev
+      return { ...prev, userModes: { ...prev.userModes, [id]: { ...existing, ...config } } }
+    })
+  }
+
+  // Delete a user mode (its actions fall back to global)
+  const deleteUserMode = (id: string) => {
+    dbg.registry('deleteUserMode: %s', id)
+    setModeCustomizations(prev => {
+      if (!prev.userModes[id]) return prev
+      const userModes = { ...prev.userModes }
+      delete userModes[id]
+      const additions = { ...prev.additions }
+      delete additions[id]
+      const removals = { ...prev.removals }
+      delete removals[id]
+      return { additions, removals, userModes }
+    })
+  }
+
+  // An action's base bindings in the active profile
+  const getBaseBindings = (actionId: string): string[] =>
+    getPresetBindings(state.profiles[state.activeProfile].preset, actionId)
+
+  // Helper to check if a key→action matches a default binding
+  const isDefaultBinding = (key: string, actionId: string): boolean =>
+    getBaseBindings(actionId).includes(key)
+
+  // Filter overrides to remove redundant entries (entries that match defaults)
+  const filterRedundantOverrides = (overrides: Record<string, string | string[]>): Record<string, string | string[]> => {
+    const filtered: Record<string, string | string[]> = {}
+    for (const [key, actionOrActions] of Object.entries(overrides)) {
+      if (actionOrActions === '') {
+        // Legacy empty marker - skip (now handled by removedDefaults)
+      } else if (Array.isArray(actionOrActions)) {
+        // For arrays, keep if any action is not default
+        const nonDefaultActions = actionOrActions.filter(a => !isDefaultBinding(key, a))
+        if (nonDefaultActions.length > 0) {
+          filtered[key] = nonDefaultActions.length === 1 ? nonDefaultActions[0] : nonDefaultActions
+        }
+      } else {
+        // Single action - keep if not default
+        if (!isDefaultBinding(key, actionOrActions)) {
+          filtered[key] = actionOrActions
+        }
+      }
+    }
+    return filtered
+  }
+
+  // Persist overrides - accepts either a value or an updater function
+  type OverridesUpdate = Record<string, string | string[]> | ((prev: Record<string, string | string[]>) => Record<string, string | string[]>)
+  const updateOverrides = (update: OverridesUpdate) => {
+    updateActiveProfile(profile => {
+      const newOverrides = typeof update === 'function' ? update(profile.overrides) : update
+      // Filter out redundant overrides before persisting
+      return { ...profile, overrides: filterRedundantOverrides(newOverrides) }
+    })
+  }
+
+  // Persist removedDefaults
+  type RemovedDefaultsUpdate = Record<string, string[]> | ((prev: Record<string, string[]>) => Record<string, string[]>)
+  const updateRemovedDefaults = (update: RemovedDefaultsUpdate) => {
+    updateActiveProfile(profile => {
+      const newRemoved = typeof update === 'function' ? update(profile.removedDefaults) : update
+      return { ...profile, removedDefaults: dropEmptyRemovals(newRemoved) }
+    })
+  }
+
+  // A profile with all its customizations replaced (cleaned up as `updateOverrides` and `updateRemovedDefaults` do)
+  const withCustomizations = (profile: KeymapProfile, { overrides, removedDefaults, modeCustomizations, macros, leader }: ProfileCustomizations): KeymapProfile => ({
+    ...profile,
+    overrides: filterRedundantOverrides(overrides),
+    removedDefaults: dropEmptyRemovals(removedDefaults),
+    modeCustomizations: modeCustomizations ?? EMPTY_MODE_CUSTOMIZATIONS,
+    macros,
+    leader,
+  })
+
+  const register = (id: string, config: ActionConfig) => {
+    dbg.registry('register: %s (bindings: %o, group: %s)', id, config.defaultBindings, config.group)
+    if (config.when) validateWhen(config.when)
+    actionsMap.set(id, {
+      config,
+      registeredAt: Date.now(),
+    })
+    actions = new Map(actionsMap)
+    update()
+  }
+
+  const unregister = (id: string) => {
+    dbg.registry('unregister: %s', id)
+    actionsMap.delete(id)
+    actions = new Map(actionsMap)
+    update()
+  }
+
+  const registerPrefix = (keys: string, config: PrefixConfig) => {
+    const id = bindingId(keys)
+    if (!id) throw new Error(`Invalid prefix "${keys}": expected one or more keys`)
+    dbg.registry('registerPrefix: %s (%s)', id, config.label)
+    prefixesMap.set(id, { config, keys, registeredAt: Date.now() })
+    prefixes = new Map(prefixesMap)
+    update()
+  }
+
+  const unregisterPrefix = (keys: string) => {
+    const id = bindingId(keys)
+    if (!prefixesMap.delete(id)) return
+    dbg.registry('unregisterPrefix: %s', id)
+    prefixes = new Map(prefixesMap)
+    update()
+  }
+
+  const getWhenReason = (actionId: string): string | null => {
+    const when = actionsMap.get(actionId)?.config.when
+    return when ? whenReason(when, context) : null
+  }
+
+  const setContextKey = (key: string, value: unknown) => {
+    if (Object.is(context[key], value) && key in context) return
+    dbg.registry('setContextKey: %s = %o', key, value)
+    context = { ...context, [key]: value }
+    update()
+  }
+
+  const deleteContextKey = (key: string) => {
+    if (!(key in context)) return
+    const { [key]: _, ...rest } = context
+    context = rest
+    update()
+  }
+
+  const execute = (id: string, captures?: number[], args?: ActionArgs) => {
+    const action = actionsMap.get(id)
+    if (action && getWhenReason(id) !== null) {
+      dbg.registry('execute: %s skipped (when: %s)', id, action.config.when)
+      return
+    }
+    if (action && (action.config.enabled ?? true)) {
+      dbg.registry('execute: %s (captures: %o, args: %o)', id, captures, args)
+      const result = action.config.handler(undefined, captures, args)
+      // No key is held when executed directly (omnibar, lookup): a hold starts and ends at once
+      action.config.onEnd?.(undefined, captures, args)
+      afterAction(id, captures, args)
+      return result
+    }
+  }
+
+  const isActionEnabled = (id: string) => {
+    const action = actionsMap.get(id)
+    return action?.config.enabled !== false
+  }
+
+  const getBindingsForAction = (actionId: string) => {
+    const bindings: string[] = []
+
+    // Get from keymap (includes defaults and overrides)
+    for (const [key, action] of Object.entries(state.keymap)) {
+      const actions = Array.isArray(action) ? action : [action]
+      if (actions.includes(actionId)) {
+        bindings.push(key)
+      }
+    }
+
+    return bindings
+  }
+
+  const setBinding = (actionId: string, key: string) => {
+    dbg.registry('setBinding: %s → %s', key, actionId)
+    // If this binding is a default for this action, just remove it from removedDefaults
+    // (no need to store in overrides since it will come from defaults)
+    if (isDefaultBinding(key, actionId)) {
+      updateRemovedDefaults((prev) => {
+        const existing = prev[actionId] ?? []
+        if (existing.includes(key)) {
+          const filtered = existing.filter(k => k !== key)
+          if (filtered.length === 0) {
+            const { [actionId]: _, ...rest } = prev
+            return rest
+          }
+          return { ...prev, [actionId]: filtered }
+        }
+        return prev
+      })
+    } else {
+      // Non-default binding - add to overrides
+      updateOverrides((prev) => ({
+        ...prev,
+        [key]: actionId,
+      }))
+    }
+  }
+
+  const removeBinding = (actionId: string, key: string) => {
+    dbg.registry('removeBinding: %s from %s', key, actionId)
+    // Check if this is a default binding for this specific action
+    if (isDefaultBinding(key, actionId)) {
+      // Mark as removed for this specific action only
+      updateRemovedDefaults((prev) => {
+        const existing = prev[actionId] ?? []
+        if (existing.includes(key)) return prev
+        return { ...prev, [actionId]: [...existing, key] }
+      })
+    }
+
+    // Also remove from overrides if this key was bound to this action
+    updateOverrides((prev) => {
+      const boundAction = prev[key]
+      // Only remove if bound to this specific action (or array containing it)
+      if (boundAction === actionId) {
+        const { [key]: _, ...rest } = prev
+        return rest
+      }
+      if (Array.isArray(boundAction) && boundAction.includes(actionId)) {
+        const newActions = boundAction.filter(a => a !== actionId)
+        if (newActions.length === 0) {
+          const { [key]: _, ...rest } = prev
+          return rest
+        }
+        return { ...prev, [key]: newActions.length === 1 ? newActions[0] : newActions }
+      }
+      return prev
+    })
+  }
+
+  const setLeader = (key: string | undefined) => {
+    if (key !== undefined && !isValidLeader(key)) {
+      throw new Error(`Invalid leader key "${key}": expected a single key or combination`)
+    }
+    dbg.registry('setLeader: %s', key)
+    updateActiveProfile(profile => ({ ...profile, leader: key }))
+  }
+
+  const resetOverrides = () => {
+    updateActiveProfile(profile => withCustomizations(profile, { overrides: {}, removedDefaults: {} }))
+  }
+
+  const isBuiltinProfile = (id: string) => {
+    return id === DEFAULT_PROFILE_ID || id in presets
+  }
+
+  const switchProfile = (id: string) => {
+    dbg.registry('switchProfile: %s', id)
+    selectedProfile = id
+    if (pendingLoad) locallySelectedProfile = true
+    if (storageKey) saveValue(storage, selectedProfileKey(storageKey), id)
+    update()
+  }
+
+  const createProfile = (id: string, label: string, preset?: string) => {
+    if (isBuiltinProfile(id)) return
+    dbg.registry('createProfile: %s (%s)', id, label)
+    updateStoredProfiles(prev => {
+      if (prev[id]) return prev
+      return { ...prev, [id]: { label, preset, overrides: {}, removedDefaults: {} } }
+    })
+  }
+
+  const duplicateProfile = (sourceId: string, id: string, label: string) => {
+    const source = state.profiles[sourceId]
+    if (!source || isBuiltinProfile(id)) return
+    dbg.registry('duplicateProfile: %s → %s (%s)', sourceId, id, label)
+    updateStoredProfiles(prev => {
+      if (prev[id]) return prev
+      return { ...prev, [id]: { ...source, label } }
+    })
+  }
+
+  const renameProfile = (id: string, label: string) => {
+    if (isBuiltinProfile(id)) return
+    updateStoredProfiles(prev => {
+      if (!prev[id]) return prev
+      return { ...prev, [id]: { ...prev[id], label } }
+    })
+  }
+
+  const deleteProfile = (id: string) => {
+    if (isBuiltinProfile(id)) return
+    dbg.registry('deleteProfile: %s', id)
+    updateStoredProfiles(prev => {
+      if (!prev[id]) return prev
+      const { [id]: _, ...rest } = prev
+      return rest
+    })
+    if (id === state.activeProfile) switchProfile(DEFAULT_PROFILE_ID)
+  }
+
+  const exportBindings = (profileIds?: string[]): BindingsExport => {
+    const { profiles, activeProfile, overrides, removedDefaults, modeCustomizations, macros } = state
+    const { leader } = profiles[activeProfile]
+    // Omit empty mode customizations and macros
+    const hasMacros = (macros: Record<string, UserMacro> | undefined) => !!macros && Object.keys(macros).length > 0
+    const exportProfile = ({ modeCustomizations, macros, ...profile }: KeymapProfile): KeymapProfile => ({
+      ...profile,
+      ...(isEmptyModeCustomizations(modeCustomizations) ? {} : { modeCustomizations }),
+      ...(hasMacros(macros) ? { macros } : {}),
+    })
+    const exportedIds = profileIds?.filter(id => id in profiles)
+    const dataVersion = migrationVersion(migrations)
+    return {
+      version: EXPORT_VERSION,
+      ...(dataVersion > 0 ? { dataVersion } : {}),
+      exportedAt: new Date().toISOString(),
+      origin: typeof window !== 'undefined' ? window.location.origin : undefined,
+      overrides,
+      removedDefaults,
+      ...(isEmptyModeCustomizations(modeCustomizations) ? {} : { modeCustomizations }),
+      ...(hasMacros(macros) ? { macros } : {}),
+      ...(leader ? { leader } : {}),
+      ...(exportedIds ? {
+        profiles: Object.fromEntries(exportedIds.map(id => [id, exportProfile(profiles[id])])),
+        activeProfile,
+      } : {}),
+    }
+  }
+
+  const importBindings = (raw: BindingsExport, { strategy = 'replace', accept }: ImportBindingsOptions = {}): ImportDiff => {
+    // Validate basic structure
+    if (!raw || typeof raw !== 'object') {
+      throw new Error('Invalid import data: expected an object')
+    }
+    validateCustomizations(raw)
+
+    if (raw.profiles !== undefined) {
+      if (typeof raw.profiles !== 'object' || raw.profiles === null) {
+        throw new Error('Invalid import data: invalid profiles')
+      }
+      for (const [id, profile] of Object.entries(raw.profiles)) {
+        if (!profile || typeof profile !== 'object' || typeof profile.label !== 'string' ||
+          (profile.preset !== undefined && typeof profile.preset !== 'string')) {
+          throw new Error(`Invalid import data: invalid profile "${id}"`)
+        }
+        validateCustomizations(profile, ` in profile "${id}"`)
+      }
+    }
+
+    // Bring data exported by an older version of the app up to date
+    const fromVersion = typeof raw.dataVersion === 'number' ? raw.dataVersion : 0
+    if (fromVersion > migrationVersion(migrations)) {
+      throw new Error('Invalid import data: exported by a newer version of this app')
+    }
+    const data = migrateBindings(raw, migrations, fromVersion)
+    const importedProfiles = raw.profiles && Object.fromEntries(
+      Object.entries(raw.profiles).map(([id, profile]) => [id, migrateBindings(profile, migrations, fromVersion)]),
+    )
+
+    const { profiles, activeProfile, keymap } = state
+    const current = profiles[activeProfile]
+    const toStored = ({ label, preset, overrides, removedDefaults, modeCustomizations, macros, leader }: KeymapProfile): KeymapProfile =>
+      ({ label, preset, overrides, removedDefaults, modeCustomizations, macros, leader })
+
+    // The profile active after the import: replacing profiles switches to the imported `activeProfile`
+    // (if it's among them), and replaces the active profile's customizations only if it's among them
+    const replacesProfiles = strategy === 'replace' && !accept && importedProfiles !== undefined
+    const afterId = replacesProfiles && data.activeProfile && data.activeProfile in importedProfiles ? data.activeProfile : activeProfile
+    const replaced = replacesProfiles ? importedProfiles[afterId] : undefined
+    // Its customizations after the import, and the resulting keymap changes
+    const imported: ProfileCustomizations = replaced
+      ?? (replacesProfiles ? { overrides: {}, removedDefaults: {} } : { overrides: data.overrides, removedDefaults: data.removedDefaults, modeCustomizations: data.modeCustomizations, macros: data.macros, leader: data.leader })
+    const target: KeymapProfile = replaced
+      // Built-in profiles keep their label and preset
+      ? (isBuiltinProfile(afterId) ? { ...toStored(replaced), label: profiles[afterId].label, preset: profiles[afterId].preset } : toStored(replaced))
+      : replacesProfiles ? current
+        : strategy === 'replace' ? { ...current, ...imported } : mergeCustomizations(current, imported)
+    const after = buildKeymap(actionsMap.keys(), id => getPresetBindings(target.preset, id), target)
+    const getScope = (id: string) => actionsMap.get(id)?.config.scope
+    const getWhen = (id: string) => actionsMap.get(id)?.config.when
+    const getModeAfter = (id: string) => effectiveModeOf(id, target.modeCustomizations ?? EMPTY_MODE_CUSTOMIZATIONS, actionsMap)
+    const conflictsBefore = findConflicts(keymap, getEffectiveMode, getScope, getWhen, state.leader)
+    const referencedActions = [
+      ...Object.values(imported.overrides).flatMap(toArray),
+      ...Object.keys(imported.removedDefaults),
+      ...Object.values(imported.macros ?? {}).flatMap(m => m.steps.map(step => step.actionId)),
+    ]
+    const diff: ImportDiff = {
+      ...diffKeymaps(keymap, after),
+      conflicts: new Map(Array.from(findConflicts(after, getModeAfter, getScope, getWhen, target.leader ?? defaultLeader)).filter(
+        ([key, actions]) => actions.some(a => !conflictsBefore.get(key)?.includes(a)),
+      )),
+      unknownActions: Array.from(new Set(referencedActions)).filter(id => id !== '' && !actionsMap.has(id)),
+    }
+    dbg.registry('importBindings (%s): %d added, %d removed, %d changed', strategy, diff.added.length, diff.removed.length, diff.changed.length)
+    if (strategy === 'preview') return diff
+
+    if (accept) {
+      // Apply accepted changes pair by pair, starting from the current customizations
+      let result: Customizations = current
+      for (const change of [...diff.added, ...diff.removed, ...diff.changed]) {
+        if (!accept(change)) continue
+        for (const actionId of change.to.filter(a => !change.from.includes(a))) {
+          result = toggleBinding(result, change.key, actionId, true, isDefaultBinding(change.key, actionId))
+        }
+        for (const actionId of change.from.filter(a => !change.to.includes(a))) {
+          result = toggleBinding(result, change.key, actionId, false, isDefaultBinding(change.key, actionId))
+        }
+      }
+      // Unregistered actions' removed defaults can't show up as changes; keep them as imported
+      const unknownRemoved = Object.fromEntries(
+        Object.entries(target.removedDefaults).filter(([id]) => !actionsMap.has(id)),
+      )
+      updateActiveProfile(profile => withCustomizations(profile, {
+        ...target,
+        overrides: result.overrides,
+        removedDefaults: { ...result.removedDefaults, ...unknownRemoved },
+      }))
+    } else if (!replacesProfiles) {
+      // Apply the imported data to the active profile, and (merging) add imported profiles we don't have
+      updateStoredProfiles(prev => {
+        const next = { ...prev, [activeProfile]: withCustomizations(prev[activeProfile] ?? current, target) }
+        for (const [id, profile] of Object.entries(importedProfiles ?? {})) {
+          if (!(id in profiles)) next[id] = toStored(profile)
+        }
+        return next
+      })
+    } else if (importedProfiles) {
+      // Replace profiles with imported IDs, keep the rest, and switch to the imported active profile
+      // (in the same update)
+      dbg.registry('importBindings: profiles %o (active: %s)', Object.keys(importedProfiles), afterId)
+      if (afterId !== activeProfile) {
+        selectedProfile = afterId
+        if (pendingLoad) locallySelectedProfile = true
+        if (storageKey) saveValue(storage, selectedProfileKey(storageKey), afterId)
+      }
+      updateStoredProfiles(prev => {
+        const next = { ...prev }
+        for (const [id, profile] of Object.entries(importedProfiles)) {
+          next[id] = toStored(profile)
+        }
+        return next
+      })
+    }
+    return diff
+  }
+
+  const removeOrphanedBindings = () => {
+    const { orphanedActions } = state
+    dbg.registry('removeOrphanedBindings: %o', orphanedActions)
+    updateActiveProfile(profile => migrateBindings(profile, { removed: orphanedActions }, 0))
+  }
+
+  const registerMode = (id: string, config: ModeConfig) => {
+    dbg.modes('register mode: %s (%s)', id, config.label)
+    modesMap.set(id, {
+      config,
+      registeredAt: Date.now(),
+    })
+    modes = new Map(modesMap)
+    update()
+  }
+
+  const unregisterMode = (id: string) => {
+    dbg.modes('unregister mode: %s', id)
+    modesMap.delete(id)
+    modes = new Map(modesMap)
+    // If the unregistered mode was active, remove it from the stack
+    if (modeStack.includes(id)) {
+      modeStack = modeStack.filter(m => m !== id)
+      stopModeTimer(id)
+    }
+    update()
+  }
+
+  // (Re)start a mode's idle countdown, if it has `autoExitMs` (call update() after)
+  const startModeTimer = (id: string) => {
+    const autoExitMs = modesMap.get(id)?.config.autoExitMs
+    if (!autoExitMs) return
+    clearTimeout(modeTimers.get(id))
+    modeTimers.set(id, setTimeout(() => {
+      dbg.modes('auto-exit mode: %s (idle %dms)', id, autoExitMs)
+      deactivateMode(id)
+    }, autoExitMs))
+    modeTimeouts = { ...modeTimeouts, [id]: Date.now() }
+  }
+
+  const stopModeTimer = (id: string) => {
+    if (!modeTimers.has(id)) return
+    clearTimeout(modeTimers.get(id))
+    modeTimers.delete(id)
+    const { [id]: _, ...rest } = modeTimeouts
+    modeTimeouts = rest
+  }
+
+  // Replace the mode stack, calling deactivation hooks (innermost first) for the modes leaving it
+  const setModeStack = (next: string[]) => {
+    const removed = modeStack.filter(m => !next.includes(m)).reverse()
+    modeStack = next
+    for (const id of removed) stopModeTimer(id)
+    update()
+    for (const id of removed) modesMap.get(id)?.config.onDeactivate?.()
+  }
+
+  // After an action runs: it's recorded into the macro being recorded, one-shot modes exit, and timed
+  // modes' idle countdowns restart. Mode activators (and Escape's mode exit) don't count for modes.
+  const afterAction = (id: string, captures?: number[], args?: ActionArgs) => {
+    recordMacroStep(id, captures, args)
+    if (modeStack.length === 0 || id.startsWith(ACTION_MODE_PREFIX)) return
+    const oneShot = modeStack.find(m => modesMap.get(m)?.config.oneShot)
+    if (oneShot) {
+      dbg.modes('one-shot mode %s exits after %s', oneShot, id)
+      deactivateMode(oneShot)
+    }
+    if (modeStack.some(m => modeTimers.has(m))) {
+      for (const m of modeStack) startModeTimer(m)
+      update()
+    }
+  }
+
+  const recordMacroStep = (id: string, captures?: number[], args?: ActionArgs) => {
+    if (!macroRecording || id.startsWith(ACTION_MACRO_PREFIX) || UNRECORDED_ACTIONS.includes(id)) return
+    const now = Date.now()
+    const step: MacroStep = { actionId: id, delay: macroRecording.length > 0 ? now - lastRecordedAt : 0 }
+    if (captures && captures.length > 0) step.captures = captures
+    // Stored as text (dates aren't JSON), and parsed back with the action's params when replayed
+    const storedArgs = Object.entries(args ?? {}).flatMap(([name, value]) => value === undefined ? [] : [[name, formatParamValue(value)]])
+    if (storedArgs.length > 0) step.args = Object.fromEntries(storedArgs)
+    lastRecordedAt = now
+    macroRecording = [...macroRecording, step]
+    update()
+  }
+
+  const startMacroRecording = () => {
+    dbg.registry('startMacroRecording')
+    macroRecording = []
+    update()
+  }
+
+  const stopMacroRecording = (id: string, label: string) => {
+    const steps = macroRecording
+    if (!steps) return
+    dbg.registry('stopMacroRecording: %s (%d steps)', id, steps.length)
+    macroRecording = null
+    if (steps.length > 0) {
+      updateActiveProfile(profile => ({ ...profile, macros: { ...profile.macros, [id]: { label, steps } } }))
+    }
+    update()
+  }
+
+  const cancelMacroRecording = () => {
+    if (!macroRecording) return
+    dbg.registry('cancelMacroRecording')
+    macroRecording = null
+    update()
+  }
+
+  const deleteMacro = (id: string) => {
+    dbg.registry('deleteMacro: %s', id)
+    updateActiveProfile(profile => {
+      if (!profile.macros?.[id]) return profile
+      const { [id]: _, ...macros } = profile.macros
+      return { ...profile, macros }
+    })
+  }
+
+  const playMacro = async (id: string) => {
+    const macro = state.macros[id]
+    if (!macro) return
+    dbg.registry('playMacro: %s (%d steps)', id, macro.steps.length)
+    for (const [i, { actionId, captures, args, delay }] of macro.steps.entries()) {
+      if (i > 0 && delay > 0) await new Promise(resolve => setTimeout(resolve, delay))
+      // Re-checked per step: earlier steps (or the wait) may have changed what's available
+      if (!actionsMap.has(actionId) || !isActionEnabled(actionId) || getWhenReason(actionId) !== null) {
+        dbg.registry('playMacro: %s stopped at step %d (%s unavailable)', id, i + 1, actionId)
+        return
+      }
+      const params = actionsMap.get(actionId)?.config.params ?? []
+      const parsedArgs = args && Object.fromEntries(Object.entries(args).map(([name, text]) => {
+        const param = params.find(p => p.name === name)
+        return [name, param ? parseParamValue(param, text) : text]
+      }))
+      await execute(actionId, captures, parsedArgs)
+    }
+  }
+
+  const pushMode = (id: string) => {
+    const mode = modesMap.get(id)
+    if (!mode) return
+    const index = modeStack.indexOf(id)
+    if (index >= 0) {
+      dbg.modes('push mode: %s (already active, popping %o)', id, modeStack.slice(index + 1))
+      setModeStack(modeStack.slice(0, index + 1))
+      return
+    }
+    dbg.modes('push mode: %s (stack: %o)', id, modeStack)
+    modeStack = [...modeStack, id]
+    startModeTimer(id)
+    update()
+    mode.config.onActivate?.()
+  }
+
+  const popMode = () => {
+    if (modeStack.length === 0) return
+    dbg.modes('pop mode: %s', modeStack[modeStack.length - 1])
+    setModeStack(modeStack.slice(0, -1))
+  }
+
+  const activateMode = (id: string) => {
+    const mode = modesMap.get(id)
+    if (!mode) return
+    if (mode.config.push) {
+      pushMode(id)
+      return
+    }
+    if (modeStack.length === 1 && modeStack[0] === id) return
+    dbg.modes('activate mode: %s', id)
+    const wasActive = modeStack.includes(id)
+    if (!wasActive) startModeTimer(id)
+    setModeStack([id])
+    if (!wasActive) mode.config.onActivate?.()
+  }
+
+  const deactivateMode = (id?: string) => {
+    const index = id === undefined ? 0 : modeStack.indexOf(id)
+    if (index < 0 || index >= modeStack.length) return
+    dbg.modes('deactivate mode: %o', modeStack.slice(index))
+    setModeStack(modeStack.slice(0, index))
+  }
+
+  const toggleMode = (id: string) => {
+    if (modeStack.includes(id)) {
+      deactivateMode(id)
+    } else {
+      activateMode(id)
+    }
+  }
+
+  // Mode- and scope-aware effective keymap
+  const computeEffectiveKeymap = memoizeLast((
+    keymap: HotkeyMap,
+    actions: Map<string, RegisteredAction>,
+    modes: Map<string, RegisteredMode>,
+    modeStack: string[],
+    modeCustomizations: ModeCustomizations,
+    activeScopes: string[],
+    disableConflicts: boolean,
+    context: WhenContext,
+    leader: string,
+  ): HotkeyMap => {
+    const activeMode = modeStack[modeStack.length - 1] ?? null
+    const activeModeConfig = activeMode ? modes.get(activeMode)?.config : null
+    const getMode = (id: string) => effectiveModeOf(id, modeCustomizations, actions)
+    const getScope = (id: string) => actions.get(id)?.config.scope
+    const getWhen = (id: string) => actions.get(id)?.config.when
+
+    // Start with conflict filtering if needed
+    let baseKeymap = keymap
+    if (disableConflicts) {
+      const conflicts = findConflicts(keymap, getMode, getScope, getWhen, leader)
+      if (conflicts.size > 0) {
+        baseKeymap = {}
+        for (const [key, action] of Object.entries(keymap)) {
+          if (!conflicts.has(key)) {
+            baseKeymap[key] = action
+          }
+        }
+      }
+    }
+
+    // If no modes are registered and no actions are scoped or conditional, skip filtering
+    const hasFilteredActions = Array.from(actions.values()).some(a => a.config.scope || a.config.when)
+    if (modes.size === 0 && !hasFilteredActions) return baseKeymap
+
+    const result: HotkeyMap = {}
+    for (const [key, actionOrActions] of Object.entries(baseKeymap)) {
+      const candidates = toArray(actionOrActions).filter(id => {
+        const actionMode = getMode(id)
+        if (!actionMode) return true                          // global: always include
+        if (modeStack.includes(actionMode)) return true       // active (stacked) mode: include
+        if (id.startsWith(ACTION_MODE_PREFIX)) return true    // mode activators: always
+        return false                                          // inactive mode: exclude
+      }).filter(id => {
+        const scope = getScope(id)
+        return !scope || activeScopes.includes(scope)
+      }).filter(id => {
+        const when = getWhen(id)
+        return !when || evaluateWhen(when, context)
+      })
+      if (candidates.length === 0) continue
+
+      // Actions in the innermost focused scope shadow outer scopes and globals
+      const depths = candidates.map(id => {
+        const scope = getScope(id)
+        return scope ? activeScopes.indexOf(scope) : activeScopes.length
+      })
+      const innermost = Math.min(...depths)
+      const filtered = candidates.filter((_, i) => depths[i] === innermost)
+
+      // Walk the mode stack innermost first: a mode's actions shadow outer modes' and globals
+      // on the same key, and a mode without `passthrough` stops unbound keys falling through
+      let resolved: string[] | null = null
+      for (let level = modeStack.length - 1; level >= 0 && !resolved; level--) {
+        const levelMode = modeStack[level]
+        const modeActions = filtered.filter(id => getMode(id) === levelMode)
+        if (modeActions.length > 0) {
+          resolved = modeActions
+        } else if (modes.get(levelMode)?.config.passthrough === false) {
+          // Mode activators stay reachable, so other modes can still be entered
+          resolved = filtered.filter(id => id.startsWith(ACTION_MODE_PREFIX))
+        }
+      }
+      resolved ??= filtered
+      if (resolved.length === 0) continue
+      result[key] = resolved.length === 1 ? resolved[0] : resolved
+    }
+
+    // Inject escape → pop the innermost mode, unless it sets escapeExits: false or escape is bound to an action
+    if (activeMode && activeModeConfig?.escapeExits !== false && !('escape' in result)) {
+      result['escape'] = MODE_EXIT_ACTION
+    }
+
+    dbg.modes('effective keymap: %d bindings (mode stack: %o)', Object.keys(result).length, modeStack)
+    return result
+  })
+
+  const getEffectiveKeymap = (activeScopes: string[] = NO_SCOPES) => computeEffectiveKeymap(
+    state.keymap,
+    state.actions,
+    state.modes,
+    state.modeStack,
+    state.modeCustomizations,
+    activeScopes,
+    disableConflicts,
+    state.context,
+    state.leader,
+  )
+
+  // Build handlers map from registered actions + mode exit handler
+  const computeHandlers = memoizeLast((actions: Map<string, RegisteredAction>, activeMode: string | null) => {
+    const handlers: HandlerMap = {}
+    const triggers: Record<string, ActionTrigger> = {}
+    const endHandlers: Record<string, ActionHandler> = {}
+    const repeatable: Record<string, boolean> = {}
+    for (const [id, action] of actions) {
+      const { handler } = action.config
+      handlers[id] = (e, captures) => {
+        handler(e, captures)
+        afterAction(id, captures)
+      }
+      if (action.config.trigger) triggers[id] = action.config.trigger
+      if (action.config.onEnd) endHandlers[id] = action.config.onEnd
+      if (action.config.repeatable) repeatable[id] = true
+    }
+    if (activeMode) {
+      handlers[MODE_EXIT_ACTION] = () => popMode()
+    }
+    return { handlers, triggers, endHandlers, repeatable }
+  })
+
+  const getHandlers = () => computeHandlers(state.actions, state.activeMode)
+
+  const matcher = createHotkeyMatcher()
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  const attach = (target?: HTMLElement | Window) => {
+    // Keep the matcher in sync with the effective keymap and handlers
+    const sync = () => {
+      const { handlers, triggers, endHandlers, repeatable } = getHandlers()
+      matcher.update(getEffectiveKeymap(), handlers, { sequenceTimeout, chordTimeout, triggers, endHandlers, countPrefix, repeatable, leader: state.leader })
+    }
+    sync()
+    const unsubscribe = subscribe(sync)
+    const detach = attachHotkeys(matcher, target)
+    return () => {
+      unsubscribe()
+      detach()
+    }
+  }
+
+  const connect = () => {
+    if (!storageKey) return () => {}
+    let connected = true
+    pendingLoad?.then(loaded => {
+      if (!connected || !pendingLoad) return
+      pendingLoad = null
+      // Keep profiles changed (or deleted) locally while loading, and store the merged result
+      const merged = { ...loaded.profiles }
+      for (const id of locallyUpdatedProfiles) {
+        if (id in storedProfiles) merged[id] = storedProfiles[id]
+        else delete merged[id]
+      }
+      if (locallyUpdatedProfiles.size > 0) saveProfiles(storage, storageKey, loaded.profiles, merged)
+      locallyUpdatedProfiles.clear()
+      storedProfiles = merged
+      if (!locallySelectedProfile) selectedProfile = loaded.selectedProfile
+      update()
+    }).catch(error => {
+      console.error(`Failed to load stored bindings "${storageKey}":`, error)
+    })
+    const unsubscribes = [
+      ...Object.values(profileStorageKeys(storageKey)).map(key =>
+        storage.subscribe?.(key, value => {
+          dbg.registry('storage changed: %s', key)
+          // Another tab may run an older version of the app: migrate what it stored, as loading does
+          // (its data version is unknown, so only renames and removals apply)
+          storedProfiles = migrateStoredProfiles(
+            storage,
+            storageKey,
+            applyStoredProfileValue(storedProfiles, storageKey, key, value),
+            migrations,
+            migrationVersion(migrations),
+          )
+          update()
+        })
+      ),
+      storage.subscribe?.(selectedProfileKey(storageKey), value => {
+        selectedProfile = parseProfileId(value)
+        update()
+      }),
+    ]
+    return () => {
+      connected = false
+      for (const unsubscribe of unsubscribes) unsubscribe?.()
+    }
+  }
+
+  const setOptions = (next: Pick<KbdEngineOptions, 'presets' | 'migrations' | 'disableConflicts' | 'sequenceTimeout' | 'chordTimeout' | 'countPrefix' | 'leader'>) => {
+    presets = next.presets ?? NO_PRESETS
+    migrations = next.migrations ?? NO_MIGRATIONS
+    disableConflicts = next.disableConflicts ?? false
+    sequenceTimeout = next.sequenceTimeout
+    chordTimeout = next.chordTimeout
+    countPrefix = next.countPrefix ?? false
+    defaultLeader = next.leader ?? DEFAULT_LEADER_KEY
+    update()
+  }
+
+  return {
+    getState: () => state,
+    subscribe,
+    connect,
+    setOptions,
+    register,
+    unregister,
+    execute,
+    isActionEnabled,
+    getBindingsForAction,
+    getFirstBindingForAction: actionId => getBindingsForAction(actionId)[0],
+    getEffectiveMode,
+    getWhenReason,
+    registerPrefix,
+    unregisterPrefix,
+    setContextKey,
+    deleteContextKey,
+    setBinding,
+    removeBinding,
+    setLeader,
+    resetOverrides,
+    exportBindings,
+    importBindings,
+    removeOrphanedBindings,
+    switchProfile,
+    createProfile,
+    duplicateProfile,
+    renameProfile,
+    deleteProfile,
+    isBuiltinProfile,
+    setModeCustomizations,
+    addActionToMode,
+    removeActionFromMode,
+    createUserMode,
+    updateUserMode,
+    deleteUserMode,
+    startMacroRecording,
+    stopMacroRecording,
+    cancelMacroRecording,
+    deleteMacro,
+    playMacro,
+    registerMode,
+    unregisterMode,
+    activateMode,
+    pushMode,
+    popMode,
+    deactivateMode,
+    toggleMode,
+    getEffectiveKeymap,
+    getHandlers,
+    matcher,
+    attach,
+  }
+}
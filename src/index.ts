@@ -1,16 +1,33 @@
 // Types
 export type {
+  ActionArgs,
+  ActionArgValue,
+  ActionChoice,
+  ActionChoicesProvider,
   ActionDefinition,
+  ActionParam,
+  ActionParamType,
   ActionRegistry,
   ActionSearchResult,
+  ActionTrigger,
+  ActionUsage,
+  BindingChange,
+  BindingsData,
   BindingsExport,
+  BindingsMigrations,
   EndpointPagination,
   EndpointPaginationMode,
   EndpointResponse,
   HotkeySequence,
+  ImportBindingsOptions,
+  ImportDiff,
+  ImportStrategy,
   KeyCombination,
   KeyCombinationDisplay,
+  KeymapPreset,
+  KeymapProfile,
   KeySeq,
+  MacroStep,
   ModeConfig,
   ModeCustomizations,
   ModeState,
@@ -23,10 +40,17 @@ export type {
   OmnibarEntry,
   OmnibarEntryBase,
   OmnibarLinkEntry,
+  PrefixConfig,
+  PrefixMenuItem,
   RecordHotkeyOptions,
   RecordHotkeyResult,
   RegisteredMode,
+  RegisteredPrefix,
+  RegisteredScope,
+  RenderStyle,
+  ScopeConfig,
   SeqElem,
+  UserMacro,
   UserModeConfig,
   SeqElemState,
   SeqMatchState,
@@ -40,7 +64,7 @@ export { countPlaceholders, extractCaptures, isDigitPlaceholder } from './types'
 
 export type { HandlerMap, HotkeyHandler, HotkeyMap, UseHotkeysOptions, UseHotkeysResult } from './useHotkeys'
 export type { UseEditableHotkeysOptions, UseEditableHotkeysResult } from './useEditableHotkeys'
-export type { EndpointPaginationInfo, RemoteOmnibarResult, UseOmnibarOptions, UseOmnibarResult } from './useOmnibar'
+export type { EndpointPaginationInfo, OmnibarChoiceResult, OmnibarPage, OmnibarPrefixHint, OmnibarScope, RemoteOmnibarResult, UseOmnibarOptions, UseOmnibarResult } from './useOmnibar'
 export type {
   BindingInfo,
   KeybindingEditorProps,
@@ -53,7 +77,17 @@ export type { OmnibarProps, OmnibarRenderProps } from './Omnibar'
 
 // HotkeysProvider (high-level integration with dynamic action registration)
 export type { HotkeysConfig, HotkeysContextValue, HotkeysProviderProps } from './HotkeysProvider'
-export { HotkeysProvider, useHotkeysContext, useMaybeHotkeysContext } from './HotkeysProvider'
+export { HotkeysProvider, useHotkeysContext, useMaybeHotkeysContext, useRenderStyle } from './HotkeysProvider'
+
+// Framework-agnostic engine (also available without React from `use-kbd/core`)
+export type { KbdEngine, KbdEngineOptions, KbdEngineState } from './engine'
+export { createKbdEngine } from './engine'
+export type { HotkeyMatcher, HotkeyMatcherOptions, HotkeyMatcherState } from './matcher'
+export { attachHotkeys, createHotkeyMatcher } from './matcher'
+
+// Persistence
+export type { StorageAdapter } from './storage'
+export { createWebStorageAdapter, localStorageAdapter, sessionStorageAdapter } from './storage'
 
 // Action registration
 export type { ActionConfig, ActionHandler } from './useAction'
@@ -64,6 +98,8 @@ export type { ActionPairConfig, ActionPairEntry } from './useActionPair'
 export { useActionPair } from './useActionPair'
 export type { ActionTripletConfig, ActionTripletEntry } from './useActionTriplet'
 export { useActionTriplet } from './useActionTriplet'
+export type { DefinedActions, TypedActionConfig, TypedActionsRegistryValue, TypedHotkeysContextValue, TypedKbdProps } from './defineActions'
+export { defineActions } from './defineActions'
 export type { ActionsRegistryValue, RegisteredAction } from './ActionsRegistry'
 export { ActionsRegistryContext, useActionsRegistry } from './ActionsRegistry'
 
@@ -72,6 +108,20 @@ export { useMode } from './useMode'
 export type { ModesRegistryValue } from './ModesRegistry'
 export { ModesRegistryContext, useModesRegistry } from './ModesRegistry'
 
+// Focus scopes
+export { HotkeyScope, HotkeyScopeContext } from './HotkeyScope'
+export type { HotkeyScopeProps } from './HotkeyScope'
+export type { ScopesRegistryValue } from './ScopesRegistry'
+export { ScopesRegistryContext, useScopesRegistry } from './ScopesRegistry'
+
+// Context keys (`when` clauses)
+export { useContextKey } from './useContextKey'
+export type { WhenContext } from './when'
+export { evaluateWhen, validateWhen, whenClausesExclusive, whenReason } from './when'
+
+// Sequence prefix labels
+export { usePrefix } from './usePrefix'
+
 // Omnibar endpoint registration
 export type { EndpointQueryResult, OmnibarEndpointsRegistryValue, RegisteredEndpoint } from './OmnibarEndpointsRegistry'
 export { OmnibarEndpointsRegistryContext, useOmnibarEndpointsRegistry } from './OmnibarEndpointsRegistry'
@@ -100,6 +150,7 @@ export { SearchTrigger, SearchIcon } from './SearchTrigger'
 export type { SearchTriggerProps } from './SearchTrigger'
 export { Omnibar } from './Omnibar'
 export { SequenceModal } from './SequenceModal'
+export type { SequenceModalProps } from './SequenceModal'
 export { ShortcutsModal } from './ShortcutsModal'
 export {
   Command,
@@ -127,22 +178,36 @@ export type { KeyIconProps, KeyIconType } from './KeyIcons'
 
 // Utilities
 export {
+  bindingHasLeader,
   bindingHasPlaceholders,
+  bindingId,
+  chordKey,
+  chordKeys,
   findConflicts,
+  findPrefix,
   formatBinding,
   formatCombination,
   formatKeyForDisplay,
   formatKeySeq,
+  formatModifier,
+  formatParamValue,
+  frecencyBoost,
+  frecencyScore,
   fuzzyMatch,
   getActionBindings,
+  getBindingPrefixes,
   getConflictsArray,
+  getParamSuggestions,
   getSequenceCompletions,
+  groupCompletionsByPrefix,
   hasAnyPlaceholderBindings,
   hasConflicts,
   hasDigitPlaceholders,
   hotkeySequenceToKeySeq,
+  isChordKey,
   isMac,
   isModifierKey,
+  isPhysicalKey,
   isSequence,
   isPlaceholderSentinel,
   isShiftedSymbol,
@@ -150,21 +215,42 @@ export {
   DIGITS_PLACEHOLDER,
   FLOAT_PLACEHOLDER,
   keySeqToHotkeySequence,
+  matchSearchFields,
+  modifierSeparator,
   normalizeKey,
+  normalizePhysicalCode,
   parseHotkeyString,
   parseKeySeq,
+  parseParamValue,
+  parseQueryArgs,
   parseQueryNumbers,
+  recordUsage,
   searchActions,
+  smartMatch,
 } from './utils'
 
-export type { FuzzyMatchResult, KeyConflict } from './utils'
+export type { FuzzyMatchResult, KeyConflict, SearchField, SearchFieldsMatch, SearchMatcher } from './utils'
+
+// Keyboard layout (labels for physical-key bindings)
+export { loadKeyboardLayout, physicalKeyLabel } from './keyboardLayout'
 
 // Constants
 export {
+  ACTION_CLEAR_HISTORY,
   ACTION_LOOKUP,
+  ACTION_MACRO_PREFIX,
   ACTION_MODAL,
   ACTION_MODE_PREFIX,
   ACTION_OMNIBAR,
   DEFAULT_BUILTIN_GROUP,
+  DEFAULT_CHORD_TIMEOUT,
+  DEFAULT_HISTORY_SIZE,
+  DEFAULT_LEADER_KEY,
+  DEFAULT_PROFILE_ID,
   DEFAULT_SEQUENCE_TIMEOUT,
+  LEADER_TOKEN,
+  MAX_REPEAT_COUNT,
+  OMNIBAR_ACTIONS_PREFIX,
+  OMNIBAR_GROUP_PREFIX,
+  PHYSICAL_KEY_PREFIX,
 } from './constants'
@@ -0,0 +1,81 @@
+/**
+ * Keyboard layout lookup for physical-key (`code:`) bindings.
+ *
+ * Physical bindings are matched against `KeyboardEvent.code`, which names a key by its
+ * position on a US keyboard (`KeyZ`, `BracketLeft`). For display, we want the label the
+ * user actually sees on that key, which the browser exposes (Chromium only) via
+ * `navigator.keyboard.getLayoutMap()`. Elsewhere we fall back to US labels.
+ */
+
+/** Minimal typing for the (non-standard) Keyboard Map API */
+interface NavigatorKeyboard {
+  getLayoutMap: () => Promise<Map<string, string>>
+}
+
+/** US-layout labels for non-letter/digit printable codes (lowercased code → label) */
+const US_CODE_LABELS: Record<string, string> = {
+  'minus': '-',
+  'equal': '=',
+  'bracketleft': '[',
+  'bracketright': ']',
+  'backslash': '\\',
+  'intlbackslash': '\\',
+  'semicolon': ';',
+  'quote': '\'',
+  'backquote': '`',
+  'comma': ',',
+  'period': '.',
+  'slash': '/',
+  'numpadadd': '+',
+  'numpadsubtract': '-',
+  'numpadmultiply': '*',
+  'numpaddivide': '/',
+  'numpaddecimal': '.',
+}
+
+/** Current layout labels (lowercased code → label), or null if unavailable / not loaded */
+let layoutLabels: Map<string, string> | null = null
+let loadPromise: Promise<Map<string, string> | null> | null = null
+
+/**
+ * Load the current keyboard layout map, if the browser exposes one.
+ * Cached after the first call; resolves to null when unsupported or denied.
+ */
+export function loadKeyboardLayout(): Promise<Map<string, string> | null> {
+  if (loadPromise) return loadPromise
+  const keyboard = typeof navigator !== 'undefined'
+    ? (navigator as { keyboard?: NavigatorKeyboard }).keyboard
+    : undefined
+  if (!keyboard?.getLayoutMap) {
+    loadPromise = Promise.resolve(null)
+    return loadPromise
+  }
+  loadPromise = keyboard.getLayoutMap()
+    .then(map => {
+      const labels = new Map<string, string>()
+      map.forEach((label, code) => labels.set(code.toLowerCase(), label))
+      layoutLabels = labels
+      return labels
+    })
+    .catch(() => null)
+  return loadPromise
+}
+
+/**
+ * Get the label for a physical key code on the current layout.
+ * Accepts any casing (`KeyZ`, `keyz`). Falls back to the US label, then to the
+ * code itself with `Key`/`Digit`/`Numpad` stripped (e.g. `arrowleft`, `f5`).
+ *
+ * @example
+ * physicalKeyLabel('KeyZ')        // 'z' (US), 'y' (QWERTZ), 'w' (AZERTY)
+ * physicalKeyLabel('bracketleft') // '[' (US), 'ü' (QWERTZ)
+ */
+export function physicalKeyLabel(code: string): string {
+  const lower = code.toLowerCase()
+  const label = layoutLabels?.get(lower)
+  if (label) return label.toLowerCase()
+  if (/^key[a-z]$/.test(lower)) return lower.slice(3)
+  if (/^(digit|numpad)[0-9]$/.test(lower)) return lower.slice(-1)
+  if (lower in US_CODE_LABELS) return US_CODE_LABELS[lower]
+  return lower
+}
@@ -0,0 +1,341 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MAX_REPEAT_COUNT } from './constants'
+import { createHotkeyMatcher } from './matcher'
+
+interface KeyInit {
+  code?: string
+  ctrlKey?: boolean
+  altKey?: boolean
+  shiftKey?: boolean
+  metaKey?: boolean
+  repeat?: boolean
+}
+
+/**
+ * A minimal stand-in for a DOM KeyboardEvent (the matcher only reads these fields)
+ */
+function keyEvent(key: string, init: KeyInit = {}): KeyboardEvent {
+  return {
+    key,
+    code: init.code ?? '',
+    ctrlKey: init.ctrlKey ?? false,
+    altKey: init.altKey ?? false,
+    shiftKey: init.shiftKey ?? false,
+    metaKey: init.metaKey ?? false,
+    repeat: init.repeat ?? false,
+    target: null,
+    preventDefault: () => {},
+    stopPropagation: () => {},
+  } as unknown as KeyboardEvent
+}
+
+/**
+ * Press (and release) each space-separated key
+ */
+function type(matcher: ReturnType<typeof createHotkeyMatcher>, keys: string) {
+  for (const key of keys.split(' ')) {
+    const e = keyEvent(key)
+    matcher.handleKeyDown(e)
+    matcher.handleKeyUp(e)
+  }
+}
+
+describe('createHotkeyMatcher', () => {
+  it('runs the handler of a single-key binding', () => {
+    const matcher = createHotkeyMatcher()
+    const save = vi.fn()
+    matcher.update({ 'ctrl+s': 'save' }, { save })
+    matcher.handleKeyDown(keyEvent('s', { ctrlKey: true }))
+    expect(save).toHaveBeenCalledTimes(1)
+    matcher.handleKeyDown(keyEvent('s'))
+    expect(save).toHaveBeenCalledTimes(1)
+  })
+
+  it('runs the first action with a handler', () => {
+    const matcher = createHotkeyMatcher()
+    const b = vi.fn()
+    matcher.update({ x: ['a', 'b'] }, { b })
+    type(matcher, 'x')
+    expect(b).toHaveBeenCalledTimes(1)
+  })
+
+  describe('symbols', () => {
+    it('ignores the Shift that a layout needs to type a symbol', () => {
+      const matcher = createHotkeyMatcher()
+      const search = vi.fn()
+      const help = vi.fn()
+      matcher.update({ '/': 'search', '?': 'help' }, { search, help })
+      // QWERTZ: `/` is Shift+7
+      matcher.handleKeyDown(keyEvent('/', { code: 'Digit7', shiftKey: true }))
+      expect(search).toHaveBeenCalledTimes(1)
+      // US: `?` is Shift+/
+      matcher.handleKeyDown(keyEvent('?', { code: 'Slash', shiftKey: true }))
+      expect(help).toHaveBeenCalledTimes(1)
+    })
+
+    it('ignores AltGr (Ctrl+Alt, or Option on macOS) typing a symbol', () => {
+      const matcher = createHotkeyMatcher()
+      const prev = vi.fn()
+      matcher.update({ '[': 'prev' }, { prev })
+      matcher.handleKeyDown(keyEvent('[', { code: 'Digit8', ctrlKey: true, altKey: true }))
+      matcher.handleKeyDown(keyEvent('[', { code: 'Digit5', altKey: true }))
+      expect(prev).toHaveBeenCalledTimes(2)
+      matcher.handleKeyDown(keyEvent('[', { code: 'BracketLeft', ctrlKey: true }))
+      expect(prev).toHaveBeenCalledTimes(2)
+    })
+
+    it('matches modifiers a binding includes exactly', () => {
+      const matcher = createHotkeyMatcher()
+      const comment = vi.fn()
+      matcher.update({ 'ctrl+/': 'comment', 'shift+code:slash': 'comment' }, { comment })
+      matcher.handleKeyDown(keyEvent('/', { code: 'Slash' }))
+      expect(comment).not.toHaveBeenCalled()
+      matcher.handleKeyDown(keyEvent('/', { code: 'Slash', ctrlKey: true }))
+      expect(comment).toHaveBeenCalledTimes(1)
+      matcher.handleKeyDown(keyEvent('?', { code: 'Slash', shiftKey: true }))
+      expect(comment).toHaveBeenCalledTimes(2)
+    })
+
+    it('still matches Shift exactly for letters', () => {
+      const matcher = createHotkeyMatcher()
+      const top = vi.fn()
+      matcher.update({ G: 'top' }, { top })
+      matcher.handleKeyDown(keyEvent('g'))
+      expect(top).not.toHaveBeenCalled()
+      matcher.handleKeyDown(keyEvent('G', { shiftKey: true }))
+      expect(top).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('sequences', () => {
+    it('waits for the rest of a sequence, then runs it', () => {
+      const matcher = createHotkeyMatcher()
+      const inbox = vi.fn()
+      matcher.update({ 'g i': 'inbox' }, { inbox })
+      type(matcher, 'g')
+      expect(inbox).not.toHaveBeenCalled()
+      expect(matcher.getState()).toMatchObject({ isAwaitingSequence: true })
+      expect(matcher.getState().pendingKeys.map(combo => combo.key)).toEqual(['g'])
+      type(matcher, 'i')
+      expect(inbox).toHaveBeenCalledTimes(1)
+      expect(matcher.getState()).toMatchObject({ pendingKeys: [], isAwaitingSequence: false })
+    })
+
+    it('cancels a sequence on Escape', () => {
+      const matcher = createHotkeyMatcher()
+      const inbox = vi.fn()
+      const onSequenceCancel = vi.fn()
+      matcher.update({ 'g i': 'inbox' }, { inbox }, { onSequenceCancel })
+      type(matcher, 'g Escape i')
+      expect(onSequenceCancel).toHaveBeenCalledTimes(1)
+      expect(inbox).not.toHaveBeenCalled()
+    })
+
+    it('cancels a sequence when it times out', () => {
+      vi.useFakeTimers()
+      try {
+        const matcher = createHotkeyMatcher()
+        const inbox = vi.fn()
+        const onSequenceCancel = vi.fn()
+        matcher.update({ 'g i': 'inbox' }, { inbox }, { sequenceTimeout: 500, onSequenceCancel })
+        type(matcher, 'g')
+        vi.advanceTimersByTime(500)
+        expect(onSequenceCancel).toHaveBeenCalledTimes(1)
+        expect(matcher.getState().isAwaitingSequence).toBe(false)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('captures', () => {
+    it('captures a single digit', () => {
+      const matcher = createHotkeyMatcher()
+      const tab = vi.fn()
+      matcher.update({ 'g \\d': 'tab' }, { tab })
+      type(matcher, 'g 3')
+      expect(tab).toHaveBeenCalledWith(expect.anything(), [3])
+    })
+
+    it('captures a multi-digit number, ended by the next key', () => {
+      const matcher = createHotkeyMatcher()
+      const down = vi.fn()
+      matcher.update({ '\\d+ j': 'down' }, { down })
+      type(matcher, '1 2 j')
+      expect(down).toHaveBeenCalledWith(expect.anything(), [12])
+    })
+
+    it('submits a trailing number on Enter', () => {
+      const matcher = createHotkeyMatcher()
+      const height = vi.fn()
+      matcher.update({ 'h \\d+': 'height' }, { height })
+      type(matcher, 'h 4 2')
+      expect(height).not.toHaveBeenCalled()
+      type(matcher, 'Enter')
+      expect(height).toHaveBeenCalledWith(expect.anything(), [42])
+    })
+
+    it('edits a number being typed with Backspace', () => {
+      const matcher = createHotkeyMatcher()
+      const height = vi.fn()
+      matcher.update({ 'h \\d+': 'height' }, { height })
+      type(matcher, 'h 1 2 Backspace 5 Enter')
+      expect(height).toHaveBeenCalledWith(expect.anything(), [15])
+    })
+
+    it('captures a float', () => {
+      const matcher = createHotkeyMatcher()
+      const zoom = vi.fn()
+      matcher.update({ 'z \\f': 'zoom' }, { zoom })
+      type(matcher, 'z 1 . 5 Enter')
+      expect(zoom).toHaveBeenCalledWith(expect.anything(), [1.5])
+    })
+  })
+
+  describe('chords', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('runs a chord when its keys are pressed together', () => {
+      const matcher = createHotkeyMatcher()
+      const escape = vi.fn()
+      const down = vi.fn()
+      matcher.update({ 'j&k': 'escape', j: 'down' }, { escape, down })
+      matcher.handleKeyDown(keyEvent('j'))
+      matcher.handleKeyDown(keyEvent('k'))
+      expect(escape).toHaveBeenCalledTimes(1)
+      expect(down).not.toHaveBeenCalled()
+    })
+
+    it('matches a held-back key on its own once the chord window passes', () => {
+      const matcher = createHotkeyMatcher()
+      const escape = vi.fn()
+      const down = vi.fn()
+      matcher.update({ 'j&k': 'escape', j: 'down' }, { escape, down }, { chordTimeout: 100 })
+      matcher.handleKeyDown(keyEvent('j'))
+      expect(down).not.toHaveBeenCalled()
+      vi.advanceTimersByTime(100)
+      expect(down).toHaveBeenCalledTimes(1)
+      matcher.handleKeyDown(keyEvent('k'))
+      vi.advanceTimersByTime(100)
+      expect(escape).not.toHaveBeenCalled()
+    })
+
+    it('matches a held-back key on its own when it is released', () => {
+      const matcher = createHotkeyMatcher()
+      const escape = vi.fn()
+      const down = vi.fn()
+      matcher.update({ 'j&k': 'escape', j: 'down' }, { escape, down })
+      const j = keyEvent('j')
+      matcher.handleKeyDown(j)
+      matcher.handleKeyUp(j)
+      expect(down).toHaveBeenCalledTimes(1)
+    })
+
+    it('matches chords within sequences', () => {
+      const matcher = createHotkeyMatcher()
+      const jump = vi.fn()
+      matcher.update({ 'g j&k': 'jump' }, { jump })
+      type(matcher, 'g')
+      matcher.handleKeyDown(keyEvent('k'))
+      matcher.handleKeyDown(keyEvent('j'))
+      expect(jump).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('count prefix', () => {
+    it('passes a count to the handler', () => {
+      const matcher = createHotkeyMatcher()
+      const down = vi.fn()
+      matcher.update({ j: 'down' }, { down }, { countPrefix: true })
+      type(matcher, '5 j')
+      expect(down).toHaveBeenCalledTimes(1)
+      expect(down).toHaveBeenCalledWith(expect.anything(), [5])
+      expect(matcher.getState().count).toBeNull()
+    })
+
+    it('appends the count after the binding\'s own captures', () => {
+      const matcher = createHotkeyMatcher()
+      const height = vi.fn()
+      matcher.update({ 'h \\d+': 'height' }, { height }, { countPrefix: true })
+      type(matcher, '2 3 h 4 Enter')
+      expect(height).toHaveBeenCalledWith(expect.anything(), [4, 23])
+    })
+
+    it('runs repeatable actions count times', () => {
+      const matcher = createHotkeyMatcher()
+      const down = vi.fn()
+      matcher.update({ j: 'down' }, { down }, { countPrefix: true, repeatable: { down: true } })
+      type(matcher, '1 2 j')
+      expect(down).toHaveBeenCalledTimes(12)
+    })
+
+    it('caps how many times a count repeats an action', () => {
+      const matcher = createHotkeyMatcher()
+      const down = vi.fn()
+      matcher.update({ j: 'down' }, { down }, { countPrefix: true, repeatable: { down: true } })
+      type(matcher, '9 9 9 9 9 j')
+      expect(down).toHaveBeenCalledTimes(MAX_REPEAT_COUNT)
+    })
+
+    it('leaves bindings that match the digits themselves alone', () => {
+      const matcher = createHotkeyMatcher()
+      const first = vi.fn()
+      matcher.update({ 1: 'first' }, { first }, { countPrefix: true })
+      type(matcher, '1')
+      expect(first).toHaveBeenCalledTimes(1)
+      expect(matcher.getState().count).toBeNull()
+    })
+  })
+
+  describe('<leader>', () => {
+    it('stands for space by default', () => {
+      const matcher = createHotkeyMatcher()
+      const find = vi.fn()
+      matcher.update({ '<leader> f': 'find' }, { find })
+      matcher.handleKeyDown(keyEvent(' ', { code: 'Space' }))
+      type(matcher, 'f')
+      expect(find).toHaveBeenCalledTimes(1)
+    })
+
+    it('stands for the configured leader', () => {
+      const matcher = createHotkeyMatcher()
+      const find = vi.fn()
+      matcher.update({ '<leader> f': 'find' }, { find }, { leader: ',' })
+      type(matcher, ', f')
+      expect(find).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('triggers', () => {
+    it('runs `release` actions on key-up', () => {
+      const matcher = createHotkeyMatcher()
+      const peek = vi.fn()
+      matcher.update({ p: 'peek' }, { peek }, { triggers: { peek: 'release' } })
+      const p = keyEvent('p', { code: 'KeyP' })
+      matcher.handleKeyDown(p)
+      expect(peek).not.toHaveBeenCalled()
+      matcher.handleKeyUp(p)
+      expect(peek).toHaveBeenCalledTimes(1)
+    })
+
+    it('ends `hold` actions on key-up', () => {
+      const matcher = createHotkeyMatcher()
+      const peek = vi.fn()
+      const peekEnd = vi.fn()
+      matcher.update({ p: 'peek' }, { peek }, { triggers: { peek: 'hold' }, endHandlers: { peek: peekEnd } })
+      const p = keyEvent('p', { code: 'KeyP' })
+      matcher.handleKeyDown(p)
+      matcher.handleKeyDown(keyEvent('p', { code: 'KeyP', repeat: true }))
+      expect(peek).toHaveBeenCalledTimes(1)
+      expect(peekEnd).not.toHaveBeenCalled()
+      matcher.handleKeyUp(p)
+      expect(peekEnd).toHaveBeenCalledTimes(1)
+    })
+  })
+})
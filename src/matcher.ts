@@ -0,0 +1,1111 @@
+import { DEFAULT_CHORD_TIMEOUT, DEFAULT_SEQUENCE_TIMEOUT, MAX_REPEAT_COUNT } from './constants'
+import { dbg } from './debug'
+import {
+  chordKey,
+  chordKeys,
+  comboMatchesKey,
+  isChordKey,
+  isModifierKey,
+  isModifierName,
+  isPhysicalKey,
+  isLayoutSymbol,
+  normalizeKey,
+  parseHotkeyString,
+  parseKeySeq,
+} from './utils'
+import type { ActionArgs, ActionTrigger, KeyCombination, HotkeySequence, KeySeq, Modifiers, SeqElem, SeqElemState, SeqMatchState } from './types'
+
+/**
+ * Hotkey definition - maps key combinations/sequences to action names
+ */
+export type HotkeyMap = Record<string, string | string[]>
+
+/**
+ * Handler function type - can optionally receive captured values
+ * (and, when run from the omnibar, the action's `params` values)
+ */
+export type HotkeyHandler = (e: KeyboardEvent, captures?: number[], args?: ActionArgs) => void
+
+/**
+ * Handler map - maps action names to handler functions
+ */
+export type HandlerMap = Record<string, HotkeyHandler>
+
+export interface HotkeyMatcherOptions {
+  /** Prevent default on matched hotkeys (default: true) */
+  preventDefault?: boolean
+  /** Stop propagation on matched hotkeys (default: true) */
+  stopPropagation?: boolean
+  /** Enable hotkeys even when focused on input/textarea/select (default: false) */
+  enableOnFormTags?: boolean
+  /** Timeout in ms for sequences (default: Infinity, no timeout) */
+  sequenceTimeout?: number
+  /** What happens on timeout: 'submit' executes current sequence, 'cancel' resets (default: 'submit') */
+  onTimeout?: 'submit' | 'cancel'
+  /** Called when sequence input starts */
+  onSequenceStart?: (keys: HotkeySequence) => void
+  /** Called when sequence progresses (new key added) */
+  onSequenceProgress?: (keys: HotkeySequence) => void
+  /** Called when sequence is cancelled (timeout with 'cancel' mode, or no match) */
+  onSequenceCancel?: () => void
+  /** When each action's handler fires relative to key presses (default: 'press') */
+  triggers?: Record<string, ActionTrigger>
+  /** Called when a `hold`/`{ holdFor }` action ends: its key is released, or the window loses focus.
+   * Receives no event in the latter case. */
+  endHandlers?: Record<string, (e?: KeyboardEvent, captures?: number[]) => void>
+  /** Vim-style counts: a number typed before any binding (e.g. `5j`) is appended to its handler's
+   * captures, or, for `repeatable` actions, runs the handler that many times (default: false).
+   * Bindings that themselves match the digits (`1`, `\d+ j`) take precedence. */
+  countPrefix?: boolean
+  /** Actions that a count prefix runs repeatedly, instead of passing the count as a capture */
+  repeatable?: Record<string, boolean>
+  /** Key that `<leader>` in bindings stands for (default: `space`) */
+  leader?: string
+  /** Window in ms for pressing the keys of a chord (`j&k`) together (default: 50). A key that could
+   * start a chord is held back this long, then matched on its own if the rest of the chord doesn't follow. */
+  chordTimeout?: number
+}
+
+export interface HotkeyMatcherState {
+  /** Keys pressed so far in current sequence */
+  pendingKeys: HotkeySequence
+  /** Whether currently awaiting more keys in a sequence */
+  isAwaitingSequence: boolean
+  /** When the current sequence timeout started (null if not awaiting) */
+  timeoutStartedAt: number | null
+  /** Count typed before the current binding (with `countPrefix`; null if none) */
+  count: number | null
+}
+
+/**
+ * Sequence-matching state machine, independent of any UI framework: feed it key events,
+ * and it runs the handlers of the actions they complete.
+ */
+export interface HotkeyMatcher {
+  /** Set the keymap, handlers and options to match with (cheap; may be called on every render) */
+  update: (keymap: HotkeyMap, handlers: HandlerMap, options?: HotkeyMatcherOptions) => void
+  /** Process a key-down event */
+  handleKeyDown: (e: KeyboardEvent) => void
+  /** Process a key-up event (ends `release`/`hold` triggers) */
+  handleKeyUp: (e: KeyboardEvent) => void
+  /** End all holds, e.g. when the window loses focus */
+  endAllHolds: () => void
+  /** Cancel the current sequence */
+  cancelSequence: () => void
+  /** End holds, drop any keys held back for a chord, and clear the pending sequence timeout
+   * (e.g. when detaching); pending keys are kept */
+  suspend: () => void
+  /** Current sequence state */
+  getState: () => HotkeyMatcherState
+  /** Listen for sequence state changes. Returns an unsubscribe function. */
+  subscribe: (listener: () => void) => () => void
+}
+
+/**
+ * Run an action completed after a count prefix (`5 j`): a `repeatable` action runs `count` times
+ * (at most `MAX_REPEAT_COUNT`), others get the count as their last capture, after the binding's own.
+ * With no count, it runs once with the binding's captures.
+ */
+export function runWithCount(
+  run: (captures?: number[]) => void,
+  count: number | null,
+  repeatable: boolean | undefined,
+  captures?: number[],
+): void {
+  if (count === null) {
+    run(captures)
+  } else if (repeatable) {
+    for (let i = 0; i < Math.min(count, MAX_REPEAT_COUNT); i++) run(captures)
+  } else {
+    run([...captures ?? [], count])
+  }
+}
+
+/**
+ * Create a KeyCombination from a KeyboardEvent
+ */
+function eventToCombination(e: KeyboardEvent): KeyCombination {
+  return {
+    key: normalizeKey(e.key),
+    code: e.code || undefined,
+    modifiers: {
+      ctrl: e.ctrlKey,
+      alt: e.altKey,
+      shift: e.shiftKey,
+      meta: e.metaKey,
+    },
+  }
+}
+
+/**
+ * An action waiting on its key's release: a `release` trigger, or a (pending or started) hold
+ */
+interface HeldAction {
+  action: string
+  trigger: ActionTrigger
+  captures?: number[]
+  /** Whether the handler has run (hold started) */
+  started: boolean
+  /** Pending `holdFor` timer */
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Identify the physical key of an event, for pairing key-downs with key-ups
+ * (`e.key` can change in between, e.g. when Shift is released first)
+ */
+function heldKeyId(e: KeyboardEvent): string {
+  return e.code || normalizeKey(e.key)
+}
+
+/**
+ * Check if a pending sequence matches the start of a hotkey sequence
+ */
+function isPartialMatch(pending: HotkeySequence, target: HotkeySequence): boolean {
+  if (pending.length >= target.length) return false
+  for (let i = 0; i < pending.length; i++) {
+    if (!combinationsMatch(pending[i], target[i])) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Check if a key press's modifiers match a binding's. Symbols (like `?`, `/`, `[`) may need Shift or
+ * AltGr (Ctrl+Alt on Windows, Option on macOS) to type, depending on the layout, so those are ignored
+ * unless the binding includes them (physical-key bindings always match modifiers exactly).
+ */
+function modifiersMatch(event: KeyCombination, key: string, modifiers: Modifiers): boolean {
+  if (event.modifiers.meta !== modifiers.meta) return false
+  if (!isLayoutSymbol(event.key) || isPhysicalKey(key)) {
+    return (
+      event.modifiers.ctrl === modifiers.ctrl &&
+      event.modifiers.alt === modifiers.alt &&
+      event.modifiers.shift === modifiers.shift
+    )
+  }
+  const shiftMatches = modifiers.shift ? event.modifiers.shift : true
+  const altGr = event.modifiers.alt && !modifiers.alt && !modifiers.ctrl
+  return shiftMatches && (altGr || (event.modifiers.ctrl === modifiers.ctrl && event.modifiers.alt === modifiers.alt))
+}
+
+/**
+ * Check if two key combinations match (handles layout-dependent symbols, and physical keys)
+ */
+function combinationsMatch(event: KeyCombination, target: KeyCombination): boolean {
+  return modifiersMatch(event, target.key, target.modifiers) && comboMatchesKey(event, target.key)
+}
+
+/**
+ * Check if a chord pattern's modifiers are exactly those pressed
+ */
+function modifiersEqual(a: KeyCombination['modifiers'], b: KeyCombination['modifiers']): boolean {
+  return a.ctrl === b.ctrl && a.alt === b.alt && a.shift === b.shift && a.meta === b.meta
+}
+
+/**
+ * Check if two sequences are exactly equal
+ */
+function sequencesMatch(a: HotkeySequence, b: HotkeySequence): boolean {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    if (!combinationsMatch(a[i], b[i])) {
+      return false
+    }
+  }
+  return true
+}
+
+// ============================================================================
+// New KeySeq Matching (with digit placeholder support)
+// ============================================================================
+
+/**
+ * Check if a key is a digit (0-9)
+ */
+function isDigit(key: string): boolean {
+  return /^[0-9]$/.test(key)
+}
+
+/**
+ * Check if a key is a float character (digit or dot)
+ */
+function isFloatChar(key: string): boolean {
+  return /^[0-9.]$/.test(key)
+}
+
+/**
+ * Check if a key press can extend a count prefix (a leading `0` isn't a count, as in vim)
+ */
+function isCountKey(combo: KeyCombination, count: number | null): boolean {
+  const { ctrl, alt, meta } = combo.modifiers
+  return isDigit(combo.key) && !ctrl && !alt && !meta && (count !== null || combo.key !== '0')
+}
+
+/**
+ * Initialize match state from a KeySeq pattern
+ */
+function initMatchState(seq: KeySeq): SeqMatchState {
+  return seq.map((elem): SeqElemState => {
+    if (elem.type === 'digit') return { type: 'digit' }
+    if (elem.type === 'digits') return { type: 'digits' }
+    if (elem.type === 'float') return { type: 'float' }
+    return { type: 'key', key: elem.key, modifiers: elem.modifiers }
+  })
+}
+
+/**
+ * Check if a KeyCombination matches a SeqElem (for 'key' type)
+ */
+function matchesKeyElem(combo: KeyCombination, elem: SeqElem & { type: 'key' }): boolean {
+  return modifiersMatch(combo, elem.key, elem.modifiers) && comboMatchesKey(combo, elem.key)
+}
+
+/**
+ * Result of advancing a match state with a key press
+ */
+type AdvanceResult =
+  | { status: 'matched'; state: SeqMatchState; captures: number[] }
+  | { status: 'partial'; state: SeqMatchState }
+  | { status: 'failed' }
+
+/**
+ * Advance a match state with a key press.
+ * Returns the new state (partial match), captures (complete match), or null (no match).
+ */
+function advanceMatchState(
+  state: SeqMatchState,
+  pattern: KeySeq,
+  combo: KeyCombination,
+): AdvanceResult {
+  // Create mutable state copy
+  const newState: SeqMatchState = [...state]
+
+  // Find current position in match
+  let pos = 0
+  for (let i = 0; i < state.length; i++) {
+    const elem = state[i]
+    if (elem.type === 'key' && !elem.matched) break
+    if (elem.type === 'digit' && elem.value === undefined) break
+    if (elem.type === 'digits' && elem.value === undefined) {
+      // digits can still be in-progress (partial)
+      if (!elem.partial) break
+      // Check if current key is a digit (continue) or not (finalize)
+      if (isDigit(combo.key)) {
+        // Accumulate digit
+        const newPartial = (elem.partial || '') + combo.key
+        newState[i] = { type: 'digits', partial: newPartial }
+        // Still at same position, return partial
+        return { status: 'partial', state: newState }
+      } else {
+        // Non-digit key: finalize the digits value and try to match next element
+        const digitValue = parseInt(elem.partial, 10)
+        newState[i] = { type: 'digits', value: digitValue }
+        // Continue to next element with this key
+        pos = i + 1
+
+        // If this was the last element, the key doesn't match anything.
+        // Return failed - Enter will handle execution separately.
+        if (pos >= pattern.length) {
+          return { status: 'failed' }
+        }
+        break
+      }
+    }
+    if (elem.type === 'float' && elem.value === undefined) {
+      // float can still be in-progress (partial)
+      if (!elem.partial) break
+      // Check if current key is a float char (continue) or not (finalize)
+      if (isFloatChar(combo.key)) {
+        const newPartial = (elem.partial || '') + combo.key
+        // Reject double dots
+        if (combo.key === '.' && elem.partial.includes('.')) {
+          // Second dot: finalize current float, try to match next element
+          const floatVal = parseFloat(elem.partial)
+          if (isNaN(floatVal)) {
+            return { status: 'failed' }
+          }
+          newState[i] = { type: 'float', value: floatVal }
+          pos = i + 1
+          if (pos >= pattern.length) {
+            return { status: 'failed' }
+          }
+          break
+        }
+        newState[i] = { type: 'float', partial: newPartial }
+        return { status: 'partial', state: newState }
+      } else {
+        // Non-float key: finalize the float value and try to match next element
+        const floatVal = parseFloat(elem.partial)
+        if (isNaN(floatVal)) {
+          return { status: 'failed' }
+        }
+        newState[i] = { type: 'float', value: floatVal }
+        pos = i + 1
+        if (pos >= pattern.length) {
+          return { status: 'failed' }
+        }
+        break
+      }
+    }
+    pos++
+  }
+
+  if (pos >= pattern.length) {
+    // Already fully matched
+    return { status: 'failed' }
+  }
+
+  const currentPattern = pattern[pos]
+
+  if (currentPattern.type === 'digit') {
+    // Match single digit
+    if (!isDigit(combo.key) || combo.modifiers.ctrl || combo.modifiers.alt || combo.modifiers.meta) {
+      return { status: 'failed' }
+    }
+    newState[pos] = { type: 'digit', value: parseInt(combo.key, 10) }
+  } else if (currentPattern.type === 'digits') {
+    // Start or continue digits match
+    if (!isDigit(combo.key) || combo.modifiers.ctrl || combo.modifiers.alt || combo.modifiers.meta) {
+      return { status: 'failed' }
+    }
+    newState[pos] = { type: 'digits', partial: combo.key }
+  } else if (currentPattern.type === 'float') {
+    // Start float match (must start with a digit or dot)
+    if (!isFloatChar(combo.key) || combo.modifiers.ctrl || combo.modifiers.alt || combo.modifiers.meta) {
+      return { status: 'failed' }
+    }
+    newState[pos] = { type: 'float', partial: combo.key }
+  } else {
+    // Match key
+    if (!matchesKeyElem(combo, currentPattern)) {
+      return { status: 'failed' }
+    }
+    newState[pos] = { type: 'key', key: currentPattern.key, modifiers: currentPattern.modifiers, matched: true }
+  }
+
+  // Check if fully matched
+  const isComplete = newState.every((elem) => {
+    if (elem.type === 'key') return elem.matched === true
+    if (elem.type === 'digit') return elem.value !== undefined
+    if (elem.type === 'digits') return elem.value !== undefined
+    if (elem.type === 'float') return elem.value !== undefined
+    return false
+  })
+
+  if (isComplete) {
+    const captures = newState
+      .filter((e): e is { type: 'digit'; value: number } | { type: 'digits'; value: number } | { type: 'float'; value: number } =>
+        (e.type === 'digit' || e.type === 'digits' || e.type === 'float') && e.value !== undefined
+      )
+      .map(e => e.value)
+    return { status: 'matched', state: newState, captures }
+  }
+
+  return { status: 'partial', state: newState }
+}
+
+/**
+ * Check if a SeqMatchState is in the middle of collecting digits
+ */
+function isCollectingDigits(state: SeqMatchState): boolean {
+  return state.some(elem =>
+    (elem.type === 'digits' && elem.partial !== undefined && elem.value === undefined) ||
+    (elem.type === 'float' && elem.partial !== undefined && elem.value === undefined)
+  )
+}
+
+/**
+ * Finalize any in-progress digits collection in state
+ */
+function finalizeDigits(state: SeqMatchState): SeqMatchState {
+  return state.map(elem => {
+    if (elem.type === 'digits' && elem.partial !== undefined && elem.value === undefined) {
+      return { type: 'digits', value: parseInt(elem.partial, 10) }
+    }
+    if (elem.type === 'float' && elem.partial !== undefined && elem.value === undefined) {
+      // Normalize: leading dot becomes "0.", reject trailing dot
+      let partial = elem.partial
+      if (partial.startsWith('.')) partial = '0' + partial
+      if (partial.endsWith('.')) partial = partial.slice(0, -1)
+      const val = parseFloat(partial)
+      if (isNaN(val)) return elem
+      return { type: 'float', value: val }
+    }
+    return elem
+  })
+}
+
+/**
+ * Extract captures from a match state
+ */
+function extractMatchCaptures(state: SeqMatchState): number[] {
+  return state
+    .filter((e): e is { type: 'digit'; value: number } | { type: 'digits'; value: number } | { type: 'float'; value: number } =>
+      (e.type === 'digit' || e.type === 'digits' || e.type === 'float') && e.value !== undefined
+    )
+    .map(e => e.value)
+}
+
+/**
+ * Whether an event target is a text-like form element (where typing shouldn't trigger hotkeys)
+ */
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  if (typeof HTMLElement === 'undefined' || !(target instanceof HTMLElement)) return false
+  // Check if it's a text-like input (not checkbox, radio, button, etc.)
+  const isTextInput = target instanceof HTMLInputElement &&
+    ['text', 'email', 'password', 'search', 'tel', 'url', 'number', 'date', 'datetime-local', 'month', 'time', 'week'].includes(target.type)
+  return (
+    isTextInput ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    target.isContentEditable
+  )
+}
+
+/**
+ * Whether every element of a match state is complete
+ */
+function isMatchComplete(state: SeqMatchState): boolean {
+  return state.every((elem) => {
+    if (elem.type === 'key') return elem.matched === true
+    if (elem.type === 'digit') return elem.value !== undefined
+    if (elem.type === 'digits') return elem.value !== undefined
+    if (elem.type === 'float') return elem.value !== undefined
+    return false
+  })
+}
+
+/**
+ * Create a hotkey matcher. Attach it to the DOM with `attachHotkeys`, or feed it events directly
+ * (e.g. in tests).
+ *
+ * @example
+ * ```ts
+ * const matcher = createHotkeyMatcher()
+ * matcher.update({ 'g i': 'inbox' }, { inbox: () => navigate('/inbox') })
+ * const detach = attachHotkeys(matcher)
+ * ```
+ */
+export function createHotkeyMatcher(): HotkeyMatcher {
+  let keymap: HotkeyMap = {}
+  let handlers: HandlerMap = {}
+  let options: HotkeyMatcherOptions = {}
+
+  // Parsed keymap for matching (re-parsed when the keymap changes)
+  let parsedKeymap: Array<{
+    key: string
+    sequence: HotkeySequence
+    keySeq: KeySeq
+    actions: string[]
+  }> = []
+  // Chords (`j&k`) appearing anywhere in the keymap
+  let chordPatterns: KeyCombination[] = []
+
+  let state: HotkeyMatcherState = { pendingKeys: [], isAwaitingSequence: false, timeoutStartedAt: null, count: null }
+  const listeners = new Set<() => void>()
+  const setState = (update: Partial<HotkeyMatcherState>) => {
+    state = { ...state, ...update }
+    for (const listener of Array.from(listeners)) listener()
+  }
+
+  // Actions awaiting key-up (release triggers and holds), by physical key
+  const held = new Map<string, HeldAction>()
+
+  let timeout: ReturnType<typeof setTimeout> | null = null
+
+  // Track match states for patterns with digit placeholders
+  const matchStates = new Map<string, SeqMatchState>()
+
+  const clearSequenceTimeout = () => {
+    if (timeout) {
+      clearTimeout(timeout)
+      timeout = null
+    }
+  }
+
+  const clearPending = () => {
+    setState({ pendingKeys: [], isAwaitingSequence: false, timeoutStartedAt: null, count: null })
+    matchStates.clear()
+    clearSequenceTimeout()
+  }
+
+  const cancelSequence = () => {
+    clearPending()
+    options.onSequenceCancel?.()
+  }
+
+  // End whatever is waiting on a key: fire `release` triggers (if actually released)
+  // and end started holds
+  const endHold = (keyId: string, e: KeyboardEvent | undefined, released: boolean) => {
+    const action = held.get(keyId)
+    if (!action) return
+    held.delete(keyId)
+    if (action.timer) clearTimeout(action.timer)
+    if (action.trigger === 'release') {
+      if (released && e) {
+        dbg.hotkeys('release: %s', action.action)
+        handlers[action.action]?.(e, action.captures)
+      }
+    } else if (action.started) {
+      dbg.hotkeys('hold end: %s', action.action)
+      options.endHandlers?.[action.action]?.(e, action.captures)
+    }
+  }
+
+  const endAllHolds = () => {
+    for (const keyId of Array.from(held.keys())) {
+      endHold(keyId, undefined, false)
+    }
+  }
+
+  // Run a matched action's handler according to its trigger
+  const fireAction = (
+    action: string,
+    handler: HotkeyHandler,
+    e: KeyboardEvent,
+    captures?: number[],
+  ) => {
+    const trigger = options.triggers?.[action] ?? 'press'
+    if (trigger === 'press') {
+      handler(e, captures)
+      return
+    }
+    const keyId = heldKeyId(e)
+    endHold(keyId, e, false)
+    const heldAction: HeldAction = { action, trigger, captures, started: false }
+    if (trigger === 'hold') {
+      dbg.hotkeys('hold start: %s', action)
+      heldAction.started = true
+      handler(e, captures)
+    } else if (typeof trigger === 'object') {
+      heldAction.timer = setTimeout(() => {
+        dbg.hotkeys('hold start: %s (after %dms)', action, trigger.holdFor)
+        heldAction.timer = undefined
+        heldAction.started = true
+        handler(e, captures)
+      }, trigger.holdFor)
+    }
+    held.set(keyId, heldAction)
+  }
+
+  // Run the first handled action of a keymap entry (applying any count prefix)
+  const executeEntry = (actions: string[], e: KeyboardEvent, captures?: number[]): boolean => {
+    for (const action of actions) {
+      const handler = handlers[action]
+      if (handler) {
+        if (options.preventDefault ?? true) {
+          e.preventDefault()
+        }
+        if (options.stopPropagation ?? true) {
+          e.stopPropagation()
+        }
+        const { count } = state
+        const repeatable = options.repeatable?.[action] && (options.triggers?.[action] ?? 'press') === 'press'
+        if (count !== null) {
+          dbg.hotkeys('count: %s ×%d', action, count)
+          clearPending()
+        }
+        runWithCount(captures => fireAction(action, handler, e, captures), count, repeatable, captures)
+        return true
+      }
+    }
+    return false
+  }
+
+  // Enter (or extend) a count prefix, (re)starting the sequence timeout
+  const awaitCount = (count: number) => {
+    setState({ count, isAwaitingSequence: true })
+    const sequenceTimeout = options.sequenceTimeout ?? DEFAULT_SEQUENCE_TIMEOUT
+    if (Number.isFinite(sequenceTimeout)) {
+      setState({ timeoutStartedAt: Date.now() })
+      timeout = setTimeout(() => {
+        timeout = null
+        cancelSequence()
+      }, sequenceTimeout)
+    }
+  }
+
+  // Whether any binding can start with a key press (literally or via a digit placeholder)
+  const startsAnyBinding = (combo: KeyCombination): boolean =>
+    parsedKeymap.some(entry => advanceMatchState(initMatchState(entry.keySeq), entry.keySeq, combo).status !== 'failed')
+
+  // Try to execute a handler for the given sequence (with optional captures)
+  const tryExecute = (sequence: HotkeySequence, e: KeyboardEvent, captures?: number[]): boolean => {
+    for (const entry of parsedKeymap) {
+      if (sequencesMatch(sequence, entry.sequence) && executeEntry(entry.actions, e, captures)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  // Try to execute using KeySeq matching (with digit placeholders)
+  const tryExecuteKeySeq = (matchKey: string, captures: number[], e: KeyboardEvent): boolean => {
+    for (const entry of parsedKeymap) {
+      if (entry.key === matchKey && executeEntry(entry.actions, e, captures.length > 0 ? captures : undefined)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  // Check if sequence has any potential matches (partial or full)
+  const hasPotentialMatch = (sequence: HotkeySequence): boolean =>
+    parsedKeymap.some(entry => isPartialMatch(sequence, entry.sequence) || sequencesMatch(sequence, entry.sequence))
+
+  // Check if there are any sequences that start with current pending
+  const hasSequenceExtension = (sequence: HotkeySequence): boolean =>
+    parsedKeymap.some(entry => entry.sequence.length > sequence.length && isPartialMatch(sequence, entry.sequence))
+
+  // Enter sequence mode with `sequence` pending, (re)starting the timeout
+  const awaitSequence = (sequence: HotkeySequence, onExpire: () => void) => {
+    const starting = state.pendingKeys.length === 0
+    setState({ pendingKeys: sequence, isAwaitingSequence: true })
+    if (starting) {
+      options.onSequenceStart?.(sequence)
+    } else {
+      options.onSequenceProgress?.(sequence)
+    }
+    const sequenceTimeout = options.sequenceTimeout ?? DEFAULT_SEQUENCE_TIMEOUT
+    // Set timeout (unless Infinity - then user must explicitly cancel)
+    if (Number.isFinite(sequenceTimeout)) {
+      setState({ timeoutStartedAt: Date.now() })
+      timeout = setTimeout(() => {
+        timeout = null
+        onExpire()
+      }, sequenceTimeout)
+    }
+  }
+
+  // Match a key press (or, with `chord`, the keys of a chord pressed together)
+  const processKeyDown = (e: KeyboardEvent, chord?: KeyCombination) => {
+    const preventDefault = options.preventDefault ?? true
+    const pendingKeys = state.pendingKeys
+
+    // Auto-repeat of a key that's being held (or awaiting release)
+    if (e.repeat && held.has(heldKeyId(e))) {
+      if (preventDefault) e.preventDefault()
+      return
+    }
+
+    // Skip if focused on text-like form element (unless enabled)
+    if (!options.enableOnFormTags && isTextEntryTarget(e.target)) {
+      dbg.hotkeys('skip: form element focused (%s)', (e.target as HTMLElement).tagName)
+      return
+    }
+
+    // Skip modifier-only keypresses, except modifier-only bindings with
+    // a non-press trigger (e.g. hold `alt` to show a grid)
+    if (isModifierKey(e.key)) {
+      const combo = eventToCombination(e)
+      if (!e.repeat && pendingKeys.length === 0 && isModifierName(combo.key)) {
+        for (const entry of parsedKeymap) {
+          if (entry.sequence.length !== 1 || !combinationsMatch(combo, entry.sequence[0])) continue
+          for (const action of entry.actions) {
+            const handler = handlers[action]
+            if (handler && (options.triggers?.[action] ?? 'press') !== 'press') {
+              fireAction(action, handler, e)
+              return
+            }
+          }
+        }
+      }
+      dbg.hotkeys('skip: modifier-only key (%s)', e.key)
+      return
+    }
+
+    // Clear any existing timeout
+    clearSequenceTimeout()
+
+    // Enter key submits current sequence (handled by SequenceModal when visible)
+    // Note: SequenceModal captures Enter in capture phase and executes via executeAction
+    if (e.key === 'Enter' && pendingKeys.length > 0) {
+      dbg.hotkeys('Enter during sequence (%d pending keys)', pendingKeys.length)
+      e.preventDefault()
+
+      // Try to execute any complete or finalizable digit patterns from current match states
+      let executed = false
+      for (const [key, matchState] of matchStates.entries()) {
+        // Finalize any in-progress digits
+        const finalizedState = isCollectingDigits(matchState) ? finalizeDigits(matchState) : matchState
+        if (isMatchComplete(finalizedState)) {
+          const captures = extractMatchCaptures(finalizedState)
+          executed = tryExecuteKeySeq(key, captures, e)
+          if (executed) break
+        }
+      }
+
+      // Fall back to legacy matching
+      if (!executed) {
+        executed = tryExecute(pendingKeys, e)
+      }
+
+      clearPending()
+      if (!executed) {
+        options.onSequenceCancel?.()
+      }
+      return
+    }
+
+    // Escape cancels current sequence
+    if (e.key === 'Escape' && (pendingKeys.length > 0 || state.count !== null)) {
+      dbg.hotkeys('Escape: cancelling sequence')
+      e.preventDefault()
+      cancelSequence()
+      return
+    }
+
+    // Add current key to sequence
+    const currentCombo = chord ?? eventToCombination(e)
+
+    // Count prefix: digits no binding starts with (or continuing a count) accumulate into a count
+    if (options.countPrefix && pendingKeys.length === 0) {
+      const { count } = state
+      if (isCountKey(currentCombo, count) && (count !== null || !startsAnyBinding(currentCombo))) {
+        dbg.hotkeys('count: %d', (count ?? 0) * 10 + Number(currentCombo.key))
+        if (preventDefault) e.preventDefault()
+        awaitCount((count ?? 0) * 10 + Number(currentCombo.key))
+        return
+      }
+      if (e.key === 'Backspace' && count !== null) {
+        e.preventDefault()
+        if (count < 10) {
+          cancelSequence()
+        } else {
+          awaitCount(Math.floor(count / 10))
+        }
+        return
+      }
+    }
+
+    // Backspace during sequence: check if any binding matches backspace continuation
+    // If not, treat as "delete last key" for editing the sequence
+    if (e.key === 'Backspace' && pendingKeys.length > 0) {
+      dbg.hotkeys('Backspace during sequence (%d pending keys)', pendingKeys.length)
+      // Quick check: would backspace match any pattern continuation?
+      let backspaceMatches = false
+      for (const entry of parsedKeymap) {
+        const matchState = matchStates.get(entry.key) ?? initMatchState(entry.keySeq)
+        // If currently collecting digits, backspace should edit (not finalize and execute)
+        // This prevents `h \d+` from executing when typing `h 1 2 <backspace>`
+        if (isCollectingDigits(matchState)) {
+          continue
+        }
+        const result = advanceMatchState(matchState, entry.keySeq, currentCombo)
+        if (result.status === 'matched' || result.status === 'partial') {
+          backspaceMatches = true
+          break
+        }
+      }
+
+      if (!backspaceMatches) {
+        e.preventDefault()
+        const newPending = pendingKeys.slice(0, -1)
+        if (newPending.length === 0) {
+          clearPending()
+          options.onSequenceCancel?.()
+        } else {
+          setState({ pendingKeys: newPending })
+          // Replay remaining pending keys to reconstruct match states
+          matchStates.clear()
+          for (const combo of newPending) {
+            for (const entry of parsedKeymap) {
+              const matchState = matchStates.get(entry.key) ?? initMatchState(entry.keySeq)
+              const result = advanceMatchState(matchState, entry.keySeq, combo)
+              if (result.status === 'partial') {
+                matchStates.set(entry.key, result.state)
+              } else {
+                matchStates.delete(entry.key)
+              }
+            }
+          }
+        }
+        return
+      }
+    }
+
+    const newSequence = [...pendingKeys, currentCombo]
+
+    // Try KeySeq matching first (handles digit placeholders)
+    // Collect all matches (complete and partial) for permissive conflict resolution
+    const completeMatches: Array<{
+      key: string
+      state: SeqMatchState
+      captures: number[]
+    }> = []
+    let hasPartials = false
+
+    // Check if we have any partial matches in progress
+    const hadPartialMatches = matchStates.size > 0
+
+    for (const entry of parsedKeymap) {
+      // Get existing match state for this pattern
+      let matchState = matchStates.get(entry.key)
+
+      // If we have partial matches in progress, only check patterns with existing state
+      // This prevents a fresh "j" pattern from matching when we're trying to complete "\d+ j"
+      if (hadPartialMatches && !matchState) {
+        continue
+      }
+
+      if (!matchState) {
+        matchState = initMatchState(entry.keySeq)
+        matchStates.set(entry.key, matchState)
+      }
+
+      const result = advanceMatchState(matchState, entry.keySeq, currentCombo)
+
+      if (result.status === 'matched') {
+        // Complete match - collect it
+        completeMatches.push({
+          key: entry.key,
+          state: result.state,
+          captures: result.captures,
+        })
+        // Also mark as failed so we don't keep stale state
+        matchStates.delete(entry.key)
+      } else if (result.status === 'partial') {
+        // Update state and continue
+        matchStates.set(entry.key, result.state)
+        hasPartials = true
+      } else {
+        // Failed - reset this pattern's state
+        matchStates.delete(entry.key)
+      }
+    }
+
+    dbg.hotkeys('KeySeq results: %d complete, %d partial, key=%s', completeMatches.length, hasPartials ? matchStates.size : 0, normalizeKey(e.key))
+
+    // Permissive conflict resolution:
+    // - If exactly one complete match AND no partial matches → execute immediately
+    // - Otherwise → enter sequence mode for disambiguation via SeqM
+    if (completeMatches.length === 1 && !hasPartials) {
+      const match = completeMatches[0]
+      dbg.hotkeys('immediate execute: %s (captures: %o)', match.key, match.captures)
+      if (tryExecuteKeySeq(match.key, match.captures, e)) {
+        clearPending()
+        return
+      }
+    }
+
+    // Multiple complete matches OR partials exist → enter sequence mode
+    if (completeMatches.length > 0 || hasPartials) {
+      dbg.hotkeys('sequence mode: %d complete, %d partial pending', completeMatches.length, matchStates.size)
+      // We have partial matches, wait for more keys
+      // (digit sequences match on their terminating key, so a timeout just cancels)
+      awaitSequence(newSequence, cancelSequence)
+      if (preventDefault) {
+        e.preventDefault()
+      }
+      return
+    }
+
+    // Fall back to legacy exact matching for non-placeholder patterns
+    const exactMatch = tryExecute(newSequence, e)
+    if (exactMatch) {
+      dbg.hotkeys('legacy exact match for sequence of %d keys', newSequence.length)
+      clearPending()
+      return
+    }
+
+    // Check if this could be the start of a longer sequence (legacy)
+    if (hasPotentialMatch(newSequence) && hasSequenceExtension(newSequence)) {
+      dbg.hotkeys('partial sequence: waiting for more keys (%d so far)', newSequence.length)
+      // Wait for more keys. On timeout, we can't execute without the event (in 'submit' mode too),
+      // so just clear and call onSequenceCancel
+      awaitSequence(newSequence, () => {
+        const hadPending = state.pendingKeys.length > 0
+        setState({ pendingKeys: [], isAwaitingSequence: false, timeoutStartedAt: null, count: null })
+        if (hadPending || options.onTimeout === 'cancel') {
+          options.onSequenceCancel?.()
+        }
+      })
+      // Prevent default for potential sequence keys
+      if (preventDefault) {
+        e.preventDefault()
+      }
+      return
+    }
+
+    // Digits that started a binding but didn't complete one (e.g. `5 k` with only `\d+ j` bound):
+    // treat them as a count prefix, and match this key afresh
+    if (
+      options.countPrefix && state.count === null && pendingKeys.length > 0 &&
+      !isDigit(currentCombo.key) && pendingKeys.every((combo, i) => isCountKey(combo, i === 0 ? null : 0))
+    ) {
+      const count = Number(pendingKeys.map(combo => combo.key).join(''))
+      dbg.hotkeys('count: %d (from unmatched digits), retrying %s', count, normalizeKey(e.key))
+      clearPending()
+      setState({ count })
+      processKeyDown(e, chord)
+      return
+    }
+
+    // No match and no potential
+    if (pendingKeys.length > 0) {
+      dbg.hotkeys('no match: invalid key in sequence (%s)', normalizeKey(e.key))
+      // Already in sequence mode - keep modal open with invalid key showing
+      // "No matching shortcuts". User can backspace to fix or Escape to cancel.
+      setState({ pendingKeys: newSequence })
+      if (preventDefault) {
+        e.preventDefault()
+      }
+      return
+    }
+
+    // Try as single key (sequence of 1)
+    const singleMatch = tryExecute([currentCombo], e)
+    if (singleMatch) {
+      dbg.hotkeys('single key match: %s', normalizeKey(e.key))
+    } else if (hasSequenceExtension([currentCombo])) {
+      // Single key could start a sequence
+      dbg.hotkeys('sequence start: %s', normalizeKey(e.key))
+      awaitSequence([currentCombo], () => {
+        setState({ pendingKeys: [], isAwaitingSequence: false, timeoutStartedAt: null, count: null })
+        options.onSequenceCancel?.()
+      })
+      if (preventDefault) {
+        e.preventDefault()
+      }
+    } else if (state.count !== null) {
+      // A count followed by an unbound key
+      cancelSequence()
+    }
+  }
+
+  // Chords: a key that could start one is held back for `chordTimeout`, then matched together
+  // with the keys pressed alongside it if they form a chord, or on its own otherwise
+  let chordBuffer: KeyboardEvent[] = []
+  let chordTimer: ReturnType<typeof setTimeout> | null = null
+
+  const clearChordTimer = () => {
+    if (chordTimer) {
+      clearTimeout(chordTimer)
+      chordTimer = null
+    }
+  }
+
+  const resolveChord = () => {
+    clearChordTimer()
+    const events = chordBuffer
+    chordBuffer = []
+    if (events.length === 0) return
+    const last = events[events.length - 1]
+    const { modifiers } = eventToCombination(last)
+    const key = chordKey(events.map(ev => ev.key))
+    if (events.length > 1 && chordPatterns.some(p => p.key === key && modifiersEqual(p.modifiers, modifiers))) {
+      dbg.hotkeys('chord: %s', key)
+      processKeyDown(last, { key, modifiers })
+      return
+    }
+    for (const ev of events) processKeyDown(ev)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (
+      chordPatterns.length === 0 || e.repeat || isModifierKey(e.key) ||
+      (!options.enableOnFormTags && isTextEntryTarget(e.target))
+    ) {
+      resolveChord()
+      processKeyDown(e)
+      return
+    }
+
+    // Chords that the keys held back so far, plus this one, could be the start of
+    const { modifiers } = eventToCombination(e)
+    const keys = [...chordBuffer, e].map(ev => normalizeKey(ev.key))
+    const candidates = new Set(keys).size === keys.length
+      ? chordPatterns.filter(p => modifiersEqual(p.modifiers, modifiers) && keys.every(k => chordKeys(p.key).includes(k)))
+      : []
+    if (candidates.length === 0) {
+      if (chordBuffer.length === 0) {
+        processKeyDown(e)
+      } else {
+        // Not part of the buffered chord: match those keys first, then this one afresh
+        resolveChord()
+        handleKeyDown(e)
+      }
+      return
+    }
+
+    chordBuffer.push(e)
+    if (options.preventDefault ?? true) {
+      e.preventDefault()
+    }
+    clearChordTimer()
+    if (candidates.length === 1 && candidates[0].key === chordKey(keys)) {
+      resolveChord()
+    } else {
+      chordTimer = setTimeout(resolveChord, options.chordTimeout ?? DEFAULT_CHORD_TIMEOUT)
+    }
+  }
+
+  const handleKeyUp = (e: KeyboardEvent) => {
+    // Releasing a held-back key ends the chord window
+    if (chordBuffer.some(ev => heldKeyId(ev) === heldKeyId(e))) {
+      resolveChord()
+    }
+    const keyId = heldKeyId(e)
+    if (!held.has(keyId)) return
+    if (options.preventDefault ?? true) {
+      e.preventDefault()
+    }
+    endHold(keyId, e, true)
+  }
+
+  return {
+    update: (nextKeymap, nextHandlers, nextOptions = {}) => {
+      if (nextKeymap !== keymap || nextOptions.leader !== options.leader) {
+        parsedKeymap = Object.entries(nextKeymap).map(([key, actionOrActions]) => ({
+          key,
+          sequence: parseHotkeyString(key, nextOptions.leader),
+          keySeq: parseKeySeq(key, nextOptions.leader),
+          actions: Array.isArray(actionOrActions) ? actionOrActions : [actionOrActions],
+        }))
+        chordPatterns = parsedKeymap.flatMap(entry => entry.keySeq.flatMap(elem => (
+          elem.type === 'key' && isChordKey(elem.key) ? [{ key: elem.key, modifiers: elem.modifiers }] : []
+        )))
+      }
+      keymap = nextKeymap
+      handlers = nextHandlers
+      options = nextOptions
+    },
+    handleKeyDown,
+    handleKeyUp,
+    endAllHolds,
+    cancelSequence,
+    suspend: () => {
+      endAllHolds()
+      clearSequenceTimeout()
+      clearChordTimer()
+      chordBuffer = []
+    },
+    getState: () => state,
+    subscribe: listener => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+/**
+ * Feed a target's key events to a matcher (default target: window).
+ * Returns a function that detaches the listeners and suspends the matcher.
+ */
+export function attachHotkeys(matcher: HotkeyMatcher, target: HTMLElement | Window = window): () => void {
+  const { handleKeyDown, handleKeyUp, endAllHolds } = matcher
+  target.addEventListener('keydown', handleKeyDown as EventListener)
+  target.addEventListener('keyup', handleKeyUp as EventListener)
+  // Key-ups are never seen once the window loses focus; end holds so they can't get stuck
+  window.addEventListener('blur', endAllHolds)
+  return () => {
+    target.removeEventListener('keydown', handleKeyDown as EventListener)
+    target.removeEventListener('keyup', handleKeyUp as EventListener)
+    window.removeEventListener('blur', endAllHolds)
+    matcher.suspend()
+  }
+}
@@ -0,0 +1,116 @@
+import { dbg } from './debug'
+import type { BindingsData, BindingsMigrations, ModeCustomizations, UserMacro } from './types'
+
+/**
+ * Current data version of `migrations`: `version`, else the highest `transforms` version, else 0
+ */
+export function migrationVersion(migrations: BindingsMigrations): number {
+  return migrations.version ?? Math.max(0, ...Object.keys(migrations.transforms ?? {}).map(Number))
+}
+
+/**
+ * Migrate customizations saved at `fromVersion`: run newer `transforms` in order, then apply
+ * `renamed` and `removed` to every action ID referenced (including macro steps).
+ * Returns `data` itself (and unchanged fields as-is) when there is nothing to migrate.
+ */
+export function migrateBindings<T extends BindingsData>(data: T, migrations: BindingsMigrations, fromVersion: number): T {
+  const { renamed = {}, removed = [], transforms = {} } = migrations
+  const toVersion = migrationVersion(migrations)
+  let migrated = data
+  const versions = Object.keys(transforms).map(Number).filter(v => v > fromVersion && v <= toVersion).sort((a, b) => a - b)
+  for (const version of versions) {
+    dbg.registry('migrating bindings to v%d', version)
+    migrated = { ...migrated, ...transforms[version](migrated) }
+  }
+
+  if (Object.keys(renamed).length === 0 && removed.length === 0) return migrated
+
+  // Follow rename chains (a → b → c), guarding against cycles
+  const rename = (id: string): string => {
+    const seen = new Set<string>()
+    while (id in renamed && !seen.has(id)) {
+      seen.add(id)
+      id = renamed[id]
+    }
+    return id
+  }
+  const isAffected = (id: string) => id in renamed || removed.includes(id)
+  const migrateIds = (ids: string[]): string[] =>
+    Array.from(new Set(ids.map(rename))).filter(id => !removed.includes(id))
+
+  const { overrides, removedDefaults, modeCustomizations, macros } = migrated
+  const result = { ...migrated }
+
+  if (Object.values(overrides).some(v => (Array.isArray(v) ? v : [v]).some(isAffected))) {
+    result.overrides = {}
+    for (const [key, actionOrActions] of Object.entries(overrides)) {
+      const actions = migrateIds(Array.isArray(actionOrActions) ? actionOrActions : [actionOrActions])
+      if (actions.length > 0) result.overrides[key] = actions.length === 1 ? actions[0] : actions
+    }
+  }
+
+  if (Object.keys(removedDefaults).some(isAffected)) {
+    result.removedDefaults = {}
+    for (const [actionId, keys] of Object.entries(removedDefaults)) {
+      const id = rename(actionId)
+      if (removed.includes(id)) continue
+      const existing = result.removedDefaults[id] ?? []
+      result.removedDefaults[id] = [...existing, ...keys.filter(k => !existing.includes(k))]
+    }
+  }
+
+  if (modeCustomizations) {
+    const { additions, removals, userModes } = modeCustomizations
+    const lists = [...Object.values(additions), ...Object.values(removals), ...Object.values(userModes).map(m => m.actions)]
+    if (lists.some(ids => ids.some(isAffected))) {
+      const migrateLists = (byMode: Record<string, string[]>) =>
+        Object.fromEntries(Object.entries(byMode).map(([modeId, ids]) => [modeId, migrateIds(ids)]))
+      const migratedModes: ModeCustomizations = {
+        additions: migrateLists(additions),
+        removals: migrateLists(removals),
+        userModes: Object.fromEntries(
+          Object.entries(userModes).map(([modeId, config]) => [modeId, { ...config, actions: migrateIds(config.actions) }]),
+        ),
+      }
+      result.modeCustomizations = migratedModes
+    }
+  }
+
+  // Macros keep their other steps when one's action is removed
+  if (macros && Object.values(macros).some(m => m.steps.some(step => isAffected(step.actionId)))) {
+    result.macros = Object.fromEntries(Object.entries(macros).map(([macroId, macro]): [string, UserMacro] => [macroId, {
+      ...macro,
+      steps: macro.steps
+        .map(step => ({ ...step, actionId: rename(step.actionId) }))
+        .filter(step => !removed.includes(step.actionId)),
+    }]))
+  }
+
+  const changed = result.overrides !== overrides ||
+    result.removedDefaults !== removedDefaults ||
+    result.modeCustomizations !== modeCustomizations ||
+    result.macros !== macros
+  return changed ? result : migrated
+}
+
+/**
+ * Action IDs referenced by customizations that aren't in `registered`
+ */
+export function findOrphanedActions(data: BindingsData, registered: (actionId: string) => boolean): string[] {
+  const ids = new Set<string>()
+  for (const actionOrActions of Object.values(data.overrides)) {
+    for (const id of Array.isArray(actionOrActions) ? actionOrActions : [actionOrActions]) ids.add(id)
+  }
+  for (const id of Object.keys(data.removedDefaults)) ids.add(id)
+  if (data.modeCustomizations) {
+    const { additions, removals, userModes } = data.modeCustomizations
+    for (const list of [...Object.values(additions), ...Object.values(removals), ...Object.values(userModes).map(m => m.actions)]) {
+      for (const id of list) ids.add(id)
+    }
+  }
+  for (const macro of Object.values(data.macros ?? {})) {
+    for (const step of macro.steps) ids.add(step.actionId)
+  }
+  // '' is the legacy "removed" override marker
+  return Array.from(ids).filter(id => id !== '' && !registered(id))
+}
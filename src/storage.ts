@@ -0,0 +1,111 @@
+/**
+ * Persistence backend for user customizations: bindings, profiles, mode customizations, recents, etc.
+ *
+ * Keys are full storage keys (e.g. `my-app`, `my-app-removed`); values are JSON-serializable.
+ * Methods may be synchronous or return promises. With a synchronous `load`, stored state is
+ * applied on first render; with an async one, defaults are shown until it resolves.
+ *
+ * @example
+ * ```ts
+ * const remoteStorage: StorageAdapter = {
+ *   load: key => fetch(`/api/prefs/${key}`).then(r => r.ok ? r.json() : undefined),
+ *   save: (key, value) => fetch(`/api/prefs/${key}`, {
+ *     method: value === undefined ? 'DELETE' : 'PUT',
+ *     body: JSON.stringify(value),
+ *   }).then(() => {}),
+ * }
+ * ```
+ */
+export interface StorageAdapter {
+  /** Load the value stored under `key` (`undefined` if absent) */
+  load: (key: string) => unknown | Promise<unknown>
+  /** Store `value` under `key`; `undefined` removes it */
+  save: (key: string, value: unknown) => void | Promise<void>
+  /** Listen for changes to `key` made elsewhere (another tab, another device). Returns an unsubscribe function. */
+  subscribe?: (key: string, listener: (value: unknown) => void) => () => void
+}
+
+/**
+ * Create a StorageAdapter over a Web Storage object (values stored as JSON).
+ * Changes made in other tabs are delivered via the window `storage` event.
+ * @param getStorage - Returns the Storage to use (undefined during SSR)
+ */
+export function createWebStorageAdapter(getStorage: () => Storage | undefined): StorageAdapter {
+  const parse = (stored: string | null): unknown => {
+    if (stored === null) return undefined
+    try {
+      return JSON.parse(stored)
+    } catch {
+      return undefined
+    }
+  }
+  return {
+    load: key => parse(getStorage()?.getItem(key) ?? null),
+    save: (key, value) => {
+      const storage = getStorage()
+      if (!storage) return
+      if (value === undefined) {
+        storage.removeItem(key)
+      } else {
+        storage.setItem(key, JSON.stringify(value))
+      }
+    },
+    subscribe: (key, listener) => {
+      const storage = getStorage()
+      if (!storage) return () => {}
+      const handleStorage = (e: StorageEvent) => {
+        if (e.storageArea === storage && e.key === key) {
+          listener(parse(e.newValue))
+        }
+      }
+      window.addEventListener('storage', handleStorage)
+      return () => window.removeEventListener('storage', handleStorage)
+    },
+  }
+}
+
+/** Default StorageAdapter: `localStorage`, synced across tabs */
+export const localStorageAdapter = createWebStorageAdapter(
+  () => typeof window !== 'undefined' ? window.localStorage : undefined,
+)
+
+/** StorageAdapter over `sessionStorage` (per-tab, cleared when the tab closes) */
+export const sessionStorageAdapter = createWebStorageAdapter(
+  () => typeof window !== 'undefined' ? window.sessionStorage : undefined,
+)
+
+export function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+  return typeof (value as Promise<T> | undefined)?.then === 'function'
+}
+
+/**
+ * Load several keys: synchronously if the adapter returned plain values, else as a promise.
+ * Failed loads yield `undefined`.
+ */
+export function loadValues(storage: StorageAdapter, keys: string[]): unknown[] | Promise<unknown[]> {
+  const values = keys.map(key => {
+    try {
+      const value = storage.load(key)
+      return isPromise(value) ? value.catch(() => undefined) : value
+    } catch {
+      return undefined
+    }
+  })
+  return values.some(isPromise) ? Promise.all(values) : values
+}
+
+/**
+ * Store a value, ignoring (sync or async) storage errors
+ */
+export function saveValue(storage: StorageAdapter, key: string, value: unknown): void {
+  try {
+    const result = storage.save(key, value)
+    if (isPromise(result)) {
+      result.catch(() => {
+        // Ignore storage errors
+      })
+    }
+  } catch {
+    // Ignore storage errors
+  }
+}
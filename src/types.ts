@@ -12,10 +12,14 @@ export interface Modifiers {
  * Represents a single key press (possibly with modifiers)
  */
 export interface KeyCombination {
-  /** The main key (lowercase, e.g., 'k', 'enter', 'arrowup') */
+  /** The main key (lowercase, e.g., 'k', 'enter', 'arrowup', physical 'code:keyz', or a chord 'j&k' of keys pressed together) */
   key: string
   /** Modifier keys pressed */
   modifiers: Modifiers
+  /** Physical key code of the originating KeyboardEvent (e.g., 'KeyZ'), used to match `code:` bindings */
+  code?: string
+  /** Parsed from `<leader>`: `key` and `modifiers` are the leader key's */
+  leader?: true
 }
 
 /**
@@ -31,12 +35,12 @@ export type HotkeySequence = KeyCombination[]
 
 /**
  * A single element in a key sequence (sum type).
- * - 'key': exact key match (with optional modifiers)
+ * - 'key': exact key match (with optional modifiers; `leader` if written as `<leader>`)
  * - 'digit': matches any single digit 0-9 (\d)
  * - 'digits': matches one or more digits (\d+)
  */
 export type SeqElem =
-  | { type: 'key'; key: string; modifiers: Modifiers }
+  | { type: 'key'; key: string; modifiers: Modifiers; leader?: true }
   | { type: 'digit' }
   | { type: 'digits' }
   | { type: 'float' }
@@ -144,8 +148,78 @@ export interface RecordHotkeyOptions {
   sequenceTimeout?: number
   /** When true, pause the auto-submit timeout (useful for conflict warnings). Default: false */
   pauseTimeout?: boolean
+  /** Record physical keys (`code:keyz`) instead of the characters they produce, so the
+   * binding stays in the same place on any keyboard layout. Default: false */
+  physical?: boolean
 }
 
+/**
+ * When an action's handler fires, relative to its binding's key presses:
+ * - `'press'` – on key-down (default)
+ * - `'release'` – on key-up of the binding's (last) key
+ * - `'hold'` – on key-down, with the action's `onEnd` called on key-up (or window blur)
+ * - `{ holdFor: ms }` – once the key has been held for `ms`; released earlier, nothing fires
+ */
+export type ActionTrigger = 'press' | 'release' | 'hold' | { holdFor: number }
+
+/**
+ * Type of an action parameter's value:
+ * - `'string'` – free text (default)
+ * - `'number'` – integer or decimal
+ * - `'enum'` – one of the parameter's `choices`
+ * - `'date'` – a date (`2024-03-01`, or `today`/`tomorrow`/`yesterday`), passed as a `Date`
+ */
+export type ActionParamType = 'string' | 'number' | 'enum' | 'date'
+
+/**
+ * A named argument an action takes (see `ActionConfig.params`). The omnibar prompts for
+ * each in turn, unless the query already supplies it (e.g. "theme dark").
+ */
+export interface ActionParam {
+  /** Name the value is passed under, in the handler's `args` */
+  name: string
+  /** Value type (default: 'string') */
+  type?: ActionParamType
+  /** Prompt label (default: `name`) */
+  label?: string
+  /** Placeholder text for the prompt's input */
+  placeholder?: string
+  /** Allowed values (required for `'enum'`) */
+  choices?: string[]
+  /** Values suggested while typing (`'string'` parameters; `'enum'` ones suggest their `choices`) */
+  suggestions?: string[]
+  /** Whether the prompt may be left empty, passing `undefined` (default: false) */
+  optional?: boolean
+}
+
+/** Value of an action parameter, by its type (`Date` for `'date'`) */
+export type ActionArgValue = string | number | Date
+
+/** Parameter values an action runs with, by parameter name */
+export type ActionArgs = Record<string, ActionArgValue | undefined>
+
+/**
+ * One entry of an action's drill-down page in the omnibar (see `ActionConfig.children`)
+ */
+export interface ActionChoice {
+  /** Value the action's handler receives, as `args.choice` */
+  value: string
+  /** Display label (default: `value`) */
+  label?: string
+  /** Secondary text */
+  description?: string
+  /** Additional search keywords */
+  keywords?: string[]
+  /** Nested choices: selecting this one opens another page, instead of running the action */
+  children?: ActionChoice[]
+}
+
+/**
+ * Provides an action's choices for the omnibar query typed on its page (filtered by the provider).
+ * The signal aborts when the query changes or the page closes.
+ */
+export type ActionChoicesProvider = (query: string, signal: AbortSignal) => ActionChoice[] | Promise<ActionChoice[]>
+
 /**
  * Definition of an action that can be triggered by hotkeys or omnibar
  */
@@ -158,12 +232,26 @@ export interface ActionDefinition {
   group?: string
   /** Mode ID this action belongs to (only active when mode is active) */
   mode?: string
+  /** Scope ID this action belongs to (only active while focus is inside that `<HotkeyScope>`) */
+  scope?: string
+  /** When the handler fires relative to key presses (default: 'press') */
+  trigger?: ActionTrigger
+  /** Whether a count prefix runs the handler N times (see `ActionConfig.repeatable`) */
+  repeatable?: boolean
   /** Additional search keywords */
   keywords?: string[]
+  /** Named arguments, prompted for in the omnibar (see `ActionConfig.params`) */
+  params?: ActionParam[]
+  /** Choices listed on a drill-down omnibar page (see `ActionConfig.children`) */
+  children?: ActionChoice[]
+  /** Provider of drill-down choices, by query (see `ActionConfig.choices`) */
+  choices?: ActionChoicesProvider
   /** Icon identifier (user provides rendering) */
   icon?: string
   /** Whether the action is currently enabled (default: true) */
   enabled?: boolean
+  /** Context-key condition for the action to be active (see `ActionConfig.when`) */
+  when?: string
   /** Hide from ShortcutsModal (still searchable in omnibar) */
   hideFromModal?: boolean
   /** Protect bindings from removal (user can still add more, but not remove existing) */
@@ -178,6 +266,14 @@ export interface ActionDefinition {
   sortOrder?: number
 }
 
+/**
+ * How key combinations are displayed:
+ * - `'icons'` – modifier/key glyphs (⌘ ⌥ ↵, or Ctrl+ on non-Mac) (default)
+ * - `'emacs'` – Emacs-style short text (`C-x`, `M-f`, `s-k`)
+ * - `'text'` – spelled-out names (`Ctrl+Down`, `Option+Enter`)
+ */
+export type RenderStyle = 'icons' | 'emacs' | 'text'
+
 /** Cardinal direction for arrow key groups */
 export type Direction = 'left' | 'right' | 'up' | 'down'
 
@@ -203,10 +299,16 @@ export interface ActionSearchResult {
   score: number
   /** Matched ranges in label for highlighting */
   labelMatches: Array<[number, number]>
+  /** Matched ranges in the description, if any matched */
+  descriptionMatches?: Array<[number, number]>
+  /** Matched ranges in keywords, by keyword (only those that matched) */
+  keywordMatches?: Record<string, Array<[number, number]>>
   /** Whether this action has bindings with digit placeholders (\d or \d+) */
   hasPlaceholders?: boolean
   /** Captured digit values from query (e.g., "smooth 3" → [3]) */
   captures?: number[]
+  /** Parameter values filled from the query (e.g., "theme dark" → { theme: 'dark' }) */
+  args?: ActionArgs
   /** Mode ID this action belongs to (if any) */
   mode?: string
 }
@@ -231,6 +333,28 @@ export interface SequenceCompletion {
   captures?: number[]
 }
 
+/**
+ * An entry in a which-key style menu of sequence completions (see `groupCompletionsByPrefix`):
+ * a binding's action, or a prefix collapsing the bindings under it
+ */
+export type PrefixMenuItem =
+  | {
+    type: 'action'
+    completion: SequenceCompletion
+    action: string
+  }
+  | {
+    type: 'prefix'
+    /** ID of the prefix (pending keys plus the next key) */
+    prefix: string
+    /** The next key */
+    nextKeySeq: KeySeq
+    /** The prefix's label, if registered (see `usePrefix`) */
+    label?: string
+    /** Completions under the prefix */
+    completions: SequenceCompletion[]
+  }
+
 // ============================================================================
 // Mode types
 // ============================================================================
@@ -247,9 +371,20 @@ export interface ModeConfig {
   defaultBindings?: string[]
   /** Whether the activation binding also deactivates (default: true) */
   toggle?: boolean
-  /** Whether Escape exits the mode (default: true) */
+  /** Whether the mode is active only while its activation key is held down (a quasimode):
+   * pressing enters it, releasing exits (default: false). Implies `toggle: false`. */
+  hold?: boolean
+  /** Whether the mode exits after one action executes while it's active (default: false) */
+  oneShot?: boolean
+  /** Exit the mode after this many milliseconds without an action executing (restarted by each one) */
+  autoExitMs?: number
+  /** Whether activating nests the mode inside the active mode(s), on the mode stack, instead of
+   * replacing them (default: false). Escape then returns to the enclosing mode. */
+  push?: boolean
+  /** Whether Escape exits the mode, while it's the innermost active one and no action is bound to Escape (default: true) */
   escapeExits?: boolean
-  /** Whether global shortcuts pass through when mode is active (default: true) */
+  /** Whether keys not bound in the mode fall through to enclosing modes' and global shortcuts,
+   * while it's active (default: true) */
   passthrough?: boolean
   /** Called when mode is activated */
   onActivate?: () => void
@@ -271,20 +406,62 @@ export interface RegisteredMode {
 export interface ModeState {
   /** Mode ID */
   id: string
-  /** Whether this mode is currently active */
+  /** Whether this mode is currently active (anywhere on the mode stack) */
   active: boolean
+  /** Whether this is the innermost active mode */
+  current: boolean
   /** Display label */
   label: string
   /** Accent color */
   color?: string
   /** Programmatically activate this mode */
   activate: () => void
-  /** Programmatically deactivate this mode */
+  /** Programmatically deactivate this mode (and any nested inside it) */
   deactivate: () => void
+  /** Push this mode onto the mode stack, nested inside the active mode(s) */
+  push: () => void
   /** Toggle this mode on/off */
   toggle: () => void
 }
 
+/**
+ * Configuration for a hotkey scope (a DOM subtree whose actions only fire while it has focus).
+ */
+export interface ScopeConfig {
+  /** Display label (shown in ShortcutsModal/Omnibar badges; defaults to the scope ID) */
+  label?: string
+}
+
+/**
+ * Internal registered scope state
+ */
+export interface RegisteredScope {
+  config: ScopeConfig
+  /** Root element of the scope */
+  element: HTMLElement | null
+  registeredAt: number
+}
+
+/**
+ * Configuration for a key-sequence prefix (e.g. `g` in `g t`, `g i`), labeling the keys that follow it
+ */
+export interface PrefixConfig {
+  /** Display label, e.g. 'Go to…' */
+  label: string
+  /** Longer description */
+  description?: string
+}
+
+/**
+ * Internal registered prefix state
+ */
+export interface RegisteredPrefix {
+  config: PrefixConfig
+  /** The prefix's keys, as written when registered (e.g. 'space w') */
+  keys: string
+  registeredAt: number
+}
+
 // ============================================================================
 // Remote omnibar endpoint types
 // ============================================================================
@@ -375,6 +552,9 @@ export interface OmnibarEndpointConfigBase {
   pageSize?: number
   /** Pagination mode (default: 'none') */
   pagination?: EndpointPaginationMode
+  /** Query prefix scoping search to this endpoint (e.g. `@`): `@ali` queries only endpoints with this prefix,
+   * for "ali", and no local actions. Unprefixed queries still reach it. */
+  prefix?: string
 }
 
 /**
@@ -434,6 +614,41 @@ export interface UserModeConfig {
   actions: string[]
 }
 
+/**
+ * One recorded step of a user macro
+ */
+export interface MacroStep {
+  /** Action executed */
+  actionId: string
+  /** Captured digit values it ran with */
+  captures?: number[]
+  /** Parameter values it ran with, as text (see `formatParamValue`) */
+  args?: Record<string, string>
+  /** Delay in ms since the previous step (0 for the first) */
+  delay: number
+}
+
+/**
+ * A user-recorded series of actions, replayable as one (bindable, searchable) action
+ */
+export interface UserMacro {
+  /** Display label */
+  label: string
+  /** Steps, in execution order */
+  steps: MacroStep[]
+}
+
+/**
+ * How often, and how recently, an action (or remote omnibar entry) was used; ranks omnibar results.
+ * `count` decays over time (see `frecencyScore`), so stale favorites give way to current ones.
+ */
+export interface ActionUsage {
+  /** Uses, decayed to `lastUsed` */
+  count: number
+  /** When last used (ms since epoch) */
+  lastUsed: number
+}
+
 /** Empty mode customizations (no changes from developer defaults) */
 export const EMPTY_MODE_CUSTOMIZATIONS: ModeCustomizations = {
   additions: {},
@@ -441,13 +656,50 @@ export const EMPTY_MODE_CUSTOMIZATIONS: ModeCustomizations = {
   userModes: {},
 }
 
+// ============================================================================
+// Keymap profile types
+// ============================================================================
+
+/**
+ * A named, switchable set of user customizations (e.g. "Default", "Vim", "Emacs").
+ * Each profile has its own binding overrides, removed defaults and mode customizations.
+ */
+export interface KeymapProfile {
+  /** Display label */
+  label: string
+  /** Preset whose bindings this profile starts from (default: actions' `defaultBindings`) */
+  preset?: string
+  /** User binding overrides: key → action (e.g., "ctrl+s" → "doc:save") */
+  overrides: Record<string, string | string[]>
+  /** Base bindings that were removed: action → keys (e.g., "nav:goto" → ["g"]) */
+  removedDefaults: Record<string, string[]>
+  /** Mode membership customizations (additions, removals, user-created modes) */
+  modeCustomizations?: ModeCustomizations
+  /** User-recorded macros by ID */
+  macros?: Record<string, UserMacro>
+  /** Key that `<leader>` in bindings stands for (default: the app's `leader`) */
+  leader?: string
+}
+
+/**
+ * A preset keymap profile shipped by the app.
+ * Its bindings replace `defaultBindings` for the actions it lists; actions can also
+ * declare their own per-preset bindings via `ActionConfig.profileBindings`.
+ */
+export interface KeymapPreset {
+  /** Display label */
+  label: string
+  /** Base bindings per action: actionId → keys (e.g., "nav:down" → ["j"]) */
+  bindings?: Record<string, string[]>
+}
+
 // ============================================================================
 // Bindings export/import types
 // ============================================================================
 
 /**
  * Exported bindings format for import/export functionality.
- * Contains user customizations (overrides and removed defaults).
+ * Contains user customizations (overrides and removed defaults), optionally for several profiles.
  */
 export interface BindingsExport {
   /** Version of the export format / library */
@@ -462,4 +714,95 @@ export interface BindingsExport {
   removedDefaults: Record<string, string[]>
   /** Mode membership customizations (additions, removals, user-created modes) */
   modeCustomizations?: ModeCustomizations
+  /** User-recorded macros by ID */
+  macros?: Record<string, UserMacro>
+  /** Chosen leader key */
+  leader?: string
+  /** Exported profiles by ID (the top-level fields above hold the active profile's customizations) */
+  profiles?: Record<string, KeymapProfile>
+  /** ID of the profile that was active when exported */
+  activeProfile?: string
+  /** App's bindings data version when exported (see `BindingsMigrations.version`; absent means 0) */
+  dataVersion?: number
+}
+
+/**
+ * A profile's persisted customizations, as passed to migration transforms
+ */
+export type BindingsData = Pick<KeymapProfile, 'overrides' | 'removedDefaults' | 'modeCustomizations' | 'macros'>
+
+/**
+ * Migrations for stored and imported customizations, for when an app renames or removes actions.
+ * Applied when loading from storage and in `importBindings`.
+ *
+ * @example
+ * ```ts
+ * const migrations: BindingsMigrations = {
+ *   renamed: { 'nav:home': 'nav:go-home' },
+ *   removed: ['legacy:export-csv'],
+ *   transforms: {
+ *     // v2 reserved the "g" prefix for navigation: drop users' own "g …" bindings
+ *     2: data => ({
+ *       ...data,
+ *       overrides: Object.fromEntries(Object.entries(data.overrides).filter(([key]) => !key.startsWith('g '))),
+ *     }),
+ *   },
+ * }
+ * ```
+ */
+export interface BindingsMigrations {
+  /** Current data version (default: the highest `transforms` version, or 0) */
+  version?: number
+  /** Renamed actions: old ID → new ID (applied after `transforms`, whatever the data's version) */
+  renamed?: Record<string, string>
+  /** Removed action IDs, whose customizations are dropped (applied after `transforms`) */
+  removed?: string[]
+  /** Transforms by version: each runs, in ascending order, on data saved at an older version */
+  transforms?: Record<number, (data: BindingsData) => BindingsData>
+}
+
+/**
+ * How `importBindings` applies imported customizations:
+ * - `'replace'`: replace the current customizations (default)
+ * - `'merge'`: add imported bindings and removals to the current ones
+ * - `'preview'`: compute what `'merge'` would change, without applying anything
+ */
+export type ImportStrategy = 'replace' | 'merge' | 'preview'
+
+/**
+ * A key whose bound actions an import changes
+ */
+export interface BindingChange {
+  /** Key binding (e.g. "ctrl+s", "g h") */
+  key: string
+  /** `'added'`: key was unbound; `'removed'`: key becomes unbound; `'changed'`: key's actions change */
+  type: 'added' | 'removed' | 'changed'
+  /** Actions bound to the key before the import */
+  from: string[]
+  /** Actions bound to the key after the import */
+  to: string[]
+}
+
+/**
+ * Changes an import makes (or would make) to the keymap: from the active profile's, to that of
+ * the profile active after the import (which differs when replacing profiles switches profile)
+ */
+export interface ImportDiff {
+  /** Keys that become bound */
+  added: BindingChange[]
+  /** Keys that become unbound */
+  removed: BindingChange[]
+  /** Keys bound to different actions */
+  changed: BindingChange[]
+  /** Conflicts the import introduces: key → actions (as returned by `findConflicts`) */
+  conflicts: Map<string, string[]>
+  /** Action IDs referenced by the import that aren't registered (their bindings are kept, but inactive) */
+  unknownActions: string[]
+}
+
+export interface ImportBindingsOptions {
+  /** How to apply the imported customizations (default: 'replace') */
+  strategy?: ImportStrategy
+  /** Only apply the binding changes this accepts (default: all). Applies to the active profile only. */
+  accept?: (change: BindingChange) => boolean
 }
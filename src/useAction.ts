@@ -1,10 +1,13 @@
 import { useContext, useEffect, useRef } from 'react'
 import { ActionsRegistryContext } from './ActionsRegistry'
-import type { Direction } from './types'
+import { HotkeyScopeContext } from './HotkeyScope'
+import type { ActionArgs, ActionChoice, ActionChoicesProvider, ActionParam, ActionTrigger, Direction } from './types'
 
 /**
  * Handler function for actions.
- * Optionally receives captured values from digit placeholders in bindings.
+ * Optionally receives captured values from digit placeholders in bindings, and the values of
+ * the action's `params` (when run from the omnibar).
+ * May return a promise, which macro replay waits on before the next step.
  *
  * @example
  * ```tsx
@@ -16,9 +19,12 @@ import type { Direction } from './types'
  *   const n = captures?.[0] ?? 1
  *   setRow(row + n)
  * }
+ *
+ * // Handler with params (e.g., `params: [{ name: 'theme', type: 'enum', choices: ['light', 'dark'] }]`)
+ * handler: (e, captures, args) => setTheme(args?.theme as string)
  * ```
  */
-export type ActionHandler = (e?: KeyboardEvent, captures?: number[]) => void
+export type ActionHandler = (e?: KeyboardEvent, captures?: number[], args?: ActionArgs) => void | Promise<void>
 
 export interface ActionConfig {
   /** Human-readable label for omnibar/modal */
@@ -29,14 +35,42 @@ export interface ActionConfig {
   group?: string
   /** Mode ID this action belongs to (only active when mode is active) */
   mode?: string
+  /** Scope ID this action belongs to (only active while focus is inside that `<HotkeyScope>`).
+   * Defaults to the nearest enclosing `<HotkeyScope>`, if any. */
+  scope?: string
   /** Default key bindings (user can override) */
   defaultBindings?: string[]
+  /** Bindings replacing `defaultBindings` in preset keymap profiles: presetId → keys
+   * (e.g. `{ vim: ['j'], emacs: ['ctrl+n'] }`). See `HotkeysConfig.profiles`. */
+  profileBindings?: Record<string, string[]>
   /** Search keywords for omnibar */
   keywords?: string[]
+  /** Named arguments the handler takes (e.g. "Set theme <light|dark>", "Jump to <date>"). The omnibar
+   * prompts for each in turn, with suggestions, unless the query fills them ("theme dark"); the handler
+   * receives them as `args`. */
+  params?: ActionParam[]
+  /** Choices to pick from in the omnibar, like VS Code's "Change Language Mode": selecting the action
+   * opens a page listing them (with its own search; Backspace goes back up), and picking one runs
+   * the handler with its value as `args.choice`. Choices with `children` open further pages. */
+  children?: ActionChoice[]
+  /** Like `children`, but provided (possibly asynchronously) for the query typed on the page */
+  choices?: ActionChoicesProvider
   /** The action handler (optionally receives KeyboardEvent and captured values) */
   handler: ActionHandler
+  /** When `handler` fires relative to key presses (default: 'press').
+   * For `'hold'`/`{ holdFor }`, `handler` starts the hold and `onEnd` ends it. */
+  trigger?: ActionTrigger
+  /** Called when a `'hold'`/`{ holdFor }` action's key is released, or the window loses focus.
+   * Only called if `handler` ran (i.e. the hold actually started). */
+  onEnd?: ActionHandler
+  /** With `HotkeysConfig.countPrefix`, run the handler N times for a count N (e.g. `5j`), instead of
+   * passing N as the last capture, after the binding's own captures (default: false) */
+  repeatable?: boolean
   /** Whether action is currently enabled (default: true) */
   enabled?: boolean
+  /** Context-key condition for the action to be active, e.g. `'editorFocused && !readOnly'`
+   * (see `useContextKey`). While false, its bindings don't fire and it's shown dimmed. */
+  when?: string
   /** Priority for conflict resolution (higher wins, default: 0) */
   priority?: number
   /** Hide from ShortcutsModal (still searchable in omnibar) */
@@ -90,10 +124,26 @@ export function useAction(id: string, config: ActionConfig): void {
   const registryRef = useRef(registry)
   registryRef.current = registry
 
+  // Default to the enclosing <HotkeyScope> (if any)
+  const enclosingScope = useContext(HotkeyScopeContext)
+  const scope = config.scope ?? enclosingScope ?? undefined
+
   // Keep handler in a ref so we don't re-register on every render
   const handlerRef = useRef(config.handler)
   handlerRef.current = config.handler
 
+  const onEndRef = useRef(config.onEnd)
+  onEndRef.current = config.onEnd
+  const hasOnEnd = !!config.onEnd
+  const triggerKey = JSON.stringify(config.trigger)
+  const profileBindingsKey = JSON.stringify(config.profileBindings)
+  const paramsKey = JSON.stringify(config.params)
+  const childrenKey = JSON.stringify(config.children)
+
+  const choicesRef = useRef(config.choices)
+  choicesRef.current = config.choices
+  const hasChoices = !!config.choices
+
   // Keep enabled state in ref too
   const enabledRef = useRef(config.enabled ?? true)
   enabledRef.current = config.enabled ?? true
@@ -101,11 +151,15 @@ export function useAction(id: string, config: ActionConfig): void {
   useEffect(() => {
     registryRef.current.register(id, {
       ...config,
-      handler: (e, captures) => {
+      scope,
+      handler: (e, captures, args) => {
         if (enabledRef.current) {
-          handlerRef.current(e, captures)
+          return handlerRef.current(e, captures, args)
         }
       },
+      // Not gated on `enabled`: a started hold must always be able to end
+      onEnd: hasOnEnd ? (e, captures, args) => onEndRef.current?.(e, captures, args) : undefined,
+      choices: hasChoices ? (query, signal) => choicesRef.current?.(query, signal) ?? [] : undefined,
     })
 
     return () => {
@@ -117,9 +171,20 @@ export function useAction(id: string, config: ActionConfig): void {
     config.description,
     config.group,
     config.mode,
+    config.when,
+    scope,
+    triggerKey,
+    hasOnEnd,
+    config.repeatable,
+    // Re-register so the registry (and macro replay) sees it
+    config.enabled,
     // Compare bindings by value
     JSON.stringify(config.defaultBindings),
+    profileBindingsKey,
     JSON.stringify(config.keywords),
+    paramsKey,
+    childrenKey,
+    hasChoices,
     config.priority,
     config.hideFromModal,
     config.protected,
@@ -152,12 +217,17 @@ export function useActions(actions: Record<string, ActionConfig>): void {
   const registryRef = useRef(registry)
   registryRef.current = registry
 
+  // Default to the enclosing <HotkeyScope> (if any)
+  const enclosingScope = useContext(HotkeyScopeContext) ?? undefined
+
   // Keep handlers in refs
   const handlersRef = useRef<Record<string, ActionHandler>>({})
+  const onEndsRef = useRef<Record<string, ActionHandler | undefined>>({})
   const enabledRef = useRef<Record<string, boolean>>({})
 
   for (const [id, config] of Object.entries(actions)) {
     handlersRef.current[id] = config.handler
+    onEndsRef.current[id] = config.onEnd
     enabledRef.current[id] = config.enabled ?? true
   }
 
@@ -165,11 +235,13 @@ export function useActions(actions: Record<string, ActionConfig>): void {
     for (const [id, config] of Object.entries(actions)) {
       registryRef.current.register(id, {
         ...config,
+        scope: config.scope ?? enclosingScope,
         handler: (e, captures) => {
           if (enabledRef.current[id]) {
-            handlersRef.current[id]?.(e, captures)
+            return handlersRef.current[id]?.(e, captures)
           }
         },
+        onEnd: config.onEnd ? (e, captures) => onEndsRef.current[id]?.(e, captures) : undefined,
       })
     }
 
@@ -186,7 +258,14 @@ export function useActions(actions: Record<string, ActionConfig>): void {
         c.label,
         c.group,
         c.mode,
+        c.when,
+        c.scope,
+        c.trigger,
+        !!c.onEnd,
+        c.repeatable,
+        c.enabled,
         c.defaultBindings,
+        c.profileBindings,
         c.keywords,
         c.priority,
         c.hideFromModal,
@@ -197,5 +276,6 @@ export function useActions(actions: Record<string, ActionConfig>): void {
         c.sortOrder,
       ])
     ),
+    enclosingScope,
   ])
 }
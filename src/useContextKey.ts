@@ -0,0 +1,43 @@
+import { useContext, useEffect, useRef } from 'react'
+import { ActionsRegistryContext } from './ActionsRegistry'
+
+/**
+ * Set a context key while the component is mounted, for actions' `when` clauses to test.
+ * The key is unset on unmount.
+ *
+ * @example
+ * ```tsx
+ * function Editor({ readOnly }: { readOnly: boolean }) {
+ *   const [focused, setFocused] = useState(false)
+ *   useContextKey('editorFocused', focused)
+ *   useContextKey('readOnly', readOnly)
+ *
+ *   useAction('editor:format', {
+ *     label: 'Format document',
+ *     defaultBindings: ['shift+alt+f'],
+ *     when: 'editorFocused && !readOnly',
+ *     handler: format,
+ *   })
+ *   // ...
+ * }
+ * ```
+ */
+export function useContextKey(key: string, value: unknown): void {
+  const registry = useContext(ActionsRegistryContext)
+  if (!registry) {
+    throw new Error('useContextKey must be used within a HotkeysProvider')
+  }
+
+  const registryRef = useRef(registry)
+  registryRef.current = registry
+
+  useEffect(() => {
+    registryRef.current.setContextKey(key, value)
+  }, [key, value])
+
+  useEffect(() => {
+    return () => {
+      registryRef.current.deleteContextKey(key)
+    }
+  }, [key])
+}
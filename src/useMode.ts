@@ -50,12 +50,17 @@ export function useMode(id: string, config: ModeConfig): ModeState {
     config.color,
     JSON.stringify(config.defaultBindings),
     config.toggle,
+    config.hold,
+    config.oneShot,
+    config.autoExitMs,
+    config.push,
     config.escapeExits,
     config.passthrough,
   ])
 
-  // Register activation action
-  const toggle = config.toggle !== false // default true
+  // Register activation action (held modes exit when the activation key is released)
+  const hold = !!config.hold
+  const toggle = !hold && config.toggle !== false // default true
   const activationHandler = useCallback(() => {
     if (toggle) {
       registryRef.current.toggleMode(id)
@@ -63,24 +68,34 @@ export function useMode(id: string, config: ModeConfig): ModeState {
       registryRef.current.activateMode(id)
     }
   }, [id, toggle])
+  const deactivateHeld = useCallback(() => {
+    registryRef.current.deactivateMode(id)
+  }, [id])
 
   useAction(`${ACTION_MODE_PREFIX}${id}`, {
     label: `${config.label} mode`,
     group: 'Modes',
     defaultBindings: config.defaultBindings ?? [],
     handler: activationHandler,
+    trigger: hold ? 'hold' : undefined,
+    onEnd: hold ? deactivateHeld : undefined,
     hideFromModal: true,
   })
 
-  const active = registry.activeMode === id
+  const active = registry.modeStack.includes(id)
+  const current = registry.activeMode === id
 
   const activate = useCallback(() => {
     registryRef.current.activateMode(id)
   }, [id])
 
   const deactivate = useCallback(() => {
-    registryRef.current.deactivateMode()
-  }, [])
+    registryRef.current.deactivateMode(id)
+  }, [id])
+
+  const push = useCallback(() => {
+    registryRef.current.pushMode(id)
+  }, [id])
 
   const toggleFn = useCallback(() => {
     registryRef.current.toggleMode(id)
@@ -89,10 +104,12 @@ export function useMode(id: string, config: ModeConfig): ModeState {
   return useMemo<ModeState>(() => ({
     id,
     active,
+    current,
     label: config.label,
     color: config.color,
     activate,
     deactivate,
+    push,
     toggle: toggleFn,
-  }), [id, active, config.label, config.color, activate, deactivate, toggleFn])
+  }), [id, active, current, config.label, config.color, activate, deactivate, push, toggleFn])
 }
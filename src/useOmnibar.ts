@@ -1,15 +1,19 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { OMNIBAR_ACTIONS_PREFIX, OMNIBAR_GROUP_PREFIX } from './constants'
 import { useHotkeys, HotkeyMap, HandlerMap } from './useHotkeys'
 
 const { max, min } = Math
-import { searchActions, getSequenceCompletions, fuzzyMatch, getActionBindings, hasAnyPlaceholderBindings } from './utils'
-import type { ActionRegistry, ActionSearchResult, EndpointPaginationMode, HotkeySequence, OmnibarEntry } from './types'
+import { searchActions, getSequenceCompletions, frecencyBoost, frecencyScore, matchSearchFields, rangesByText, smartMatch } from './utils'
+import type { SearchMatcher } from './utils'
+import type { ActionArgs, ActionArgValue, ActionChoice, ActionParam, ActionRegistry, ActionSearchResult, ActionUsage, EndpointPaginationMode, HotkeySequence, OmnibarEntry } from './types'
 import type { SequenceCompletion } from './types'
-import type { EndpointQueryResult, OmnibarEndpointsRegistryValue } from './OmnibarEndpointsRegistry'
+import type { EndpointQueryResult, OmnibarEndpointsRegistryValue, RegisteredEndpoint } from './OmnibarEndpointsRegistry'
 
 /** Default debounce time for remote queries */
 const DEFAULT_DEBOUNCE_MS = 150
 
+const NO_ARGS: ActionArgs = {}
+
 /**
  * Pagination state for a single endpoint
  */
@@ -21,6 +25,124 @@ interface EndpointState {
   isLoading: boolean
 }
 
+/**
+ * An action awaiting input before it runs: a value for its digit placeholder, then each of its params
+ */
+interface ParamPrompt {
+  actionId: string
+  /** Whether it still needs a placeholder value (a `\d+` binding, chosen without a number) */
+  needsCaptures: boolean
+  captures?: number[]
+  /** Params entered so far (or filled from the query) */
+  args: ActionArgs
+}
+
+/**
+ * A drill-down page of the omnibar: an action's choices (see `ActionConfig.children`), or a choice's nested ones
+ */
+export interface OmnibarPage {
+  /** Action the page's choices are for */
+  actionId: string
+  /** Breadcrumb label (the action's, or that of the choice that opened it) */
+  label: string
+  /** Static choices (undefined when listed by the action's `choices` provider) */
+  children?: ActionChoice[]
+  /** Search query of the page below, restored when going back up */
+  parentQuery: string
+}
+
+/**
+ * A page state, with the input the action already has (to run it with once a choice is picked)
+ */
+interface PageState extends OmnibarPage {
+  prompt: ParamPrompt
+}
+
+/**
+ * A choice on the current omnibar page, matched against the query
+ */
+export interface OmnibarChoiceResult {
+  choice: ActionChoice
+  /** Matched ranges in the label for highlighting */
+  labelMatches: Array<[number, number]>
+}
+
+/**
+ * Sources a prefixed query is restricted to: actions (`>`), one group of actions (`#`), or endpoints with a `prefix`
+ */
+export interface OmnibarScope {
+  /** The prefix typed */
+  prefix: string
+  /** What's searched, for display: "Actions", the group, or the endpoints' group */
+  label: string
+  /** The rest of the query, searched within the scope */
+  query: string
+  /** Whether local actions are searched */
+  actions: boolean
+  /** Group local actions are restricted to (`#` scope, once a group is typed) */
+  group?: string
+  /** Endpoints queried */
+  endpointIds: string[]
+}
+
+/**
+ * A query prefix available in the omnibar, listed as a hint when the query is empty
+ */
+export interface OmnibarPrefixHint {
+  prefix: string
+  /** What it searches */
+  label: string
+}
+
+/**
+ * Find the scope of a prefixed query (null if unprefixed). Endpoints' prefixes take precedence over built-in ones.
+ */
+function parseScope(
+  query: string,
+  actions: ActionRegistry,
+  endpoints: Map<string, RegisteredEndpoint> | undefined,
+  matcher: SearchMatcher,
+): OmnibarScope | null {
+  const scoped = Array.from(endpoints?.values() ?? []).filter(ep => ep.config.prefix && query.startsWith(ep.config.prefix))
+  if (scoped.length > 0) {
+    // Longest prefix wins ("@@" over "@")
+    const prefix = scoped.map(ep => ep.config.prefix!).reduce((a, b) => b.length > a.length ? b : a)
+    const matching = scoped.filter(ep => ep.config.prefix === prefix)
+    return {
+      prefix,
+      label: matching[0].config.group ?? matching[0].id,
+      query: query.slice(prefix.length).trimStart(),
+      actions: false,
+      endpointIds: matching.map(ep => ep.id),
+    }
+  }
+
+  if (query.startsWith(OMNIBAR_ACTIONS_PREFIX)) {
+    const rest = query.slice(OMNIBAR_ACTIONS_PREFIX.length).trimStart()
+    return { prefix: OMNIBAR_ACTIONS_PREFIX, label: 'Actions', query: rest, actions: true, endpointIds: [] }
+  }
+
+  if (query.startsWith(OMNIBAR_GROUP_PREFIX)) {
+    // The first word picks the group it best matches
+    const [, word, rest] = /^(\S*)\s*(.*)$/s.exec(query.slice(OMNIBAR_GROUP_PREFIX.length))!
+    const scope = { prefix: OMNIBAR_GROUP_PREFIX, query: rest, endpointIds: [] }
+    if (!word) return { ...scope, label: 'Group', actions: true }
+    let group: string | undefined
+    let bestScore = 0
+    for (const action of Object.values(actions)) {
+      if (!action.group || action.group === group) continue
+      const match = matcher(word, action.group)
+      if (match.matched && match.score > bestScore) {
+        group = action.group
+        bestScore = match.score
+      }
+    }
+    return group ? { ...scope, label: group, actions: true, group } : { ...scope, label: word, actions: false }
+  }
+
+  return null
+}
+
 /**
  * Result from remote endpoint, normalized for display
  */
@@ -37,6 +159,10 @@ export interface RemoteOmnibarResult {
   score: number
   /** Matched ranges in label for highlighting */
   labelMatches: Array<[number, number]>
+  /** Matched ranges in the description, if any matched */
+  descriptionMatches?: Array<[number, number]>
+  /** Matched ranges in keywords, by keyword (only those that matched) */
+  keywordMatches?: Record<string, Array<[number, number]>>
 }
 
 /**
@@ -58,14 +184,16 @@ export interface UseOmnibarOptions {
   handlers?: HandlerMap
   /** Current keymap (to show bindings in results) */
   keymap?: HotkeyMap
+  /** Key that `<leader>` in bindings stands for (default: `space`) */
+  leader?: string
   /** Hotkey to open omnibar (default: 'meta+k') */
   openKey?: string
   /** Whether omnibar hotkey is enabled (default: true) */
   enabled?: boolean
   /** Called when an action is executed (if handlers not provided, or in addition to) */
-  onExecute?: (actionId: string, captures?: number[]) => void
-  /** Called when a remote entry is executed */
-  onExecuteRemote?: (entry: OmnibarEntry) => void
+  onExecute?: (actionId: string, captures?: number[], args?: ActionArgs) => void
+  /** Called when a remote entry is executed (with its result ID, `endpointId:entryId`) */
+  onExecuteRemote?: (entry: OmnibarEntry, id: string) => void
   /** Called when omnibar opens */
   onOpen?: () => void
   /** Called when omnibar closes */
@@ -76,8 +204,10 @@ export interface UseOmnibarOptions {
   endpointsRegistry?: OmnibarEndpointsRegistryValue
   /** Debounce time for remote queries in ms (default: 150) */
   debounceMs?: number
-  /** Recently executed action IDs to show first when query is empty */
-  recentActionIds?: string[]
+  /** Usage of actions and remote entries, by ID: used ones rank higher, and come first when the query is empty */
+  actionUsage?: Record<string, ActionUsage>
+  /** How query words match actions, choices and remote entries (default: `smartMatch`) */
+  matcher?: SearchMatcher
 }
 
 export interface UseOmnibarResult {
@@ -93,6 +223,10 @@ export interface UseOmnibarResult {
   query: string
   /** Set the search query */
   setQuery: (query: string) => void
+  /** Sources the query is restricted to by its prefix (`>`, `#`, or an endpoint's), null if unprefixed */
+  scope: OmnibarScope | null
+  /** Query prefixes available (built-in, then endpoints'), e.g. to hint at when the query is empty */
+  prefixes: OmnibarPrefixHint[]
   /** Local action search results (filtered and sorted) */
   results: ActionSearchResult[]
   /** Remote endpoint results */
@@ -123,10 +257,28 @@ export interface UseOmnibarResult {
   isAwaitingSequence: boolean
   /** Action ID pending parameter entry (null if not awaiting input) */
   pendingParamAction: string | null
-  /** Submit parameter value for pending action */
+  /** The pending action's param being prompted for (null while awaiting its digit-placeholder value) */
+  pendingParam: ActionParam | null
+  /** The pending action's params entered so far */
+  pendingArgs: ActionArgs
+  /** Submit the digit-placeholder value for the pending action */
   submitParam: (value: number) => void
+  /** Submit the value of `pendingParam` (`undefined` to skip an optional one); runs the action once none remain */
+  submitArg: (value: ActionArgValue | undefined) => void
   /** Cancel parameter entry */
   cancelParam: () => void
+  /** Drill-down pages open, outermost first (empty on the main page) */
+  stack: OmnibarPage[]
+  /** Choices on the current page (replacing `results` and `remoteResults` while a page is open) */
+  choiceResults: OmnibarChoiceResult[]
+  /** Whether the current page's `choices` provider is loading */
+  isLoadingChoices: boolean
+  /** Error from the current page's `choices` provider, if its last load failed */
+  choicesError: Error | null
+  /** Pick a choice: open its nested page, or run the page's action with it */
+  selectChoice: (choice: ActionChoice) => void
+  /** Go back up a page, or to `depth` pages deep (0: the main page) */
+  popPage: (depth?: number) => void
 }
 
 /**
@@ -191,6 +343,7 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
     actions,
     handlers,
     keymap = {},
+    leader,
     openKey = 'meta+k',
     enabled = true,
     onExecute,
@@ -200,7 +353,8 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
     maxResults,
     endpointsRegistry,
     debounceMs = DEFAULT_DEBOUNCE_MS,
-    recentActionIds = [],
+    actionUsage,
+    matcher = smartMatch,
   } = options
 
   const [isOpen, setIsOpen] = useState(false)
@@ -208,8 +362,47 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
   const [selectedIndex, setSelectedIndex] = useState(0)
   // Per-endpoint pagination state
   const [endpointStates, setEndpointStates] = useState<Map<string, EndpointState>>(new Map())
-  // Pending parameter entry (for placeholder actions)
-  const [pendingParamAction, setPendingParamAction] = useState<string | null>(null)
+  // Drill-down pages (for actions with choices), and the choices their providers returned
+  const [stack, setStack] = useState<PageState[]>([])
+  const page = stack.length > 0 ? stack[stack.length - 1] : null
+  const isOnPage = page !== null
+
+  // Sources a prefixed query is restricted to (none on drill-down pages, which filter their choices)
+  const endpoints = endpointsRegistry?.endpoints
+  const scope = useMemo(
+    () => isOnPage ? null : parseScope(query, actions, endpoints, matcher),
+    [isOnPage, query, actions, endpoints, matcher],
+  )
+  const searchQuery = scope ? scope.query : query
+
+  // Prefixes to hint at: built-in ones, then endpoints'
+  const prefixes = useMemo(() => {
+    const hints: OmnibarPrefixHint[] = [
+      { prefix: OMNIBAR_ACTIONS_PREFIX, label: 'Actions' },
+      { prefix: OMNIBAR_GROUP_PREFIX, label: 'Actions in a group' },
+    ]
+    for (const ep of endpoints?.values() ?? []) {
+      const { prefix } = ep.config
+      if (!prefix) continue
+      const hint = { prefix, label: ep.config.group ?? ep.id }
+      // An endpoint's prefix overrides a built-in one; endpoints sharing one are listed once
+      const existing = hints.findIndex(h => h.prefix === prefix)
+      if (existing < 0) hints.push(hint)
+      else if (existing < 2) hints[existing] = hint
+    }
+    return hints
+  }, [endpoints])
+  const [providedChoices, setProvidedChoices] = useState<ActionChoice[]>([])
+  const [isLoadingChoices, setIsLoadingChoices] = useState(false)
+  const [choicesError, setChoicesError] = useState<Error | null>(null)
+
+  // Pending parameter entry (for placeholder actions and actions with params)
+  const [paramPrompt, setParamPrompt] = useState<ParamPrompt | null>(null)
+  const pendingParamAction = paramPrompt?.actionId ?? null
+  const pendingArgs = paramPrompt?.args ?? NO_ARGS
+  const pendingParam = paramPrompt && !paramPrompt.needsCaptures
+    ? actions[paramPrompt.actionId]?.params?.find(param => !(param.name in paramPrompt.args)) ?? null
+    : null
 
   // Refs for stable callbacks
   const handlersRef = useRef(handlers)
@@ -224,8 +417,8 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
   // Refs for abort controller, debounce timer, and current query
   const abortControllerRef = useRef<AbortController | null>(null)
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
-  const currentQueryRef = useRef(query)
-  currentQueryRef.current = query
+  const currentQueryRef = useRef(searchQuery)
+  currentQueryRef.current = searchQuery
 
   // Register omnibar hotkey
   const omnibarKeymap = useMemo(() => {
@@ -251,45 +444,95 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
     { enabled },
   )
 
-  // Search results (local actions)
+  // Search results (local actions; none while a drill-down page is open, or scoped to endpoints)
   const results = useMemo(() => {
-    const allResults = searchActions(query, actions, keymap)
-
-    // When query is empty, show recent actions first
-    if (!query.trim() && recentActionIds.length > 0) {
-      // Build a map of action -> bindings for lookup
-      const actionBindings = getActionBindings(keymap)
-
-      // Build results for recent actions that still exist
-      const recentResults: ActionSearchResult[] = []
-      const recentIdSet = new Set<string>()
-
-      for (const actionId of recentActionIds) {
-        const action = actions[actionId]
-        if (action) {
-          const bindings = actionBindings.get(actionId) ?? []
-          const hasPlaceholders = hasAnyPlaceholderBindings(bindings)
-          recentResults.push({
-            id: actionId,
-            action,
-            bindings,
-            score: 1000, // High score to ensure they appear first
-            labelMatches: [],
-            ...(hasPlaceholders && { hasPlaceholders: true }),
-          })
-          recentIdSet.add(actionId)
-        }
-      }
-
-      // Filter out recents from the rest of the results to avoid duplicates
-      const otherResults = allResults.filter(r => !recentIdSet.has(r.id))
-
-      const merged = [...recentResults, ...otherResults]
+    if (page || (scope && !scope.actions)) return []
+    const group = scope?.group
+    const scopedActions = group
+      ? Object.fromEntries(Object.entries(actions).filter(([, action]) => action.group === group))
+      : actions
+    const allResults = searchActions(searchQuery, scopedActions, keymap, actionUsage, matcher)
+
+    // When query is empty, show used actions first, most frecent first
+    if (!searchQuery.trim() && actionUsage) {
+      const now = Date.now()
+      const usedResults = allResults
+        .filter(r => r.id in actionUsage)
+        .sort((a, b) => frecencyScore(actionUsage[b.id], now) - frecencyScore(actionUsage[a.id], now))
+      const otherResults = allResults.filter(r => !(r.id in actionUsage))
+
+      const merged = [...usedResults, ...otherResults]
       return maxResults != null ? merged.slice(0, maxResults) : merged
     }
 
     return maxResults != null ? allResults.slice(0, maxResults) : allResults
-  }, [query, actions, keymap, maxResults, recentActionIds])
+  }, [page, scope, searchQuery, actions, keymap, maxResults, actionUsage, matcher])
+
+  // Choices on the current page: static ones fuzzy-filtered, or the provider's for the query
+  useEffect(() => {
+    const provider = page && !page.children ? actions[page.actionId]?.choices : undefined
+    setChoicesError(null)
+    if (!provider) {
+      setProvidedChoices([])
+      setIsLoadingChoices(false)
+      return
+    }
+    const controller = new AbortController()
+    const fail = (error: unknown) => {
+      console.error(`Choices for action "${page?.actionId}" failed:`, error)
+      setProvidedChoices([])
+      setChoicesError(error instanceof Error ? error : new Error(String(error)))
+      setIsLoadingChoices(false)
+    }
+    let provided: ActionChoice[] | Promise<ActionChoice[]>
+    try {
+      provided = provider(query, controller.signal)
+    } catch (error) {
+      fail(error)
+      return
+    }
+    if (provided instanceof Promise) {
+      setIsLoadingChoices(true)
+      provided.then(
+        choices => {
+          if (controller.signal.aborted) return
+          setProvidedChoices(choices)
+          setIsLoadingChoices(false)
+        },
+        error => {
+          if (!controller.signal.aborted) fail(error)
+        },
+      )
+    } else {
+      setProvidedChoices(provided)
+      setIsLoadingChoices(false)
+    }
+    return () => controller.abort()
+  }, [page, query, actions])
+
+  const choiceResults = useMemo((): OmnibarChoiceResult[] => {
+    if (!page) return []
+    if (!page.children) {
+      return providedChoices.map(choice => ({
+        choice,
+        labelMatches: matchSearchFields(query, [{ text: choice.label ?? choice.value, weight: 1 }], matcher).ranges[0],
+      }))
+    }
+    if (!query.trim()) return page.children.map(choice => ({ choice, labelMatches: [] }))
+    return page.children
+      .map(choice => {
+        const { matched, score, ranges } = matchSearchFields(query, [
+          { text: choice.label ?? choice.value, weight: 3 },
+          { text: choice.value, weight: 1, group: 'other' },
+          { text: choice.description, weight: 1, group: 'other' },
+          ...(choice.keywords ?? []).map(text => ({ text, weight: 1, group: 'other' })),
+        ], matcher)
+        return { choice, labelMatches: ranges[0], matched, score }
+      })
+      .filter(({ matched }) => matched)
+      .sort((a, b) => b.score - a.score)
+      .map(({ choice, labelMatches }) => ({ choice, labelMatches }))
+  }, [page, providedChoices, query, matcher])
 
   // Query endpoints - sync immediately, async debounced
   useEffect(() => {
@@ -305,16 +548,22 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
       abortControllerRef.current = null
     }
 
-    // Skip if no endpoints registry
-    if (!endpointsRegistry) {
+    // Skip if no endpoints registry (or while a drill-down page is open)
+    if (!endpointsRegistry || isOnPage) {
       setEndpointStates(new Map())
       return
     }
 
+    // A prefixed query only reaches its endpoints; drop others' stale results
+    if (scope) {
+      setEndpointStates(prev => new Map([...prev].filter(([id]) => scope.endpointIds.includes(id))))
+    }
+
     // Separate sync and async endpoints
     const syncEndpoints: string[] = []
     const asyncEndpoints: string[] = []
     for (const [id, ep] of endpointsRegistry.endpoints) {
+      if (scope && !scope.endpointIds.includes(id)) continue
       if (ep.config.isSync) {
         syncEndpoints.push(id)
       } else {
@@ -340,7 +589,7 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
       const syncController = new AbortController()
       Promise.all(
         syncEndpoints.map(id =>
-          endpointsRegistry.queryEndpoint(id, query, { offset: 0, limit: endpointsRegistry.endpoints.get(id)?.config.pageSize ?? 10 }, syncController.signal)
+          endpointsRegistry.queryEndpoint(id, searchQuery, { offset: 0, limit: endpointsRegistry.endpoints.get(id)?.config.pageSize ?? 10 }, syncController.signal)
         )
       ).then(results => {
         if (syncController.signal.aborted) return
@@ -381,7 +630,7 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
         try {
           const results = await Promise.all(
             asyncEndpoints.map(id =>
-              endpointsRegistry.queryEndpoint(id, query, { offset: 0, limit: endpointsRegistry.endpoints.get(id)?.config.pageSize ?? 10 }, controller.signal)
+              endpointsRegistry.queryEndpoint(id, searchQuery, { offset: 0, limit: endpointsRegistry.endpoints.get(id)?.config.pageSize ?? 10 }, controller.signal)
             )
           )
 
@@ -424,7 +673,7 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
         abortControllerRef.current.abort()
       }
     }
-  }, [query, endpointsRegistry, debounceMs])
+  }, [searchQuery, scope, endpointsRegistry, debounceMs, isOnPage])
 
   // Load more results for a specific endpoint
   const loadMore = useCallback(async (endpointId: string) => {
@@ -490,47 +739,45 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
 
   // Compute flattened remote results from endpoint states
   const remoteResults = useMemo(() => {
-    if (!endpointsRegistry) return []
+    if (!endpointsRegistry || isOnPage) return []
 
     const processed: RemoteOmnibarResult[] = []
+    const now = Date.now()
 
     for (const [endpointId, state] of endpointStates) {
       // Skip entries for endpoints that no longer exist (were unregistered)
       const endpoint = endpointsRegistry.endpoints.get(endpointId)
       if (!endpoint) continue
+      // And for endpoints outside a prefixed query's scope
+      if (scope && !scope.endpointIds.includes(endpointId)) continue
 
       const priority = endpoint.config.priority ?? 0
 
       for (const entry of state.entries) {
-        // Score the entry against the query
-        const labelMatch = fuzzyMatch(query, entry.label)
-        const descMatch = entry.description ? fuzzyMatch(query, entry.description) : null
-        const keywordsMatch = entry.keywords?.map(k => fuzzyMatch(query, k)) ?? []
-
-        // Calculate weighted score
-        let score = 0
-        let labelMatches: Array<[number, number]> = []
-        if (labelMatch.matched) {
-          score = Math.max(score, labelMatch.score * 3)
-          labelMatches = labelMatch.ranges
-        }
-        if (descMatch?.matched) {
-          score = Math.max(score, descMatch.score * 1.5)
-        }
-        for (const km of keywordsMatch) {
-          if (km.matched) {
-            score = Math.max(score, km.score * 2)
-          }
-        }
-
-        processed.push({
-          id: `${endpointId}:${entry.id}`,
+        // Score the entry against the query, like local actions (the endpoint already chose which entries
+        // match, so non-matching ones stay, ranked last)
+        const keywords = entry.keywords ?? []
+        const { matched, score, ranges } = matchSearchFields(searchQuery, [
+          { text: entry.label, weight: 3 },
+          { text: entry.description, weight: 1.5 },
+          ...keywords.map(text => ({ text, weight: 2, group: 'keywords' })),
+        ], matcher)
+        const [labelMatches, descriptionMatches, ...keywordRanges] = ranges
+
+        // Boost entries used before (by result ID)
+        const id = `${endpointId}:${entry.id}`
+        const result: RemoteOmnibarResult = {
+          id,
           entry,
           endpointId,
           priority,
-          score: score || 1,
+          score: (matched ? score : 1) + frecencyBoost(actionUsage?.[id], now),
           labelMatches,
-        })
+        }
+        if (descriptionMatches.length) result.descriptionMatches = descriptionMatches
+        const keywordMatches = rangesByText(keywords, keywordRanges)
+        if (keywordMatches) result.keywordMatches = keywordMatches
+        processed.push(result)
       }
     }
 
@@ -541,7 +788,7 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
     })
 
     return processed
-  }, [endpointStates, endpointsRegistry, query])
+  }, [endpointStates, endpointsRegistry, scope, searchQuery, isOnPage, actionUsage, matcher])
 
   // Compute isLoadingRemote
   const isLoadingRemote = useMemo(() => {
@@ -572,22 +819,23 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
   }, [endpointStates, endpointsRegistry])
 
   // Total results count
-  const totalResults = results.length + remoteResults.length
+  const totalResults = page ? choiceResults.length : results.length + remoteResults.length
 
   // Sequence completions (based on pending keys from main hotkey handler, not omnibar)
   const completions = useMemo(() => {
-    return getSequenceCompletions(pendingKeys, keymap, actions)
-  }, [pendingKeys, keymap, actions])
+    return getSequenceCompletions(pendingKeys, keymap, actions, leader)
+  }, [pendingKeys, keymap, actions, leader])
 
   // Reset selection when results change
   useEffect(() => {
     setSelectedIndex(0)
-  }, [results, remoteResults])
+  }, [results, remoteResults, choiceResults])
 
   const open = useCallback(() => {
     setIsOpen(true)
     setQuery('')
     setSelectedIndex(0)
+    setStack([])
     onOpen?.()
   }, [onOpen])
 
@@ -595,6 +843,7 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
     setIsOpen(false)
     setQuery('')
     setSelectedIndex(0)
+    setStack([])
     onClose?.()
   }, [onClose])
 
@@ -604,6 +853,7 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
       if (next) {
         setQuery('')
         setSelectedIndex(0)
+        setStack([])
         onOpen?.()
       } else {
         onClose?.()
@@ -624,16 +874,72 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
     setSelectedIndex(0)
   }, [])
 
-  const executeWithCaptures = useCallback((actionId: string, captures?: number[]) => {
+  const executeWithCaptures = useCallback((actionId: string, captures?: number[], args?: ActionArgs) => {
     close()
     if (handlersRef.current?.[actionId]) {
       const event = new KeyboardEvent('keydown', { key: 'Enter' })
-      handlersRef.current[actionId](event, captures)
+      handlersRef.current[actionId](event, captures, args)
     }
-    onExecuteRef.current?.(actionId, captures)
+    onExecuteRef.current?.(actionId, captures, args)
   }, [close])
 
+  // Prompt for whatever the action still needs, or run it
+  const promptOrExecute = useCallback((prompt: ParamPrompt) => {
+    const params = actions[prompt.actionId]?.params ?? []
+    if (prompt.needsCaptures || params.some(param => !(param.name in prompt.args))) {
+      setParamPrompt(prompt)
+      return
+    }
+    setParamPrompt(null)
+    executeWithCaptures(prompt.actionId, prompt.captures, Object.keys(prompt.args).length > 0 ? prompt.args : undefined)
+  }, [actions, executeWithCaptures])
+
+  const executeResult = useCallback((actionId: string, result: ActionSearchResult | undefined, captures?: number[]) => {
+    const effectiveCaptures = captures ?? result?.captures
+    const prompt: ParamPrompt = {
+      actionId,
+      // If action has placeholders but no captures, prompt for parameter
+      needsCaptures: !!result?.hasPlaceholders && !effectiveCaptures?.length,
+      captures: effectiveCaptures,
+      args: { ...result?.args },
+    }
+    // Actions with choices open a page of them first
+    const action = actions[actionId]
+    if (action?.children || action?.choices) {
+      setStack(prev => [...prev, { actionId, label: action.label, children: action.children, parentQuery: query, prompt }])
+      setQuery('')
+      return
+    }
+    promptOrExecute(prompt)
+  }, [actions, query, promptOrExecute])
+
+  const selectChoice = useCallback((choice: ActionChoice) => {
+    if (!page) return
+    if (choice.children) {
+      const label = choice.label ?? choice.value
+      setStack(prev => [...prev, { ...page, label, children: choice.children, parentQuery: query }])
+      setQuery('')
+      return
+    }
+    setStack([])
+    promptOrExecute({ ...page.prompt, args: { ...page.prompt.args, choice: choice.value } })
+  }, [page, query, promptOrExecute])
+
+  const popPage = useCallback((depth?: number) => {
+    const target = depth ?? stack.length - 1
+    if (target < 0 || target >= stack.length) return
+    setQuery(stack[target].parentQuery)
+    setStack(stack.slice(0, target))
+  }, [stack])
+
   const execute = useCallback((actionId?: string, captures?: number[]) => {
+    // On a drill-down page, pick the selected choice
+    if (page && !actionId) {
+      const choice = choiceResults[selectedIndex]?.choice
+      if (choice) selectChoice(choice)
+      return
+    }
+
     // Determine if executing a local action or remote entry
     const localCount = results.length
 
@@ -647,22 +953,12 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
         if ('handler' in entry && entry.handler) {
           entry.handler()
         }
-        onExecuteRemoteRef.current?.(entry)
+        onExecuteRemoteRef.current?.(entry, remoteResult.id)
         return
       }
 
-      // Find the result to check for placeholders
-      const result = results.find(r => r.id === actionId)
-      const effectiveCaptures = captures ?? result?.captures
-
-      // If action has placeholders but no captures, prompt for parameter
-      if (result?.hasPlaceholders && !effectiveCaptures?.length) {
-        setPendingParamAction(actionId)
-        return
-      }
-
-      // Execute with captures
-      executeWithCaptures(actionId, effectiveCaptures)
+      // Find the result to check for placeholders and params
+      executeResult(actionId, results.find(r => r.id === actionId), captures)
       return
     }
 
@@ -672,15 +968,7 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
       const result = results[selectedIndex]
       if (!result) return
 
-      const effectiveCaptures = captures ?? result.captures
-
-      // If action has placeholders but no captures, prompt for parameter
-      if (result.hasPlaceholders && !effectiveCaptures?.length) {
-        setPendingParamAction(result.id)
-        return
-      }
-
-      executeWithCaptures(result.id, effectiveCaptures)
+      executeResult(result.id, result, captures)
     } else {
       // Remote entry
       const remoteIndex = selectedIndex - localCount
@@ -692,19 +980,24 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
       if ('handler' in entry && entry.handler) {
         entry.handler()
       }
-      onExecuteRemoteRef.current?.(entry)
+      onExecuteRemoteRef.current?.(entry, remoteResult.id)
     }
-  }, [results, remoteResults, selectedIndex, close, executeWithCaptures])
+  }, [page, choiceResults, selectChoice, results, remoteResults, selectedIndex, close, executeResult])
 
   const submitParam = useCallback((value: number) => {
-    if (pendingParamAction) {
-      executeWithCaptures(pendingParamAction, [value])
-      setPendingParamAction(null)
+    if (paramPrompt) {
+      promptOrExecute({ ...paramPrompt, needsCaptures: false, captures: [value] })
+    }
+  }, [paramPrompt, promptOrExecute])
+
+  const submitArg = useCallback((value: ActionArgValue | undefined) => {
+    if (paramPrompt && pendingParam) {
+      promptOrExecute({ ...paramPrompt, args: { ...paramPrompt.args, [pendingParam.name]: value } })
     }
-  }, [pendingParamAction, executeWithCaptures])
+  }, [paramPrompt, pendingParam, promptOrExecute])
 
   const cancelParam = useCallback(() => {
-    setPendingParamAction(null)
+    setParamPrompt(null)
   }, [])
 
   // Handle keyboard navigation when open
@@ -754,6 +1047,8 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
     toggle,
     query,
     setQuery,
+    scope,
+    prefixes,
     results,
     remoteResults,
     isLoadingRemote,
@@ -769,7 +1064,16 @@ export function useOmnibar(options: UseOmnibarOptions): UseOmnibarResult {
     pendingKeys,
     isAwaitingSequence,
     pendingParamAction,
+    pendingParam,
+    pendingArgs,
     submitParam,
+    submitArg,
     cancelParam,
+    stack,
+    choiceResults,
+    isLoadingChoices,
+    choicesError,
+    selectChoice,
+    popPage,
   }
 }
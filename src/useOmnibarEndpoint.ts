@@ -32,6 +32,7 @@ type FilterFn = (query: string, pagination: EndpointPagination) => EndpointRespo
  *     }
  *   },
  *   group: 'Users',
+ *   prefix: '@', // "@ali" searches only users
  * })
  * ```
  *
@@ -88,6 +89,7 @@ export function useOmnibarEndpoint(id: string, config: OmnibarEndpointConfig): v
       enabled: config.enabled,
       pageSize: config.pageSize,
       pagination: config.pagination,
+      prefix: config.prefix,
       isSync: isSyncRef.current, // Track sync endpoints to skip debouncing
       fetch: async (query, signal, pagination) => {
         if (!enabledRef.current) return { entries: [] }
@@ -112,6 +114,7 @@ export function useOmnibarEndpoint(id: string, config: OmnibarEndpointConfig): v
     config.minQueryLength,
     config.pageSize,
     config.pagination,
+    config.prefix,
     // Note: we use refs for fetch/filter and enabled, so they don't cause re-registration
   ])
 }
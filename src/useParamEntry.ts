@@ -1,13 +1,21 @@
-import { useCallback, useRef, useState, KeyboardEvent } from 'react'
+import { useCallback, useMemo, useRef, useState, KeyboardEvent } from 'react'
+import { getParamSuggestions, parseParamValue } from './utils'
+import type { ActionArgValue, ActionParam } from './types'
+
+const { max } = Math
 
 export interface PendingAction {
   id: string
   label: string
+  /** The action param being entered (default: a number for a digit placeholder) */
+  param?: ActionParam
 }
 
 export interface UseParamEntryOptions {
-  /** Called when parameter is submitted */
+  /** Called when a digit-placeholder value is submitted */
   onSubmit: (actionId: string, captures: number[]) => void
+  /** Called when a `param` value is submitted (`undefined` for a skipped optional param) */
+  onSubmitArg?: (actionId: string, value: ActionArgValue | undefined) => void
   /** Called when parameter entry is cancelled */
   onCancel?: () => void
 }
@@ -27,14 +35,23 @@ export interface UseParamEntryReturn {
   submitParam: () => void
   /** Cancel parameter entry */
   cancelParam: () => void
-  /** Keyboard handler for the parameter input */
+  /** Keyboard handler for the parameter input (↑/↓ pick a suggestion, Tab completes it) */
   handleParamKeyDown: (e: KeyboardEvent<HTMLInputElement>) => void
+  /** Suggested values for the current `param` (filtered by the value typed so far) */
+  suggestions: string[]
+  /** Index of the highlighted suggestion (-1 if none); Enter submits it */
+  suggestionIndex: number
+  /** Submit a suggestion */
+  selectSuggestion: (value: string) => void
+  /** Whether the current value is valid for the param (always true while empty) */
+  isParamValid: boolean
   /** Whether currently in parameter entry mode */
   isEnteringParam: boolean
 }
 
 /**
- * Hook for managing parameter entry state for actions with digit placeholders.
+ * Hook for managing parameter entry state for actions with digit placeholders,
+ * or with `params` (entered one at a time, as `PendingAction.param`, with suggestions).
  *
  * @example
  * ```tsx
@@ -61,12 +78,23 @@ export interface UseParamEntryReturn {
  */
 export function useParamEntry({
   onSubmit,
+  onSubmitArg,
   onCancel,
 }: UseParamEntryOptions): UseParamEntryReturn {
   const [pendingAction, setPendingAction] = useState<PendingAction | null>(null)
-  const [paramValue, setParamValue] = useState('')
+  const [paramValue, setParamValueState] = useState('')
+  const [suggestionIndex, setSuggestionIndex] = useState(-1)
   const paramInputRef = useRef<HTMLInputElement>(null)
 
+  const param = pendingAction?.param
+  const suggestions = useMemo(() => param ? getParamSuggestions(param, paramValue) : [], [param, paramValue])
+  const isParamValid = !param || !paramValue.trim() || parseParamValue(param, paramValue) !== undefined
+
+  const setParamValue = useCallback((value: string) => {
+    setParamValueState(value)
+    setSuggestionIndex(-1)
+  }, [])
+
   const startParamEntry = useCallback((action: PendingAction) => {
     setPendingAction(action)
     setParamValue('')
@@ -74,35 +102,55 @@ export function useParamEntry({
     requestAnimationFrame(() => {
       paramInputRef.current?.focus()
     })
-  }, [])
-
-  const submitParam = useCallback(() => {
-    if (!pendingAction || !paramValue) return
-    const num = parseFloat(paramValue)
-    if (isNaN(num)) return
+  }, [setParamValue])
 
-    onSubmit(pendingAction.id, [num])
+  const submitValue = useCallback((text: string) => {
+    if (!pendingAction) return
+    if (pendingAction.param) {
+      const { param } = pendingAction
+      const value = parseParamValue(param, text)
+      if (value === undefined && (text.trim() || !param.optional)) return
+      onSubmitArg?.(pendingAction.id, value)
+    } else {
+      if (!text) return
+      const num = parseFloat(text)
+      if (isNaN(num)) return
+      onSubmit(pendingAction.id, [num])
+    }
     setPendingAction(null)
     setParamValue('')
-  }, [pendingAction, paramValue, onSubmit])
+  }, [pendingAction, onSubmit, onSubmitArg, setParamValue])
+
+  const submitParam = useCallback(() => {
+    submitValue(suggestionIndex >= 0 ? suggestions[suggestionIndex] : paramValue)
+  }, [submitValue, suggestionIndex, suggestions, paramValue])
 
   const cancelParam = useCallback(() => {
     setPendingAction(null)
     setParamValue('')
     onCancel?.()
-  }, [onCancel])
+  }, [onCancel, setParamValue])
 
   const handleParamKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       e.preventDefault()
-      if (paramValue) {
+      if (paramValue || param?.optional || suggestionIndex >= 0) {
         submitParam()
       }
     } else if (e.key === 'Escape') {
       e.preventDefault()
       cancelParam()
+    } else if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && suggestions.length > 0) {
+      e.preventDefault()
+      // Cycle through the suggestions, and back to the typed value (-1)
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      const count = suggestions.length + 1
+      setSuggestionIndex(prev => (prev + 1 + step + count) % count - 1)
+    } else if (e.key === 'Tab' && suggestions.length > 0) {
+      e.preventDefault()
+      setParamValue(suggestions[max(suggestionIndex, 0)])
     }
-  }, [paramValue, submitParam, cancelParam])
+  }, [paramValue, param, suggestions, suggestionIndex, submitParam, cancelParam, setParamValue])
 
   return {
     pendingAction,
@@ -113,6 +161,10 @@ export function useParamEntry({
     submitParam,
     cancelParam,
     handleParamKeyDown,
+    suggestions,
+    suggestionIndex,
+    selectSuggestion: submitValue,
+    isParamValid,
     isEnteringParam: pendingAction !== null,
   }
 }
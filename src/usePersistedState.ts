@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { isPromise, loadValues, saveValue } from './storage'
+import type { StorageAdapter } from './storage'
+
+/**
+ * State persisted under a single key: loaded on mount, saved on update, and updated
+ * when changed elsewhere (e.g. in another tab).
+ * @param key - Storage key (undefined disables persistence)
+ * @param parse - Map a stored value (`undefined` if absent) to state; should be stable
+ */
+export function usePersistedState<T>(
+  storage: StorageAdapter,
+  key: string | undefined,
+  parse: (value: unknown) => T,
+): [T, (update: T | ((prev: T) => T)) => void] {
+  // Set when `load` is async, so the stored value is applied after mount
+  const pendingLoadRef = useRef(false)
+  const [value, setValue] = useState<T>(() => {
+    if (!key) return parse(undefined)
+    const loaded = loadValues(storage, [key])
+    if (isPromise(loaded)) {
+      pendingLoadRef.current = true
+      return parse(undefined)
+    }
+    return parse(loaded[0])
+  })
+  // Latest value, for computing updates outside of React's (pure) state updaters
+  const valueRef = useRef(value)
+  // Set by `update`, so a pending async load doesn't overwrite a newer local value
+  const updatedRef = useRef(false)
+
+  useEffect(() => {
+    if (!key) return
+    let cancelled = false
+    const apply = (stored: unknown) => {
+      valueRef.current = parse(stored)
+      setValue(valueRef.current)
+    }
+    if (pendingLoadRef.current) {
+      pendingLoadRef.current = false
+      Promise.resolve(loadValues(storage, [key])).then(([loaded]) => {
+        if (!cancelled && !updatedRef.current) apply(loaded)
+      }).catch(error => {
+        console.error(`Failed to load stored state "${key}":`, error)
+      })
+    }
+    const unsubscribe = storage.subscribe?.(key, apply)
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+    }
+  }, [storage, key, parse])
+
+  const update = useCallback((update: T | ((prev: T) => T)) => {
+    const next = typeof update === 'function' ? (update as (prev: T) => T)(valueRef.current) : update
+    valueRef.current = next
+    updatedRef.current = true
+    if (key) saveValue(storage, key, next ?? undefined)
+    setValue(next)
+  }, [storage, key])
+
+  return [value, update]
+}
@@ -0,0 +1,37 @@
+import { useContext, useEffect, useRef } from 'react'
+import { ActionsRegistryContext } from './ActionsRegistry'
+import type { PrefixConfig } from './types'
+
+/**
+ * Label a key-sequence prefix while the component is mounted. `SequenceModal` then shows the keys
+ * following it as a which-key style grid, where deeper prefixes collapse to their labels; `LookupModal`
+ * nests bindings under their prefixes, and `ShortcutsModal` heads each group's prefixed bindings with it.
+ *
+ * @example
+ * ```tsx
+ * function App() {
+ *   usePrefix('g', { label: 'Go to…' })
+ *   usePrefix('space w', { label: 'Windows' })
+ *
+ *   useAction('nav:inbox', { label: 'Inbox', defaultBindings: ['g i'], handler: openInbox })
+ *   // ...
+ * }
+ * ```
+ */
+export function usePrefix(keys: string, config: PrefixConfig): void {
+  const registry = useContext(ActionsRegistryContext)
+  if (!registry) {
+    throw new Error('usePrefix must be used within a HotkeysProvider')
+  }
+
+  const registryRef = useRef(registry)
+  registryRef.current = registry
+
+  useEffect(() => {
+    registryRef.current.registerPrefix(keys, config)
+    return () => {
+      registryRef.current.unregisterPrefix(keys)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [keys, config.label, config.description])
+}
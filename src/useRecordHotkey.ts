@@ -1,7 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
-import { DEFAULT_SEQUENCE_TIMEOUT } from './constants'
+import { DEFAULT_SEQUENCE_TIMEOUT, PHYSICAL_KEY_PREFIX } from './constants'
 import { dbg } from './debug'
-import { DIGIT_PLACEHOLDER, DIGITS_PLACEHOLDER, formatCombination, isModifierKey, isShiftedSymbol, normalizeKey } from './utils'
+import { DIGIT_PLACEHOLDER, DIGITS_PLACEHOLDER, chordKey, formatCombination, isLayoutSymbol, isModifierKey, normalizeKey, normalizePhysicalCode } from './utils'
 import type { KeyCombination, HotkeySequence, RecordHotkeyOptions, RecordHotkeyResult } from './types'
 
 /** Store callback in ref to avoid effect re-runs when callback changes */
@@ -16,6 +16,7 @@ function useEventCallback<T extends (...args: never[]) => unknown>(fn: T | undef
  *
  * Recording behavior:
  * - Each key press (after modifiers released) adds to the sequence
+ * - Ordinary keys held down together record a chord (e.g. `j&k`)
  * - Enter key submits the current sequence
  * - Timeout submits the current sequence (configurable)
  * - Escape cancels recording
@@ -52,6 +53,7 @@ export function useRecordHotkey(options: RecordHotkeyOptions = {}): RecordHotkey
     preventDefault = true,
     sequenceTimeout = DEFAULT_SEQUENCE_TIMEOUT,
     pauseTimeout = false,
+    physical = false,
   } = options
 
   // Stabilize callbacks to avoid effect re-runs
@@ -69,6 +71,8 @@ export function useRecordHotkey(options: RecordHotkeyOptions = {}): RecordHotkey
   const pressedKeysRef = useRef<Set<string>>(new Set())
   const hasNonModifierRef = useRef(false)
   const currentComboRef = useRef<KeyCombination | null>(null)
+  // Physical code of the most recent non-modifier keydown (for `physical` recording)
+  const lastCodeRef = useRef<string | null>(null)
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   // Keep pauseTimeout in a ref for synchronous access in handlers
@@ -257,25 +261,34 @@ export function useRecordHotkey(options: RecordHotkeyOptions = {}): RecordHotkey
         key = e.code.slice(5)
       }
       pressedKeysRef.current.add(key)
+      if (!isModifierKey(e.key) && e.code) {
+        lastCodeRef.current = e.code
+      }
 
-      // Find the non-modifier key first
-      let nonModifierKey = ''
-      for (const k of pressedKeysRef.current) {
-        if (!isModifierKey(k)) {
-          nonModifierKey = normalizeKey(k)
-          hasNonModifierRef.current = true
-          break
-        }
+      // Find the non-modifier keys; several held together form a chord (`j&k`)
+      const nonModifierKeys = Array.from(pressedKeysRef.current).filter(k => !isModifierKey(k))
+      const nonModifierKey = nonModifierKeys.length > 1
+        ? chordKey(nonModifierKeys)
+        : nonModifierKeys.length === 1 ? normalizeKey(nonModifierKeys[0]) : ''
+      if (nonModifierKey) {
+        hasNonModifierRef.current = true
       }
 
+      // In physical mode, record the key's position (`code:keyz`) rather than its character
+      // (chords are always recorded by character)
+      const physicalKey = physical && nonModifierKeys.length === 1 && lastCodeRef.current
+        ? `${PHYSICAL_KEY_PREFIX}${normalizePhysicalCode(lastCodeRef.current)}`
+        : null
+
       // Build current combination from pressed keys
-      // Strip shift modifier for shifted symbols (e.g., # already implies shift)
+      // Strip shift modifier for symbols (e.g., # already implies shift, as does / on QWERTZ),
+      // but keep it for physical keys (shift+code:slash is distinct from code:slash)
       const combo: KeyCombination = {
-        key: nonModifierKey,
+        key: physicalKey ?? nonModifierKey,
         modifiers: {
           ctrl: e.ctrlKey,
           alt: e.altKey,
-          shift: e.shiftKey && !isShiftedSymbol(nonModifierKey),
+          shift: physicalKey ? e.shiftKey : e.shiftKey && !isLayoutSymbol(nonModifierKey),
           meta: e.metaKey,
         },
       }
@@ -391,7 +404,7 @@ export function useRecordHotkey(options: RecordHotkeyOptions = {}): RecordHotkey
       window.removeEventListener('keyup', handleKeyUp, true)
       clearTimeout_()
     }
-  }, [isRecording, preventDefault, sequenceTimeout, clearTimeout_, submit, cancel, onCapture, onTab, onShiftTab])
+  }, [isRecording, preventDefault, sequenceTimeout, physical, clearTimeout_, submit, cancel, onCapture, onTab, onShiftTab])
 
   const display = sequence ? formatCombination(sequence) : null
 
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { frecencyScore, recordUsage } from './utils'
+import type { ActionUsage } from './types'
+
+describe('recordUsage', () => {
+  const now = 1_700_000_000_000
+
+  it('counts uses, decaying earlier ones', () => {
+    let usage: Record<string, ActionUsage> = {}
+    usage = recordUsage(usage, 'a', 10, now)
+    usage = recordUsage(usage, 'a', 10, now)
+    expect(usage.a).toEqual({ count: 2, lastUsed: now })
+    expect(frecencyScore(usage.a, now + 7 * 24 * 60 * 60 * 1000)).toBeCloseTo(1)
+  })
+
+  it('keeps a newly used action when the history is full of more frecent ones', () => {
+    // A full history of actions used twice each
+    const usage: Record<string, ActionUsage> = Object.fromEntries(
+      ['a', 'b', 'c'].map(id => [id, { count: 2, lastUsed: now }]),
+    )
+    const next = recordUsage(usage, 'd', 3, now)
+    expect(next.d).toEqual({ count: 1, lastUsed: now })
+    expect(Object.keys(next)).toHaveLength(3)
+
+    // Used again, it's still there to build up frecency
+    expect(recordUsage(next, 'd', 3, now).d).toEqual({ count: 2, lastUsed: now })
+  })
+
+  it('evicts the least frecent of the other entries', () => {
+    const usage: Record<string, ActionUsage> = {
+      a: { count: 3, lastUsed: now },
+      b: { count: 2, lastUsed: now },
+      c: { count: 5, lastUsed: now },
+    }
+    const next = recordUsage(usage, 'd', 3, now)
+    expect(Object.keys(next).sort()).toEqual(['a', 'c', 'd'])
+  })
+})
@@ -1,6 +1,9 @@
-import type { KeyCombination, KeyCombinationDisplay, HotkeySequence, SeqElem, KeySeq, Modifiers } from './types'
+import { DEFAULT_LEADER_KEY, LEADER_TOKEN, PHYSICAL_KEY_PREFIX } from './constants'
+import { physicalKeyLabel } from './keyboardLayout'
+import { whenClausesExclusive } from './when'
+import type { KeyCombination, KeyCombinationDisplay, HotkeySequence, SeqElem, KeySeq, ModifierName, Modifiers, PrefixMenuItem, RegisteredPrefix, RenderStyle } from './types'
 
-const { max } = Math
+const { log2, max, min } = Math
 
 /**
  * Symbols that require Shift key on US keyboard layout.
@@ -49,13 +52,84 @@ const KEY_ALIASES: Record<string, string> = {
   'pgup': 'pageup',
   'pgdn': 'pagedown',
   'pgdown': 'pagedown',
+  'control': 'ctrl',
+  'option': 'alt',
+  'cmd': 'meta',
+  'command': 'meta',
+}
+
+/**
+ * Check if a (normalized) key is a physical-key binding, e.g. `code:keyz`
+ */
+export function isPhysicalKey(key: string): boolean {
+  return key.startsWith(PHYSICAL_KEY_PREFIX)
+}
+
+/**
+ * Check if a (normalized) key is a chord of ordinary keys pressed together, e.g. `j&k`
+ */
+export function isChordKey(key: string): boolean {
+  return key.length > 1 && key.includes('&') && key.split('&').every(k => k.length > 0)
+}
+
+/**
+ * The keys pressed together in a chord (`j&k` → `['j', 'k']`); just `[key]` for other keys
+ */
+export function chordKeys(key: string): string[] {
+  return isChordKey(key) ? key.split('&') : [key]
+}
+
+/**
+ * Canonical chord key for keys pressed together: normalized, deduplicated and sorted,
+ * so `K&j` and `j&k` are the same chord.
+ */
+export function chordKey(keys: string[]): string {
+  return Array.from(new Set(keys.map(normalizeKey))).sort().join('&')
+}
+
+/**
+ * Normalize a physical key code to canonical (lowercase) form.
+ * Single letters/digits are shorthand for their `Key*`/`Digit*` codes.
+ *
+ * @example
+ * normalizePhysicalCode('KeyZ')        // 'keyz'
+ * normalizePhysicalCode('z')           // 'keyz'
+ * normalizePhysicalCode('BracketLeft') // 'bracketleft'
+ */
+export function normalizePhysicalCode(code: string): string {
+  const lower = code.toLowerCase()
+  if (/^[a-z]$/.test(lower)) return `key${lower}`
+  if (/^[0-9]$/.test(lower)) return `digit${lower}`
+  return lower
+}
+
+/**
+ * Check if a pressed KeyCombination's key matches a binding's (normalized) key.
+ * Physical bindings (`code:...`) match on `KeyboardEvent.code`; others on `KeyboardEvent.key`.
+ * When the combination carries no code (e.g. typed into an input), a physical binding
+ * matches the character its key produces on the current layout.
+ */
+export function comboMatchesKey(combo: KeyCombination, key: string): boolean {
+  if (combo.key === key) return true
+  if (!isPhysicalKey(key)) return false
+  const code = key.slice(PHYSICAL_KEY_PREFIX.length)
+  if (combo.code) return normalizePhysicalCode(combo.code) === code
+  return combo.key === physicalKeyLabel(code)
 }
 
 /**
  * Normalize a key name to a canonical form.
- * Handles browser event key names (ArrowUp) and user-friendly aliases (up, left).
+ * Handles browser event key names (ArrowUp), user-friendly aliases (up, left),
+ * physical-key bindings (`code:KeyZ`, `phys:bracketleft` → `code:keyz`, `code:bracketleft`) and chords (`K&j` → `j&k`).
  */
 export function normalizeKey(key: string): string {
+  if (isChordKey(key)) return chordKey(key.split('&'))
+
+  const physical = /^(?:code|phys):(.+)$/i.exec(key)
+  if (physical) {
+    return `${PHYSICAL_KEY_PREFIX}${normalizePhysicalCode(physical[1])}`
+  }
+
   // Handle special keys from browser events (mixed case)
   const keyMap: Record<string, string> = {
     ' ': 'space',
@@ -101,9 +175,70 @@ export function normalizeKey(key: string): string {
 }
 
 /**
- * Format a key for display (platform-aware)
+ * Key names for the 'emacs' render style
+ */
+const EMACS_KEY_NAMES: Record<string, string> = {
+  'space': 'SPC',
+  'escape': 'ESC',
+  'enter': 'RET',
+  'tab': 'TAB',
+  'backspace': 'DEL',
+  'delete': '<delete>',
+  'insert': '<insert>',
+  'arrowup': '↑',
+  'arrowdown': '↓',
+  'arrowleft': '←',
+  'arrowright': '→',
+  'home': '<home>',
+  'end': '<end>',
+  'pageup': '<prior>',
+  'pagedown': '<next>',
+}
+
+/**
+ * Key names for the 'text' render style
+ */
+const TEXT_KEY_NAMES: Record<string, string> = {
+  'space': 'Space',
+  'escape': 'Escape',
+  'enter': 'Enter',
+  'tab': 'Tab',
+  'backspace': 'Backspace',
+  'delete': 'Delete',
+  'insert': 'Insert',
+  'arrowup': 'Up',
+  'arrowdown': 'Down',
+  'arrowleft': 'Left',
+  'arrowright': 'Right',
+  'home': 'Home',
+  'end': 'End',
+  'pageup': 'Page Up',
+  'pagedown': 'Page Down',
+}
+
+/**
+ * Format a key for display (platform-aware).
+ * Physical keys (`code:...`) display the label for the current keyboard layout, when known.
  */
-export function formatKeyForDisplay(key: string): string {
+export function formatKeyForDisplay(key: string, style: RenderStyle = 'icons'): string {
+  if (isChordKey(key)) {
+    return chordKeys(key).map(k => formatKeyForDisplay(k, style)).join('&')
+  }
+  if (isPhysicalKey(key)) {
+    return formatKeyForDisplay(physicalKeyLabel(key.slice(PHYSICAL_KEY_PREFIX.length)), style)
+  }
+
+  if (style === 'emacs') {
+    if (key in EMACS_KEY_NAMES) return EMACS_KEY_NAMES[key]
+    if (/^f\d{1,2}$/.test(key)) return `<${key}>`
+    return key
+  }
+  if (style === 'text') {
+    if (key in TEXT_KEY_NAMES) return TEXT_KEY_NAMES[key]
+    if (key.length === 1 || /^f\d{1,2}$/.test(key)) return key.toUpperCase()
+    return key
+  }
+
   const displayMap: Record<string, string> = {
     'space': 'Space',
     'escape': 'Esc',
@@ -154,10 +289,81 @@ export function isPlaceholderSentinel(key: string): boolean {
   return key === DIGIT_PLACEHOLDER || key === DIGITS_PLACEHOLDER || key === FLOAT_PLACEHOLDER
 }
 
+/**
+ * Display order of modifiers within a combination
+ */
+const MODIFIER_ORDER: ModifierName[] = ['ctrl', 'meta', 'alt', 'shift']
+
+/**
+ * Format a modifier for display in the given render style (platform-aware).
+ *
+ * @example
+ * formatModifier('alt')          // "⌥" on Mac, "Alt" elsewhere
+ * formatModifier('alt', 'emacs') // "M"
+ * formatModifier('alt', 'text')  // "Option" on Mac, "Alt" elsewhere
+ */
+export function formatModifier(modifier: ModifierName, style: RenderStyle = 'icons'): string {
+  const mac = isMac()
+  switch (style) {
+    case 'emacs':
+      return { ctrl: 'C', meta: 's', alt: 'M', shift: 'S' }[modifier]
+    case 'text':
+      return mac
+        ? { ctrl: 'Control', meta: 'Command', alt: 'Option', shift: 'Shift' }[modifier]
+        : { ctrl: 'Ctrl', meta: 'Win', alt: 'Alt', shift: 'Shift' }[modifier]
+    default:
+      return mac
+        ? { ctrl: '⌃', meta: '⌘', alt: '⌥', shift: '⇧' }[modifier]
+        : { ctrl: 'Ctrl', meta: 'Win', alt: 'Alt', shift: 'Shift' }[modifier]
+  }
+}
+
+/**
+ * Separator between a combination's modifiers and key in the given render style
+ */
+export function modifierSeparator(style: RenderStyle = 'icons'): string {
+  if (style === 'emacs') return '-'
+  if (style === 'text') return '+'
+  return isMac() ? '' : '+'
+}
+
+/**
+ * Format a key with modifiers (internal helper for combinations and sequence elements)
+ */
+function formatModifiedKey(
+  key: string,
+  modifiers: Modifiers,
+  style: RenderStyle,
+): { display: string; id: string } {
+  const parts: string[] = []
+  const idParts: string[] = []
+
+  for (const modifier of MODIFIER_ORDER) {
+    if (modifiers[modifier]) {
+      parts.push(formatModifier(modifier, style))
+      idParts.push(modifier)
+    }
+  }
+
+  // Modifier-only combination (e.g. `alt`): already shown by its modifier
+  if (!isModifierName(key) || !modifiers[key]) {
+    parts.push(formatKeyForDisplay(key, style))
+    idParts.push(key)
+  }
+
+  return {
+    display: parts.join(modifierSeparator(style)),
+    id: idParts.join('+'),
+  }
+}
+
 /**
  * Format a single KeyCombination (internal helper)
  */
-function formatSingleCombination(combo: KeyCombination): { display: string; id: string } {
+function formatSingleCombination(combo: KeyCombination, style: RenderStyle = 'icons'): { display: string; id: string } {
+  if (combo.leader) {
+    return { display: 'Leader', id: LEADER_TOKEN }
+  }
   // Handle digit placeholder sentinels
   if (combo.key === DIGIT_PLACEHOLDER) {
     return { display: '#', id: '\\d' }
@@ -169,54 +375,26 @@ function formatSingleCombination(combo: KeyCombination): { display: string; id:
     return { display: '#.#', id: '\\f' }
   }
 
-  const mac = isMac()
-  const parts: string[] = []
-  const idParts: string[] = []
-
-  // Order: Ctrl/Cmd, Alt/Option, Shift, Key
-  if (combo.modifiers.ctrl) {
-    parts.push(mac ? '⌃' : 'Ctrl')
-    idParts.push('ctrl')
-  }
-  if (combo.modifiers.meta) {
-    parts.push(mac ? '⌘' : 'Win')
-    idParts.push('meta')
-  }
-  if (combo.modifiers.alt) {
-    parts.push(mac ? '⌥' : 'Alt')
-    idParts.push('alt')
-  }
-  if (combo.modifiers.shift) {
-    parts.push(mac ? '⇧' : 'Shift')
-    idParts.push('shift')
-  }
-
-  parts.push(formatKeyForDisplay(combo.key))
-  idParts.push(combo.key)
-
-  return {
-    display: mac ? parts.join('') : parts.join('+'),
-    id: idParts.join('+'),
-  }
+  return formatModifiedKey(combo.key, combo.modifiers, style)
 }
 
 /**
  * Convert a KeyCombination or HotkeySequence to display format
  */
-export function formatCombination(combo: KeyCombination): KeyCombinationDisplay
-export function formatCombination(sequence: HotkeySequence): KeyCombinationDisplay
-export function formatCombination(input: KeyCombination | HotkeySequence): KeyCombinationDisplay {
+export function formatCombination(combo: KeyCombination, style?: RenderStyle): KeyCombinationDisplay
+export function formatCombination(sequence: HotkeySequence, style?: RenderStyle): KeyCombinationDisplay
+export function formatCombination(input: KeyCombination | HotkeySequence, style: RenderStyle = 'icons'): KeyCombinationDisplay {
   // Handle array (sequence)
   if (Array.isArray(input)) {
     if (input.length === 0) {
       return { display: '', id: '', isSequence: false }
     }
     if (input.length === 1) {
-      const single = formatSingleCombination(input[0])
+      const single = formatSingleCombination(input[0], style)
       return { ...single, isSequence: false }
     }
     // Multiple keys = sequence
-    const formatted = input.map(formatSingleCombination)
+    const formatted = input.map(combo => formatSingleCombination(combo, style))
     return {
       display: formatted.map(f => f.display).join(' '),
       id: formatted.map(f => f.id).join(' '),
@@ -225,7 +403,7 @@ export function formatCombination(input: KeyCombination | HotkeySequence): KeyCo
   }
 
   // Handle single KeyCombination
-  const single = formatSingleCombination(input)
+  const single = formatSingleCombination(input, style)
   return { ...single, isSequence: false }
 }
 
@@ -237,10 +415,12 @@ export function formatCombination(input: KeyCombination | HotkeySequence): KeyCo
  * formatBinding('meta+k') // "⌘K" on Mac, "Ctrl+K" on Windows
  * formatBinding('2 w')    // "2 W"
  * formatBinding('?')      // "?"
+ * formatBinding('meta+k', 'emacs') // "s-k"
+ * formatBinding('<leader> f') // "Leader F"
  */
-export function formatBinding(binding: string): string {
+export function formatBinding(binding: string, style: RenderStyle = 'icons'): string {
   const parsed = parseHotkeyString(binding)
-  return formatCombination(parsed).display
+  return formatCombination(parsed, style).display
 }
 
 /**
@@ -251,19 +431,20 @@ export function isModifierKey(key: string): boolean {
 }
 
 /**
- * Characters that require shift to type (US keyboard layout)
- * When matching these keys, we should ignore shiftKey mismatch
+ * Check if a (normalized) key is itself a modifier, as in modifier-only bindings
+ * like `alt` (e.g. for a `hold` trigger). Such combinations also carry the modifier's flag.
  */
-const SHIFTED_CHARS = new Set([
-  '~', '!', '@', '#', '$', '%', '^', '&', '*', '(', ')',
-  '_', '+', '{', '}', '|', ':', '"', '<', '>', '?',
-])
+export function isModifierName(key: string): key is ModifierName {
+  return key === 'ctrl' || key === 'alt' || key === 'shift' || key === 'meta'
+}
 
 /**
- * Check if a key is a shifted character (requires shift to type)
+ * Check if a key is a printable character other than a letter (`/`, `[`, `?`, `7`…). Which modifiers
+ * type these depends on the keyboard layout (`/` is Shift+7 on QWERTZ, `[` is AltGr+8), so matching
+ * ignores Shift and AltGr for them.
  */
-export function isShiftedChar(key: string): boolean {
-  return SHIFTED_CHARS.has(key)
+export function isLayoutSymbol(key: string): boolean {
+  return Array.from(key).length === 1 && key.trim() !== '' && key.toLowerCase() === key.toUpperCase()
 }
 
 /**
@@ -277,9 +458,14 @@ export function isSequence(hotkeyStr: string): boolean {
 
 /**
  * Parse a single combination string (e.g., "ctrl+k") to KeyCombination.
- * Supports uppercase letters as shorthand for shift+letter (e.g., "J" → shift+j)
+ * Supports uppercase letters as shorthand for shift+letter (e.g., "J" → shift+j),
+ * and `<leader>`, which resolves to the `leader` key
  */
-function parseSingleCombination(str: string): KeyCombination {
+function parseSingleCombination(str: string, leader = DEFAULT_LEADER_KEY): KeyCombination {
+  if (str.toLowerCase() === LEADER_TOKEN) {
+    return { ...parseSingleCombination(leader), leader: true }
+  }
+
   // Single uppercase letter (A-Z) is shorthand for shift+<lowercase>
   if (str.length === 1 && /^[A-Z]$/.test(str)) {
     return {
@@ -307,13 +493,14 @@ function parseSingleCombination(str: string): KeyCombination {
 /**
  * Parse a hotkey string to a HotkeySequence.
  * Handles both single keys ("ctrl+k") and sequences ("2 w", "ctrl+k ctrl+c")
+ * @param leader - Key that `<leader>` stands for (default: `space`)
  */
-export function parseHotkeyString(hotkeyStr: string): HotkeySequence {
+export function parseHotkeyString(hotkeyStr: string, leader = DEFAULT_LEADER_KEY): HotkeySequence {
   if (!hotkeyStr.trim()) return []
 
   // Split by space to get sequence parts
   const parts = hotkeyStr.trim().split(/\s+/)
-  return parts.map(parseSingleCombination)
+  return parts.map(part => parseSingleCombination(part, leader))
 }
 
 // ============================================================================
@@ -327,9 +514,10 @@ const NO_MODIFIERS: Modifiers = { ctrl: false, alt: false, shift: false, meta: f
  * Handles:
  * - `\d` → digit placeholder
  * - `\d+` → digits placeholder (one or more)
+ * - `<leader>` → the `leader` key
  * - Regular keys with modifiers (e.g., "ctrl+k", "J", "2")
  */
-function parseSeqElem(str: string): SeqElem {
+function parseSeqElem(str: string, leader = DEFAULT_LEADER_KEY): SeqElem {
   // Check for digit placeholders
   if (str === '\\d') {
     return { type: 'digit' }
@@ -340,6 +528,10 @@ function parseSeqElem(str: string): SeqElem {
   if (str === '\\f') {
     return { type: 'float' }
   }
+  if (str.toLowerCase() === LEADER_TOKEN) {
+    const { key, modifiers } = parseSingleCombination(leader)
+    return { type: 'key', key, modifiers, leader: true }
+  }
 
   // Single uppercase letter (A-Z) is shorthand for shift+<lowercase>
   if (str.length === 1 && /^[A-Z]$/.test(str)) {
@@ -374,19 +566,21 @@ function parseSeqElem(str: string): SeqElem {
  * @example
  * parseKeySeq('\\d+ d')  // [{ type: 'digits' }, { type: 'key', key: 'd', ... }]
  * parseKeySeq('ctrl+k')  // [{ type: 'key', key: 'k', modifiers: { ctrl: true, ... } }]
+ * parseKeySeq('<leader> f', ',')  // [{ type: 'key', key: ',', leader: true, ... }, { type: 'key', key: 'f', ... }]
+ * @param leader - Key that `<leader>` stands for (default: `space`)
  */
-export function parseKeySeq(hotkeyStr: string): KeySeq {
+export function parseKeySeq(hotkeyStr: string, leader = DEFAULT_LEADER_KEY): KeySeq {
   if (!hotkeyStr.trim()) return []
 
   // Split by space to get sequence parts
   const parts = hotkeyStr.trim().split(/\s+/)
-  return parts.map(parseSeqElem)
+  return parts.map(part => parseSeqElem(part, leader))
 }
 
 /**
  * Format a single SeqElem for display
  */
-function formatSeqElem(elem: SeqElem): { display: string; id: string } {
+function formatSeqElem(elem: SeqElem, style: RenderStyle = 'icons'): { display: string; id: string } {
   if (elem.type === 'digit') {
     return { display: '⟨#⟩', id: '\\d' }
   }
@@ -396,47 +590,23 @@ function formatSeqElem(elem: SeqElem): { display: string; id: string } {
   if (elem.type === 'float') {
     return { display: '⟨#.#⟩', id: '\\f' }
   }
-
-  // Regular key
-  const mac = isMac()
-  const parts: string[] = []
-  const idParts: string[] = []
-
-  if (elem.modifiers.ctrl) {
-    parts.push(mac ? '⌃' : 'Ctrl')
-    idParts.push('ctrl')
-  }
-  if (elem.modifiers.meta) {
-    parts.push(mac ? '⌘' : 'Win')
-    idParts.push('meta')
-  }
-  if (elem.modifiers.alt) {
-    parts.push(mac ? '⌥' : 'Alt')
-    idParts.push('alt')
-  }
-  if (elem.modifiers.shift) {
-    parts.push(mac ? '⇧' : 'Shift')
-    idParts.push('shift')
+  if (elem.leader) {
+    return { display: 'Leader', id: LEADER_TOKEN }
   }
 
-  parts.push(formatKeyForDisplay(elem.key))
-  idParts.push(elem.key)
-
-  return {
-    display: mac ? parts.join('') : parts.join('+'),
-    id: idParts.join('+'),
-  }
+  // Regular key
+  return formatModifiedKey(elem.key, elem.modifiers, style)
 }
 
 /**
  * Format a KeySeq to display format
  */
-export function formatKeySeq(seq: KeySeq): KeyCombinationDisplay {
+export function formatKeySeq(seq: KeySeq, style: RenderStyle = 'icons'): KeyCombinationDisplay {
   if (seq.length === 0) {
     return { display: '', id: '', isSequence: false }
   }
 
-  const formatted = seq.map(formatSeqElem)
+  const formatted = seq.map(elem => formatSeqElem(elem, style))
 
   if (seq.length === 1) {
     return { ...formatted[0], isSequence: false }
@@ -546,8 +716,8 @@ function keyMatchesPattern(pending: KeyCombination, pattern: KeyCombination): bo
     return false
   }
 
-  // Exact match
-  if (pending.key === pattern.key) return true
+  // Exact match (or physical-key match)
+  if (comboMatchesKey(pending, pattern.key)) return true
 
   // Check if pending is a digit and pattern expects a digit placeholder
   if (/^[0-9]$/.test(pending.key) && (pattern.key === DIGIT_PLACEHOLDER || pattern.key === DIGITS_PLACEHOLDER || pattern.key === FLOAT_PLACEHOLDER)) {
@@ -578,6 +748,18 @@ function isFloatKey(key: string): boolean {
   return /^[0-9.]$/.test(key)
 }
 
+/**
+ * Check if two (normalized) keys could be produced by the same key press.
+ * A physical key coincides with a character key if it carries that character on the
+ * current keyboard layout (e.g. `code:keyz` and `z` on US, `code:keyz` and `y` on QWERTZ).
+ */
+function keysCouldCoincide(a: string, b: string): boolean {
+  if (a === b) return true
+  const resolve = (key: string) => isPhysicalKey(key) ? physicalKeyLabel(key.slice(PHYSICAL_KEY_PREFIX.length)) : key
+  if (isPhysicalKey(a) === isPhysicalKey(b)) return false
+  return resolve(a) === resolve(b)
+}
+
 /**
  * Check if two SeqElems could potentially match the same input.
  * - digit matches any single digit key
@@ -606,10 +788,10 @@ function seqElemsCouldConflict(a: SeqElem, b: SeqElem): boolean {
   if (a.type === 'float' && b.type === 'key' && isFloatKey(b.key)) return true
   if (a.type === 'key' && isFloatKey(a.key) && b.type === 'float') return true
 
-  // key vs key - exact match
+  // key vs key - exact match (a physical key may coincide with a character key)
   if (a.type === 'key' && b.type === 'key') {
     return (
-      a.key === b.key &&
+      keysCouldCoincide(a.key, b.key) &&
       a.modifiers.ctrl === b.modifiers.ctrl &&
       a.modifiers.alt === b.modifiers.alt &&
       a.modifiers.shift === b.modifiers.shift &&
@@ -654,27 +836,44 @@ function keySeqsCouldConflict(a: KeySeq, b: KeySeq): boolean {
  *   When provided, two actions on the same key only conflict if they share the
  *   same scope (both global/undefined, or both in the same mode ID).
  *   Cross-scope overlap (e.g., global vs mode-scoped) is intentional shadowing.
+ * @param getScope - Optional function to get the `<HotkeyScope>` region of an action.
+ *   Treated like modes: actions in different focus scopes shadow rather than conflict.
+ * @param getWhen - Optional function to get the `when` clause of an action.
+ *   Actions whose clauses can't both be true (e.g. `editorFocused` and `!editorFocused`) don't conflict.
+ * @param leader - Key that `<leader>` stands for (default: `space`), so `<leader> f` conflicts with `space f`
  * @returns Map of key -> actions[] for keys with conflicts
  */
 export function findConflicts(
   keymap: Record<string, string | string[]>,
   getEffectiveMode?: (actionId: string) => string | undefined,
+  getScope?: (actionId: string) => string | undefined,
+  getWhen?: (actionId: string) => string | undefined,
+  leader?: string,
 ): Map<string, string[]> {
   const conflicts = new Map<string, string[]>()
 
   // Parse all hotkeys into sequences for comparison
   const entries = Object.entries(keymap).map(([key, actionOrActions]) => ({
     key,
-    sequence: parseHotkeyString(key),
-    keySeq: parseKeySeq(key),
+    sequence: parseHotkeyString(key, leader),
+    keySeq: parseKeySeq(key, leader),
     actions: Array.isArray(actionOrActions) ? actionOrActions : [actionOrActions],
   }))
 
-  // Helper: check if two actions share the same mode scope
-  const sameScope = (a: string, b: string): boolean => {
-    if (!getEffectiveMode) return true
-    return getEffectiveMode(a) === getEffectiveMode(b)
+  // Helper: key identifying an action's (mode, focus scope) pair
+  const isScopeAware = !!(getEffectiveMode || getScope)
+  const scopeOf = (action: string): string =>
+    `${getEffectiveMode?.(action) ?? ''}\u0000${getScope?.(action) ?? ''}`
+
+  // Helper: whether two actions' `when` clauses are mutually exclusive
+  const isExclusive = (a: string, b: string): boolean => {
+    const whenA = getWhen?.(a)
+    const whenB = getWhen?.(b)
+    return !!whenA && !!whenB && whenClausesExclusive(whenA, whenB)
   }
+  // Helper: actions in `group` that conflict with at least one other
+  const conflicting = (group: string[]): string[] =>
+    group.filter((a, i) => group.some((b, j) => j !== i && !isExclusive(a, b)))
 
   // Check for duplicate keys (multiple actions on same key)
   const keyToActions = new Map<string, string[]>()
@@ -685,31 +884,35 @@ export function findConflicts(
   for (const [key, actions] of keyToActions) {
     if (actions.length > 1) {
       // With mode awareness, only flag actions that share the same scope
-      if (getEffectiveMode) {
-        const scopeGroups = new Map<string | undefined, string[]>()
+      if (isScopeAware) {
+        const scopeGroups = new Map<string, string[]>()
         for (const action of actions) {
-          const scope = getEffectiveMode(action)
+          const scope = scopeOf(action)
           const group = scopeGroups.get(scope) ?? []
           group.push(action)
           scopeGroups.set(scope, group)
         }
         for (const group of scopeGroups.values()) {
-          if (group.length > 1) {
-            conflicts.set(key, group)
+          const groupConflicts = conflicting(group)
+          if (groupConflicts.length > 1) {
+            conflicts.set(key, groupConflicts)
           }
         }
       } else {
-        conflicts.set(key, actions)
+        const keyConflicts = conflicting(actions)
+        if (keyConflicts.length > 1) {
+          conflicts.set(key, keyConflicts)
+        }
       }
     }
   }
 
-  // Helper: check if any action pair across two entries shares mode scope
+  // Helper: check if any action pair across two entries shares mode scope (and can be active together)
   const anySharedScope = (aActions: string[], bActions: string[]): boolean => {
-    if (!getEffectiveMode) return true
+    if (!isScopeAware && !getWhen) return true
     for (const a of aActions) {
       for (const b of bActions) {
-        if (getEffectiveMode(a) === getEffectiveMode(b)) return true
+        if ((!isScopeAware || scopeOf(a) === scopeOf(b)) && !isExclusive(a, b)) return true
       }
     }
     return false
@@ -809,11 +1012,12 @@ export function getConflictsArray(keymap: Record<string, string | string[]>): Ke
 // Sequence Completion Utilities
 // ============================================================================
 
-import type { SequenceCompletion, ActionRegistry, ActionSearchResult } from './types'
+import type { SequenceCompletion, ActionArgs, ActionArgValue, ActionParam, ActionRegistry, ActionSearchResult, ActionUsage } from './types'
 
 /**
  * Get possible completions for a partially-typed sequence.
  * Returns both exact matches (isComplete: true) and continuations (isComplete: false).
+ * `leader` is the key `<leader>` in bindings stands for (default: `space`).
  *
  * @example
  * ```tsx
@@ -831,13 +1035,14 @@ export function getSequenceCompletions(
   pendingKeys: HotkeySequence,
   keymap: Record<string, string | string[]>,
   actionRegistry?: ActionRegistry,
+  leader?: string,
 ): SequenceCompletion[] {
   if (pendingKeys.length === 0) return []
 
   const completions: SequenceCompletion[] = []
 
   for (const [hotkeyStr, actionOrActions] of Object.entries(keymap)) {
-    const keySeq = parseKeySeq(hotkeyStr)
+    const keySeq = parseKeySeq(hotkeyStr, leader)
 
     // Skip if pattern is clearly too short (but \d+ and \f can consume multiple keys)
     const hasMultiCharPlaceholder = keySeq.some(e => e.type === 'digits' || e.type === 'float')
@@ -975,6 +1180,80 @@ export function getSequenceCompletions(
   return completions
 }
 
+/**
+ * ID of a binding or prefix, independent of how it's written (`'G'` and `'shift+g'` share one)
+ */
+export function bindingId(binding: string): string {
+  return formatKeySeq(parseKeySeq(binding)).id
+}
+
+/**
+ * IDs of the registered prefixes (see `usePrefix`) a binding starts with, shortest first
+ * (a binding isn't its own prefix)
+ */
+export function getBindingPrefixes(binding: string, prefixes: Map<string, RegisteredPrefix>): string[] {
+  if (prefixes.size === 0) return []
+  const seq = parseKeySeq(binding)
+  const ids: string[] = []
+  for (let i = 1; i < seq.length; i++) {
+    const id = formatKeySeq(seq.slice(0, i)).id
+    if (prefixes.has(id)) ids.push(id)
+  }
+  return ids
+}
+
+/**
+ * The registered prefix (see `usePrefix`) that pressed keys spell out exactly, if any
+ * (`leader` being the key `<leader>` stands for)
+ */
+export function findPrefix(keys: HotkeySequence, prefixes: Map<string, RegisteredPrefix>, leader?: string): RegisteredPrefix | undefined {
+  if (keys.length === 0) return undefined
+  for (const prefix of prefixes.values()) {
+    const seq = parseHotkeyString(prefix.keys, leader)
+    if (seq.length === keys.length && seq.every((combo, i) => keyMatchesPattern(keys[i], combo))) return prefix
+  }
+  return undefined
+}
+
+/**
+ * Group sequence completions into a which-key style menu of next keys: bindings completed by the next
+ * key are listed as actions, and ones needing more keys collapse into their prefix (labeled, if registered).
+ * An unlabeled prefix with a single binding under it is listed as that binding.
+ */
+export function groupCompletionsByPrefix(
+  completions: SequenceCompletion[],
+  prefixes: Map<string, RegisteredPrefix>,
+): PrefixMenuItem[] {
+  const items: PrefixMenuItem[] = []
+  const groups = new Map<string, Extract<PrefixMenuItem, { type: 'prefix' }>>()
+  for (const completion of completions) {
+    const { nextKeySeq } = completion
+    if (completion.isComplete || !nextKeySeq || nextKeySeq.length === 1) {
+      for (const action of completion.actions) items.push({ type: 'action', completion, action })
+      continue
+    }
+    const seq = parseKeySeq(completion.fullSequence)
+    const prefix = formatKeySeq(seq.slice(0, seq.length - nextKeySeq.length + 1)).id
+    const group = groups.get(prefix)
+    if (group) {
+      group.completions.push(completion)
+      continue
+    }
+    const item: PrefixMenuItem = {
+      type: 'prefix',
+      prefix,
+      nextKeySeq: nextKeySeq.slice(0, 1),
+      label: prefixes.get(prefix)?.config.label,
+      completions: [completion],
+    }
+    groups.set(prefix, item)
+    items.push(item)
+  }
+  return items.flatMap(item => item.type === 'prefix' && !item.label && item.completions.length === 1
+    ? item.completions[0].actions.map((action): PrefixMenuItem => ({ type: 'action', completion: item.completions[0], action }))
+    : [item])
+}
+
 /**
  * Build a map of action -> keys[] from a keymap
  */
@@ -1094,6 +1373,202 @@ export function fuzzyMatch(pattern: string, text: string): FuzzyMatchResult {
   return { matched, score, ranges }
 }
 
+/**
+ * Matches a search pattern (one word of a query) against a piece of text, e.g. `fuzzyMatch` or `smartMatch`.
+ * Pass one as `matcher` (to HotkeysProvider's config, `useOmnibar` or `searchActions`) to change how search works.
+ */
+export type SearchMatcher = (pattern: string, text: string) => FuzzyMatchResult
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g
+const WORD_SEPARATOR = /[\s\-_./:]/
+// Score kept by a match found only after swapping two adjacent pattern characters
+const TRANSPOSITION_PENALTY = 0.75
+
+/**
+ * Strip diacritics ("é" → "e"), keeping the index in `text` of each remaining character.
+ */
+function foldDiacritics(text: string): { folded: string; indices: number[] } {
+  let folded = ''
+  const indices: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    for (const c of text[i].normalize('NFD').replace(COMBINING_MARKS, '')) {
+      folded += c
+      indices.push(i)
+    }
+  }
+  return { folded, indices }
+}
+
+/**
+ * Match a pattern against the initials of words in text ("tdm" → "Toggle Dark Mode"),
+ * counting camelCase humps as words.
+ */
+function acronymMatch(pattern: string, text: string): FuzzyMatchResult {
+  const initials: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    const isWordStart = i === 0
+      ? !WORD_SEPARATOR.test(text[i])
+      : WORD_SEPARATOR.test(text[i - 1]) && !WORD_SEPARATOR.test(text[i])
+    const isHump = i > 0 && /[a-z]/.test(text[i - 1]) && /[A-Z]/.test(text[i])
+    if (isWordStart || isHump) initials.push(i)
+  }
+
+  const patternLower = pattern.toLowerCase()
+  const ranges: Array<[number, number]> = []
+  let score = 0
+  let patternIdx = 0
+  let lastInitial = -2
+  for (let i = 0; i < initials.length && patternIdx < patternLower.length; i++) {
+    const idx = initials[i]
+    if (text[idx].toLowerCase() !== patternLower[patternIdx]) continue
+    // Like a word-boundary match in `fuzzyMatch`, plus a bonus for not skipping words
+    score += 4 + (lastInitial === i - 1 ? 2 : 0)
+    ranges.push([idx, idx + 1])
+    lastInitial = i
+    patternIdx++
+  }
+
+  const matched = patternIdx === patternLower.length
+  if (!matched) return { matched, score: 0, ranges: [] }
+  if (initials[0] === ranges[0][0]) score += 5
+  if (patternLower.length === initials.length) score += 10
+  return { matched, score, ranges }
+}
+
+/**
+ * Fuzzy match, forgiving of accents, acronyms and typos. The default search matcher.
+ *
+ * On top of `fuzzyMatch`:
+ * - Diacritics are ignored both ways ("cafe" matches "Café")
+ * - Word initials match ("tdm" → "Toggle Dark Mode"), highlighting just them
+ * - Two swapped adjacent characters are tolerated ("tgogle" → "toggle"), at a lower score, if the corrected
+ *   pattern then appears unbroken
+ */
+export function smartMatch(pattern: string, text: string): FuzzyMatchResult {
+  if (!pattern) return { matched: true, score: 1, ranges: [] }
+  if (!text) return { matched: false, score: 0, ranges: [] }
+
+  const { folded, indices } = foldDiacritics(text)
+  const foldedPattern = foldDiacritics(pattern).folded
+
+  let best = fuzzyMatch(foldedPattern, folded)
+  const acronym = acronymMatch(foldedPattern, folded)
+  if (acronym.matched && acronym.score >= best.score) best = acronym
+
+  if (!best.matched && foldedPattern.length >= 3) {
+    for (let i = 0; i < foldedPattern.length - 1; i++) {
+      if (foldedPattern[i] === foldedPattern[i + 1]) continue
+      const swapped = foldedPattern.slice(0, i) + foldedPattern[i + 1] + foldedPattern[i] + foldedPattern.slice(i + 2)
+      const match = fuzzyMatch(swapped, folded)
+      // Only where the corrected word appears whole; scattered letters match too much by accident
+      if (match.matched && match.ranges.length === 1 && match.score * TRANSPOSITION_PENALTY > best.score) {
+        best = { ...match, score: match.score * TRANSPOSITION_PENALTY }
+      }
+    }
+  }
+
+  if (!best.matched) return best
+  // Map ranges in the folded text back to the original
+  const ranges = best.ranges.map(([start, end]): [number, number] => [indices[start], indices[end - 1] + 1])
+  return { ...best, ranges }
+}
+
+/**
+ * A field of a search item, for `matchSearchFields`
+ */
+export interface SearchField {
+  /** Text to match (fields without text never match) */
+  text?: string
+  /** Multiplier for scores of matches in this field */
+  weight: number
+  /** Fields with the same group (e.g. an item's keywords) count only their best score per word */
+  group?: string
+}
+
+/**
+ * Result of `matchSearchFields`
+ */
+export interface SearchFieldsMatch {
+  /** Whether every word of the query matched some field */
+  matched: boolean
+  /** Weighted scores, summed over words */
+  score: number
+  /** Matched ranges in each field (in the order given), covering all words, for highlighting */
+  ranges: Array<Array<[number, number]>>
+}
+
+/**
+ * Sort ranges and merge overlapping or adjacent ones.
+ */
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const merged: Array<[number, number]> = []
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  }
+  return merged
+}
+
+/**
+ * Key matched ranges by the texts they're in (e.g. keywords), omitting texts without any.
+ * Returns undefined if none matched.
+ */
+export function rangesByText(
+  texts: string[],
+  ranges: Array<Array<[number, number]>>,
+): Record<string, Array<[number, number]>> | undefined {
+  const matched = texts.flatMap((text, i) => ranges[i].length ? [[text, ranges[i]] as const] : [])
+  return matched.length ? Object.fromEntries(matched) : undefined
+}
+
+/**
+ * Match a query against an item's fields (label, description, keywords, …) word by word:
+ * each word must match at least one field, so "dark tog" finds "Toggle Dark Mode", and "theme dark"
+ * finds an action labeled "Dark" in group "Theme".
+ *
+ * @example
+ * ```ts
+ * const { matched, score, ranges: [labelRanges] } = matchSearchFields('dark tog', [
+ *   { text: action.label, weight: 3 },
+ *   { text: action.group, weight: 1 },
+ * ])
+ * ```
+ */
+export function matchSearchFields(
+  query: string,
+  fields: SearchField[],
+  matcher: SearchMatcher = smartMatch,
+): SearchFieldsMatch {
+  const ranges = fields.map((): Array<[number, number]> => [])
+  let score = 0
+  for (const word of query.trim().split(/\s+/)) {
+    let wordMatched = false
+    let wordScore = 0
+    const groupScores = new Map<string, number>()
+    for (const [i, field] of fields.entries()) {
+      if (!field.text) continue
+      const match = matcher(word, field.text)
+      if (!match.matched) continue
+      wordMatched = true
+      ranges[i].push(...match.ranges)
+      const fieldScore = match.score * field.weight
+      if (field.group === undefined) {
+        wordScore += fieldScore
+      } else {
+        groupScores.set(field.group, max(groupScores.get(field.group) ?? 0, fieldScore))
+      }
+    }
+    for (const groupScore of groupScores.values()) wordScore += groupScore
+    if (!wordMatched) return { matched: false, score: 0, ranges: fields.map(() => []) }
+    score += wordScore
+  }
+  return { matched: true, score, ranges: ranges.map(mergeRanges) }
+}
+
 /**
  * Check if a binding string contains digit placeholders (\d or \d+)
  */
@@ -1101,6 +1576,13 @@ export function bindingHasPlaceholders(binding: string): boolean {
   return binding.includes('\\d') || binding.includes('\\f')
 }
 
+/**
+ * Check if a binding string contains the `<leader>` token
+ */
+export function bindingHasLeader(binding: string): boolean {
+  return binding.toLowerCase().includes(LEADER_TOKEN)
+}
+
 /**
  * Check if any bindings have digit placeholders
  */
@@ -1148,10 +1630,151 @@ export function parseQueryNumbers(query: string): { text: string; numbers: numbe
   return { text: trimmed, numbers: [] }
 }
 
+/** Relative dates accepted by `'date'` parameters, as day offsets from today */
+const RELATIVE_DATES: Record<string, number> = { today: 0, tomorrow: 1, yesterday: -1 }
+
+/**
+ * Parse text typed for an action parameter into its value (`undefined` if invalid).
+ * Enum values match a choice case-insensitively, or by a unique prefix.
+ * Dates are `YYYY-MM-DD` (local time) or `today`/`tomorrow`/`yesterday`.
+ *
+ * @example
+ * parseParamValue({ name: 'theme', type: 'enum', choices: ['light', 'dark'] }, 'Da') // 'dark'
+ * parseParamValue({ name: 'n', type: 'number' }, '2.5')                              // 2.5
+ * parseParamValue({ name: 'day', type: 'date' }, 'tomorrow')                          // Date
+ */
+export function parseParamValue(param: ActionParam, text: string): ActionArgValue | undefined {
+  const trimmed = text.trim()
+  if (!trimmed) return undefined
+  switch (param.type ?? 'string') {
+    case 'number':
+      return /^-?\d*\.?\d+$/.test(trimmed) ? parseFloat(trimmed) : undefined
+    case 'enum': {
+      const choices = param.choices ?? []
+      const lower = trimmed.toLowerCase()
+      const exact = choices.find(choice => choice.toLowerCase() === lower)
+      if (exact !== undefined) return exact
+      const prefixed = choices.filter(choice => choice.toLowerCase().startsWith(lower))
+      return prefixed.length === 1 ? prefixed[0] : undefined
+    }
+    case 'date': {
+      const lower = trimmed.toLowerCase()
+      if (lower in RELATIVE_DATES) {
+        const date = new Date()
+        date.setHours(0, 0, 0, 0)
+        date.setDate(date.getDate() + RELATIVE_DATES[lower])
+        return date
+      }
+      const ymd = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(trimmed)
+      if (!ymd) return undefined
+      const date = new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3]))
+      // Reject days past the end of the month (which Date rolls over into the next)
+      return date.getMonth() === Number(ymd[2]) - 1 ? date : undefined
+    }
+    default:
+      return trimmed
+  }
+}
+
+/**
+ * Format a parameter value as text `parseParamValue` reads back (dates as `YYYY-MM-DD`)
+ */
+export function formatParamValue(value: ActionArgValue): string {
+  if (value instanceof Date) {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+  }
+  return String(value)
+}
+
+/**
+ * Values to suggest while typing a parameter: an enum's choices, a string parameter's
+ * `suggestions`, or relative dates; fuzzy-filtered by the text typed so far (best first).
+ */
+export function getParamSuggestions(param: ActionParam, text: string): string[] {
+  const type = param.type ?? 'string'
+  const values = type === 'enum'
+    ? param.choices ?? []
+    : type === 'date' ? Object.keys(RELATIVE_DATES) : type === 'string' ? param.suggestions ?? [] : []
+  const query = text.trim()
+  if (!query) return values
+  return values
+    .map(value => ({ value, match: fuzzyMatch(query, value) }))
+    .filter(({ match }) => match.matched)
+    .sort((a, b) => b.match.score - a.match.score)
+    .map(({ value }) => value)
+}
+
+/**
+ * Fill an action's parameters from the end of a search query, one word each, in order:
+ * "theme dark" → `{ text: 'theme', args: { theme: 'dark' } }`.
+ * Returns null unless some text is left to find the action by, and every word is a valid value.
+ */
+export function parseQueryArgs(query: string, params: ActionParam[]): { text: string; args: ActionArgs } | null {
+  const words = query.trim().split(/\s+/)
+  for (let n = min(params.length, words.length - 1); n > 0; n--) {
+    const args: ActionArgs = {}
+    const values = words.slice(words.length - n)
+    for (const [i, word] of values.entries()) {
+      const value = parseParamValue(params[i], word)
+      if (value === undefined) break
+      args[params[i].name] = value
+    }
+    if (Object.keys(args).length === n) {
+      return { text: words.slice(0, words.length - n).join(' '), args }
+    }
+  }
+  return null
+}
+
+// Usage counts halve every week, so a burst of use fades within a month or so
+const FRECENCY_HALF_LIFE = 7 * 24 * 60 * 60 * 1000
+// Search score added per doubling of frecency (a recently used match outranks a slightly closer one)
+const FRECENCY_WEIGHT = 5
+
+/**
+ * Current frecency of an action: its use count, decayed by half every week since it was last used.
+ */
+export function frecencyScore(usage: ActionUsage | undefined, now: number = Date.now()): number {
+  if (!usage) return 0
+  return usage.count * 0.5 ** (max(0, now - usage.lastUsed) / FRECENCY_HALF_LIFE)
+}
+
+/**
+ * Record one use of an action (or remote entry), forgetting the least frecent beyond `historySize`.
+ * The used `id` is always kept, so a full history of frequently used entries can't evict it straight away.
+ * Returns the new usage history.
+ */
+export function recordUsage(
+  usage: Record<string, ActionUsage>,
+  id: string,
+  historySize: number,
+  now: number = Date.now(),
+): Record<string, ActionUsage> {
+  if (historySize <= 0) return {}
+  const next = { ...usage, [id]: { count: frecencyScore(usage[id], now) + 1, lastUsed: now } }
+  const others = Object.keys(next).filter(key => key !== id)
+  if (others.length < historySize) return next
+  const kept = others
+    .sort((a, b) => frecencyScore(next[b], now) - frecencyScore(next[a], now))
+    .slice(0, historySize - 1)
+  return Object.fromEntries([id, ...kept].map(key => [key, next[key]]))
+}
+
+/**
+ * Search score boost for a used action or entry (0 if never used).
+ */
+export function frecencyBoost(usage: ActionUsage | undefined, now: number = Date.now()): number {
+  return FRECENCY_WEIGHT * log2(1 + frecencyScore(usage, now))
+}
+
 /**
  * Search actions by query with fuzzy matching.
  * Supports number-aware search: "smooth 3" matches actions with `\d+` placeholders
- * and captures the number for execution.
+ * and captures the number for execution; likewise "theme dark" fills an action's `params`.
+ * Given actions' `usage`, frequently and recently used actions rank higher (see `frecencyScore`).
+ * Each word of the query must match the label, description, group, ID or a keyword (see `matchSearchFields`),
+ * using `matcher` (default: `smartMatch`).
  *
  * @example
  * ```tsx
@@ -1167,9 +1790,12 @@ export function searchActions(
   query: string,
   actions: ActionRegistry,
   keymap?: Record<string, string | string[]>,
+  usage?: Record<string, ActionUsage>,
+  matcher: SearchMatcher = smartMatch,
 ): ActionSearchResult[] {
   const actionBindings = keymap ? getActionBindings(keymap) : new Map<string, string[]>()
   const results: ActionSearchResult[] = []
+  const now = Date.now()
 
   // Parse query for trailing numbers (e.g., "smooth 3" → text: "smooth", numbers: [3])
   const { text: queryText, numbers: queryNumbers } = parseQueryNumbers(query)
@@ -1189,48 +1815,56 @@ export function searchActions(
     const isNumberOnlyQuery = queryNumbers.length > 0 && queryText === ''
     const includeForPlaceholder = isNumberOnlyQuery && hasPlaceholders
 
-    // Match against multiple fields
-    const labelMatch = fuzzyMatch(effectiveQuery, action.label)
-    const descMatch = action.description ? fuzzyMatch(effectiveQuery, action.description) : { matched: false, score: 0, ranges: [] }
-    const groupMatch = action.group ? fuzzyMatch(effectiveQuery, action.group) : { matched: false, score: 0, ranges: [] }
-    const idMatch = fuzzyMatch(effectiveQuery, id)
-
-    // Check keywords
-    let keywordScore = 0
-    if (action.keywords) {
-      for (const keyword of action.keywords) {
-        const kwMatch = fuzzyMatch(effectiveQuery, keyword)
-        if (kwMatch.matched) {
-          keywordScore = max(keywordScore, kwMatch.score)
-        }
+    // Match against multiple fields (label weighted highest; only the best keyword counts)
+    const keywords = action.keywords ?? []
+    const fields: SearchField[] = [
+      { text: action.label, weight: 3 },
+      { text: action.description, weight: 1.5 },
+      { text: action.group, weight: 1 },
+      { text: id, weight: 0.5 },
+      ...keywords.map(text => ({ text, weight: 2, group: 'keywords' })),
+    ]
+    const matchFields = (q: string) => matchSearchFields(q, fields, matcher)
+    let { ranges, matched, score } = matchFields(effectiveQuery)
+
+    // Actions with params: trailing words may fill them ("theme dark" → { theme: 'dark' })
+    let args: ActionArgs | undefined
+    if (!matched && action.params?.length) {
+      const parsed = parseQueryArgs(query, action.params)
+      const paramsMatch = parsed ? matchFields(parsed.text) : null
+      if (parsed && paramsMatch?.matched) {
+        ({ ranges, matched } = paramsMatch)
+        score = paramsMatch.score + 5 // Boost, like placeholder actions given a number
+        args = parsed.args
       }
     }
 
-    // Calculate total score (label weighted highest)
-    const matched = labelMatch.matched || descMatch.matched || groupMatch.matched || idMatch.matched || keywordScore > 0 || includeForPlaceholder
-    if (!matched && effectiveQuery) continue
-
-    let score =
-      (labelMatch.matched ? labelMatch.score * 3 : 0) +
-      (descMatch.matched ? descMatch.score * 1.5 : 0) +
-      (groupMatch.matched ? groupMatch.score : 0) +
-      (idMatch.matched ? idMatch.score * 0.5 : 0) +
-      keywordScore * 2
+    if (!matched && !includeForPlaceholder && effectiveQuery) continue
 
     // Boost score for placeholder actions when query contains a number
     if (queryNumbers.length > 0 && hasPlaceholders) {
       score += 5 // Boost actions with placeholders when user provided a number
     }
 
+    // Boost frequently and recently used actions
+    if (usage) score += frecencyBoost(usage[id], now)
+
     const result: ActionSearchResult = {
       id,
       action,
       bindings,
       score,
-      labelMatches: labelMatch.ranges,
+      labelMatches: ranges[0],
       mode: action.mode,
     }
 
+    // Highlights beyond the label (keywords' fields follow the four fixed ones)
+    const [, descriptionRanges, , , ...keywordRanges] = ranges
+    if (descriptionRanges.length) result.descriptionMatches = descriptionRanges
+    const keywordMatches = rangesByText(keywords, keywordRanges)
+    if (keywordMatches) result.keywordMatches = keywordMatches
+    if (args) result.args = args
+
     // Include placeholder info and captures if applicable
     if (hasPlaceholders) {
       result.hasPlaceholders = true
@@ -0,0 +1,227 @@
+/**
+ * Context key values, set via `useContextKey` (or `KbdEngine.setContextKey`), that `when` clauses test
+ */
+export type WhenContext = Record<string, unknown>
+
+type WhenValue = string | number | boolean
+
+/**
+ * Parsed `when` clause
+ */
+type WhenExpr =
+  | { type: 'key'; key: string }
+  | { type: 'literal'; value: boolean }
+  | { type: 'equals'; key: string; value: WhenValue; negated: boolean }
+  | { type: 'not'; expr: WhenExpr }
+  | { type: 'and' | 'or'; exprs: WhenExpr[] }
+
+const TOKEN_RE = /\s*(\|\||&&|==|!=|!|\(|\)|'[^']*'|"[^"]*"|-?\d+(?:\.\d+)?|[A-Za-z_$][\w.:$-]*)/y
+
+function tokenize(clause: string): string[] {
+  const tokens: string[] = []
+  TOKEN_RE.lastIndex = 0
+  while (TOKEN_RE.lastIndex < clause.length) {
+    const start = TOKEN_RE.lastIndex
+    const match = TOKEN_RE.exec(clause)
+    if (!match) {
+      if (clause.slice(start).trim() === '') break
+      throw new Error(`Invalid when clause "${clause}": unexpected "${clause.slice(start).trim()}"`)
+    }
+    tokens.push(match[1])
+  }
+  return tokens
+}
+
+const parseCache = new Map<string, WhenExpr>()
+
+/**
+ * Parse a `when` clause: context keys combined with `!`, `&&`, `||` and parentheses,
+ * and compared to literals with `==`/`!=` (e.g. `editorFocused && !readOnly`, `view == 'table'`).
+ * Throws on syntax errors.
+ */
+function parseWhen(clause: string): WhenExpr {
+  const cached = parseCache.get(clause)
+  if (cached) return cached
+
+  const tokens = tokenize(clause)
+  let pos = 0
+  const fail = (message: string): never => {
+    throw new Error(`Invalid when clause "${clause}": ${message}`)
+  }
+  const peek = () => tokens[pos]
+  const next = () => tokens[pos++]
+
+  const parseLiteral = (token: string | undefined): WhenValue => {
+    if (token === undefined) return fail('expected a value')
+    if (token === 'true') return true
+    if (token === 'false') return false
+    if (/^['"]/.test(token)) return token.slice(1, -1)
+    if (/^-?\d/.test(token)) return Number(token)
+    // Bare words compare as strings (`view == table`)
+    if (/^[A-Za-z_$]/.test(token)) return token
+    return fail(`expected a value, got "${token}"`)
+  }
+
+  const parsePrimary = (): WhenExpr => {
+    const token = next()
+    if (token === undefined) return fail('unexpected end')
+    if (token === '(') {
+      const expr = parseOr()
+      if (next() !== ')') fail('expected ")"')
+      return expr
+    }
+    if (token === 'true' || token === 'false') return { type: 'literal', value: token === 'true' }
+    if (!/^[A-Za-z_$]/.test(token)) return fail(`unexpected "${token}"`)
+    if (peek() === '==' || peek() === '!=') {
+      const negated = next() === '!='
+      return { type: 'equals', key: token, value: parseLiteral(next()), negated }
+    }
+    return { type: 'key', key: token }
+  }
+
+  const parseNot = (): WhenExpr => {
+    if (peek() === '!') {
+      next()
+      return { type: 'not', expr: parseNot() }
+    }
+    return parsePrimary()
+  }
+
+  const parseAnd = (): WhenExpr => {
+    const exprs = [parseNot()]
+    while (peek() === '&&') {
+      next()
+      exprs.push(parseNot())
+    }
+    return exprs.length === 1 ? exprs[0] : { type: 'and', exprs }
+  }
+
+  const parseOr = (): WhenExpr => {
+    const exprs = [parseAnd()]
+    while (peek() === '||') {
+      next()
+      exprs.push(parseAnd())
+    }
+    return exprs.length === 1 ? exprs[0] : { type: 'or', exprs }
+  }
+
+  const expr = parseOr()
+  if (pos < tokens.length) fail(`unexpected "${tokens[pos]}"`)
+  parseCache.set(clause, expr)
+  return expr
+}
+
+/**
+ * Check that a `when` clause parses (throws a descriptive error if not)
+ */
+export function validateWhen(clause: string): void {
+  parseWhen(clause)
+}
+
+function evaluate(expr: WhenExpr, context: WhenContext): boolean {
+  switch (expr.type) {
+    case 'key': return !!context[expr.key]
+    case 'literal': return expr.value
+    case 'equals': return (context[expr.key] === expr.value) !== expr.negated
+    case 'not': return !evaluate(expr.expr, context)
+    case 'and': return expr.exprs.every(e => evaluate(e, context))
+    case 'or': return expr.exprs.some(e => evaluate(e, context))
+  }
+}
+
+/**
+ * Evaluate a `when` clause against context key values (unset keys are falsy)
+ */
+export function evaluateWhen(clause: string, context: WhenContext): boolean {
+  return evaluate(parseWhen(clause), context)
+}
+
+const formatValue = (value: unknown) => value === undefined ? 'unset' : JSON.stringify(value)
+
+/**
+ * Why `expr` is false (assumes it is)
+ */
+function explain(expr: WhenExpr, context: WhenContext): string {
+  switch (expr.type) {
+    case 'key': return `${expr.key} is ${context[expr.key] === undefined ? 'unset' : 'false'}`
+    case 'literal': return 'never enabled'
+    case 'equals': return expr.negated
+      ? `${expr.key} is ${formatValue(expr.value)}`
+      : `${expr.key} is ${formatValue(context[expr.key])}, not ${formatValue(expr.value)}`
+    case 'not': return expr.expr.type === 'key' ? `${expr.expr.key} is true` : `not (${formatExpr(expr.expr)})`
+    case 'and': return explain(expr.exprs.find(e => !evaluate(e, context))!, context)
+    case 'or': return expr.exprs.map(e => explain(e, context)).join(' and ')
+  }
+}
+
+/**
+ * Source-like rendering of an expression (for reasons that negate a compound clause)
+ */
+function formatExpr(expr: WhenExpr): string {
+  switch (expr.type) {
+    case 'key': return expr.key
+    case 'literal': return String(expr.value)
+    case 'equals': return `${expr.key} ${expr.negated ? '!=' : '=='} ${formatValue(expr.value)}`
+    case 'not': return `!${formatExpr(expr.expr)}`
+    case 'and': return expr.exprs.map(formatExpr).join(' && ')
+    case 'or': return expr.exprs.map(formatExpr).join(' || ')
+  }
+}
+
+/**
+ * Human-readable reason a `when` clause is false (e.g. "editorFocused is false"), or null if it's true
+ */
+export function whenReason(clause: string, context: WhenContext): string | null {
+  const expr = parseWhen(clause)
+  return evaluate(expr, context) ? null : explain(expr, context)
+}
+
+type Constraint =
+  | { key: string; kind: 'truthy' | 'falsy' }
+  | { key: string; kind: 'eq' | 'neq'; value: WhenValue }
+
+/**
+ * Conditions a clause requires to be true (from its top-level `&&` chain; `||` branches are ignored)
+ */
+function requiredConstraints(expr: WhenExpr): Constraint[] {
+  switch (expr.type) {
+    case 'key': return [{ key: expr.key, kind: 'truthy' }]
+    case 'equals': return [{ key: expr.key, kind: expr.negated ? 'neq' : 'eq', value: expr.value }]
+    case 'and': return expr.exprs.flatMap(requiredConstraints)
+    case 'not': {
+      const inner = expr.expr
+      if (inner.type === 'key') return [{ key: inner.key, kind: 'falsy' }]
+      if (inner.type === 'equals') return [{ key: inner.key, kind: inner.negated ? 'eq' : 'neq', value: inner.value }]
+      if (inner.type === 'not') return requiredConstraints(inner.expr)
+      return []
+    }
+    default: return []
+  }
+}
+
+function contradicts(a: Constraint, b: Constraint): boolean {
+  if (a.key !== b.key) return false
+  if (b.kind === 'eq' && a.kind !== 'eq') return contradicts(b, a)
+  switch (a.kind) {
+    case 'eq':
+      if (b.kind === 'eq') return a.value !== b.value
+      if (b.kind === 'neq') return a.value === b.value
+      return b.kind === 'truthy' ? !a.value : !!a.value
+    case 'truthy': return b.kind === 'falsy'
+    case 'falsy': return b.kind === 'truthy'
+    case 'neq': return false
+  }
+}
+
+/**
+ * Whether two `when` clauses can never both be true (e.g. `editorFocused` and `!editorFocused`),
+ * so actions guarded by them may share a key without conflicting. Conservative: only
+ * contradictions between the clauses' top-level `&&` terms are detected.
+ */
+export function whenClausesExclusive(a: string, b: string): boolean {
+  const exprA = parseWhen(a)
+  const exprB = parseWhen(b)
+  if ((exprA.type === 'literal' && !exprA.value) || (exprB.type === 'literal' && !exprB.value)) return true
+  const constraintsB = requiredConstraints(exprB)
+  return requiredConstraints(exprA).some(ca => constraintsB.some(cb => contradicts(ca, cb)))
+}